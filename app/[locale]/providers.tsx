@@ -4,6 +4,7 @@ import { I18nProvider } from "@/lib/i18n";
 import { PwaProvider } from "@/components/providers/PwaProvider";
 import { AuthProvider } from "@/lib/context/AuthContext";
 import { KnowledgeProvider } from "@/lib/context/KnowledgeContext";
+import { TranslationsProvider } from "@/lib/context/TranslationsContext";
 import type { ReactNode } from "react";
 
 export function Providers({ children }: { children: ReactNode }) {
@@ -11,7 +12,9 @@ export function Providers({ children }: { children: ReactNode }) {
         <I18nProvider>
             <AuthProvider>
                 <KnowledgeProvider>
-                    <PwaProvider>{children}</PwaProvider>
+                    <TranslationsProvider>
+                        <PwaProvider>{children}</PwaProvider>
+                    </TranslationsProvider>
                 </KnowledgeProvider>
             </AuthProvider>
         </I18nProvider>
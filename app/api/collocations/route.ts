@@ -1,9 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import {
+    ASSOCIATION_MEASURES,
+    associationStrength,
+    computeAssociationScores,
+    isAssociationMeasure,
+} from "@/lib/search/associationMeasures";
 
 /**
- * GET /api/collocations?root=فعل&window=ayah&min_pmi=1.0&limit=20
- * Returns roots that co-occur with the given root, sorted by PMI.
+ * GET /api/collocations?root=فعل&window=ayah&measure=logLikelihood&min_pmi=1.0&limit=20
+ * Returns roots that co-occur with the given root, ranked by the chosen
+ * association measure (default PMI) with every measure included per collocate.
+ * `min_pmi` defaults to 1.0 when ranking by PMI and is off otherwise.
  */
 export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
@@ -13,21 +21,51 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: "root param is required" }, { status: 400 });
     }
 
+    const measure = searchParams.get("measure") ?? "pmi";
+    if (!isAssociationMeasure(measure)) {
+        return NextResponse.json(
+            { error: `measure must be one of: ${ASSOCIATION_MEASURES.join(", ")}` },
+            { status: 400 }
+        );
+    }
+
     const windowType = searchParams.get("window") ?? "ayah";
-    const minPmi = Number(searchParams.get("min_pmi") ?? "1.0");
+    const minPmiParam = searchParams.get("min_pmi");
+    const minPmi = minPmiParam !== null ? Number(minPmiParam) : measure === "pmi" ? 1.0 : -Infinity;
     const limit = Math.min(Number(searchParams.get("limit") ?? "20"), 100);
 
     try {
         const supabase = await createClient();
-        const { data, error } = await supabase.rpc("get_collocates", {
+        const { data, error } = await supabase.rpc("get_collocate_counts", {
             target_root: root,
             window_type: windowType,
-            min_pmi: minPmi,
-            limit_n: limit,
+            min_count: 2,
         });
         if (error) throw error;
 
-        return NextResponse.json({ collocates: data ?? [] });
+        const collocates = (data ?? [])
+            .map((row) => {
+                const counts = {
+                    cooccurrence: row.co_count,
+                    targetFreq: row.target_count,
+                    collocateFreq: row.collocate_count,
+                    totalWindows: row.total_windows,
+                };
+                const measures = computeAssociationScores(counts);
+                return {
+                    root: row.root,
+                    co_count: row.co_count,
+                    surah_count: row.surah_count,
+                    pmi: measures.pmi,
+                    measures,
+                    score: associationStrength(measure, measures, counts),
+                };
+            })
+            .filter((row) => row.pmi >= minPmi)
+            .sort((a, b) => b.score - a.score || b.co_count - a.co_count)
+            .slice(0, limit);
+
+        return NextResponse.json({ measure, collocates });
     } catch (err) {
         console.error("[/api/collocations]", err);
         return NextResponse.json({ error: "Collocation query failed" }, { status: 500 });
@@ -123,20 +123,47 @@ describe("GET /api/collocations", () => {
         expect(body.error).toMatch(/root param/);
     });
 
-    it("calls get_collocates with correct params and returns collocates", async () => {
-        const rows = [{ co_root: "علم", pmi: 3.2 }];
+    it("calls get_collocate_counts and ranks collocates by PMI by default", async () => {
+        const rows = [
+            { root: "علم", co_count: 10, target_count: 20, collocate_count: 30, total_windows: 1000, surah_count: 4 },
+            { root: "قول", co_count: 12, target_count: 20, collocate_count: 200, total_windows: 1000, surah_count: 6 },
+        ];
         mockRpc.mockResolvedValue({ data: rows, error: null });
 
         const res = await collocationsGET(makeRequest("/api/collocations?root=صلو&min_pmi=1.5&limit=10"));
 
-        expect(mockRpc).toHaveBeenCalledWith("get_collocates", expect.objectContaining({
+        expect(mockRpc).toHaveBeenCalledWith("get_collocate_counts", expect.objectContaining({
             target_root: "صلو",
-            min_pmi: 1.5,
-            limit_n: 10,
+            window_type: "ayah",
         }));
         expect(res.status).toBe(200);
         const body = await res.json();
-        expect(body.collocates).toEqual(rows);
+        expect(body.measure).toBe("pmi");
+        // قول has PMI ≈ 1.58, علم ≈ 4.06.
+        expect(body.collocates.map((row: { root: string }) => row.root)).toEqual(["علم", "قول"]);
+        expect(body.collocates[0].measures.logDice).toBeCloseTo(12.678, 3);
+    });
+
+    it("ranks by the requested measure", async () => {
+        const rows = [
+            { root: "علم", co_count: 2, target_count: 20, collocate_count: 2, total_windows: 1000, surah_count: 1 },
+            { root: "قول", co_count: 15, target_count: 20, collocate_count: 100, total_windows: 1000, surah_count: 9 },
+        ];
+        mockRpc.mockResolvedValue({ data: rows, error: null });
+
+        const byPmi = await (await collocationsGET(makeRequest("/api/collocations?root=صلو"))).json();
+        const byTScore = await (await collocationsGET(makeRequest("/api/collocations?root=صلو&measure=tScore"))).json();
+
+        expect(byPmi.collocates[0].root).toBe("علم");
+        expect(byTScore.measure).toBe("tScore");
+        expect(byTScore.collocates[0].root).toBe("قول");
+    });
+
+    it("returns 400 for an unknown measure", async () => {
+        const res = await collocationsGET(makeRequest("/api/collocations?root=صلو&measure=zscore"));
+        expect(res.status).toBe(400);
+        const body = await res.json();
+        expect(body.error).toMatch(/measure/);
     });
 
     it("returns 500 on Supabase error", async () => {
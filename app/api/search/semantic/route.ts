@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { createOpenAIEmbeddingProvider } from "@/lib/search/embeddings";
 
 /**
  * POST /api/search/semantic
  * Body: { query: string; limit?: number }
  *
  * Generates an embedding via OpenAI, then calls search_roots_semantic().
+ * Without OPENAI_API_KEY this returns 503; clients then rely on the local
+ * embeddings in the corpus worker (`semantic` query) instead.
  */
 export async function POST(request: NextRequest) {
     const body = await request.json().catch(() => null);
@@ -21,30 +24,13 @@ export async function POST(request: NextRequest) {
     }
 
     try {
-        // Generate embedding with OpenAI text-embedding-3-small (768-dim output)
-        const embeddingRes = await fetch("https://api.openai.com/v1/embeddings", {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                Authorization: `Bearer ${apiKey}`,
-            },
-            body: JSON.stringify({
-                model: "text-embedding-3-small",
-                input: body.query.trim(),
-                dimensions: 768,
-            }),
-        });
-
-        if (!embeddingRes.ok) {
-            const text = await embeddingRes.text();
-            console.error("[/api/search/semantic] OpenAI error:", text);
+        let embedding: number[] | undefined;
+        try {
+            [embedding] = await createOpenAIEmbeddingProvider({ apiKey }).embed([body.query.trim()]);
+        } catch (err) {
+            console.error("[/api/search/semantic] OpenAI error:", err);
             return NextResponse.json({ error: "Embedding generation failed" }, { status: 502 });
         }
-
-        const embData = await embeddingRes.json() as {
-            data: Array<{ embedding: number[] }>;
-        };
-        const embedding = embData.data[0]?.embedding;
         if (!embedding) {
             return NextResponse.json({ error: "Empty embedding response" }, { status: 502 });
         }
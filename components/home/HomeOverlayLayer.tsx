@@ -2,6 +2,7 @@
 
 import AppSidebar from "@/components/ui/AppSidebar";
 import CurrentSelectionPanel from "@/components/ui/CurrentSelectionPanel";
+import GlobalSurahNavigator from "@/components/ui/GlobalSurahNavigator";
 import MobileBottomBar from "@/components/ui/MobileBottomBar";
 import MobileSearchOverlay from "@/components/ui/MobileSearchOverlay";
 import OnboardingOverlay from "@/components/ui/OnboardingOverlay";
@@ -27,6 +28,7 @@ interface HomeOverlayLayerProps {
   vizMode: VisualizationMode;
   selectedSurahId: number;
   selectedAyahInSurah: number | null;
+  theme: "light" | "dark";
   selectedRootValue: string | null;
   selectedLemmaValue: string | null;
   surahName: string;
@@ -87,6 +89,7 @@ export default function HomeOverlayLayer(props: HomeOverlayLayerProps) {
     vizMode,
     selectedSurahId,
     selectedAyahInSurah,
+    theme,
     selectedRootValue,
     selectedLemmaValue,
     surahName,
@@ -276,6 +279,16 @@ export default function HomeOverlayLayer(props: HomeOverlayLayerProps) {
               allTokens={allTokens}
             />
           </div>
+          <GlobalSurahNavigator
+            currentSurahId={selectedSurahId}
+            currentAyah={selectedAyahInSurah}
+            onSurahChange={(surahId) => onSelectSurah(surahId)}
+            onAyahNavigate={(surahId, ayah) => {
+              onSelectSurah(surahId);
+              onTokenFocus(`${surahId}:${ayah}:1`);
+            }}
+            theme={theme}
+          />
         </div>
       ) : null}
 
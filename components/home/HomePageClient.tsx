@@ -91,6 +91,7 @@ function HomePageContent({ initialCorpusData, initialThemePreference }: HomePage
         vizMode={controller.vizMode}
         selectedSurahId={controller.selectedSurahId}
         selectedAyahInSurah={controller.selectedAyahInSurah}
+        theme={controller.theme}
         selectedRootValue={controller.selectedRootValue}
         selectedLemmaValue={controller.selectedLemmaValue}
         surahName={SURAH_NAMES[controller.selectedSurahId]?.name ?? `${controller.selectedSurahId}`}
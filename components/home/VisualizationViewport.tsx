@@ -34,6 +34,8 @@ const RootFlowSankey = buildVizComponent(() => import("@/components/visualisatio
 const CorpusArchitectureMap = buildVizComponent(() => import("@/components/visualisations/CorpusArchitectureMap"));
 const KnowledgeGraphViz = buildVizComponent(() => import("@/components/visualisations/KnowledgeGraphViz"));
 const CollocationNetworkGraph = buildVizComponent(() => import("@/components/visualisations/CollocationNetworkGraph"));
+const FrequencyHeatmap = buildVizComponent(() => import("@/components/visualisations/FrequencyHeatmap"));
+const FormulaicSequencesView = buildVizComponent(() => import("@/components/visualisations/FormulaicSequencesView"));
 
 interface VisualizationViewportProps {
   vizMode: VisualizationMode;
@@ -53,7 +55,7 @@ interface VisualizationViewportProps {
   setFocusedTokenId: (tokenId: string | null) => void;
   setSelectedSurahId: (surahId: number) => void;
   handleRootSelect: (root: string | null) => void;
-  handleSurahSelect: (surahId: number, nextMode?: "radial-sura" | "root-network") => void;
+  handleSurahSelect: (surahId: number, nextMode?: "radial-sura" | "root-network" | "dependency-tree") => void;
 }
 
 export default function VisualizationViewport({
@@ -76,6 +78,11 @@ export default function VisualizationViewport({
   handleRootSelect,
   handleSurahSelect,
 }: VisualizationViewportProps) {
+  const handleAyahNavigate = (surahId: number, tokenId: string) => {
+    setSelectedSurahId(surahId);
+    setFocusedTokenId(tokenId);
+  };
+
   const vizContent = (() => {
     switch (vizMode) {
       case "radial-sura":
@@ -88,6 +95,7 @@ export default function VisualizationViewport({
             onTokenHover={setHoverTokenId}
             onTokenFocus={setFocusedTokenId}
             onRootSelect={handleRootSelect}
+            onAyahNavigate={handleAyahNavigate}
             highlightRoot={selectedRoot}
             theme={theme}
             lexicalColorMode={lexicalColorMode}
@@ -141,6 +149,7 @@ export default function VisualizationViewport({
             groupBy="root"
             onTokenHover={setHoverTokenId}
             onTokenFocus={setFocusedTokenId}
+            onAyahNavigate={handleAyahNavigate}
             selectedSurahId={selectedSurahId}
             selectedAyah={selectedAyahInSurah}
             selectedRoot={selectedRootValue}
@@ -192,6 +201,36 @@ export default function VisualizationViewport({
             theme={theme}
           />
         );
+      case "heatmap":
+        return (
+          <FrequencyHeatmap
+            tokens={allTokens}
+            selectedSurahId={selectedSurahId}
+            highlightRoot={selectedRoot}
+            onTokenHover={setHoverTokenId}
+            onCellSelect={({ surahId, ayah, root, tokenId }) => {
+              if (root) handleRootSelect(root);
+              // POS × ayah cells select the ayah itself, which the dependency view shows
+              handleSurahSelect(surahId, ayah ? "dependency-tree" : "radial-sura");
+              const focusTokenId =
+                tokenId ?? (ayah ? allTokens.find((token) => token.sura === surahId && token.ayah === ayah)?.id : null);
+              if (focusTokenId) setFocusedTokenId(focusTokenId);
+            }}
+            theme={theme}
+          />
+        );
+      case "formulaic-sequences":
+        return (
+          <FormulaicSequencesView
+            tokens={allTokens}
+            onTokenHover={setHoverTokenId}
+            onLocationSelect={({ surahId, tokenIds }) => {
+              handleSurahSelect(surahId, "dependency-tree");
+              setFocusedTokenId(tokenIds[0] ?? null);
+            }}
+            theme={theme}
+          />
+        );
       default:
         return null;
     }
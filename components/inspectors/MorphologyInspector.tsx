@@ -4,6 +4,8 @@ import { useMemo, useState } from "react";
 import { useTranslations } from "next-intl";
 import type { CorpusToken } from "@/lib/schema/types";
 import { SURAH_NAMES } from "@/lib/data/surahData";
+import { OPTIONAL_GLOSS_LANGUAGES, tokenGloss } from "@/lib/corpus/translations";
+import { useTranslationLayers } from "@/lib/context/TranslationsContext";
 
 interface MorphologyInspectorProps {
     token: CorpusToken | null;
@@ -24,6 +26,7 @@ export default function MorphologyInspector({
 }: MorphologyInspectorProps) {
     const t = useTranslations("MorphologyInspector");
     const [sortBy, setSortBy] = useState<"occurrence" | "order">("occurrence");
+    const { languages: glossLanguages, loadingLanguages, failedLanguages, addLanguage, removeLanguage } = useTranslationLayers();
 
     const translateFeature = (type: "keys" | "values" | "pos", term: string) => {
         try {
@@ -166,14 +169,80 @@ export default function MorphologyInspector({
                     </div>
                     <div className="data-item">
                         <span className="label">{t("labels.pos")}</span>
-                        <span className="value">{translateFeature("pos", token.pos)}</span>
+                        <span className="value">{translateFeature("pos", token.posDetailed ?? token.pos)}</span>
                     </div>
                 </div>
             </div>
 
+            {token.segments && token.segments.length > 1 ? (
+                <div className="inspector-section">
+                    <h3>{t("sections.segments")}</h3>
+                    <ol className="segment-list" data-testid="inspector-segments">
+                        {token.segments.map((segment) => (
+                            <li key={segment.index} className={`segment-row segment-${segment.role}`}>
+                                <span className="segment-role">{t(`segmentRoles.${segment.role}`)}</span>
+                                <span className="segment-form arabic-font" lang="ar" dir="rtl">{segment.form || "\u2014"}</span>
+                                <span className="feature-tag">
+                                    <span className="f-key">{segment.tag}</span>
+                                    <span className="f-val">{translateFeature("pos", segment.tag)}</span>
+                                </span>
+                                {Object.entries(segment.features).map(([key, value]) => (
+                                    <span key={key} className="feature-tag">
+                                        <span className="f-key">{translateFeature("keys", key)}</span>
+                                        <span className="f-val">{translateFeature("values", String(value))}</span>
+                                    </span>
+                                ))}
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            ) : null}
+
             <div className="inspector-section">
                 <h3>{t("sections.translation")}</h3>
                 <p className="gloss-text">{token.morphology.gloss || t("noGloss")}</p>
+                <dl className="gloss-languages" data-testid="inspector-glosses">
+                    {["ar", ...glossLanguages].map((language) => {
+                        const gloss = tokenGloss(token, language);
+                        return (
+                            <div key={language} className="gloss-language-row">
+                                <dt>{t(`glossLanguages.${language}`)}</dt>
+                                <dd lang={language} dir="auto" className={language === "ar" ? "arabic-font" : undefined}>
+                                    {gloss ||
+                                        (loadingLanguages.includes(language)
+                                            ? t("glossLoading")
+                                            : failedLanguages.includes(language)
+                                            ? t("glossFailed")
+                                            : t("noGloss"))}
+                                </dd>
+                                {language !== "ar" ? (
+                                    <button
+                                        type="button"
+                                        className="gloss-language-remove"
+                                        onClick={() => removeLanguage(language)}
+                                        aria-label={t("removeGlossLanguage", { language: t(`glossLanguages.${language}`) })}
+                                    >
+                                        {"\u00D7"}
+                                    </button>
+                                ) : null}
+                            </div>
+                        );
+                    })}
+                </dl>
+                {OPTIONAL_GLOSS_LANGUAGES.some((language) => !glossLanguages.includes(language)) ? (
+                    <select
+                        className="inspector-sort-select"
+                        data-testid="inspector-gloss-language"
+                        value=""
+                        onChange={(event) => addLanguage(event.target.value)}
+                        aria-label={t("addGlossLanguage")}
+                    >
+                        <option value="">{t("addGlossLanguage")}</option>
+                        {OPTIONAL_GLOSS_LANGUAGES.filter((language) => !glossLanguages.includes(language)).map((language) => (
+                            <option key={language} value={language}>{t(`glossLanguages.${language}`)}</option>
+                        ))}
+                    </select>
+                ) : null}
             </div>
 
             {Object.keys(token.morphology.features).length > 0 ? (
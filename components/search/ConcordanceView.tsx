@@ -0,0 +1,248 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import type { CorpusToken } from "@/lib/schema/types";
+import { useDebounce } from "@/lib/hooks/useDebounce";
+import { useMushafIndex } from "@/lib/hooks/useMushafIndex";
+import { ayahPagesOf } from "@/lib/corpus/mushaf";
+import { parseSearchQuery } from "@/lib/search/queryParser";
+import { buildSearchCatalog, collectSearchHits } from "@/lib/search/searchService";
+import {
+  buildConcordanceLines,
+  concordanceToDelimited,
+  groupTokensByAyah,
+  sortConcordanceLines,
+  type ConcordanceSort,
+} from "@/lib/search/concordance";
+import { downloadDelimited, type DelimitedFormat } from "@/lib/export/tableExport";
+
+interface ConcordanceViewProps {
+  tokens: CorpusToken[];
+  query: string;
+  onTokenSelect?: (token: CorpusToken) => void;
+}
+
+const CONTEXT_SIZES = [3, 5, 8];
+const PAGE_SIZE = 50;
+
+export default function ConcordanceView({ tokens, query, onTokenSelect }: ConcordanceViewProps) {
+  const t = useTranslations("SearchWorkspace.concordance");
+  const debouncedQuery = useDebounce(query, 250);
+  const [contextSize, setContextSize] = useState(5);
+  const [sort, setSort] = useState<ConcordanceSort>("corpus");
+  const [page, setPage] = useState(0);
+
+  // page: scopes need mushaf page numbers, loaded the first time one is used
+  const hasPageScope = useMemo(
+    () => (parseSearchQuery(debouncedQuery).scopes ?? []).some((scope) => scope.kind === "page"),
+    [debouncedQuery]
+  );
+  const { index: mushafIndex } = useMushafIndex(hasPageScope);
+  const ayahPages = useMemo(() => (mushafIndex ? ayahPagesOf(mushafIndex) : undefined), [mushafIndex]);
+  const catalog = useMemo(() => buildSearchCatalog(tokens, { ayahPages }), [ayahPages, tokens]);
+  const byAyah = useMemo(() => groupTokensByAyah(tokens), [tokens]);
+  const hits = useMemo(() => collectSearchHits(tokens, catalog, debouncedQuery), [catalog, debouncedQuery, tokens]);
+  const lines = useMemo(
+    () => sortConcordanceLines(buildConcordanceLines(hits, byAyah, contextSize), sort),
+    [byAyah, contextSize, hits, sort]
+  );
+
+  const pageCount = Math.max(1, Math.ceil(lines.length / PAGE_SIZE));
+  const pageLines = lines.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  useEffect(() => {
+    setPage(0);
+  }, [debouncedQuery, sort, contextSize]);
+
+  const handleExport = (format: DelimitedFormat) => {
+    downloadDelimited(concordanceToDelimited(lines, format), "quran-concordance", format);
+  };
+
+  if (debouncedQuery.trim().length < 2) {
+    return <p className="ui-empty-copy">{t("empty")}</p>;
+  }
+
+  return (
+    <div className="concordance" data-testid="search-concordance">
+      <div className="concordance-controls">
+        <span className="concordance-count">{t("hits", { count: lines.length })}</span>
+        <label>
+          <span>{t("context")}</span>
+          <select value={contextSize} onChange={(event) => setContextSize(Number(event.target.value))}>
+            {CONTEXT_SIZES.map((size) => (
+              <option key={size} value={size}>{t("contextWords", { count: size })}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span>{t("sort")}</span>
+          <select value={sort} onChange={(event) => setSort(event.target.value as ConcordanceSort)}>
+            <option value="corpus">{t("sortOptions.corpus")}</option>
+            <option value="before">{t("sortOptions.before")}</option>
+            <option value="after">{t("sortOptions.after")}</option>
+            <option value="node">{t("sortOptions.node")}</option>
+          </select>
+        </label>
+        <div className="concordance-export">
+          <button type="button" disabled={lines.length === 0} onClick={() => handleExport("csv")}>CSV</button>
+          <button type="button" disabled={lines.length === 0} onClick={() => handleExport("tsv")}>TSV</button>
+        </div>
+      </div>
+
+      {lines.length === 0 ? (
+        <p className="ui-empty-copy">{t("noHits")}</p>
+      ) : (
+        <div className="concordance-lines" dir="rtl" lang="ar">
+          {pageLines.map((line) => (
+            <button
+              key={line.tokenId}
+              type="button"
+              className="concordance-line"
+              onClick={() => onTokenSelect?.(line.node)}
+            >
+              <span className="concordance-ref" dir="ltr">{line.reference}</span>
+              <span className="concordance-before">
+                <span>{line.before.map((token) => token.text).join(" ")}</span>
+              </span>
+              <span className="concordance-node">{line.node.text}</span>
+              <span className="concordance-after">
+                <span>{line.after.map((token) => token.text).join(" ")}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {pageCount > 1 ? (
+        <div className="concordance-pager">
+          <button type="button" disabled={page === 0} onClick={() => setPage((current) => current - 1)}>
+            {t("previous")}
+          </button>
+          <span>{t("page", { page: page + 1, total: pageCount })}</span>
+          <button type="button" disabled={page >= pageCount - 1} onClick={() => setPage((current) => current + 1)}>
+            {t("next")}
+          </button>
+        </div>
+      ) : null}
+
+      <style jsx>{`
+        .concordance {
+          display: grid;
+          gap: 0.75rem;
+        }
+
+        .concordance-controls {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 0.75rem;
+          font-size: 0.8rem;
+          color: var(--ink-secondary);
+        }
+
+        .concordance-controls label {
+          display: inline-flex;
+          align-items: center;
+          gap: 0.35rem;
+        }
+
+        .concordance-count {
+          font-weight: 700;
+          color: var(--ink);
+        }
+
+        .concordance-export {
+          display: inline-flex;
+          gap: 0.35rem;
+          margin-inline-start: auto;
+        }
+
+        .concordance-controls select,
+        .concordance-export button,
+        .concordance-pager button {
+          border: 1px solid var(--line);
+          border-radius: 8px;
+          padding: 0.3rem 0.6rem;
+          background: var(--ui-surface-muted);
+          color: var(--ink);
+          font-size: 0.78rem;
+          cursor: pointer;
+        }
+
+        .concordance-export button:disabled,
+        .concordance-pager button:disabled {
+          opacity: 0.45;
+          cursor: default;
+        }
+
+        .concordance-lines {
+          display: grid;
+          border: 1px solid var(--line);
+          border-radius: 10px;
+          overflow: hidden;
+        }
+
+        .concordance-line {
+          display: grid;
+          grid-template-columns: 4.5rem minmax(0, 1fr) auto minmax(0, 1fr);
+          align-items: center;
+          gap: 0.75rem;
+          padding: 0.4rem 0.75rem;
+          border: none;
+          border-bottom: 1px solid var(--line);
+          background: none;
+          color: var(--ink);
+          font-family: var(--font-arabic, "Amiri"), serif;
+          font-size: 1.05rem;
+          text-align: start;
+          cursor: pointer;
+        }
+
+        .concordance-line:last-child {
+          border-bottom: none;
+        }
+
+        .concordance-line:hover {
+          background: var(--ui-surface-muted);
+        }
+
+        .concordance-ref {
+          color: var(--ink-muted);
+          font-family: var(--font-sans);
+          font-size: 0.75rem;
+        }
+
+        .concordance-before,
+        .concordance-after {
+          display: flex;
+          overflow: hidden;
+          white-space: nowrap;
+          color: var(--ink-secondary);
+        }
+
+        /* In RTL rows the preceding words sit to the right of the node and hug it. */
+        .concordance-before {
+          justify-content: flex-end;
+        }
+
+        .concordance-after {
+          justify-content: flex-start;
+        }
+
+        .concordance-node {
+          font-weight: 700;
+          color: var(--accent);
+        }
+
+        .concordance-pager {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          gap: 0.75rem;
+          font-size: 0.8rem;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -5,11 +5,14 @@ import { useTranslations } from "next-intl";
 import { trackPerformanceMetric, trackSearchRecoveryShown } from "@/lib/analytics/events";
 import GlobalSearch from "@/components/ui/GlobalSearch";
 import CorpusIndex from "@/components/ui/CorpusIndex";
+import ConcordanceView from "@/components/search/ConcordanceView";
 import AppWorkspaceShell from "@/components/ui/AppWorkspaceShell";
 import { readDevSearchStatus } from "@/lib/dev/testOverrides";
 import { useCorpusData } from "@/lib/hooks/useCorpusData";
 import { deriveCorpusStatusPresentation } from "@/lib/corpus/statusPresentation";
 import type { CorpusOverviewData } from "@/lib/corpus/overviewData";
+import { isScopeTerm, parseSearchQuery } from "@/lib/search/queryParser";
+import { formatScopeRange } from "@/lib/search/searchScope";
 import type { CorpusToken } from "@/lib/schema/types";
 import type { SearchMatchType } from "@/lib/analytics/events";
 
@@ -24,11 +27,25 @@ export default function SearchWorkspace({ initialCorpusData }: SearchWorkspacePr
   const [selectedToken, setSelectedToken] = useState<CorpusToken | null>(null);
   const [selectedRoot, setSelectedRoot] = useState<string | null>(null);
   const [hasTrackedShellRender, setHasTrackedShellRender] = useState(false);
+  const [query, setQuery] = useState("");
+  const [showConcordance, setShowConcordance] = useState(false);
   const statusPresentation = useMemo(
     () => deriveCorpusStatusPresentation(readiness, dataStatus, isLoadingCorpus),
     [dataStatus, isLoadingCorpus, readiness]
   );
 
+  const scopeState = useMemo(() => {
+    const parsed = parseSearchQuery(query);
+    return {
+      labels: (parsed.scopes ?? []).map((scope) => t(`scope.${scope.kind}`, { range: formatScopeRange(scope) })),
+      invalid: parsed.invalidScopes ?? [],
+    };
+  }, [query, t]);
+
+  const clearScope = () => {
+    setQuery(query.split(/\s+/).filter((chunk) => chunk && !isScopeTerm(chunk)).join(" "));
+  };
+
   const summary = useMemo(() => {
     if (!selectedToken) return null;
     return `${selectedToken.sura}:${selectedToken.ayah}`;
@@ -107,6 +124,15 @@ export default function SearchWorkspace({ initialCorpusData }: SearchWorkspacePr
               <h2>{t("quickSearch")}</h2>
               <span>{allTokens.length.toLocaleString()}</span>
           </div>
+          <button
+            type="button"
+            className="workspace-concordance-toggle"
+            aria-pressed={showConcordance}
+            onClick={() => setShowConcordance((current) => !current)}
+            data-testid="search-workspace-concordance-toggle"
+          >
+            {showConcordance ? t("concordance.hide") : t("concordance.show")}
+          </button>
           <GlobalSearch
             tokens={allTokens}
             analyticsSurface="workspace"
@@ -117,7 +143,25 @@ export default function SearchWorkspace({ initialCorpusData }: SearchWorkspacePr
             onTokenHover={() => {}}
             onRootSelect={setSelectedRoot}
             onSearchResultSelected={handleResultSelected}
+            query={query}
+            onQueryChange={setQuery}
           />
+          {scopeState.labels.length > 0 || scopeState.invalid.length > 0 ? (
+            <div className="workspace-scope" data-testid="search-workspace-scope">
+              <span className="ui-kicker">{t("scope.label")}</span>
+              {scopeState.labels.map((label) => (
+                <span key={label} className="ui-pill workspace-scope-chip">{label}</span>
+              ))}
+              {scopeState.invalid.map((term) => (
+                <span key={term} className="ui-pill workspace-scope-chip workspace-scope-chip-invalid">
+                  {t("scope.invalid", { term })}
+                </span>
+              ))}
+              <button type="button" className="workspace-scope-clear" onClick={clearScope}>
+                {t("scope.clear")}
+              </button>
+            </div>
+          ) : null}
           <div className="selection-card ui-card-muted workspace-selection-card">
             <p className="selection-label ui-kicker">{t("currentResult")}</p>
             {selectedToken ? (
@@ -146,11 +190,71 @@ export default function SearchWorkspace({ initialCorpusData }: SearchWorkspacePr
         </section>
       </div>
 
+      {showConcordance ? (
+        <section className="ui-card ui-section-card workspace-concordance">
+          <div className="ui-card-head">
+            <h2>{t("concordance.title")}</h2>
+          </div>
+          <ConcordanceView tokens={allTokens} query={query} onTokenSelect={setSelectedToken} />
+        </section>
+      ) : null}
+
       <style jsx>{`
         .workspace-status-message {
           margin-bottom: 1rem;
         }
 
+        .workspace-concordance-toggle {
+          margin-bottom: 0.75rem;
+          border: none;
+          background: none;
+          padding: 0;
+          color: var(--accent);
+          font-size: 0.8rem;
+          cursor: pointer;
+        }
+
+        .workspace-concordance {
+          margin-top: 1rem;
+        }
+
+        .workspace-scope {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 0.5rem;
+          margin-top: 0.75rem;
+        }
+
+        .workspace-scope .ui-kicker {
+          margin: 0;
+        }
+
+        .workspace-scope-chip {
+          padding: 0.3rem 0.65rem;
+          text-transform: none;
+          letter-spacing: 0;
+        }
+
+        .workspace-scope-chip-invalid {
+          background: var(--ui-danger-bg);
+          color: var(--ui-danger-fg);
+        }
+
+        .workspace-scope-clear {
+          border: none;
+          background: none;
+          padding: 0;
+          color: var(--accent);
+          font-size: 0.8rem;
+          cursor: pointer;
+        }
+
+        .workspace-scope .ui-empty-copy {
+          flex-basis: 100%;
+          margin: 0;
+        }
+
         .selection-card {
           margin-top: 1rem;
         }
@@ -0,0 +1,60 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { useKnowledge } from "@/lib/context/KnowledgeContext";
+import { useCorpusData } from "@/lib/hooks/useCorpusData";
+import { KNOWLEDGE_EXPORT_FORMATS, type KnowledgeExportFormat } from "@/lib/export/knowledgeExport";
+
+// Anki cards and Markdown notes draw lemmas, glosses and ayahs from the corpus
+function CorpusExportButton({ format }: { format: KnowledgeExportFormat }) {
+  const t = useTranslations("Profile");
+  const { exportKnowledge } = useKnowledge();
+  const { allTokens, isLoadingCorpus } = useCorpusData();
+
+  return (
+    <button
+      type="button"
+      className="ui-btn ui-btn-ghost"
+      data-testid="study-export-data"
+      disabled={isLoadingCorpus}
+      onClick={() => void exportKnowledge(format, allTokens)}
+    >
+      {isLoadingCorpus ? t("export.loadingCorpus") : t("exportData")}
+    </button>
+  );
+}
+
+export default function KnowledgeExportControls() {
+  const t = useTranslations("Profile");
+  const { exportKnowledge } = useKnowledge();
+  const [format, setFormat] = useState<KnowledgeExportFormat>("json");
+
+  return (
+    <>
+      <select
+        className="ui-input study-export-format"
+        aria-label={t("export.formatLabel")}
+        data-testid="study-export-format"
+        value={format}
+        onChange={(event) => setFormat(event.target.value as KnowledgeExportFormat)}
+      >
+        {KNOWLEDGE_EXPORT_FORMATS.map((value) => (
+          <option key={value} value={value}>{t(`export.formats.${value}`)}</option>
+        ))}
+      </select>
+      {format === "anki" || format === "markdown" ? (
+        <CorpusExportButton format={format} />
+      ) : (
+        <button
+          type="button"
+          className="ui-btn ui-btn-ghost"
+          data-testid="study-export-data"
+          onClick={() => void exportKnowledge(format)}
+        >
+          {t("exportData")}
+        </button>
+      )}
+    </>
+  );
+}
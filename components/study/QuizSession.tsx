@@ -0,0 +1,147 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import { useKnowledge } from "@/lib/context/KnowledgeContext";
+import { useCorpusData } from "@/lib/hooks/useCorpusData";
+import { buildQuizIndex, generateQuiz, type QuizQuestion } from "@/lib/study/quiz";
+
+interface QuizSessionProps {
+  // Roots to quiz on; taken when the session starts.
+  roots: string[];
+  onClose: () => void;
+}
+
+export default function QuizSession({ roots, onClose }: QuizSessionProps) {
+  const t = useTranslations("Profile");
+  const { answerQuiz } = useKnowledge();
+  const { allTokens, isLoadingCorpus } = useCorpusData();
+  const [seed] = useState(() => Date.now());
+  const [position, setPosition] = useState(0);
+  const [picked, setPicked] = useState<number | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+
+  const questions = useMemo(
+    () => (allTokens.length > 0 ? generateQuiz(buildQuizIndex(allTokens), roots, { seed }) : []),
+    [allTokens, roots, seed]
+  );
+  const question = questions[position] ?? null;
+
+  const handlePick = (choiceIndex: number) => {
+    if (!question || picked !== null) return;
+    const correct = choiceIndex === question.answerIndex;
+    setPicked(choiceIndex);
+    if (correct) setCorrectCount((count) => count + 1);
+    void answerQuiz(question.root, correct);
+  };
+
+  const handleNext = () => {
+    setPicked(null);
+    setPosition((current) => current + 1);
+  };
+
+  const promptFor = (current: QuizQuestion) => {
+    if (current.kind === "lemma-of-root") return t("quiz.prompts.lemmaOfRoot");
+    if (current.kind === "root-in-context") return t("quiz.prompts.rootInContext");
+    if (current.kind === "cloze") return t("quiz.prompts.cloze");
+    return current.choiceType === "form" ? t("quiz.prompts.verbForm") : t("quiz.prompts.partOfSpeech");
+  };
+
+  const choiceLabel = (current: QuizQuestion, choice: string) => {
+    if (current.choiceType === "pos") return t(`quiz.pos.${choice}`);
+    if (current.choiceType === "form") return t("quiz.form", { form: choice.toUpperCase() });
+    return choice;
+  };
+
+  if (questions.length === 0) {
+    return (
+      <div className="review-session" data-testid="study-quiz-session">
+        <p className="ui-empty-copy">{isLoadingCorpus ? t("loadingCorpus") : t("quiz.empty")}</p>
+        <div className="ui-card-actions">
+          <button type="button" className="ui-btn ui-btn-ghost" onClick={onClose}>
+            {t("quiz.end")}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!question) {
+    return (
+      <div className="review-session" data-testid="study-quiz-complete">
+        <p className="ui-empty-copy">{t("quiz.complete", { correct: correctCount, total: questions.length })}</p>
+        <div className="ui-card-actions">
+          <button type="button" className="ui-btn ui-btn-primary" onClick={onClose}>
+            {t("quiz.end")}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="review-session" data-testid="study-quiz-session">
+      <div className="review-session-head">
+        <span className="review-progress">{t("reviewProgress", { current: position + 1, total: questions.length })}</span>
+        <button type="button" className="ui-btn ui-btn-ghost study-root-action" onClick={onClose}>
+          {t("quiz.end")}
+        </button>
+      </div>
+
+      <div className="review-prompt">
+        {question.context ? (
+          <p dir="rtl" className="arabic-text quiz-context" data-testid="study-quiz-context">
+            {question.context.words.map((word, index) => (
+              <span key={word.id}>
+                {index > 0 ? " " : ""}
+                {!word.isTarget ? word.text : question.kind === "cloze" && picked === null ? (
+                  <mark className="quiz-blank">＿＿＿</mark>
+                ) : (
+                  <mark>{word.text}</mark>
+                )}
+              </span>
+            ))}
+          </p>
+        ) : (
+          <span dir="rtl" className="arabic-root review-root">{question.target}</span>
+        )}
+        <p className="ui-empty-copy">{promptFor(question)}</p>
+      </div>
+
+      <div className="quiz-choices">
+        {question.choices.map((choice, index) => {
+          const state = picked === null
+            ? ""
+            : index === question.answerIndex
+              ? " quiz-choice-correct"
+              : index === picked
+                ? " quiz-choice-wrong"
+                : "";
+          return (
+            <button
+              key={choice}
+              type="button"
+              className={`ui-btn ui-btn-ghost quiz-choice${state}`}
+              data-testid={`study-quiz-choice-${index}`}
+              disabled={picked !== null}
+              onClick={() => handlePick(index)}
+            >
+              <span dir={question.choiceType === "arabic" ? "rtl" : undefined}>{choiceLabel(question, choice)}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {picked !== null ? (
+        <div className="ui-card-actions">
+          <span className="root-notes-copy" data-testid="study-quiz-feedback">
+            {picked === question.answerIndex ? t("quiz.correct") : t("quiz.incorrect")}
+          </span>
+          <button type="button" className="ui-btn ui-btn-primary" data-testid="study-quiz-next" onClick={handleNext}>
+            {t("quiz.next")}
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import { useKnowledge } from "@/lib/context/KnowledgeContext";
+import { useCorpusData } from "@/lib/hooks/useCorpusData";
+import { buildRootReviewCard } from "@/lib/study/reviewCard";
+import { REVIEW_GRADES, newReviewSchedule, previewIntervals, type ReviewGrade } from "@/lib/study/scheduler";
+
+interface ReviewSessionProps {
+  // Roots to review, in order; taken when the session starts so grading does not reshuffle it.
+  queue: string[];
+  onClose: () => void;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export default function ReviewSession({ queue: initialQueue, onClose }: ReviewSessionProps) {
+  const t = useTranslations("Profile");
+  const { roots, reviewRoot } = useKnowledge();
+  const { allTokens, isLoadingCorpus } = useCorpusData();
+  const [queue, setQueue] = useState(initialQueue);
+  const [position, setPosition] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const [grading, setGrading] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const currentRoot = queue[position] ?? null;
+  const card = useMemo(
+    () => (currentRoot ? buildRootReviewCard(currentRoot, allTokens) : null),
+    [currentRoot, allTokens]
+  );
+  const preview = useMemo(() => {
+    if (!currentRoot) return null;
+    return previewIntervals(roots.get(currentRoot)?.schedule ?? newReviewSchedule());
+  }, [currentRoot, roots]);
+
+  const formatInterval = (ms: number) => {
+    if (ms < HOUR_MS) return t("intervalMinutes", { count: Math.max(1, Math.round(ms / 60000)) });
+    return t("intervalDays", { count: Math.max(1, Math.round(ms / DAY_MS)) });
+  };
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!currentRoot || grading) return;
+    setGrading(true);
+    try {
+      await reviewRoot(currentRoot, grade);
+      setReviewedCount((count) => count + 1);
+      // Forgotten roots come back at the end of this session
+      if (grade === "again") setQueue((current) => [...current, currentRoot]);
+      setPosition((current) => current + 1);
+      setRevealed(false);
+    } finally {
+      setGrading(false);
+    }
+  };
+
+  if (!currentRoot || !card) {
+    return (
+      <div className="review-session" data-testid="study-review-complete">
+        <p className="ui-empty-copy">{t("reviewComplete", { count: reviewedCount })}</p>
+        <div className="ui-card-actions">
+          <button type="button" className="ui-btn ui-btn-primary" onClick={onClose}>
+            {t("endReview")}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="review-session" data-testid="study-review-session">
+      <div className="review-session-head">
+        <span className="review-progress">{t("reviewProgress", { current: position + 1, total: queue.length })}</span>
+        <button type="button" className="ui-btn ui-btn-ghost study-root-action" onClick={onClose}>
+          {t("endReview")}
+        </button>
+      </div>
+
+      <div className="review-prompt">
+        <span dir="rtl" className="arabic-root review-root" data-testid="study-review-root">{currentRoot}</span>
+        <p className="ui-empty-copy">{t("reviewPrompt")}</p>
+      </div>
+
+      {!revealed ? (
+        <div className="ui-card-actions">
+          <button
+            type="button"
+            className="ui-btn ui-btn-primary"
+            data-testid="study-review-reveal"
+            onClick={() => setRevealed(true)}
+          >
+            {t("showAnswer")}
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="review-answer" data-testid="study-review-answer">
+            {card.occurrences === 0 ? (
+              <p className="ui-empty-copy">{isLoadingCorpus ? t("loadingCorpus") : t("noCorpusData")}</p>
+            ) : (
+              <>
+                <p className="ui-empty-copy">{t("occurrences", { count: card.occurrences })}</p>
+                <div>
+                  <strong>{t("meaningLabel")}</strong>
+                  <p className="root-notes-copy">{card.glosses.join(" · ") || t("noneYet")}</p>
+                </div>
+                <div>
+                  <strong>{t("lemmasLabel")}</strong>
+                  <ul className="review-lemmas">
+                    {card.lemmas.map((lemma) => (
+                      <li key={lemma.lemma}>
+                        <span dir="rtl" className="arabic-text">{lemma.lemma}</span>
+                        <span className="root-notes-copy">
+                          {lemma.gloss ? `${lemma.gloss} · ` : ""}{lemma.count}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <div>
+                  <strong>{t("examplesLabel")}</strong>
+                  <ul className="review-examples">
+                    {card.examples.map((example) => (
+                      <li key={example.ayahId}>
+                        <p dir="rtl" className="arabic-text">
+                          {example.words.map((word, index) => (
+                            <span key={word.id}>
+                              {index > 0 ? " " : ""}
+                              {word.isMatch ? <mark>{word.text}</mark> : word.text}
+                            </span>
+                          ))}
+                        </p>
+                        <span className="root-notes-copy">{example.ayahId}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </>
+            )}
+            {roots.get(currentRoot)?.notes ? (
+              <p className="root-notes-copy">{roots.get(currentRoot)?.notes}</p>
+            ) : null}
+          </div>
+
+          <div className="ui-card-actions review-grades">
+            {REVIEW_GRADES.map((grade) => (
+              <button
+                key={grade}
+                type="button"
+                className={`ui-btn ${grade === "good" ? "ui-btn-primary" : "ui-btn-ghost"} study-root-action`}
+                data-testid={`study-review-grade-${grade}`}
+                disabled={grading}
+                onClick={() => void handleGrade(grade)}
+              >
+                {t(`grades.${grade}`)}
+                {preview ? <small> · {formatInterval(preview[grade])}</small> : null}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
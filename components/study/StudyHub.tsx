@@ -8,6 +8,13 @@ import { useKnowledge } from "@/lib/context/KnowledgeContext";
 import { useRecentExplorationState } from "@/lib/hooks/useRecentExplorationState";
 import type { StudySummary } from "@/lib/schema/appShell";
 import AppWorkspaceShell from "@/components/ui/AppWorkspaceShell";
+import KnowledgeExportControls from "@/components/study/KnowledgeExportControls";
+import QuizSession from "@/components/study/QuizSession";
+import ReviewSession from "@/components/study/ReviewSession";
+import StudyItemsPanel from "@/components/study/StudyItemsPanel";
+import type { KnowledgeCsvError } from "@/lib/export/knowledgeExport";
+import { quizAccuracy } from "@/lib/study/quiz";
+import { dueToday } from "@/lib/study/scheduler";
 
 interface StudyHubProps {
   showBackLink?: boolean;
@@ -23,17 +30,22 @@ export default function StudyHub({ showBackLink = false, title }: StudyHubProps)
     roots,
     stats,
     updateRoot,
-    exportKnowledge,
     importKnowledge,
+    importKnowledgeCsv,
     loading: knowledgeLoading,
     pendingMigration,
     acceptMigration,
     declineMigration,
+    syncStatus,
+    syncNow,
   } = useKnowledge();
   const importRef = useRef<HTMLInputElement>(null);
   const recentExploration = useRecentExplorationState();
   const [editingRoot, setEditingRoot] = useState<string | null>(null);
   const [notesDraft, setNotesDraft] = useState("");
+  const [reviewQueue, setReviewQueue] = useState<string[] | null>(null);
+  const [quizRoots, setQuizRoots] = useState<string[] | null>(null);
+  const [csvErrors, setCsvErrors] = useState<KnowledgeCsvError[]>([]);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -55,9 +67,16 @@ export default function StudyHub({ showBackLink = false, title }: StudyHubProps)
     const file = event.target.files?.[0];
     if (!file) return;
     const text = await file.text();
+    setCsvErrors([]);
     try {
-      const count = await importKnowledge(text, true);
-      alert(t("importSuccess", { count }));
+      if (file.name.toLowerCase().endsWith(".csv")) {
+        const { count, errors } = await importKnowledgeCsv(text);
+        setCsvErrors(errors);
+        if (count > 0) alert(t("importSuccess", { count }));
+      } else {
+        const count = await importKnowledge(text, true);
+        alert(t("importSuccess", { count }));
+      }
     } catch {
       alert(t("importError"));
     }
@@ -72,6 +91,17 @@ export default function StudyHub({ showBackLink = false, title }: StudyHubProps)
     hasPendingMigration: pendingMigration,
   };
 
+  const dueRoots = dueToday(roots.values());
+  const quizTotals = Array.from(roots.values()).reduce(
+    (totals, root) => ({
+      attempts: totals.attempts + (root.quiz?.attempts ?? 0),
+      correct: totals.correct + (root.quiz?.correct ?? 0),
+      lastAttemptAt: Math.max(totals.lastAttemptAt, root.quiz?.lastAttemptAt ?? 0),
+    }),
+    { attempts: 0, correct: 0, lastAttemptAt: 0 }
+  );
+  const overallAccuracy = quizAccuracy(quizTotals);
+
   const beginEditingRoot = (root: string, notes: string) => {
     setEditingRoot(root);
     setNotesDraft(notes);
@@ -128,6 +158,32 @@ export default function StudyHub({ showBackLink = false, title }: StudyHubProps)
         </div>
       ) : null}
 
+      {syncStatus ? (
+        <div className="study-sync-bar ui-card-muted" data-testid="study-sync" aria-live="polite">
+          <span
+            className={`ui-state-pill ${syncStatus.phase === "synced" ? "ui-state-pill-success" : "ui-state-pill-warning"}`}
+            data-testid="study-sync-phase"
+          >
+            {t(`sync.phases.${syncStatus.phase}`)}
+          </span>
+          <span className="study-sync-detail">
+            {syncStatus.pending > 0 || !syncStatus.lastSyncedAt
+              ? t("sync.pending", { count: syncStatus.pending })
+              : t("sync.lastSynced", { time: new Date(syncStatus.lastSyncedAt) })}
+            {syncStatus.phase === "offline" ? ` · ${t("sync.offlineHint")}` : null}
+          </span>
+          <button
+            type="button"
+            className="ui-btn ui-btn-ghost study-root-action"
+            data-testid="study-sync-now"
+            disabled={syncStatus.phase === "syncing"}
+            onClick={() => void syncNow()}
+          >
+            {t("sync.syncNow")}
+          </button>
+        </div>
+      ) : null}
+
       <section className="ui-grid-three study-stats">
         {[
           { label: t("statsTotal"), value: stats.total },
@@ -141,6 +197,54 @@ export default function StudyHub({ showBackLink = false, title }: StudyHubProps)
         ))}
       </section>
 
+      <section className="ui-card ui-section-card section-spacer" data-testid="study-review">
+        <div className="ui-card-head">
+          <h2>{t("reviewTitle")}</h2>
+          <span>{t("dueToday", { count: dueRoots.length })}</span>
+        </div>
+        {reviewQueue ? (
+          <ReviewSession queue={reviewQueue} onClose={() => setReviewQueue(null)} />
+        ) : (
+          <div className="ui-card-actions">
+            <button
+              type="button"
+              className="ui-btn ui-btn-primary"
+              data-testid="study-review-start"
+              disabled={dueRoots.length === 0}
+              onClick={() => setReviewQueue(dueRoots.map((root) => root.root))}
+            >
+              {t("startReview")}
+            </button>
+          </div>
+        )}
+      </section>
+
+      <section className="ui-card ui-section-card section-spacer" data-testid="study-quiz">
+        <div className="ui-card-head">
+          <h2>{t("quiz.title")}</h2>
+          <span>
+            {overallAccuracy === null
+              ? t("quiz.noAttempts")
+              : t("quiz.accuracy", { percent: Math.round(overallAccuracy * 100), attempts: quizTotals.attempts })}
+          </span>
+        </div>
+        {quizRoots ? (
+          <QuizSession roots={quizRoots} onClose={() => setQuizRoots(null)} />
+        ) : (
+          <div className="ui-card-actions">
+            <button
+              type="button"
+              className="ui-btn ui-btn-primary"
+              data-testid="study-quiz-start"
+              disabled={roots.size === 0}
+              onClick={() => setQuizRoots(Array.from(roots.keys()))}
+            >
+              {t("quiz.start")}
+            </button>
+          </div>
+        )}
+      </section>
+
       <section className="ui-grid-two-wide section-spacer">
         <section className="ui-card ui-section-card">
           <div className="ui-card-head">
@@ -183,6 +287,8 @@ export default function StudyHub({ showBackLink = false, title }: StudyHubProps)
         </section>
       </section>
 
+      <StudyItemsPanel />
+
       <section className="ui-grid-two-wide">
         <section className="ui-card ui-section-card">
           <div className="ui-card-head">
@@ -203,6 +309,11 @@ export default function StudyHub({ showBackLink = false, title }: StudyHubProps)
                     >
                       {root.state === "learned" ? t("learned") : t("learning")}
                     </span>
+                    {root.quiz ? (
+                      <span className="root-notes-copy" data-testid={`study-root-quiz-${root.root}`}>
+                        {t("quiz.rootScore", { correct: root.quiz.correct, attempts: root.quiz.attempts })}
+                      </span>
+                    ) : null}
                   </div>
                   <div className="root-row-actions">
                     <button
@@ -267,14 +378,7 @@ export default function StudyHub({ showBackLink = false, title }: StudyHubProps)
           </div>
           <p className="ui-empty-copy">{t("dataAndAccountDescription")}</p>
           <div className="ui-card-actions">
-            <button
-              type="button"
-              className="ui-btn ui-btn-ghost"
-              data-testid="study-export-data"
-              onClick={() => void exportKnowledge()}
-            >
-              {t("exportData")}
-            </button>
+            <KnowledgeExportControls />
             <button
               type="button"
               className="ui-btn ui-btn-ghost"
@@ -295,11 +399,26 @@ export default function StudyHub({ showBackLink = false, title }: StudyHubProps)
               ref={importRef}
               data-testid="study-import-input"
               type="file"
-              accept=".json"
+              accept=".json,.csv"
               hidden
               onChange={handleImport}
             />
           </div>
+          {csvErrors.length > 0 ? (
+            <div className="study-import-errors" role="alert" data-testid="study-import-errors">
+              <strong>{t("import.skippedRows")}</strong>
+              <ul>
+                {csvErrors.map((error) => (
+                  <li key={`${error.row}-${error.code}-${error.column ?? ""}`}>
+                    {t("import.row", {
+                      row: error.row,
+                      message: t(`import.errors.${error.code}`, { column: error.column ?? "", value: error.value ?? "" }),
+                    })}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
         </section>
       </section>
 
@@ -0,0 +1,189 @@
+"use client";
+
+import { useMemo, useState, type FormEvent } from "react";
+import { useTranslations } from "next-intl";
+import { useKnowledge } from "@/lib/context/KnowledgeContext";
+import {
+  STUDY_ITEM_KINDS,
+  describeStudyItemRef,
+  parseCollections,
+  parseStudyItemRef,
+  type StudyItemKind,
+} from "@/lib/study/studyItems";
+
+export default function StudyItemsPanel() {
+  const t = useTranslations("Profile");
+  const { studyItems, collections, saveStudyItem, updateStudyItem, removeStudyItem } = useKnowledge();
+  const [kind, setKind] = useState<StudyItemKind>("ayah");
+  const [reference, setReference] = useState("");
+  const [collectionsInput, setCollectionsInput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [activeCollection, setActiveCollection] = useState<string | null>(null);
+  const [editingItem, setEditingItem] = useState<string | null>(null);
+  const [collectionsDraft, setCollectionsDraft] = useState("");
+
+  const visibleItems = useMemo(
+    () =>
+      Array.from(studyItems.values())
+        .filter((item) => !activeCollection || item.collections.includes(activeCollection))
+        .sort((a, b) => b.addedAt - a.addedAt),
+    [activeCollection, studyItems]
+  );
+
+  const handleAdd = async (event: FormEvent) => {
+    event.preventDefault();
+    const ref = parseStudyItemRef(kind, reference);
+    if (!ref) {
+      setError(t("items.invalidReference", { kind: t(`items.kinds.${kind}`) }));
+      return;
+    }
+    setError(null);
+    await saveStudyItem(ref, { collections: parseCollections(collectionsInput) });
+    setReference("");
+  };
+
+  const handleSaveCollections = async (id: string) => {
+    await updateStudyItem(id, { collections: parseCollections(collectionsDraft) });
+    setEditingItem(null);
+    setCollectionsDraft("");
+  };
+
+  return (
+    <section className="ui-card ui-section-card section-spacer" data-testid="study-items">
+      <div className="ui-card-head">
+        <h2>{t("items.title")}</h2>
+        <span>{studyItems.size}</span>
+      </div>
+
+      <form className="study-item-form" onSubmit={(event) => void handleAdd(event)}>
+        <select
+          className="ui-input"
+          aria-label={t("items.kindLabel")}
+          data-testid="study-item-kind"
+          value={kind}
+          onChange={(event) => setKind(event.target.value as StudyItemKind)}
+        >
+          {STUDY_ITEM_KINDS.map((value) => (
+            <option key={value} value={value}>{t(`items.kinds.${value}`)}</option>
+          ))}
+        </select>
+        <input
+          className="ui-input"
+          aria-label={t("items.referenceLabel")}
+          data-testid="study-item-reference"
+          dir="auto"
+          value={reference}
+          placeholder={t(`items.placeholders.${kind}`)}
+          onChange={(event) => setReference(event.target.value)}
+        />
+        <input
+          className="ui-input"
+          aria-label={t("items.collectionsLabel")}
+          data-testid="study-item-collections"
+          value={collectionsInput}
+          placeholder={t("items.collectionsPlaceholder")}
+          onChange={(event) => setCollectionsInput(event.target.value)}
+        />
+        <button type="submit" className="ui-btn ui-btn-primary" data-testid="study-item-add" disabled={!reference.trim()}>
+          {t("items.add")}
+        </button>
+      </form>
+      {error ? <p className="ui-empty-copy study-item-error" role="alert">{error}</p> : null}
+
+      {collections.length > 0 ? (
+        <div className="study-collection-filter" role="group" aria-label={t("items.collectionsLabel")}>
+          <button
+            type="button"
+            className={`ui-btn ui-btn-ghost study-root-action${activeCollection === null ? " active" : ""}`}
+            aria-pressed={activeCollection === null}
+            onClick={() => setActiveCollection(null)}
+          >
+            {t("items.allCollections")}
+          </button>
+          {collections.map((collection) => (
+            <button
+              key={collection.name}
+              type="button"
+              className={`ui-btn ui-btn-ghost study-root-action${activeCollection === collection.name ? " active" : ""}`}
+              aria-pressed={activeCollection === collection.name}
+              data-testid={`study-collection-${collection.name}`}
+              onClick={() => setActiveCollection(collection.name)}
+            >
+              {collection.name} · {collection.count}
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      {visibleItems.length === 0 ? (
+        <p className="ui-empty-copy">{t("items.empty")}</p>
+      ) : (
+        <ul className="root-list">
+          {visibleItems.map((item) => (
+            <li key={item.id} data-testid={`study-item-${item.id}`}>
+              <div className="root-row-main">
+                <span
+                  dir={item.ref.kind === "root" || item.ref.kind === "lemma" ? "rtl" : "auto"}
+                  className={item.ref.kind === "root" || item.ref.kind === "lemma" ? "arabic-root" : undefined}
+                >
+                  {item.label || describeStudyItemRef(item.ref)}
+                </span>
+                <span className="ui-state-pill">{t(`items.kinds.${item.ref.kind}`)}</span>
+              </div>
+              <div className="root-row-actions">
+                <button
+                  type="button"
+                  className="ui-btn ui-btn-ghost study-root-action"
+                  onClick={() => {
+                    setEditingItem(item.id);
+                    setCollectionsDraft(item.collections.join(", "));
+                  }}
+                >
+                  {t("items.editCollections")}
+                </button>
+                <button
+                  type="button"
+                  className="ui-btn ui-btn-ghost study-root-action"
+                  data-testid={`study-item-remove-${item.id}`}
+                  onClick={() => void removeStudyItem(item.id)}
+                >
+                  {t("items.remove")}
+                </button>
+              </div>
+              {editingItem === item.id ? (
+                <div className="root-notes-editor">
+                  <input
+                    className="ui-input"
+                    aria-label={t("items.collectionsLabel")}
+                    value={collectionsDraft}
+                    placeholder={t("items.collectionsPlaceholder")}
+                    onChange={(event) => setCollectionsDraft(event.target.value)}
+                  />
+                  <div className="ui-card-actions">
+                    <button
+                      type="button"
+                      className="ui-btn ui-btn-primary study-root-action"
+                      onClick={() => void handleSaveCollections(item.id)}
+                    >
+                      {t("items.saveCollections")}
+                    </button>
+                    <button type="button" className="ui-btn ui-btn-ghost study-root-action" onClick={() => setEditingItem(null)}>
+                      {t("cancel")}
+                    </button>
+                  </div>
+                </div>
+              ) : item.collections.length > 0 ? (
+                <div className="study-item-tags">
+                  {item.collections.map((name) => (
+                    <span key={name} className="study-item-tag">{name}</span>
+                  ))}
+                </div>
+              ) : null}
+              {item.notes ? <p className="root-notes-copy">{item.notes}</p> : null}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
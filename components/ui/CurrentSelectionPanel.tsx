@@ -6,6 +6,8 @@ import type { VisualizationMode } from "@/lib/schema/visualizationTypes";
 import type { CorpusToken } from "@/lib/schema/types";
 import { SURAH_NAMES } from "@/lib/data/surahData";
 import { useKnowledge } from "@/lib/context/KnowledgeContext";
+import { useCorpusQuery } from "@/lib/hooks/useCorpusQuery";
+import type { DispersionStats } from "@/lib/search/dispersion";
 
 interface CurrentSelectionPanelProps {
   vizMode: VisualizationMode;
@@ -60,6 +62,33 @@ export default function CurrentSelectionPanel({
 
   const tViz = useTranslations('VisualizationSwitcher.modes');
 
+  const hasTokens = allTokens.length > 0;
+  const { data: rootDispersion } = useCorpusQuery(
+    allTokens,
+    hasTokens && selectedRoot ? { type: "dispersion", feature: "root" } : null
+  );
+  const { data: lemmaDispersion } = useCorpusQuery(
+    allTokens,
+    hasTokens && selectedLemma ? { type: "dispersion", feature: "lemma" } : null
+  );
+  const selectedRootDispersion = selectedRoot ? rootDispersion?.get(selectedRoot) ?? null : null;
+  const selectedLemmaDispersion = selectedLemma ? lemmaDispersion?.get(selectedLemma) ?? null : null;
+
+  const renderDispersion = (stats: DispersionStats, testId: string) => (
+    <div className="ui-context-row" data-testid={testId}>
+      <span className="ui-context-label">{t('labels.dispersion')}</span>
+      <span className="ui-context-value" title={t('dispersion.hint')}>
+        {t('dispersion.summary', {
+          dp: stats.dp.toFixed(2),
+          d: stats.juillandD.toFixed(2),
+          cv: stats.cv.toFixed(2),
+          range: stats.range,
+          parts: stats.parts,
+        })}
+      </span>
+    </div>
+  );
+
   const ayahTokensText = useMemo(() => {
     if (!selectedAyah || !selectedSurahId) return null;
 
@@ -151,6 +180,7 @@ export default function CurrentSelectionPanel({
                 ) : "-"}
               </span>
             </div>
+            {selectedRootDispersion && renderDispersion(selectedRootDispersion, "selection-row-root-dispersion")}
             <div className="ui-context-row" data-testid="selection-row-lemma">
               <span className="ui-context-label">{t('labels.lemma')}</span>
               <span className="ui-context-value arabic-text">
@@ -191,6 +221,7 @@ export default function CurrentSelectionPanel({
                 ) : "-"}
               </span>
             </div>
+            {selectedLemmaDispersion && renderDispersion(selectedLemmaDispersion, "selection-row-lemma-dispersion")}
             <div className="ui-context-row" data-testid="selection-row-token">
               <span className="ui-context-label">{t('labels.token')}</span>
               <span className="ui-context-value arabic-text">{activeToken?.text ?? "-"}</span>
@@ -313,7 +313,7 @@ export default function DisplaySettingsPanel({
             <p className="display-settings-note">
               {t("knowledge.stats", { total: stats.total, learning: stats.learning, learned: stats.learned })}
             </p>
-            <button type="button" className="custom-reset-btn" onClick={exportKnowledge}>
+            <button type="button" className="custom-reset-btn" onClick={() => void exportKnowledge()}>
               {t("knowledge.export")}
             </button>
             <button type="button" className="custom-reset-btn" onClick={() => fileInputRef.current?.click()}>
@@ -5,8 +5,11 @@ import { useTranslations } from "next-intl";
 import type { CorpusToken } from "@/lib/schema/types";
 import { useDebounce } from "@/lib/hooks/useDebounce";
 import { trackPerformanceMetric, type SearchMatchType } from "@/lib/analytics/events";
-import { buildSearchCatalog, groupSearchResults, searchCorpus } from "@/lib/search/searchService";
+import { groupSearchResults } from "@/lib/search/searchService";
+import { hasQueryOperators, parseBooleanQuery } from "@/lib/search/queryGrammar";
 import type { SearchResultItem } from "@/lib/search/searchTypes";
+import { useCorpusQuery } from "@/lib/hooks/useCorpusQuery";
+import { getCorpusWorker, isAbortError } from "@/lib/workers/corpusWorkerClient";
 
 interface GlobalSearchProps {
   tokens: CorpusToken[];
@@ -17,6 +20,9 @@ interface GlobalSearchProps {
   onSearchQuerySubmitted?: (query: string) => void;
   onSearchResultSelected?: (matchType: SearchMatchType) => void;
   analyticsSurface?: "header" | "sidebar" | "mobile" | "workspace" | "unknown";
+  // Optional controlled query, for hosts that edit or display the query themselves.
+  query?: string;
+  onQueryChange?: (query: string) => void;
 }
 
 export default function GlobalSearch({
@@ -28,6 +34,8 @@ export default function GlobalSearch({
   onSearchQuerySubmitted,
   onSearchResultSelected,
   analyticsSurface = "unknown",
+  query: controlledQuery,
+  onQueryChange,
 }: GlobalSearchProps) {
   const t = useTranslations("GlobalSearch");
   const typeLabelMap: Record<SearchMatchType, string> = {
@@ -39,7 +47,15 @@ export default function GlobalSearch({
     gloss: t("types.gloss"),
     semantic: "Semantic",
   };
-  const [query, setQuery] = useState("");
+  const [internalQuery, setInternalQuery] = useState("");
+  const query = controlledQuery ?? internalQuery;
+  const setQuery = useCallback(
+    (next: string) => {
+      if (controlledQuery === undefined) setInternalQuery(next);
+      onQueryChange?.(next);
+    },
+    [controlledQuery, onQueryChange]
+  );
   const debouncedQuery = useDebounce(query, 200);
   const [isOpen, setIsOpen] = useState(false);
   const [selectedIndex, setSelectedIndex] = useState(0);
@@ -48,12 +64,44 @@ export default function GlobalSearch({
   const mountedAtRef = useRef<number>(performance.now());
   const hasTrackedInteractionRef = useRef(false);
 
-  const catalog = useMemo(() => buildSearchCatalog(tokens), [tokens]);
-  const results = useMemo<SearchResultItem[]>(
-    () => searchCorpus(tokens, catalog, debouncedQuery),
-    [catalog, debouncedQuery, tokens]
+  const { data: firstPage } = useCorpusQuery(tokens, { type: "search", query: debouncedQuery });
+  const firstItems = useMemo(() => firstPage?.items ?? [], [firstPage]);
+  const [morePages, setMorePages] = useState<{ query: string; items: SearchResultItem[]; nextCursor: string | null } | null>(null);
+  const loadedMore = morePages?.query === debouncedQuery ? morePages : null;
+  const nextCursor = loadedMore ? loadedMore.nextCursor : (firstPage?.nextCursor ?? null);
+  // Related roots from the local embeddings, offline like the rest of search.
+  const { data: semanticItems } = useCorpusQuery(
+    tokens,
+    debouncedQuery.trim().length >= 3 ? { type: "semantic", query: debouncedQuery } : null
+  );
+  const groupedResults = useMemo(() => {
+    const direct = loadedMore ? [...firstItems, ...loadedMore.items] : firstItems;
+    const directRoots = new Set(direct.filter((item) => item.kind === "root").map((item) => item.matchedRoot));
+    const related = (semanticItems ?? []).filter((item) => !directRoots.has(item.matchedRoot));
+    return groupSearchResults([...direct, ...related]);
+  }, [firstItems, loadedMore, semanticItems]);
+  // Keyboard order follows the grouped display order.
+  const results = useMemo(() => groupedResults.flatMap((group) => group.items), [groupedResults]);
+
+  const handleLoadMore = useCallback(() => {
+    if (!nextCursor) return;
+    getCorpusWorker(tokens)
+      .run({ type: "search", query: debouncedQuery, cursor: nextCursor })
+      .then((page) => {
+        setMorePages({
+          query: debouncedQuery,
+          items: [...(loadedMore?.items ?? []), ...page.items],
+          nextCursor: page.nextCursor,
+        });
+      })
+      .catch((error: unknown) => {
+        if (!isAbortError(error)) console.error("[GlobalSearch] Failed to load more results:", error);
+      });
+  }, [debouncedQuery, loadedMore, nextCursor, tokens]);
+  const syntaxError = useMemo(
+    () => (hasQueryOperators(debouncedQuery) ? parseBooleanQuery(debouncedQuery).error : null),
+    [debouncedQuery]
   );
-  const groupedResults = useMemo(() => groupSearchResults(results), [results]);
 
   const handleSelectResult = useCallback(
     (result: SearchResultItem) => {
@@ -61,7 +109,7 @@ export default function GlobalSearch({
       if (!tokenId) return;
       onTokenSelect(tokenId);
       onSearchResultSelected?.(result.kind as SearchMatchType);
-      if (result.kind === "root" && result.matchedRoot && onRootSelect) {
+      if ((result.kind === "root" || result.kind === "semantic") && result.matchedRoot && onRootSelect) {
         onRootSelect(result.matchedRoot);
       }
       setIsOpen(false);
@@ -99,7 +147,7 @@ export default function GlobalSearch({
 
   useEffect(() => {
     setSelectedIndex(0);
-  }, [results]);
+  }, [debouncedQuery]);
 
   useEffect(() => {
     if (!resultsRef.current || results.length === 0) return;
@@ -201,12 +249,24 @@ export default function GlobalSearch({
               })}
             </div>
           ))}
+          {nextCursor ? (
+            <button
+              type="button"
+              className="search-load-more"
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={handleLoadMore}
+            >
+              {t("showMore", { shown: results.length, total: firstPage?.total ?? results.length })}
+            </button>
+          ) : null}
         </div>
       ) : null}
 
       {isOpen && query.length >= 2 && results.length === 0 ? (
         <div className="search-results-dropdown">
-          <div className="search-no-results">{t("noResults")}</div>
+          <div className="search-no-results">
+            {syntaxError ? t("syntaxError", { message: syntaxError }) : t("noResults")}
+          </div>
         </div>
       ) : null}
     </div>
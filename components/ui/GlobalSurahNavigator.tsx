@@ -1,37 +1,87 @@
 "use client";
 
-import { useCallback } from "react";
+import { useCallback, useState } from "react";
+import type { ChangeEvent } from "react";
+import { useTranslations } from "next-intl";
 import { SURAH_NAMES } from "@/lib/data/surahData";
+import {
+    MUSHAF_DIVISIONS,
+    divisionCount,
+    divisionStart,
+    groupNumberOf,
+    type CorpusGrouping,
+} from "@/lib/corpus/mushaf";
+import { useMushafIndex } from "@/lib/hooks/useMushafIndex";
 
 interface GlobalSurahNavigatorProps {
     currentSurahId: number;
     onSurahChange: (id: number) => void;
+    // Ayah used to place the reader in a juz, hizb, page, ...; defaults to the first ayah.
+    currentAyah?: number | null;
+    // Called when stepping by a mushaf division lands mid-surah; falls back to onSurahChange.
+    onAyahNavigate?: (surahId: number, ayah: number) => void;
     theme?: "light" | "dark";
 }
 
 export default function GlobalSurahNavigator({
     currentSurahId,
     onSurahChange,
+    currentAyah,
+    onAyahNavigate,
     theme = "dark",
 }: GlobalSurahNavigatorProps) {
+    const t = useTranslations("GlobalSurahNavigator");
     const surah = SURAH_NAMES[currentSurahId];
+    const [division, setDivision] = useState<CorpusGrouping>("surah");
+    const { index, loading, error } = useMushafIndex(division !== "surah");
+
+    const ayah = currentAyah ?? 1;
+    const position = index?.positions.get(`${currentSurahId}:${ayah}`) ?? null;
+    const current = division === "surah" ? currentSurahId : groupNumberOf(index, division, currentSurahId, ayah);
+    const count = division === "surah" ? 114 : index ? divisionCount(index, division) : 0;
+
+    const goTo = useCallback((number: number) => {
+        if (division === "surah") {
+            onSurahChange(number);
+            return;
+        }
+        const start = index ? divisionStart(index, division, number) : null;
+        if (!start) return;
+        if (onAyahNavigate) onAyahNavigate(start[0], start[1]);
+        else onSurahChange(start[0]);
+    }, [division, index, onAyahNavigate, onSurahChange]);
 
     const handlePrev = useCallback(() => {
-        if (currentSurahId > 1) onSurahChange(currentSurahId - 1);
-    }, [currentSurahId, onSurahChange]);
+        if (current !== null && current > 1) goTo(current - 1);
+    }, [current, goTo]);
 
     const handleNext = useCallback(() => {
-        if (currentSurahId < 114) onSurahChange(currentSurahId + 1);
-    }, [currentSurahId, onSurahChange]);
+        if (current !== null && current < count) goTo(current + 1);
+    }, [current, count, goTo]);
 
     if (!surah) return null;
 
     return (
         <div className="surah-navigator" data-theme={theme}>
+            <select
+                className="division-select"
+                data-testid="surah-navigator-division"
+                value={division}
+                onChange={(e: ChangeEvent<HTMLSelectElement>) => setDivision(e.target.value as CorpusGrouping)}
+                aria-label={t("navigateBy")}
+                title={t("navigateBy")}
+            >
+                <option value="surah">{t("divisions.surah")}</option>
+                {MUSHAF_DIVISIONS.map((entry) => (
+                    <option key={entry} value={entry}>{t(`divisions.${entry}`)}</option>
+                ))}
+            </select>
+
             <button
                 className="nav-btn"
                 onClick={handlePrev}
-                disabled={currentSurahId <= 1}
+                disabled={current === null || current <= 1}
+                aria-label={t("previous")}
             >
                 ←
             </button>
@@ -41,13 +91,30 @@ export default function GlobalSurahNavigator({
                 <div className="surah-names">
                     <span className="surah-name-en">{surah.name}</span>
                     <span className="surah-name-ar arabic-text">{surah.arabic}</span>
+                    {division !== "surah" && (
+                        <span className="division-position" data-testid="surah-navigator-position">
+                            {loading
+                                ? t("loading")
+                                : error
+                                    ? t("unavailable")
+                                    : current !== null
+                                        ? t("position", { division: t(`divisions.${division}`), number: current, count })
+                                        : null}
+                        </span>
+                    )}
                 </div>
+                {position?.sajdah != null && (
+                    <span className="sajdah-badge" title={t("sajdahHint")}>
+                        {t("sajdah", { number: position.sajdah })}
+                    </span>
+                )}
             </div>
 
             <button
                 className="nav-btn"
                 onClick={handleNext}
-                disabled={currentSurahId >= 114}
+                disabled={current === null || current >= count}
+                aria-label={t("next")}
             >
                 →
             </button>
@@ -122,6 +189,30 @@ export default function GlobalSurahNavigator({
           opacity: 0.8;
         }
 
+        .division-select {
+          font-size: 11px;
+          padding: 2px 4px;
+          border-radius: 6px;
+          border: 1px solid rgba(255, 255, 255, 0.15);
+          background: transparent;
+          color: inherit;
+        }
+
+        .division-position {
+          font-size: 10px;
+          opacity: 0.7;
+          margin-top: 2px;
+        }
+
+        .sajdah-badge {
+          font-size: 10px;
+          padding: 1px 6px;
+          border-radius: 99px;
+          background: var(--accent);
+          color: white;
+          white-space: nowrap;
+        }
+
         :global([data-theme="light"]) .surah-navigator {
           background: rgba(0, 0, 0, 0.05);
           border-color: rgba(0, 0, 0, 0.05);
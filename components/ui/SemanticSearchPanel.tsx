@@ -2,12 +2,13 @@
 
 import { useMemo, useState } from "react";
 import type { CorpusToken, PartOfSpeech } from "@/lib/schema/types";
-import { buildPhaseOneIndexes, queryPhaseOne } from "@/lib/search/indexes";
 import { parseSearchQuery } from "@/lib/search/queryParser";
 import { normalizeRootFamily } from "@/lib/search/arabicNormalize";
+import { FEATURE_DIMENSIONS, FEATURE_VALUES, formatFeatureKey, getTokenFeatureKeys } from "@/lib/schema/morphFeatures";
 import { SURAH_NAMES } from "@/lib/data/surahData";
 import { useTranslations } from "next-intl";
 import { useDebounce } from "@/lib/hooks/useDebounce";
+import { useCorpusQuery } from "@/lib/hooks/useCorpusQuery";
 
 interface SemanticSearchPanelProps {
   tokens: CorpusToken[];
@@ -31,6 +32,7 @@ export default function SemanticSearchPanel({
   const [lemma, setLemma] = useState("");
   const [pos, setPos] = useState<PartOfSpeech | "">("");
   const [ayah, setAyah] = useState("");
+  const [featureFilters, setFeatureFilters] = useState<string[]>([]);
   const t = useTranslations('SemanticSearchPanel');
 
   const debouncedQuery = useDebounce(query, 250);
@@ -39,18 +41,10 @@ export default function SemanticSearchPanel({
   const debouncedAyah = useDebounce(ayah, 250);
   const parsedQuery = useMemo(() => parseSearchQuery(debouncedQuery), [debouncedQuery]);
 
-  const scopedTokens = useMemo(() => {
-    if (scope.type === "surah") {
-      return tokens.filter((token) => token.sura === scope.surahId);
-    }
-    return tokens;
-  }, [tokens, scope]);
-
   const tokenById = useMemo(
-    () => new Map(scopedTokens.map((t) => [t.id, t])),
-    [scopedTokens]
+    () => new Map(tokens.map((t) => [t.id, t])),
+    [tokens]
   );
-  const index = useMemo(() => buildPhaseOneIndexes(scopedTokens), [scopedTokens]);
 
   const normalizedAyahQuery = useMemo(() => {
     if (!debouncedAyah) return "";
@@ -88,15 +82,58 @@ export default function SemanticSearchPanel({
     return "";
   }, [normalizedAyahQuery, parsedQuery, scope]);
 
-  const results = useMemo(() => {
-    const ids = queryPhaseOne(index, {
-      root: effectiveRoot || undefined,
-      lemma: effectiveLemma || undefined,
-      pos: effectivePos || undefined,
-      ayah: effectiveAyah || undefined
-    });
-    return [...ids].map((id) => tokenById.get(id)).filter((token): token is CorpusToken => !!token);
-  }, [index, effectiveRoot, effectiveLemma, effectivePos, effectiveAyah, tokenById]);
+  const phaseOneQuery = useMemo(() => {
+    const features = [...(parsedQuery.features ?? []), ...featureFilters];
+    const scopes = parsedQuery.scopes ?? [];
+    if (!effectiveRoot && !effectiveLemma && !effectivePos && !effectiveAyah && features.length === 0 && scopes.length === 0) {
+      return null;
+    }
+    return {
+      type: "phaseOne" as const,
+      query: {
+        root: effectiveRoot || undefined,
+        lemma: effectiveLemma || undefined,
+        pos: effectivePos || undefined,
+        ayah: effectiveAyah || undefined,
+        features,
+        // The worker indexes the whole corpus; a surah panel narrows it with a scope.
+        scopes: scope.type === "surah" ? [...scopes, { kind: "surah" as const, from: scope.surahId, to: scope.surahId }] : scopes,
+      },
+    };
+  }, [effectiveRoot, effectiveLemma, effectivePos, effectiveAyah, parsedQuery, featureFilters, scope]);
+  const { data: resultIds } = useCorpusQuery(tokens, phaseOneQuery);
+
+  const results = useMemo(
+    () => (resultIds ?? []).map((id) => tokenById.get(id)).filter((token): token is CorpusToken => !!token),
+    [resultIds, tokenById]
+  );
+
+  // Feature facets over the current results; selecting a value narrows them further.
+  const featureFacets = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const token of results) {
+      for (const key of getTokenFeatureKeys(token)) counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    return FEATURE_DIMENSIONS.map((dimension) => ({
+      dimension,
+      values: FEATURE_VALUES[dimension]
+        .map((value) => ({ key: formatFeatureKey(dimension, value), value }))
+        .map((entry) => ({ ...entry, count: counts.get(entry.key) ?? 0 }))
+        .filter((entry) => entry.count > 0 || featureFilters.includes(entry.key)),
+    })).filter((facet) => facet.values.length > 0);
+  }, [featureFilters, results]);
+
+  const toggleFeatureFilter = (key: string) => {
+    setFeatureFilters((current) =>
+      current.includes(key) ? current.filter((entry) => entry !== key) : [...current, key]
+    );
+  };
+
+  const featureValueLabel = (dimension: string, value: string) => {
+    if (dimension === "form") return value.toUpperCase();
+    const path = `facets.values.${value}` as Parameters<typeof t>[0];
+    return t.has(path) ? t(path) : value;
+  };
 
   const scopeLabel = useMemo(() => {
     if (scope.type === "surah") {
@@ -226,6 +263,37 @@ export default function SemanticSearchPanel({
         <span className="results-sub">{t('clickToFocus')}</span>
       </div>
 
+      {featureFacets.length > 0 && (
+        <div className="feature-facets" data-testid="semantic-feature-facets">
+          <div className="feature-facets-head">
+            <span>{t('facets.title')}</span>
+            {featureFilters.length > 0 && (
+              <button type="button" className="feature-facets-clear" onClick={() => setFeatureFilters([])}>
+                {t('facets.clear')}
+              </button>
+            )}
+          </div>
+          {featureFacets.map((facet) => (
+            <div key={facet.dimension} className="feature-facet-row">
+              <span className="feature-facet-label">{t(`facets.dimensions.${facet.dimension}`)}</span>
+              <div className="feature-facet-values">
+                {facet.values.map((entry) => (
+                  <button
+                    key={entry.key}
+                    type="button"
+                    className={`pos-chip feature-facet-chip${featureFilters.includes(entry.key) ? " is-active" : ""}`}
+                    aria-pressed={featureFilters.includes(entry.key)}
+                    onClick={() => toggleFeatureFilter(entry.key)}
+                  >
+                    {featureValueLabel(facet.dimension, entry.value)} ({entry.count})
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Root Info Card — when searching by root, show aggregated stats */}
       {isRootSearch && rootInfo && (
         <div className="root-info-card">
@@ -305,7 +373,7 @@ export default function SemanticSearchPanel({
       )}
 
       {/* Token list — show when NOT in root-only mode, or as secondary view */}
-      {(!isRootSearch || lemma || pos || ayah) && (
+      {(!isRootSearch || lemma || pos || ayah || featureFilters.length > 0) && (
         <div className="search-results-list">
           {results.length === 0 ? (
             <div className="empty-search">
@@ -70,6 +70,18 @@ const VISUALIZATION_OPTIONS: Array<{
       description: "Analyze co-occurring roots and semantic neighborhoods",
       icon: "🕸️",
     },
+    {
+      mode: "heatmap",
+      label: "Frequency Heatmap",
+      description: "Root, lemma or POS frequencies across surahs and ayahs",
+      icon: "\u25A6",
+    },
+    {
+      mode: "formulaic-sequences",
+      label: "Formulaic Sequences",
+      description: "Recurring phrases and ayah endings with all their locations",
+      icon: "\u2261",
+    },
     {
       mode: "knowledge-graph",
       label: "Knowledge Graph",
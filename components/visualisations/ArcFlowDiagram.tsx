@@ -12,12 +12,15 @@ import { useLocale, useTranslations } from "next-intl";
 import { useVizControl } from "@/lib/hooks/VizControlContext";
 import { VizExplainerDialog, HelpIcon } from "@/components/ui/VizExplainerDialog";
 import type { ExperienceLevel } from "@/lib/schema/experience";
+import SimilarAyahsPanel from "@/components/visualisations/SimilarAyahsPanel";
 
 interface ArcFlowDiagramProps {
   tokens: CorpusToken[];
   groupBy: "root" | "pos" | "ayah";
   onTokenHover: (tokenId: string | null) => void;
   onTokenFocus: (tokenId: string) => void;
+  // Opens an ayah in another surah, focused on the given token.
+  onAyahNavigate?: (surahId: number, tokenId: string) => void;
   selectedSurahId?: number | null;
   selectedAyah?: number | null;
   selectedRoot?: string | null;
@@ -69,6 +72,7 @@ export default function ArcFlowDiagram({
   groupBy = "root",
   onTokenHover,
   onTokenFocus,
+  onAyahNavigate,
   selectedSurahId,
   selectedAyah,
   selectedRoot,
@@ -826,6 +830,19 @@ export default function ArcFlowDiagram({
         )}
       </div>
 
+      {!isBeginner && selectedSurahId && selectedAyah ? (
+        <SimilarAyahsPanel
+          tokens={tokens}
+          surah={selectedSurahId}
+          ayah={selectedAyah}
+          onAyahSelect={(result) =>
+            result.surah === selectedSurahId
+              ? onTokenFocus(result.firstTokenId)
+              : onAyahNavigate?.(result.surah, result.firstTokenId)
+          }
+        />
+      ) : null}
+
       <div className="viz-legend">
         <div style={{ display: 'flex', alignItems: 'center', marginBottom: '8px', justifyContent: 'space-between', width: '100%' }}>
           <span className="eyebrow" style={{ fontSize: '0.7em' }}>{ts("legend")}</span>
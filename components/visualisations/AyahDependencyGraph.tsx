@@ -7,9 +7,10 @@ import { useTranslations } from "next-intl";
 import * as d3 from "d3";
 import { SURAH_NAMES } from "@/lib/data/surahData";
 import { getAyah } from "@/lib/corpus/corpusLoader";
+import { getAyahTreebank, type TreebankAyah } from "@/lib/corpus/treebankLoader";
 import { quranApi, type QuranWord } from "@/lib/api/quranApi";
 import type { CorpusToken, AyahDependencyData, DependencyEdge } from "@/lib/schema/types";
-import { getNodeColor } from "@/lib/schema/visualizationTypes";
+import { getTokenColor } from "@/lib/schema/visualizationTypes";
 import { getFrequencyColor, getIdentityColor, type LexicalColorMode } from "@/lib/theme/lexicalColoring";
 import { useVizControl } from "@/lib/hooks/VizControlContext";
 import { VizExplainerDialog, HelpIcon } from "@/components/ui/VizExplainerDialog";
@@ -35,6 +36,7 @@ interface EdgeLayout {
   startX: number;
   endX: number;
   startY: number;
+  endY: number;
   midX: number;
   controlY: number;
   labelControlY: number;
@@ -44,6 +46,28 @@ interface EdgeLayout {
   labelText: string;
 }
 
+// Relation labels used by the Quranic Arabic Corpus treebank.
+const TREEBANK_RELATION_META: Record<string, RelationMeta> = {
+  subj: { short: "SUBJ", arabic: "فاعل" },
+  pass: { short: "PASS", arabic: "نائب فاعل" },
+  obj: { short: "OBJ", arabic: "مفعول به" },
+  pred: { short: "PRED", arabic: "خبر" },
+  gen: { short: "GEN", arabic: "مجرور" },
+  poss: { short: "POSS", arabic: "مضاف إليه" },
+  adj: { short: "ADJ", arabic: "صفة" },
+  conj: { short: "CONJ", arabic: "معطوف" },
+  link: { short: "LINK", arabic: "متعلق" },
+  circ: { short: "CIRC", arabic: "حال" },
+  spec: { short: "SPEC", arabic: "تمييز" },
+  app: { short: "APP", arabic: "بدل" },
+  cpnd: { short: "CPND", arabic: "مركب" },
+  cond: { short: "COND", arabic: "شرط" },
+  rslt: { short: "RSLT", arabic: "جواب شرط" },
+  voc: { short: "VOC", arabic: "منادى" },
+  neg: { short: "NEG", arabic: "نفي" },
+};
+
+// Coarse labels produced by `buildFallbackDependencies` when no treebank data exists.
 const RELATION_META: Record<string, RelationMeta> = {
   pred: { short: "PRED", arabic: "خبر/مسند" },
   nom: { short: "NOM", arabic: "اسمي" },
@@ -83,7 +107,7 @@ function buildFallbackDependencies(ayahId: string, ayahTokens: CorpusToken[]): D
 function getRelationMeta(relation: string): RelationMeta {
   const key = relation.toLowerCase();
   const fallback: RelationMeta = { short: relation.toUpperCase(), arabic: "علاقة نحوية" };
-  return RELATION_META[key] ?? fallback;
+  return TREEBANK_RELATION_META[key] ?? RELATION_META[key] ?? fallback;
 }
 
 export default function AyahDependencyGraph({
@@ -114,6 +138,7 @@ export default function AyahDependencyGraph({
   const [isMounted, setIsMounted] = useState(false);
   const [fullAyahText, setFullAyahText] = useState<string | null>(null);
   const [ayahWords, setAyahWords] = useState<Map<number, QuranWord>>(new Map());
+  const [treebank, setTreebank] = useState<TreebankAyah | null>(null);
   const { isLeftSidebarOpen } = useVizControl();
 
   useEffect(() => {
@@ -148,6 +173,21 @@ export default function AyahDependencyGraph({
     }
   }, [activeSurah, activeAyah]);
 
+  useEffect(() => {
+    if (!activeSurah || !activeAyah) {
+      setTreebank(null);
+      return;
+    }
+
+    let cancelled = false;
+    getAyahTreebank(`${activeSurah}:${activeAyah}`).then((entry) => {
+      if (!cancelled) setTreebank(entry);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeSurah, activeAyah]);
+
   useEffect(() => {
     setIsMounted(true);
   }, []);
@@ -196,6 +236,7 @@ export default function AyahDependencyGraph({
 
     const ayahId = `${activeSurah}:${activeAyah}`;
     const textUthmani = ayahTokens.map((token) => token.text).join(" ");
+    const treebankEntry = treebank?.id === ayahId && treebank.dependencies.length > 0 ? treebank : null;
 
     return {
       ayah: {
@@ -206,9 +247,11 @@ export default function AyahDependencyGraph({
         tokenIds: ayahTokens.map((token) => token.id),
       },
       tokens: ayahTokens,
-      dependencies: buildFallbackDependencies(ayahId, ayahTokens),
+      dependencies: treebankEntry?.dependencies ?? buildFallbackDependencies(ayahId, ayahTokens),
+      nodes: treebankEntry?.nodes ?? [],
+      source: treebankEntry ? "treebank" : "heuristic",
     };
-  }, [activeAyah, activeSurah, surahTokens]);
+  }, [activeAyah, activeSurah, surahTokens, treebank]);
 
   const sortedTokens = useMemo(
     () => [...(data?.tokens ?? [])].sort((a, b) => a.position - b.position),
@@ -227,7 +270,7 @@ export default function AyahDependencyGraph({
   const maxRootTokenCount = useMemo(() => Math.max(1, ...Array.from(rootTokenCounts.values())), [rootTokenCounts]);
   const lexicalNodeColor = useCallback(
     (token: CorpusToken): string => {
-      if (lexicalColorMode === "theme" || !token.root) return getNodeColor(token.pos);
+      if (lexicalColorMode === "theme" || !token.root) return getTokenColor(token);
       if (lexicalColorMode === "identity") return getIdentityColor(token.root, theme);
       const ratio = Math.log1p(rootTokenCounts.get(token.root) ?? 1) / Math.log1p(maxRootTokenCount || 1);
       return getFrequencyColor(ratio, theme);
@@ -235,47 +278,92 @@ export default function AyahDependencyGraph({
     [lexicalColorMode, maxRootTokenCount, rootTokenCounts, theme]
   );
 
+  const hiddenNodes = useMemo(
+    () => (data?.nodes ?? []).filter((node) => node.kind === "hidden"),
+    [data]
+  );
+  const phraseNodes = useMemo(
+    () => (data?.nodes ?? []).filter((node) => node.kind === "phrase"),
+    [data]
+  );
+
+  // Hidden (elided) nodes take their own slot right after the word they attach to.
+  const slotIds = useMemo(() => {
+    const slots: string[] = [];
+    sortedTokens.forEach((token) => {
+      slots.push(token.id);
+      hiddenNodes
+        .filter((node) => node.tokenIds[0] === token.id)
+        .forEach((node) => slots.push(node.id));
+    });
+    return slots;
+  }, [sortedTokens, hiddenNodes]);
+
   const nodeWidth = 150;
   const nodeHeight = 104;
+  const phraseWidth = 76;
+  const phraseHeight = 28;
   const spacing = 170;
   const horizontalPadding = 120;
-  const graphWidth = Math.max(dimensions.width, sortedTokens.length * spacing + horizontalPadding * 2);
+  const graphWidth = Math.max(dimensions.width, slotIds.length * spacing + horizontalPadding * 2);
   const graphHeight = Math.max(dimensions.height, 620);
   const baseY = Math.max(320, Math.min(graphHeight - 170, graphHeight * 0.68));
   const tokenTopY = baseY - nodeHeight / 2 - 8;
+  const tokenBottomY = baseY + nodeHeight / 2 + 8;
+  const phraseY = tokenBottomY + 64;
   const tokenXById = useMemo(() => {
     const xById = new Map<string, number>();
-    sortedTokens.forEach((token, idx) => {
+    slotIds.forEach((slotId, idx) => {
       // Quranic Arabic reading order is RTL, so render token 1 on the right.
-      const rtlIndex = sortedTokens.length - 1 - idx;
-      xById.set(token.id, horizontalPadding + rtlIndex * spacing);
+      const rtlIndex = slotIds.length - 1 - idx;
+      xById.set(slotId, horizontalPadding + rtlIndex * spacing);
     });
     return xById;
-  }, [sortedTokens, horizontalPadding, spacing]);
+  }, [slotIds, horizontalPadding, spacing]);
+
+  const phraseXById = useMemo(() => {
+    const xById = new Map<string, number>();
+    phraseNodes.forEach((node) => {
+      const xs = node.tokenIds
+        .map((tokenId) => tokenXById.get(tokenId))
+        .filter((x): x is number => x != null);
+      if (xs.length > 0) xById.set(node.id, (Math.min(...xs) + Math.max(...xs)) / 2);
+    });
+    return xById;
+  }, [phraseNodes, tokenXById]);
 
   const edgeLayouts = useMemo<EdgeLayout[]>(() => {
     if (!data) return [];
 
     return data.dependencies
       .map((edge, idx) => {
-        const dependent = tokenMap.get(edge.dependentTokenId);
-        const head = tokenMap.get(edge.headTokenId);
-        if (!dependent || !head) return null;
-
-        const startX = tokenXById.get(dependent.id);
-        const endX = tokenXById.get(head.id);
+        const dependentIsPhrase = phraseXById.has(edge.dependentTokenId);
+        const headIsPhrase = phraseXById.has(edge.headTokenId);
+        const startX = phraseXById.get(edge.dependentTokenId) ?? tokenXById.get(edge.dependentTokenId);
+        const endX = phraseXById.get(edge.headTokenId) ?? tokenXById.get(edge.headTokenId);
         if (startX == null || endX == null) return null;
         const span = Math.abs(endX - startX);
         const midX = (startX + endX) / 2;
-        const controlY = tokenTopY - (54 + span * 0.22);
-        const labelControlY = controlY - (30 + span * 0.08);
 
-        const arcPath = `M ${startX} ${tokenTopY} Q ${midX} ${controlY} ${endX} ${tokenTopY}`;
-
-        const labelStartX = Math.min(startX, endX);
-        const labelEndX = Math.max(startX, endX);
+        // Word-to-word arcs curve above the row; arcs touching a phrase node run below it.
+        const isBelow = dependentIsPhrase || headIsPhrase;
+        const phraseTopY = phraseY - phraseHeight / 2;
+        const startY = isBelow ? (dependentIsPhrase ? phraseTopY : tokenBottomY) : tokenTopY;
+        const endY = isBelow ? (headIsPhrase ? phraseTopY : tokenBottomY) : tokenTopY;
+        const controlY = isBelow
+          ? (startY + endY) / 2 + 12 + span * 0.08
+          : tokenTopY - (54 + span * 0.22);
+        const labelControlY = isBelow ? controlY + 14 : controlY - (30 + span * 0.08);
+
+        const arcPath = `M ${startX} ${startY} Q ${midX} ${controlY} ${endX} ${endY}`;
+
+        const leftIsStart = startX <= endX;
+        const labelStartX = leftIsStart ? startX : endX;
+        const labelEndX = leftIsStart ? endX : startX;
+        const labelStartY = (leftIsStart ? startY : endY) + (isBelow ? 2 : -2);
+        const labelEndY = (leftIsStart ? endY : startY) + (isBelow ? 2 : -2);
         const labelMidX = (labelStartX + labelEndX) / 2;
-        const labelPath = `M ${labelStartX} ${tokenTopY - 2} Q ${labelMidX} ${labelControlY} ${labelEndX} ${tokenTopY - 2}`;
+        const labelPath = `M ${labelStartX} ${labelStartY} Q ${labelMidX} ${labelControlY} ${labelEndX} ${labelEndY}`;
 
         const meta = getRelationMeta(edge.relation);
         const labelText = `${meta.short} (${meta.arabic})`;
@@ -284,7 +372,8 @@ export default function AyahDependencyGraph({
           edge,
           startX,
           endX,
-          startY: tokenTopY,
+          startY,
+          endY,
           midX,
           controlY,
           labelControlY,
@@ -295,7 +384,7 @@ export default function AyahDependencyGraph({
         };
       })
       .filter((layout): layout is EdgeLayout => Boolean(layout));
-  }, [data, tokenMap, tokenXById, tokenTopY]);
+  }, [data, phraseXById, tokenXById, tokenTopY, tokenBottomY, phraseY]);
 
   const hoveredEdgeLayout = useMemo(
     () => edgeLayouts.find((layout) => layout.edge.id === hoveredEdgeId) ?? null,
@@ -322,6 +411,13 @@ export default function AyahDependencyGraph({
 
   const inspectorToken = selectedToken ?? hoveredToken;
 
+  // Treebank ayahs list only the relations they use; the heuristic set is always small.
+  const legendEntries = useMemo<Array<[string, RelationMeta]>>(() => {
+    if (data?.source !== "treebank") return Object.entries(RELATION_META);
+    const used = new Set(data.dependencies.map((edge) => edge.relation.toLowerCase()));
+    return [...used].map((relation) => [relation, getRelationMeta(relation)]);
+  }, [data]);
+
   useEffect(() => {
     setHoveredTokenId(null);
     setSelectedTokenId(null);
@@ -524,6 +620,18 @@ export default function AyahDependencyGraph({
           </div>
         </div>
 
+        {data && (
+          <div className="dep-source-row">
+            <span className="dep-label">{t("sourceLabel")}</span>
+            <span className={`dep-source-chip ${data.source === "heuristic" ? "is-heuristic" : ""}`}>
+              {data.source === "treebank" ? t("sourceTreebank") : t("sourceHeuristic")}
+            </span>
+            {data.source === "heuristic" && (
+              <span className="dep-source-hint">{t("sourceHeuristicHint")}</span>
+            )}
+          </div>
+        )}
+
         <div className="dep-view-row">
           <span className="dep-label">{ts("zoom")}</span>
           <div className="dep-zoom-row">
@@ -565,6 +673,8 @@ export default function AyahDependencyGraph({
           sections: [
             { label: t("Help.treeLabel"), text: t("Help.treeText") },
             { label: t("Help.linksLabel"), text: t("Help.linksText") },
+            { label: t("Help.nodesLabel"), text: t("Help.nodesText") },
+            { label: t("Help.sourceLabel"), text: t("Help.sourceText") },
           ]
         }}
       />
@@ -574,7 +684,7 @@ export default function AyahDependencyGraph({
           {ts("legend")}
           <HelpIcon onClick={() => setShowHelp(true)} />
         </div>
-        {Object.entries(RELATION_META).map(([key, meta]) => (
+        {legendEntries.map(([key, meta]) => (
           <div key={key} className="dep-legend-row">
             <span className="dep-legend-key">{meta.short}</span>
             <span className="dep-legend-ar arabic-font">{meta.arabic}</span>
@@ -610,7 +720,7 @@ export default function AyahDependencyGraph({
             <div className="dep-token-main arabic-font">{inspectorToken.text}</div>
             <div className="dep-token-meta">
               <span className="dep-meta-k">POS</span>
-              <span className="dep-meta-v">{inspectorToken.pos}</span>
+              <span className="dep-meta-v">{inspectorToken.posDetailed ?? inspectorToken.pos}</span>
             </div>
             <div className="dep-token-meta">
               <span className="dep-meta-k">{ts("root")}</span>
@@ -759,7 +869,7 @@ export default function AyahDependencyGraph({
 
                       <rect x={-23} y={-nodeHeight / 2 - 10} width={46} height={20} rx={10} fill={nodeColor} />
                       <text x={0} y={-nodeHeight / 2 + 4} className="dep-pos-badge">
-                        {token.pos}
+                        {token.posDetailed ?? token.pos}
                       </text>
 
                       <text x={0} y={-11} className="dep-token-text arabic-font">
@@ -798,6 +908,61 @@ export default function AyahDependencyGraph({
                 );
               })}
             </g>
+
+            <g className="dep-hidden-layer" pointerEvents="none">
+              {hiddenNodes.map((node) => {
+                const x = tokenXById.get(node.id);
+                if (x == null) return null;
+                return (
+                  <g key={node.id} transform={`translate(${x}, ${baseY})`}>
+                    <rect
+                      x={-nodeWidth / 2}
+                      y={-nodeHeight / 2}
+                      width={nodeWidth}
+                      height={nodeHeight}
+                      rx={13}
+                      className={`dep-hidden-rect ${hoveredEdgeTokenIds.has(node.id) ? "is-active" : ""}`}
+                    />
+                    <text x={0} y={-nodeHeight / 2 + 4} className="dep-hidden-tag">
+                      {node.tag}
+                    </text>
+                    <text x={0} y={4} className="dep-token-text arabic-font">
+                      ({node.label})
+                    </text>
+                  </g>
+                );
+              })}
+            </g>
+
+            <g className="dep-phrase-layer" pointerEvents="none">
+              {phraseNodes.map((node) => {
+                const x = phraseXById.get(node.id);
+                const spanXs = node.tokenIds
+                  .map((tokenId) => tokenXById.get(tokenId))
+                  .filter((value): value is number => value != null);
+                if (x == null || spanXs.length === 0) return null;
+                const isActive = hoveredEdgeTokenIds.has(node.id);
+                return (
+                  <g key={node.id}>
+                    <path
+                      d={`M ${Math.min(...spanXs) - 20} ${tokenBottomY + 10} v 8 H ${Math.max(...spanXs) + 20} v -8`}
+                      className="dep-phrase-bracket"
+                    />
+                    <rect
+                      x={x - phraseWidth / 2}
+                      y={phraseY - phraseHeight / 2}
+                      width={phraseWidth}
+                      height={phraseHeight}
+                      rx={phraseHeight / 2}
+                      className={`dep-phrase-rect ${isActive ? "is-active" : ""}`}
+                    />
+                    <text x={x} y={phraseY + 4} className="dep-phrase-tag">
+                      {node.label}
+                    </text>
+                  </g>
+                );
+              })}
+            </g>
           </g>
         </svg>
       </div>
@@ -948,6 +1113,41 @@ export default function AyahDependencyGraph({
           fill: transparent;
           cursor: pointer;
         }
+
+        .dep-hidden-rect,
+        .dep-phrase-rect {
+          fill: var(--bg-1);
+          stroke: var(--ink-muted);
+          stroke-width: 1.4;
+          stroke-dasharray: 6 4;
+          transition: stroke 0.12s ease;
+        }
+
+        .dep-phrase-rect {
+          stroke-dasharray: none;
+        }
+
+        .dep-hidden-rect.is-active,
+        .dep-phrase-rect.is-active {
+          stroke: var(--accent-2);
+          stroke-width: 2.1;
+        }
+
+        .dep-hidden-tag,
+        .dep-phrase-tag {
+          fill: var(--ink-secondary);
+          font-size: 10px;
+          font-weight: 700;
+          letter-spacing: 0.03em;
+          text-anchor: middle;
+        }
+
+        .dep-phrase-bracket {
+          fill: none;
+          stroke: var(--ink-muted);
+          stroke-width: 1;
+          opacity: 0.6;
+        }
       `}</style>
     </section>
   );
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useRef, useMemo, useState, useCallback } from "react";
+import { useEffect, useRef, useMemo, useState, useCallback, type CSSProperties } from "react";
 import { createPortal } from "react-dom";
 import * as d3 from "d3";
 import { motion, AnimatePresence } from "framer-motion";
@@ -10,12 +10,22 @@ import { resolveVisualizationTheme } from "@/lib/schema/visualizationTypes";
 import { useTranslations } from "next-intl";
 import { getAyah } from "@/lib/corpus/corpusLoader";
 import {
-    calculateRootFrequencies,
-    getCollocations,
-    getPairCooccurrence,
+    formatCollocationSpan,
     type CollocationOptions,
+    type CollocationSpan,
     type CollocationTermKind,
 } from "@/lib/search/collocation";
+import { ASSOCIATION_MEASURES, type AssociationMeasure } from "@/lib/search/associationMeasures";
+import {
+    ayahInSubCorpus,
+    compareCollocations,
+    isFullCorpus,
+    parseSurahList,
+    type SubCorpusDefinition,
+} from "@/lib/search/subCorpus";
+import { JUZ_COUNT } from "@/lib/data/juzData";
+import { useCorpusQuery } from "@/lib/hooks/useCorpusQuery";
+import { useSubCorpusContext } from "@/lib/hooks/useSubCorpusContext";
 import { HelpIcon, VizExplainerDialog } from "@/components/ui/VizExplainerDialog";
 
 interface CollocationNetworkGraphProps {
@@ -34,7 +44,8 @@ interface CollocationNode {
     label: string;
     type: "target" | "collocate" | "tendril";
     count: number;
-    pmi: number;
+    score: number;
+    measureValue: number;
     anchorAngle: number;
     anchorDistance: number;
     cluster: number;
@@ -46,12 +57,13 @@ interface CollocationNode {
     radius: number;
     color: string;
     sampleLemmas: string[];
+    offsets?: Record<number, number>;
 }
 
 interface CollocationLink {
     source: string | CollocationNode;
     target: string | CollocationNode;
-    pmi: number;
+    score: number;
     weight: number;
     kind: "trunk" | "branch";
     color: string;
@@ -91,6 +103,13 @@ function normalizeArabicForMatch(value: string): string {
         .trim();
 }
 
+// Fisher p-values span many orders of magnitude, so they read better in exponent form.
+function formatMeasureValue(measure: AssociationMeasure, value: number): string {
+    if (!Number.isFinite(value)) return "–";
+    if (measure === "fisher") return value < 0.001 ? value.toExponential(1) : value.toFixed(3);
+    return value.toFixed(2);
+}
+
 function extractAyahRef(value: string): string | null {
     const match = value.match(/^(\d+):(\d+)(?::\d+)?$/);
     if (!match) return null;
@@ -165,6 +184,170 @@ function buildCurvedPath(source: CollocationNode, target: CollocationNode, bendS
     return `M ${sx} ${sy} Q ${cx} ${cy} ${tx} ${ty}`;
 }
 
+/**
+ * Bars per offset from the target. Laid out right-to-left like the text, so
+ * preceding words sit to the right of the centre mark.
+ */
+function PositionProfile({
+    offsets,
+    span,
+    color,
+    label,
+}: {
+    offsets: Record<number, number>;
+    span: CollocationSpan;
+    color: string;
+    label: string;
+}) {
+    const positions = d3.range(-span.left, span.right + 1);
+    const max = Math.max(1, ...positions.map((offset) => offsets[offset] ?? 0));
+    return (
+        <div data-testid="collocation-position-profile" aria-label={label}>
+            <div dir="rtl" style={{ display: "flex", alignItems: "flex-end", gap: 2, height: 36 }}>
+                {positions.map((offset) => {
+                    const count = offsets[offset] ?? 0;
+                    return (
+                        <div
+                            key={offset}
+                            title={offset === 0 ? undefined : `${offset > 0 ? "+" : ""}${offset}: ${count}`}
+                            style={{
+                                flex: 1,
+                                minWidth: 3,
+                                height: offset === 0 ? "100%" : `${Math.max(4, (count / max) * 100)}%`,
+                                borderRadius: 2,
+                                background: offset === 0 ? "transparent" : count > 0 ? color : withAlpha(color, 0.18),
+                                borderInline: offset === 0 ? `1px dashed ${withAlpha(color, 0.6)}` : undefined,
+                            }}
+                        />
+                    );
+                })}
+            </div>
+            <div dir="rtl" style={{ display: "flex", justifyContent: "space-between", fontSize: "0.65rem", opacity: 0.7, marginTop: 2 }}>
+                <span>{`-${span.left}`}</span>
+                <span>{`+${span.right}`}</span>
+            </div>
+        </div>
+    );
+}
+
+type SubCorpusMode = "all" | "makkah" | "madinah" | "juz" | "hizb" | "surahs";
+
+const SUB_CORPUS_MODES: SubCorpusMode[] = ["all", "makkah", "madinah", "juz", "hizb", "surahs"];
+
+const HIZB_COUNT = 60;
+
+// Number of divisions for the modes picked as a from–to range.
+const RANGE_COUNTS = { juz: JUZ_COUNT, hizb: HIZB_COUNT };
+
+type RangeMode = keyof typeof RANGE_COUNTS;
+
+// Editable form of a sub-corpus; only the fields of the selected mode apply.
+interface SubCorpusDraft {
+    mode: SubCorpusMode;
+    juzFrom: number;
+    juzTo: number;
+    hizbFrom: number;
+    hizbTo: number;
+    surahs: string;
+}
+
+const DEFAULT_SUB_CORPUS: SubCorpusDraft = {
+    mode: "all",
+    juzFrom: 1,
+    juzTo: JUZ_COUNT,
+    hizbFrom: 1,
+    hizbTo: HIZB_COUNT,
+    surahs: "",
+};
+
+function toSubCorpusDefinition(draft: SubCorpusDraft): SubCorpusDefinition {
+    switch (draft.mode) {
+        case "makkah":
+        case "madinah":
+            return { revelationPlace: draft.mode };
+        case "juz":
+            return { juz: { from: Math.min(draft.juzFrom, draft.juzTo), to: Math.max(draft.juzFrom, draft.juzTo) } };
+        case "hizb":
+            return { hizb: { from: Math.min(draft.hizbFrom, draft.hizbTo), to: Math.max(draft.hizbFrom, draft.hizbTo) } };
+        case "surahs": {
+            const surahs = parseSurahList(draft.surahs);
+            return surahs ? { surahs } : {};
+        }
+        default:
+            return {};
+    }
+}
+
+function SubCorpusPicker({
+    draft,
+    onChange,
+    label,
+    testId,
+    fieldStyle,
+    labelStyle,
+}: {
+    draft: SubCorpusDraft;
+    onChange: (draft: SubCorpusDraft) => void;
+    label: string;
+    testId: string;
+    fieldStyle: CSSProperties;
+    labelStyle: CSSProperties;
+}) {
+    const t = useTranslations("Visualizations.CollocationNetwork");
+    const range: RangeMode | null = draft.mode === "juz" || draft.mode === "hizb" ? draft.mode : null;
+    const clampRange = (value: string) => Math.min(range ? RANGE_COUNTS[range] : 1, Math.max(1, parseInt(value, 10) || 1));
+    const surahListInvalid = draft.mode === "surahs" && draft.surahs.trim() !== "" && !parseSurahList(draft.surahs);
+    return (
+        <div data-testid={testId}>
+            <div style={{ ...labelStyle, marginBottom: 6 }}>{label}</div>
+            <select
+                value={draft.mode}
+                onChange={e => onChange({ ...draft, mode: e.target.value as SubCorpusMode })}
+                style={{ ...fieldStyle, width: "100%" }}
+            >
+                {SUB_CORPUS_MODES.map((mode) => (
+                    <option key={mode} value={mode}>{t(`subCorpusModes.${mode}`)}</option>
+                ))}
+            </select>
+            {range && (
+                <div style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 6 }}>
+                    <input
+                        type="number"
+                        min={1}
+                        max={RANGE_COUNTS[range]}
+                        value={draft[`${range}From`]}
+                        aria-label={t(`${range}From`)}
+                        onChange={e => onChange({ ...draft, [`${range}From`]: clampRange(e.target.value) })}
+                        style={{ ...fieldStyle, flex: 1, minWidth: 0 }}
+                    />
+                    <span>–</span>
+                    <input
+                        type="number"
+                        min={1}
+                        max={RANGE_COUNTS[range]}
+                        value={draft[`${range}To`]}
+                        aria-label={t(`${range}To`)}
+                        onChange={e => onChange({ ...draft, [`${range}To`]: clampRange(e.target.value) })}
+                        style={{ ...fieldStyle, flex: 1, minWidth: 0 }}
+                    />
+                </div>
+            )}
+            {draft.mode === "surahs" && (
+                <input
+                    value={draft.surahs}
+                    placeholder={t("surahListPlaceholder")}
+                    aria-invalid={surahListInvalid}
+                    onChange={e => onChange({ ...draft, surahs: e.target.value })}
+                    style={{ ...fieldStyle, width: "100%", marginTop: 6 }}
+                />
+            )}
+            {surahListInvalid && (
+                <div style={{ fontSize: "0.7rem", color: "#ff9c9c", marginTop: 4 }}>{t("surahListInvalid")}</div>
+            )}
+        </div>
+    );
+}
+
 export default function CollocationNetworkGraph({
     tokens,
     onTokenHover: _onTokenHover,
@@ -194,8 +377,14 @@ export default function CollocationNetworkGraph({
 
     // Controls
     const [windowType, setWindowType] = useState<CollocationOptions["windowType"]>("ayah");
-    const [distance, setDistance] = useState<number>(3);
+    const [spanLeft, setSpanLeft] = useState<number>(3);
+    const [spanRight, setSpanRight] = useState<number>(3);
+    const [stopAtAyahBoundary, setStopAtAyahBoundary] = useState(false);
     const [minFrequency, setMinFrequency] = useState<number>(2);
+    const [measure, setMeasure] = useState<AssociationMeasure>("pmi");
+    const [subCorpusDraft, setSubCorpusDraft] = useState<SubCorpusDraft>(DEFAULT_SUB_CORPUS);
+    const [compareEnabled, setCompareEnabled] = useState(false);
+    const [compareDraft, setCompareDraft] = useState<SubCorpusDraft>({ ...DEFAULT_SUB_CORPUS, mode: "madinah" });
     const [targetKind, setTargetKind] = useState<CollocationTermKind>("root");
     const [targetValue, setTargetValue] = useState<string>(highlightRoot ?? "");
     const [groupBy, setGroupBy] = useState<CollocationTermKind>("root");
@@ -301,8 +490,6 @@ export default function CollocationNetworkGraph({
         [targetKind, activeTargetValue, groupBy]
     );
 
-    const freqData = useMemo(() => calculateRootFrequencies(tokens), [tokens]);
-
     useEffect(() => {
         if (!highlightRoot || targetKind !== "root") return;
         setTargetValue((current) => (current.trim() ? current : highlightRoot));
@@ -313,8 +500,13 @@ export default function CollocationNetworkGraph({
 
         setTargetKind("root");
         setWindowType("ayah");
-        setDistance(3);
+        setSpanLeft(3);
+        setSpanRight(3);
+        setStopAtAyahBoundary(false);
         setMinFrequency(2);
+        setMeasure("pmi");
+        setSubCorpusDraft(DEFAULT_SUB_CORPUS);
+        setCompareEnabled(false);
         setGroupBy("root");
         setFilterPos("");
         setPairKind("lemma");
@@ -324,6 +516,17 @@ export default function CollocationNetworkGraph({
         }
     }, [highlightRoot, isBeginner]);
 
+    const subCorpus = useMemo(() => toSubCorpusDefinition(subCorpusDraft), [subCorpusDraft]);
+    const compareSubCorpus = useMemo(() => toSubCorpusDefinition(compareDraft), [compareDraft]);
+    const subCorpusContext = useSubCorpusContext(subCorpus);
+    const subCorpusTokens = useMemo(
+        () =>
+            isFullCorpus(subCorpus)
+                ? tokens
+                : tokens.filter((token) => ayahInSubCorpus(subCorpus, token.sura, token.ayah, subCorpusContext)),
+        [subCorpus, subCorpusContext, tokens]
+    );
+
     const targetCount = useMemo(() => {
         if (!targetTerm) return 0;
         const normalized = normalizeArabicForMatch(targetTerm.value);
@@ -331,7 +534,7 @@ export default function CollocationNetworkGraph({
 
         if (windowType === "ayah") {
             const windowSet = new Set<string>();
-            for (const token of tokens) {
+            for (const token of subCorpusTokens) {
                 const tokenValue = targetTerm.kind === "lemma" ? token.lemma : token.root;
                 if (normalizeArabicForMatch(tokenValue) === normalized) {
                     windowSet.add(`${token.sura}:${token.ayah}`);
@@ -341,45 +544,78 @@ export default function CollocationNetworkGraph({
         }
 
         let total = 0;
-        for (const token of tokens) {
+        for (const token of subCorpusTokens) {
             const tokenValue = targetTerm.kind === "lemma" ? token.lemma : token.root;
             if (normalizeArabicForMatch(tokenValue) === normalized) {
                 total++;
             }
         }
         return total;
-    }, [targetTerm, windowType, tokens]);
+    }, [targetTerm, windowType, subCorpusTokens]);
 
-    const pairMetrics = useMemo(() => {
-        if (!targetTerm || !pairTerm) return null;
-        return getPairCooccurrence(targetTerm, pairTerm, tokens, { windowType, distance });
-    }, [targetTerm, pairTerm, tokens, windowType, distance]);
+    const span = useMemo(() => ({ left: spanLeft, right: spanRight }), [spanLeft, spanRight]);
 
-    const { initialNodes, initialLinks } = useMemo(() => {
-        if (!targetTerm) return { initialNodes: [], initialLinks: [] };
+    // Collocation statistics are computed in the corpus worker.
+    const { data: pairResult } = useCorpusQuery(
+        tokens,
+        targetTerm && pairTerm
+            ? { type: "pair", termA: targetTerm, termB: pairTerm, options: { windowType, span, stopAtAyahBoundary }, subCorpus }
+            : null
+    );
+    const pairMetrics = targetTerm && pairTerm ? pairResult : null;
 
-        const results = getCollocations(targetTerm, tokens, freqData, {
+    const collocationOptions = useMemo<CollocationOptions>(
+        () => ({
             windowType,
-            distance,
+            span,
+            stopAtAyahBoundary,
             minFrequency,
             groupBy,
             filter: {
                 pos: filterPos ? [filterPos] : undefined,
             },
             pairTerm,
-        });
+            measure,
+        }),
+        [windowType, span, stopAtAyahBoundary, minFrequency, groupBy, filterPos, pairTerm, measure]
+    );
+
+    const { data: collocationResults } = useCorpusQuery(
+        tokens,
+        targetTerm ? { type: "collocations", target: targetTerm, options: collocationOptions, subCorpus } : null
+    );
+
+    // The comparison ranks the second sub-corpus with the same options.
+    const { data: compareResults } = useCorpusQuery(
+        tokens,
+        targetTerm && compareEnabled
+            ? { type: "collocations", target: targetTerm, options: collocationOptions, subCorpus: compareSubCorpus }
+            : null
+    );
+    const comparison = useMemo(
+        () =>
+            compareEnabled && collocationResults && compareResults
+                ? compareCollocations(collocationResults, compareResults)
+                : null,
+        [compareEnabled, collocationResults, compareResults]
+    );
+
+    const { initialNodes, initialLinks } = useMemo(() => {
+        if (!targetTerm) return { initialNodes: [], initialLinks: [] };
+
+        const results = collocationResults ?? [];
         if (results.length === 0) return { initialNodes: [], initialLinks: [] };
 
         const topResults = results.slice(0, 34);
-        const [rawMinPmi = 0, rawMaxPmi = 1] = d3.extent(topResults, (d) => d.pmi);
-        const minPmi = Number.isFinite(rawMinPmi) ? rawMinPmi : 0;
-        const maxPmi = Number.isFinite(rawMaxPmi) ? rawMaxPmi : 1;
-        const pmiDomain: [number, number] = minPmi === maxPmi ? [minPmi - 1, maxPmi + 1] : [minPmi, maxPmi];
+        const [rawMinScore = 0, rawMaxScore = 1] = d3.extent(topResults.filter((d) => Number.isFinite(d.score)), (d) => d.score);
+        const minScore = Number.isFinite(rawMinScore) ? rawMinScore : 0;
+        const maxScore = Number.isFinite(rawMaxScore) ? rawMaxScore : 1;
+        const scoreDomain: [number, number] = minScore === maxScore ? [minScore - 1, maxScore + 1] : [minScore, maxScore];
         const maxCount = Math.max(...topResults.map((d) => d.count), 1);
 
-        const pmiNorm = d3.scaleLinear().domain(pmiDomain).range([0, 1]).clamp(true);
-        const radiusScale = d3.scaleSqrt().domain(pmiDomain).range([6, 16]).clamp(true);
-        const distanceScale = d3.scaleLinear().domain([pmiDomain[1], pmiDomain[0]]).range([140, 370]).clamp(true);
+        const scoreNorm = d3.scaleLinear().domain(scoreDomain).range([0, 1]).clamp(true);
+        const radiusScale = d3.scaleSqrt().domain(scoreDomain).range([6, 16]).clamp(true);
+        const distanceScale = d3.scaleLinear().domain([scoreDomain[1], scoreDomain[0]]).range([140, 370]).clamp(true);
         const tendrilScale = d3.scaleLinear().domain([1, maxCount]).range([2, 10]).clamp(true);
 
         const nodesResult: CollocationNode[] = [];
@@ -395,7 +631,8 @@ export default function CollocationNetworkGraph({
             label: targetTerm.value,
             type: "target",
             count: targetCount,
-            pmi: pmiDomain[1],
+            score: scoreDomain[1],
+            measureValue: 0,
             radius: 13,
             color: themeColors.accent,
             sampleLemmas: [],
@@ -410,9 +647,9 @@ export default function CollocationNetworkGraph({
             const rng = mulberry32(hashString(`${targetTerm.value}:${collocateLabel}:${index}`));
             const cluster = hashString(collocateLabel) % sectorCount;
             const angle = sectorAngles[cluster] + (rng() - 0.5) * 0.52;
-            const anchorDistance = distanceScale(res.pmi) + rng() * 40;
+            const anchorDistance = distanceScale(res.score) + rng() * 40;
             const baseColor = neonPalette[(hashString(collocateLabel + targetTerm.value) + index) % neonPalette.length];
-            const intensity = pmiNorm(res.pmi);
+            const intensity = scoreNorm(res.score);
             const nodeColor = brighten(baseColor, 0.2 + intensity * 0.45);
 
             nodesResult.push({
@@ -420,8 +657,10 @@ export default function CollocationNetworkGraph({
                 label: collocateLabel,
                 type: "collocate",
                 count: res.count,
-                pmi: res.pmi,
-                radius: radiusScale(res.pmi),
+                score: res.score,
+                measureValue: res.measures[measure],
+                offsets: res.offsets,
+                radius: radiusScale(res.score),
                 color: nodeColor,
                 sampleLemmas: res.sampleLemmas,
                 cluster,
@@ -432,7 +671,7 @@ export default function CollocationNetworkGraph({
             linksResult.push({
                 source: `root-${targetTerm.value}`,
                 target: `root-${collocateLabel}`,
-                pmi: res.pmi,
+                score: res.score,
                 weight: res.count,
                 kind: "trunk",
                 color: baseColor,
@@ -455,7 +694,8 @@ export default function CollocationNetworkGraph({
                     label: tendrilLabel,
                     type: "tendril",
                     count: 1,
-                    pmi: res.pmi,
+                    score: res.score,
+                    measureValue: res.measures[measure],
                     radius: tendrilRadius,
                     color: tendrilColor,
                     sampleLemmas: [],
@@ -468,7 +708,7 @@ export default function CollocationNetworkGraph({
                 linksResult.push({
                     source: `root-${collocateLabel}`,
                     target: tendrilId,
-                    pmi: res.pmi,
+                    score: res.score,
                     weight: 1 + rng(),
                     kind: "branch",
                     color: tendrilColor,
@@ -478,7 +718,7 @@ export default function CollocationNetworkGraph({
         }
 
         return { initialNodes: nodesResult, initialLinks: linksResult };
-    }, [targetTerm, tokens, freqData, windowType, distance, minFrequency, themeColors.accent, neonPalette, groupBy, filterPos, pairTerm, targetCount]);
+    }, [targetTerm, collocationResults, measure, themeColors.accent, neonPalette, targetCount]);
 
     const stars = useMemo(() => {
         const seed = hashString(`${activeTargetValue || "none"}:${dimensions.width}:${dimensions.height}`);
@@ -762,7 +1002,8 @@ export default function CollocationNetworkGraph({
                 label: targetTerm.value,
                 type: "target",
                 count: targetCount,
-                pmi: 0,
+                score: 0,
+                measureValue: 0,
                 anchorAngle: 0,
                 anchorDistance: 0,
                 cluster: -1,
@@ -1251,9 +1492,20 @@ export default function CollocationNetworkGraph({
                                 {sidebarNode.type === "collocate" && (
                                     <>
                                         <div className="viz-tooltip-row">
-                                            <span className="viz-tooltip-label">{t("Help.pmiLabel")}</span>
-                                            <span className="viz-tooltip-value">{sidebarNode.pmi.toFixed(2)}</span>
+                                            <span className="viz-tooltip-label">{t(`measures.${measure}`)}</span>
+                                            <span className="viz-tooltip-value">{formatMeasureValue(measure, sidebarNode.measureValue)}</span>
                                         </div>
+                                        {sidebarNode.offsets && (
+                                            <div className="viz-tooltip-row" style={{ marginTop: 8, display: "block" }}>
+                                                <span className="viz-tooltip-label" style={{ display: "block", marginBottom: 4 }}>{t("positionProfile")}</span>
+                                                <PositionProfile
+                                                    offsets={sidebarNode.offsets}
+                                                    span={span}
+                                                    color={sidebarNode.color}
+                                                    label={t("positionProfile")}
+                                                />
+                                            </div>
+                                        )}
                                         {sidebarNode.sampleLemmas.length > 0 && (
                                             <div className="viz-tooltip-row" style={{ marginTop: 8 }}>
                                                 <span className="viz-tooltip-label" style={{ display: "block", marginBottom: 4 }}>{t("lemmasLabel")}</span>
@@ -1425,12 +1677,24 @@ export default function CollocationNetworkGraph({
                                         initial={{ height: 0, opacity: 0 }}
                                         animate={{ height: "auto", opacity: 1 }}
                                         exit={{ height: 0, opacity: 0 }}
-                                        style={{ overflow: "hidden", display: "flex", alignItems: "center", gap: 8, padding: "7px 8px", borderRadius: 8, background: controlRowSurface, border: `1px solid ${withAlpha(themeColors.accent, 0.2)}` }}
+                                        style={{ overflow: "hidden", display: "grid", gap: 6, padding: "7px 8px", borderRadius: 8, background: controlRowSurface, border: `1px solid ${withAlpha(themeColors.accent, 0.2)}` }}
                                     >
                                         <span style={{ ...controlLabelStyle, minWidth: "auto" }}>
-                                            {t("distanceRange", { distance })}
+                                            {t("spanRange", { span: formatCollocationSpan(span) })}
                                         </span>
-                                        <input type="range" min={1} max={50} value={distance} onChange={e => setDistance(parseInt(e.target.value, 10))} style={{ flex: 1, accentColor: themeColors.accentSecondary }} />
+                                        {/* At least one side stays open so the window is never empty. */}
+                                        <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: "0.73rem", color: "#b5c8ef" }}>
+                                            <span style={{ minWidth: 72 }}>{t("spanLeft", { count: spanLeft })}</span>
+                                            <input type="range" min={spanRight === 0 ? 1 : 0} max={50} value={spanLeft} onChange={e => setSpanLeft(parseInt(e.target.value, 10))} style={{ flex: 1, accentColor: themeColors.accentSecondary }} />
+                                        </label>
+                                        <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: "0.73rem", color: "#b5c8ef" }}>
+                                            <span style={{ minWidth: 72 }}>{t("spanRight", { count: spanRight })}</span>
+                                            <input type="range" min={spanLeft === 0 ? 1 : 0} max={50} value={spanRight} onChange={e => setSpanRight(parseInt(e.target.value, 10))} style={{ flex: 1, accentColor: themeColors.accentSecondary }} />
+                                        </label>
+                                        <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: "0.73rem", color: "#b5c8ef" }}>
+                                            <input type="checkbox" checked={stopAtAyahBoundary} onChange={e => setStopAtAyahBoundary(e.target.checked)} />
+                                            {t("stopAtAyahBoundary")}
+                                        </label>
                                     </motion.div>
                                 )}
                             </AnimatePresence>
@@ -1443,6 +1707,90 @@ export default function CollocationNetworkGraph({
                                 <input type="range" min={1} max={20} value={minFrequency} onChange={e => setMinFrequency(parseInt(e.target.value, 10))} style={{ width: "100%", accentColor: themeColors.accentSecondary }} />
                             </div>
                             ) : null}
+                            {!isBeginner ? (
+                            <div
+                                data-testid="collocation-measure-control"
+                                style={{ padding: "7px 8px", borderRadius: 8, background: controlRowSurface, border: `1px solid ${withAlpha(themeColors.accent, 0.2)}` }}
+                            >
+                                <div style={{ ...controlLabelStyle, marginBottom: 6 }}>{t("measure")}</div>
+                                <select
+                                    value={measure}
+                                    onChange={e => setMeasure(e.target.value as AssociationMeasure)}
+                                    style={{ ...controlFieldStyle, width: "100%" }}
+                                >
+                                    {ASSOCIATION_MEASURES.map((option) => (
+                                        <option key={option} value={option}>{t(`measures.${option}`)}</option>
+                                    ))}
+                                </select>
+                                <div style={{ fontSize: "0.73rem", color: "#a8bfeb", lineHeight: 1.35, marginTop: 6 }}>
+                                    {t(`measureHints.${measure}`)}
+                                </div>
+                            </div>
+                            ) : null}
+                            {!isBeginner ? (
+                            <div
+                                data-testid="collocation-subcorpus-control"
+                                style={{ display: "grid", gap: 8, padding: "7px 8px", borderRadius: 8, background: controlRowSurface, border: `1px solid ${withAlpha(themeColors.accent, 0.2)}` }}
+                            >
+                                <SubCorpusPicker
+                                    draft={subCorpusDraft}
+                                    onChange={setSubCorpusDraft}
+                                    label={t("subCorpus")}
+                                    testId="collocation-subcorpus-picker"
+                                    fieldStyle={controlFieldStyle}
+                                    labelStyle={controlLabelStyle}
+                                />
+                                <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: "0.73rem", color: "#b5c8ef" }}>
+                                    <input
+                                        type="checkbox"
+                                        data-testid="collocation-compare-toggle"
+                                        checked={compareEnabled}
+                                        onChange={e => setCompareEnabled(e.target.checked)}
+                                    />
+                                    {t("compareSubCorpora")}
+                                </label>
+                                {compareEnabled && (
+                                    <SubCorpusPicker
+                                        draft={compareDraft}
+                                        onChange={setCompareDraft}
+                                        label={t("compareSubCorpus")}
+                                        testId="collocation-compare-picker"
+                                        fieldStyle={controlFieldStyle}
+                                        labelStyle={controlLabelStyle}
+                                    />
+                                )}
+                            </div>
+                            ) : null}
+                            {!isBeginner && comparison && (
+                                <div
+                                    data-testid="collocation-subcorpus-comparison"
+                                    style={{ display: "grid", gridTemplateColumns: "minmax(0, 1fr) minmax(0, 1fr)", gap: 8, padding: "7px 8px", borderRadius: 8, background: controlRowSurface, border: `1px solid ${withAlpha(themeColors.accentSecondary, 0.35)}`, fontSize: "0.73rem", color: "#b5c8ef" }}
+                                >
+                                    <div style={{ gridColumn: "1 / -1", lineHeight: 1.35 }}>{t("comparisonHint")}</div>
+                                    {([
+                                        ["gained", comparison.gained],
+                                        ["lost", comparison.lost],
+                                    ] as const).map(([kind, results]) => (
+                                        <div key={kind} data-testid={`collocation-comparison-${kind}`}>
+                                            <div style={{ ...controlLabelStyle, marginBottom: 4 }}>
+                                                {t(kind === "gained" ? "collocatesGained" : "collocatesLost", { count: results.length })}
+                                            </div>
+                                            {results.length === 0 ? (
+                                                <div style={{ opacity: 0.7 }}>{t("comparisonEmpty")}</div>
+                                            ) : (
+                                                <ul style={{ listStyle: "none", margin: 0, padding: 0, display: "grid", gap: 2 }}>
+                                                    {results.slice(0, 10).map((result) => (
+                                                        <li key={result.label} style={{ display: "flex", justifyContent: "space-between", gap: 6 }}>
+                                                            <span lang="ar" dir="rtl">{result.label}</span>
+                                                            <span style={{ opacity: 0.75 }}>{formatMeasureValue(measure, result.measures[measure])}</span>
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
                             {!isBeginner && pairMetrics && (
                                 <div data-testid="collocation-pair-metrics" style={{ marginTop: 4, display: "grid", gridTemplateColumns: "1fr", gap: 6 }}>
                                     <div style={{ background: controlRowSurface, border: `1px solid ${withAlpha(themeColors.accent, 0.2)}`, borderRadius: 8, padding: "6px 8px", fontSize: "0.73rem", color: "#b5c8ef" }}>
@@ -1454,6 +1802,17 @@ export default function CollocationNetworkGraph({
                                     <div style={{ background: controlRowSurface, border: `1px solid ${withAlpha(themeColors.accentSecondary, 0.35)}`, borderRadius: 8, padding: "6px 8px", fontSize: "0.74rem", fontWeight: 600, color: themeColors.textColors.primary }}>
                                         {t("pairSharedWindows", { count: pairMetrics.cooccurrenceCount })}
                                     </div>
+                                    {pairMetrics.offsets && (
+                                        <div style={{ background: controlRowSurface, border: `1px solid ${withAlpha(themeColors.accent, 0.2)}`, borderRadius: 8, padding: "6px 8px", fontSize: "0.73rem", color: "#b5c8ef" }}>
+                                            <div style={{ marginBottom: 4 }}>{t("pairPositionProfile")}</div>
+                                            <PositionProfile
+                                                offsets={pairMetrics.offsets}
+                                                span={span}
+                                                color={themeColors.accentSecondary}
+                                                label={t("pairPositionProfile")}
+                                            />
+                                        </div>
+                                    )}
                                 </div>
                             )}
                         </div>
@@ -1472,11 +1831,11 @@ export default function CollocationNetworkGraph({
                         </div>
                         <div className="viz-legend-item">
                             <div className="viz-legend-line" style={{ background: legendStrong, height: 3 }} />
-                            <span>{t("pmiHigher")}</span>
+                            <span>{t("scoreHigher", { measure: t(`measures.${measure}`) })}</span>
                         </div>
                         <div className="viz-legend-item">
                             <div className="viz-legend-line" style={{ background: legendSoft, height: 2 }} />
-                            <span>{t("pmiLower")}</span>
+                            <span>{t("scoreLower", { measure: t(`measures.${measure}`) })}</span>
                         </div>
                         <div className="viz-legend-item">
                             <div className="viz-legend-line" style={{ background: withAlpha(themeColors.edgeColors.default, 0.36), height: 1.5 }} />
@@ -13,6 +13,10 @@ import { SURAH_NAMES } from "@/lib/data/surahData";
 import { VizExplainerDialog, HelpIcon } from "@/components/ui/VizExplainerDialog";
 import { useVizControl } from "@/lib/hooks/VizControlContext";
 import { getFrequencyColor, getIdentityColor, type LexicalColorMode } from "@/lib/theme/lexicalColoring";
+import { useCorpusQuery } from "@/lib/hooks/useCorpusQuery";
+import { compareTermsBy, DISPERSION_SORT_KEYS, type DispersionSortKey } from "@/lib/search/dispersion";
+import { groupByDivision, type CorpusGrouping } from "@/lib/corpus/mushaf";
+import { useMushafIndex } from "@/lib/hooks/useMushafIndex";
 
 interface CorpusArchitectureMapProps {
     tokens: CorpusToken[];
@@ -23,15 +27,22 @@ interface CorpusArchitectureMapProps {
     lexicalColorMode?: LexicalColorMode;
 }
 
+// Level-1 groupings offered by the map; finer divisions give more rings than the layout can hold.
+const ARCHITECTURE_GROUPINGS: readonly CorpusGrouping[] = ["surah", "juz", "hizb", "manzil"];
+
 interface HierarchyNode {
     id: string;
     name: string;
-    type: "root" | "surah" | "corpus" | "word_root";
+    // "division" nodes stand in for surahs when grouping by juz, hizb or manzil.
+    type: "root" | "surah" | "division" | "corpus" | "word_root";
     value: number;
     children?: HierarchyNode[];
     originalId?: number | string; // For syncing with global state
 }
 
+const isGroupNode = (node: d3.HierarchyNode<HierarchyNode>) =>
+    node.data.type === "surah" || node.data.type === "division";
+
 export default function CorpusArchitectureMap({
     tokens,
     onNodeSelect,
@@ -64,6 +75,13 @@ export default function CorpusArchitectureMap({
     const [dimensions] = useState({ width: 1600, height: 1600 });
     const [hoveredNode, setHoveredNode] = useState<d3.HierarchyPointNode<HierarchyNode> | null>(null);
     const [focusedSurahId, setFocusedSurahId] = useState<number | null>(null);
+    const [focusedDivisionId, setFocusedDivisionId] = useState<number | null>(null);
+    const [grouping, setGrouping] = useState<CorpusGrouping>("surah");
+    const { index: mushafIndex, loading: mushafLoading } = useMushafIndex(grouping !== "surah");
+    // Stay on surahs until the division index is available.
+    const activeGrouping: CorpusGrouping = mushafIndex ? grouping : "surah";
+    const isSurahGrouping = activeGrouping === "surah";
+    const focusedGroupId = isSurahGrouping ? focusedSurahId : focusedDivisionId;
     const [internalSelectedRoot, setInternalSelectedRoot] = useState<string | null>(null);
     const [selectedRootInfo, setSelectedRootInfo] = useState<{
         root: string;
@@ -74,6 +92,7 @@ export default function CorpusArchitectureMap({
     } | null>(null);
 
     const [showHelp, setShowHelp] = useState(false);
+    const [rootSortKey, setRootSortKey] = useState<DispersionSortKey>("frequency");
 
     const [isMounted, setIsMounted] = useState(false);
     const { isLeftSidebarOpen } = useVizControl();
@@ -89,40 +108,81 @@ export default function CorpusArchitectureMap({
         // cleanup not needed anymore
     }, []);
 
-    // Pre-compute surah root counts (stable across focus changes)
+    const { data: rootDispersion } = useCorpusQuery(
+        tokens,
+        rootSortKey !== "frequency" ? { type: "dispersion", feature: "root" } : null
+    );
+    // Orders roots within each surah; also decides which ones unfocused surahs show.
+    const compareRoots = useCallback(
+        (a: { term: string; count: number }, b: { term: string; count: number }) =>
+            compareTermsBy(rootSortKey, rootDispersion, a, b),
+        [rootSortKey, rootDispersion]
+    );
+
+    // Pre-compute root counts per surah or division (stable across focus changes)
     const surahRootData = useMemo(() => {
         const surahMap = new Map<number, {
             id: number,
             tokenCount: number,
+            ayahCount: number,
+            firstSurah: number,
+            lastSurah: number,
             rootCounts: Map<string, number>
         }>();
 
-        tokens.forEach(t => {
-            if (!surahMap.has(t.sura)) {
-                surahMap.set(t.sura, { id: t.sura, tokenCount: 0, rootCounts: new Map() });
-            }
-            const entry = surahMap.get(t.sura)!;
-            entry.tokenCount++;
-            if (t.root) {
-                entry.rootCounts.set(t.root, (entry.rootCounts.get(t.root) || 0) + 1);
-            }
+        groupByDivision(tokens, mushafIndex, activeGrouping).forEach((groupTokens, groupId) => {
+            const rootCounts = new Map<string, number>();
+            const ayahs = new Set<string>();
+            groupTokens.forEach(t => {
+                ayahs.add(`${t.sura}:${t.ayah}`);
+                if (t.root) {
+                    rootCounts.set(t.root, (rootCounts.get(t.root) || 0) + 1);
+                }
+            });
+            surahMap.set(groupId, {
+                id: groupId,
+                tokenCount: groupTokens.length,
+                ayahCount: ayahs.size,
+                firstSurah: groupTokens[0].sura,
+                lastSurah: groupTokens[groupTokens.length - 1].sura,
+                rootCounts
+            });
         });
         return surahMap;
-    }, [tokens]);
+    }, [tokens, mushafIndex, activeGrouping]);
+
+    const groupNodeId = useCallback(
+        (groupId: number) => (isSurahGrouping ? `s-${groupId}` : `d-${groupId}`),
+        [isSurahGrouping]
+    );
+    const groupName = useCallback(
+        (groupId: number) => isSurahGrouping
+            ? SURAH_NAMES[groupId]?.name || `Surah ${groupId}`
+            : `${ts(`groupings.${activeGrouping}`)} ${groupId}`,
+        [isSurahGrouping, activeGrouping, ts]
+    );
+    // Surahs a division spans, e.g. "Al-Baqarah – Ali 'Imran"
+    const divisionSpanLabel = useCallback((groupId: number) => {
+        const data = surahRootData.get(groupId);
+        if (!data) return "";
+        const first = SURAH_NAMES[data.firstSurah]?.name ?? `${data.firstSurah}`;
+        const last = SURAH_NAMES[data.lastSurah]?.name ?? `${data.lastSurah}`;
+        return data.firstSurah === data.lastSurah ? first : `${first} – ${last}`;
+    }, [surahRootData]);
 
     const focusedSurahStats = useMemo(() => {
-        if (!focusedSurahId) return null;
-        const data = surahRootData.get(focusedSurahId);
+        if (!focusedGroupId) return null;
+        const data = surahRootData.get(focusedGroupId);
         return {
             rootsCount: data?.rootCounts.size ?? 0,
-            ayahsCount: SURAH_NAMES[focusedSurahId]?.verses || 0
+            ayahsCount: isSurahGrouping ? SURAH_NAMES[focusedGroupId]?.verses || 0 : data?.ayahCount ?? 0
         };
-    }, [focusedSurahId, surahRootData]);
+    }, [focusedGroupId, surahRootData, isSurahGrouping]);
 
     // Build Hierarchy Data
     // Level 0: Corpus
-    // Level 1: Surahs
-    // Level 2: Roots — ALL roots for focused surah, top N for others
+    // Level 1: Surahs (or juz / hizb / manzil divisions)
+    // Level 2: Roots — ALL roots for focused group, top N for others
     const hierarchyData = useMemo(() => {
         const root: HierarchyNode = {
             id: "corpus",
@@ -138,12 +198,12 @@ export default function CorpusArchitectureMap({
         Array.from(surahRootData.entries())
             .sort((a, b) => a[0] - b[0])
             .forEach(([suraId, data]) => {
-                const surahName = SURAH_NAMES[suraId]?.name || `Surah ${suraId}`;
-                const isFocused = suraId === focusedSurahId;
+                const surahName = groupName(suraId);
+                const isFocused = suraId === focusedGroupId;
 
-                // Sort roots by frequency (descending)
+                // Sort roots by the chosen key (frequency by default)
                 const sortedRoots = Array.from(data.rootCounts.entries())
-                    .sort((a, b) => b[1] - a[1]);
+                    .sort((a, b) => compareRoots({ term: a[0], count: a[1] }, { term: b[0], count: b[1] }));
 
                 // Focused surah: include ALL roots; unfocused: top N only
                 let rootsToShow = isFocused ? sortedRoots : sortedRoots.slice(0, UNFOCUSED_LIMIT);
@@ -160,7 +220,7 @@ export default function CorpusArchitectureMap({
                 }
 
                 const rootNodes = rootsToShow.map(([rootTxt, count]) => ({
-                    id: `s${suraId}-r${rootTxt}`,
+                    id: `${groupNodeId(suraId)}-r${rootTxt}`,
                     name: rootTxt,
                     type: "word_root" as const,
                     value: count,
@@ -168,9 +228,9 @@ export default function CorpusArchitectureMap({
                 }));
 
                 root.children!.push({
-                    id: `s-${suraId}`,
+                    id: groupNodeId(suraId),
                     name: surahName,
-                    type: "surah",
+                    type: isSurahGrouping ? "surah" : "division",
                     value: data.tokenCount,
                     originalId: suraId,
                     children: rootNodes
@@ -178,7 +238,7 @@ export default function CorpusArchitectureMap({
             });
 
         return root;
-    }, [surahRootData, focusedSurahId, highlightRoot, internalSelectedRoot]);
+    }, [surahRootData, focusedGroupId, highlightRoot, internalSelectedRoot, compareRoots, groupName, groupNodeId, isSurahGrouping]);
 
     // Layout Calculation
     const { nodes, links } = useMemo(() => {
@@ -208,12 +268,12 @@ export default function CorpusArchitectureMap({
     }, [hoveredNode]);
 
     const getOpacity = (d: d3.HierarchyPointNode<HierarchyNode>) => {
-        if (focusedSurahId) {
-            const focusId = `s-${focusedSurahId}`;
+        if (focusedGroupId) {
+            const focusId = groupNodeId(focusedGroupId);
             if (d.data.id === "corpus") return 0.6;
             if (d.data.id === focusId) return 1;
             if (d.parent?.data.id === focusId) return 1;
-            if (d.data.type === "surah") return 0.2;
+            if (isGroupNode(d)) return 0.2;
             return 0.05;
         }
 
@@ -242,8 +302,8 @@ export default function CorpusArchitectureMap({
 
     const themeColors = resolveVisualizationTheme(theme);
 
-    const lodMode = focusedSurahId ? "focus" : zoomLevel < 0.65 ? "surah" : zoomLevel < 1.25 ? "focus" : "full";
-    const focusSurahNodeId = focusedSurahId ? `s-${focusedSurahId}` : null;
+    const lodMode = focusedGroupId ? "focus" : zoomLevel < 0.65 ? "surah" : zoomLevel < 1.25 ? "focus" : "full";
+    const focusSurahNodeId = focusedGroupId ? groupNodeId(focusedGroupId) : null;
 
     const rootMeta = useMemo(() => {
         const bySurah = new Map<string, d3.HierarchyPointNode<HierarchyNode>[]>();
@@ -260,7 +320,9 @@ export default function CorpusArchitectureMap({
         const indexById = new Map<string, number>();
         const countBySurah = new Map<string, number>();
         bySurah.forEach((list, parentId) => {
-            list.sort((a, b) => b.data.value - a.data.value);
+            list.sort((a, b) =>
+                compareRoots({ term: a.data.name, count: a.data.value }, { term: b.data.name, count: b.data.value })
+            );
             countBySurah.set(parentId, list.length);
             list.forEach((node, idx) => {
                 rankById.set(node.data.id, idx + 1);
@@ -268,7 +330,7 @@ export default function CorpusArchitectureMap({
             });
         });
         return { rankById, indexById, countBySurah };
-    }, [nodes]);
+    }, [nodes, compareRoots]);
     const { rankById: rootRankById, indexById: rootIndexById, countBySurah: rootCountBySurah } = rootMeta;
 
     const rootGlobalStats = useMemo(() => {
@@ -301,6 +363,26 @@ export default function CorpusArchitectureMap({
         : "";
     const selectedRootGlossLabel = selectedRootGlobalStats?.gloss?.trim() ?? "";
 
+    // Root details for the side panel; roots under a division name the division instead of a surah
+    const rootInfoFor = useCallback((node: d3.HierarchyPointNode<HierarchyNode>) => {
+        const parent = node.parent;
+        const surahId = parent?.data.type === "surah" ? parent.data.originalId as number : null;
+        const surah = surahId ? SURAH_NAMES[surahId] : null;
+        return {
+            root: node.data.originalId as string,
+            count: node.data.value,
+            surahId,
+            surahName: surah?.name ?? (parent?.data.type === "division" ? parent.data.name : null),
+            surahArabic: surah?.arabic ?? null,
+        };
+    }, []);
+
+    const handleGroupingChange = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
+        setGrouping(event.target.value as CorpusGrouping);
+        setFocusedDivisionId(null);
+        setHoveredNode(null);
+    }, []);
+
     // Root search state
     const [rootSearchQuery, setRootSearchQuery] = useState("");
     const deferredRootSearch = useDeferredValue(rootSearchQuery);
@@ -351,13 +433,13 @@ export default function CorpusArchitectureMap({
         const totalTokens = tokens.length;
         const totalSurahs = new Set(tokens.map(t => t.sura)).size;
 
-        // Count roots for focused surah specifically
-        const focusedSurahRootCount = focusedSurahId
-            ? surahRootData.get(focusedSurahId)?.rootCounts.size ?? 0
+        // Count roots for focused surah (or division) specifically
+        const focusedSurahRootCount = focusedGroupId
+            ? surahRootData.get(focusedGroupId)?.rootCounts.size ?? 0
             : 0;
 
         return { totalUniqueRoots, displayedUniqueRoots, totalTokens, totalSurahs, focusedSurahRootCount };
-    }, [rootGlobalStats, nodes, tokens, focusedSurahId, surahRootData]);
+    }, [rootGlobalStats, nodes, tokens, focusedGroupId, surahRootData]);
 
     const rootVisibilityLimit = useMemo(() => {
         if (focusSurahNodeId) {
@@ -530,7 +612,7 @@ export default function CorpusArchitectureMap({
         const shouldShowRoot = (node: d3.HierarchyPointNode<HierarchyNode>) => {
             if (focusSurahNodeId) {
                 if (node.data.id === "corpus") return true;
-                if (node.data.type === "surah") return true;
+                if (isGroupNode(node)) return true;
                 if (node.parent?.data.id === focusSurahNodeId) return true;
                 return node.data.id === focusSurahNodeId;
             }
@@ -541,7 +623,7 @@ export default function CorpusArchitectureMap({
             }
             if (lodMode === "full") return true;
             if (highlightRoot && node.data.originalId === highlightRoot) return true;
-            if (lodMode === "focus" && hoveredNode?.data.type === "surah") {
+            if (lodMode === "focus" && hoveredNode && isGroupNode(hoveredNode)) {
                 return node.parent?.data.id === hoveredNode.data.id;
             }
             return false;
@@ -560,9 +642,9 @@ export default function CorpusArchitectureMap({
 
     // Count how many focused-surah roots are currently in the viewport
     const focusedSurahRootsInView = useMemo(() => {
-        if (!focusedSurahId) return 0;
-        return visibleNodes.filter(n => n.data.type === "word_root" && n.parent?.data.id === `s-${focusedSurahId}`).length;
-    }, [visibleNodes, focusedSurahId]);
+        if (!focusSurahNodeId) return 0;
+        return visibleNodes.filter(n => n.data.type === "word_root" && n.parent?.data.id === focusSurahNodeId).length;
+    }, [visibleNodes, focusSurahNodeId]);
 
     const visibleNodeIds = useMemo(() => new Set(visibleNodes.map((node) => node.data.id)), [visibleNodes]);
     const visibleLinks = useMemo(() => {
@@ -573,7 +655,7 @@ export default function CorpusArchitectureMap({
         return links.filter((link) => {
             const sourceId = link.source.data.id;
             const targetId = link.target.data.id;
-            const isCorpusToSurah = sourceId === "corpus" && link.target.data.type === "surah";
+            const isCorpusToSurah = sourceId === "corpus" && isGroupNode(link.target);
             const isFocusLink = sourceId === focusSurahNodeId || targetId === focusSurahNodeId;
             const isFocusRootLink = link.source.parent?.data.id === focusSurahNodeId || link.target.parent?.data.id === focusSurahNodeId;
             return (isCorpusToSurah || isFocusLink || isFocusRootLink) && visibleNodeIds.has(sourceId) && visibleNodeIds.has(targetId);
@@ -619,8 +701,36 @@ export default function CorpusArchitectureMap({
                                         </span>
                                     </div>
                                 </div>
+                                <label style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 8, fontSize: '0.72em' }}>
+                                    <span style={{ opacity: 0.7 }}>{t("sortRootsBy")}</span>
+                                    <select
+                                        data-testid="corpus-architecture-sort-control"
+                                        value={rootSortKey}
+                                        onChange={(e: ChangeEvent<HTMLSelectElement>) => setRootSortKey(e.target.value as DispersionSortKey)}
+                                        title={t("sortRootsHint")}
+                                        style={{ flex: 1, minWidth: 0, fontSize: '1em', padding: '2px 6px', borderRadius: 6, border: '1px solid var(--line)', background: 'var(--surface)', color: 'var(--ink)' }}
+                                    >
+                                        {DISPERSION_SORT_KEYS.map((key) => (
+                                            <option key={key} value={key}>{t(`sortKeys.${key}`)}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 6, fontSize: '0.72em' }}>
+                                    <span style={{ opacity: 0.7 }}>{ts("groupBy")}</span>
+                                    <select
+                                        data-testid="corpus-architecture-grouping-control"
+                                        value={grouping}
+                                        onChange={handleGroupingChange}
+                                        title={mushafLoading ? ts("loadingDivisions") : ts("groupBy")}
+                                        style={{ flex: 1, minWidth: 0, fontSize: '1em', padding: '2px 6px', borderRadius: 6, border: '1px solid var(--line)', background: 'var(--surface)', color: 'var(--ink)' }}
+                                    >
+                                        {ARCHITECTURE_GROUPINGS.map((entry) => (
+                                            <option key={entry} value={entry}>{ts(`groupings.${entry}`)}</option>
+                                        ))}
+                                    </select>
+                                </label>
                                 <div style={{ marginTop: 8, fontSize: '0.7em', opacity: 0.5, lineHeight: 1.6 }}>
-                                    {focusedSurahId ? (
+                                    {focusedGroupId ? (
                                         <>
                                             {focusedSurahRootsInView}/{corpusCoverage.focusedSurahRootCount} {ts("root")}s {t("visibleLabel")}
                                             {focusedSurahRootsInView < corpusCoverage.focusedSurahRootCount && (
@@ -727,7 +837,7 @@ export default function CorpusArchitectureMap({
                                         className="viz-legend-dot"
                                         style={{ background: themeColors.accent, width: 10, height: 10 }}
                                     />
-                                    <span style={{ fontSize: '0.75em' }}>{ts("surah")}</span>
+                                    <span style={{ fontSize: '0.75em' }}>{ts(`groupings.${activeGrouping}`)}</span>
                                 </div>
                                 <div className="viz-legend-item" style={{ marginBottom: '6px' }}>
                                     <div
@@ -824,16 +934,7 @@ export default function CorpusArchitectureMap({
                                             style={{ cursor: "pointer" }}
                                             onClick={() => {
                                                 if (link.target.data.type === "word_root") {
-                                                    const root = link.target.data.originalId as string;
-                                                    const surahId = link.target.parent?.data.originalId as number | undefined;
-                                                    const surah = surahId ? SURAH_NAMES[surahId] : null;
-                                                    setSelectedRootInfo({
-                                                        root,
-                                                        count: link.target.data.value,
-                                                        surahId: surahId ?? null,
-                                                        surahName: surah?.name ?? null,
-                                                        surahArabic: surah?.arabic ?? null,
-                                                    });
+                                                    setSelectedRootInfo(rootInfoFor(link.target));
                                                 }
                                             }}
                                         />
@@ -851,7 +952,7 @@ export default function CorpusArchitectureMap({
                                 const y = position.y;
                                 const isHighlighted = getOpacity(node) === 1;
                                 const showLabel =
-                                    node.data.type === "surah" ||
+                                    isGroupNode(node) ||
                                     (node.data.type === "word_root" &&
                                         (lodMode === "full" ||
                                             isHighlighted ||
@@ -871,20 +972,20 @@ export default function CorpusArchitectureMap({
                                                 onNodeSelect?.('surah', surahId);
                                                 setSelectedRootInfo(null);
                                                 setInternalSelectedRoot(null);
+                                            } else if (node.data.type === 'division') {
+                                                const divisionId = node.data.originalId as number;
+                                                setFocusedDivisionId((prev) => (prev === divisionId ? null : divisionId));
+                                                // Select the surah the division opens with
+                                                const firstSurah = surahRootData.get(divisionId)?.firstSurah;
+                                                if (firstSurah) onNodeSelect?.('surah', firstSurah);
+                                                setSelectedRootInfo(null);
+                                                setInternalSelectedRoot(null);
                                             } else if (node.data.type === 'word_root') {
                                                 const root = node.data.originalId as string;
                                                 // Toggle: click again to deselect
                                                 const isDeselect = internalSelectedRoot === root;
                                                 setInternalSelectedRoot(isDeselect ? null : root);
-                                                const surahId = node.parent?.data.originalId as number | undefined;
-                                                const surah = surahId ? SURAH_NAMES[surahId] : null;
-                                                setSelectedRootInfo(isDeselect ? null : {
-                                                    root,
-                                                    count: node.data.value,
-                                                    surahId: surahId ?? null,
-                                                    surahName: surah?.name ?? null,
-                                                    surahArabic: surah?.arabic ?? null,
-                                                });
+                                                setSelectedRootInfo(isDeselect ? null : rootInfoFor(node));
                                                 onNodeSelect?.('root', root);
                                             }
                                         }}
@@ -894,24 +995,24 @@ export default function CorpusArchitectureMap({
                                     >
                                         {isHighlighted && node.data.type !== "corpus" && (
                                             <circle
-                                                r={node.data.type === "surah" ? 7.5 : 4.8}
+                                                r={isGroupNode(node) ? 7.5 : 4.8}
                                                 fill="none"
-                                                stroke={node.data.type === "surah" ? themeColors.accent : (rootNodeColorById.get(node.data.id) ?? themeColors.nodeColors.default)}
+                                                stroke={isGroupNode(node) ? themeColors.accent : (rootNodeColorById.get(node.data.id) ?? themeColors.nodeColors.default)}
                                                 strokeOpacity={theme === "dark" ? 0.55 : 0.45}
                                                 strokeWidth={1.2}
                                                 pointerEvents="none"
                                             />
                                         )}
                                         <circle
-                                            r={node.data.type === "surah" ? 5 : (node.data.type === "corpus" ? 0 : 3)}
-                                            fill={node.data.type === "surah" ? themeColors.accent : (rootNodeColorById.get(node.data.id) ?? themeColors.nodeColors.default)}
+                                            r={isGroupNode(node) ? 5 : (node.data.type === "corpus" ? 0 : 3)}
+                                            fill={isGroupNode(node) ? themeColors.accent : (rootNodeColorById.get(node.data.id) ?? themeColors.nodeColors.default)}
                                             stroke={theme === "dark" ? "rgba(2, 6, 23, 0.85)" : "rgba(255, 255, 255, 0.85)"}
                                             strokeWidth={node.data.type === "corpus" ? 0 : 0.65}
                                             pointerEvents="none"
                                         />
                                         {node.data.type !== "corpus" && (
                                             <circle
-                                                r={node.data.type === "surah" ? 14 : 10}
+                                                r={isGroupNode(node) ? 14 : 10}
                                                 fill="transparent"
                                             />
                                         )}
@@ -923,7 +1024,7 @@ export default function CorpusArchitectureMap({
                                                 x={position.angleDeg < 180 ? labelOffsetForNode(node) : -labelOffsetForNode(node)}
                                                 textAnchor={position.angleDeg < 180 ? "start" : "end"}
                                                 transform={`rotate(${position.angleDeg < 180 ? position.angleDeg - 90 : position.angleDeg + 90})`}
-                                                fontSize={node.data.type === 'surah' ? 9 : 8}
+                                                fontSize={isGroupNode(node) ? 9 : 8}
                                                 fill={themeColors.textColors.primary}
                                                 fontWeight={isHighlighted ? "bold" : "normal"}
                                                 style={{
@@ -965,7 +1066,11 @@ export default function CorpusArchitectureMap({
                                     textTransform: 'uppercase'
                                 }}
                             >
-                                {focusedSurahId ? `${ts("surahCaps")} ${focusedSurahId}` : (internalSelectedRoot ? "" : t("corpus"))}
+                                {focusedGroupId
+                                    ? isSurahGrouping
+                                        ? `${ts("surahCaps")} ${focusedGroupId}`
+                                        : `${ts(`groupings.${activeGrouping}`).toUpperCase()} ${focusedGroupId}`
+                                    : (internalSelectedRoot ? "" : t("corpus"))}
                             </text>
                             <text
                                 y={10}
@@ -977,11 +1082,11 @@ export default function CorpusArchitectureMap({
                                     textShadow: theme === "dark" ? "0 2px 10px rgba(0,0,0,0.5)" : "0 2px 10px rgba(255,255,255,0.5)"
                                 }}
                             >
-                                {focusedSurahId
-                                    ? SURAH_NAMES[focusedSurahId]?.name
+                                {focusedGroupId
+                                    ? isSurahGrouping ? SURAH_NAMES[focusedGroupId]?.name : divisionSpanLabel(focusedGroupId)
                                     : (internalSelectedRoot ?? t("architecture"))}
                             </text>
-                            {focusedSurahId && (
+                            {focusedSurahId && isSurahGrouping && (
                                 <text
                                     y={50}
                                     textAnchor="middle"
@@ -995,7 +1100,7 @@ export default function CorpusArchitectureMap({
                                     {SURAH_NAMES[focusedSurahId]?.arabic}
                                 </text>
                             )}
-                            {focusedSurahId && focusedSurahStats && (
+                            {focusedGroupId && focusedSurahStats && (
                                 <text
                                     y={80}
                                     textAnchor="middle"
@@ -1011,7 +1116,7 @@ export default function CorpusArchitectureMap({
                                     })}
                                 </text>
                             )}
-                            {focusedSurahId && focusedSurahRootsInView < corpusCoverage.focusedSurahRootCount && (
+                            {focusedGroupId && focusedSurahRootsInView < corpusCoverage.focusedSurahRootCount && (
                                 <text
                                     y={105}
                                     textAnchor="middle"
@@ -1024,7 +1129,7 @@ export default function CorpusArchitectureMap({
                                     {t("zoomToSeeMore")} ({focusedSurahRootsInView}/{corpusCoverage.focusedSurahRootCount})
                                 </text>
                             )}
-                            {internalSelectedRoot && !focusedSurahId && (
+                            {internalSelectedRoot && !focusedGroupId && (
                                 <text
                                     y={40}
                                     textAnchor="middle"
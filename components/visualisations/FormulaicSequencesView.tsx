@@ -0,0 +1,333 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { useTranslations } from "next-intl";
+import type { CorpusToken } from "@/lib/schema/types";
+import {
+    MAX_NGRAM_LENGTH,
+    MIN_NGRAM_LENGTH,
+    NGRAM_LAYERS,
+    type NgramLayer,
+    type NgramPosition,
+} from "@/lib/search/ngrams";
+import { SURAH_NAMES } from "@/lib/data/surahData";
+import { useCorpusQuery } from "@/lib/hooks/useCorpusQuery";
+import { useVizControl } from "@/lib/hooks/VizControlContext";
+import { VizExplainerDialog, HelpIcon } from "@/components/ui/VizExplainerDialog";
+
+export interface FormulaicLocationSelection {
+    surahId: number;
+    ayah: number;
+    tokenIds: string[];
+}
+
+interface FormulaicSequencesViewProps {
+    tokens: CorpusToken[];
+    onTokenHover: (tokenId: string | null) => void;
+    onLocationSelect?: (selection: FormulaicLocationSelection) => void;
+    theme?: "light" | "dark";
+}
+
+const NGRAM_POSITIONS: NgramPosition[] = ["any", "ayahStart", "ayahEnd"];
+const RESULT_LIMIT = 200;
+
+export default function FormulaicSequencesView({
+    tokens,
+    onTokenHover,
+    onLocationSelect,
+    theme = "dark",
+}: FormulaicSequencesViewProps) {
+    const t = useTranslations("Visualizations.FormulaicSequences");
+    const ts = useTranslations("Visualizations.Shared");
+    const { isLeftSidebarOpen } = useVizControl();
+    const [isMounted, setIsMounted] = useState(false);
+    const [showHelp, setShowHelp] = useState(false);
+    const [layer, setLayer] = useState<NgramLayer>("text");
+    const [minN, setMinN] = useState(3);
+    const [maxN, setMaxN] = useState(MAX_NGRAM_LENGTH);
+    const [minFrequency, setMinFrequency] = useState(3);
+    const [minRange, setMinRange] = useState(1);
+    const [position, setPosition] = useState<NgramPosition>("any");
+    const [collapseSubsumed, setCollapseSubsumed] = useState(true);
+    const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+    useEffect(() => {
+        setIsMounted(true);
+    }, []);
+
+    const { data: sequences, loading } = useCorpusQuery(tokens, {
+        type: "ngrams",
+        options: { layer, minN, maxN, minFrequency, minRange, position, collapseSubsumed, limit: RESULT_LIMIT },
+    });
+    const results = sequences ?? [];
+
+    return (
+        <section className="immersive-viz" data-theme={theme} style={{ width: "100%", height: "100%", position: "relative", overflow: "hidden" }}>
+            <div className="viz-controls floating-controls">
+                <div className="ayah-meta-wrapper">
+                    <p className="ayah-meta-glass">
+                        {loading && !sequences ? t("loading") : t("meta", { count: results.length })}
+                    </p>
+                </div>
+            </div>
+
+            <div className="formulaic-scroll" data-testid="formulaic-sequences-list">
+                {!loading && results.length === 0 ? (
+                    <p className="formulaic-empty">{t("empty")}</p>
+                ) : (
+                    <ol className="formulaic-list">
+                        {results.map((sequence) => {
+                            const isExpanded = expandedKey === sequence.key;
+                            return (
+                                <li key={sequence.key} className={`formulaic-item ${isExpanded ? "expanded" : ""}`}>
+                                    <button
+                                        type="button"
+                                        className="formulaic-row"
+                                        aria-expanded={isExpanded}
+                                        onClick={() => setExpandedKey(isExpanded ? null : sequence.key)}
+                                    >
+                                        <span className="formulaic-phrase arabic-text" lang="ar" dir="rtl">
+                                            {layer === "text" ? sequence.text : sequence.terms.join(" · ")}
+                                        </span>
+                                        <span className="formulaic-stats">
+                                            {t("stats", { n: sequence.n, frequency: sequence.frequency, range: sequence.range })}
+                                        </span>
+                                    </button>
+                                    {isExpanded && (
+                                        <div className="formulaic-locations" aria-label={t("locations")}>
+                                            {sequence.locations.map((location) => (
+                                                <button
+                                                    key={location.tokenIds[0]}
+                                                    type="button"
+                                                    className="formulaic-location"
+                                                    title={t("openInDependency", {
+                                                        surah: SURAH_NAMES[location.surah]?.name ?? location.surah,
+                                                        ayah: location.ayah,
+                                                    })}
+                                                    onMouseEnter={() => onTokenHover(location.tokenIds[0])}
+                                                    onMouseLeave={() => onTokenHover(null)}
+                                                    onClick={() =>
+                                                        onLocationSelect?.({
+                                                            surahId: location.surah,
+                                                            ayah: location.ayah,
+                                                            tokenIds: location.tokenIds,
+                                                        })
+                                                    }
+                                                >
+                                                    {location.surah}:{location.ayah}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ol>
+                )}
+            </div>
+
+            {isMounted && document.getElementById("viz-sidebar-portal") && createPortal(
+                <div className={`viz-left-stack ${!isLeftSidebarOpen ? "collapsed" : ""}`}>
+                    <div className="viz-left-panel" data-testid="formulaic-sequences-controls">
+                        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
+                            <p className="eyebrow">{t("title")}</p>
+                            <HelpIcon onClick={() => setShowHelp(true)} />
+                        </div>
+                        <label className="formulaic-field">
+                            <span className="formulaic-label">{t("layer")}</span>
+                            <select className="formulaic-select" value={layer} onChange={(e) => setLayer(e.target.value as NgramLayer)}>
+                                {NGRAM_LAYERS.map((option) => (
+                                    <option key={option} value={option}>{t(`layers.${option}`)}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="formulaic-field">
+                            <span className="formulaic-label">{t("length", { min: minN, max: maxN })}</span>
+                            <div style={{ display: "flex", gap: 6 }}>
+                                <input
+                                    type="range"
+                                    min={MIN_NGRAM_LENGTH}
+                                    max={MAX_NGRAM_LENGTH}
+                                    value={minN}
+                                    aria-label={t("minLength")}
+                                    onChange={(e) => {
+                                        const value = parseInt(e.target.value, 10);
+                                        setMinN(value);
+                                        setMaxN((current) => Math.max(current, value));
+                                    }}
+                                />
+                                <input
+                                    type="range"
+                                    min={MIN_NGRAM_LENGTH}
+                                    max={MAX_NGRAM_LENGTH}
+                                    value={maxN}
+                                    aria-label={t("maxLength")}
+                                    onChange={(e) => {
+                                        const value = parseInt(e.target.value, 10);
+                                        setMaxN(value);
+                                        setMinN((current) => Math.min(current, value));
+                                    }}
+                                />
+                            </div>
+                        </label>
+                        <label className="formulaic-field">
+                            <span className="formulaic-label">{t("minFrequency", { count: minFrequency })}</span>
+                            <input type="range" min={2} max={30} value={minFrequency} onChange={(e) => setMinFrequency(parseInt(e.target.value, 10))} />
+                        </label>
+                        <label className="formulaic-field">
+                            <span className="formulaic-label">{t("minRange", { count: minRange })}</span>
+                            <input type="range" min={1} max={40} value={minRange} onChange={(e) => setMinRange(parseInt(e.target.value, 10))} />
+                        </label>
+                        <label className="formulaic-field">
+                            <span className="formulaic-label">{t("position")}</span>
+                            <select className="formulaic-select" value={position} onChange={(e) => setPosition(e.target.value as NgramPosition)}>
+                                {NGRAM_POSITIONS.map((option) => (
+                                    <option key={option} value={option}>{t(`positions.${option}`)}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="formulaic-check">
+                            <input type="checkbox" checked={collapseSubsumed} onChange={(e) => setCollapseSubsumed(e.target.checked)} />
+                            {t("collapseSubsumed")}
+                        </label>
+                    </div>
+
+                    <div className="viz-legend" style={{ marginTop: "auto" }}>
+                        <span className="eyebrow" style={{ fontSize: "0.7em" }}>{ts("legend")}</span>
+                        <div className="viz-legend-item">
+                            <span>{t("clickHint")}</span>
+                        </div>
+                    </div>
+                </div>,
+                document.getElementById("viz-sidebar-portal")!
+            )}
+
+            <VizExplainerDialog
+                isOpen={showHelp}
+                onClose={() => setShowHelp(false)}
+                content={{
+                    title: t("Help.title"),
+                    description: t("Help.description"),
+                    sections: [
+                        { label: t("Help.layersLabel"), text: t("Help.layersText") },
+                        { label: t("Help.filtersLabel"), text: t("Help.filtersText") },
+                        { label: t("Help.clickLabel"), text: t("Help.clickText") },
+                    ],
+                }}
+                theme={theme}
+            />
+
+            <style jsx>{`
+                .formulaic-scroll {
+                    position: absolute;
+                    inset: 72px 0 0 0;
+                    overflow-y: auto;
+                    padding: 0 24px 32px;
+                }
+
+                .formulaic-list {
+                    list-style: none;
+                    margin: 0 auto;
+                    padding: 0;
+                    max-width: 760px;
+                    display: grid;
+                    gap: 6px;
+                }
+
+                .formulaic-item {
+                    border: 1px solid var(--line);
+                    border-radius: 10px;
+                    background: color-mix(in srgb, var(--surface), transparent 12%);
+                }
+
+                .formulaic-item.expanded {
+                    border-color: var(--accent);
+                }
+
+                .formulaic-row {
+                    display: flex;
+                    width: 100%;
+                    align-items: center;
+                    justify-content: space-between;
+                    gap: 12px;
+                    padding: 8px 12px;
+                    border: none;
+                    background: none;
+                    color: var(--ink);
+                    cursor: pointer;
+                    text-align: start;
+                }
+
+                .formulaic-phrase {
+                    font-size: 1.15rem;
+                }
+
+                .formulaic-stats {
+                    flex-shrink: 0;
+                    font-size: 0.74rem;
+                    color: var(--ink-muted);
+                    font-variant-numeric: tabular-nums;
+                }
+
+                .formulaic-locations {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 4px;
+                    padding: 0 12px 10px;
+                }
+
+                .formulaic-location {
+                    border: 1px solid var(--line);
+                    border-radius: 999px;
+                    background: transparent;
+                    color: var(--ink-secondary);
+                    font-size: 0.72rem;
+                    padding: 2px 8px;
+                    cursor: pointer;
+                }
+
+                .formulaic-location:hover {
+                    border-color: var(--accent);
+                    color: var(--accent);
+                }
+
+                .formulaic-empty {
+                    text-align: center;
+                    color: var(--ink-muted);
+                    margin-top: 48px;
+                }
+
+                .formulaic-field {
+                    display: flex;
+                    flex-direction: column;
+                    gap: 4px;
+                    margin-bottom: 8px;
+                }
+
+                .formulaic-label {
+                    font-size: 0.72rem;
+                    color: var(--ink-secondary);
+                    letter-spacing: 0.02em;
+                }
+
+                .formulaic-select {
+                    border: 1px solid var(--line);
+                    border-radius: 6px;
+                    background: var(--bg-1);
+                    color: var(--ink);
+                    font-size: 0.78rem;
+                    padding: 4px 8px;
+                }
+
+                .formulaic-check {
+                    display: flex;
+                    align-items: center;
+                    gap: 6px;
+                    font-size: 0.74rem;
+                    color: var(--ink-secondary);
+                }
+            `}</style>
+        </section>
+    );
+}
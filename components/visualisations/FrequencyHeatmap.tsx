@@ -0,0 +1,375 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import * as d3 from "d3";
+import { useTranslations } from "next-intl";
+import type { CorpusToken } from "@/lib/schema/types";
+import { getNodeColor, resolveVisualizationTheme } from "@/lib/schema/visualizationTypes";
+import { calculateRootFrequencies } from "@/lib/search/collocation";
+import {
+    buildFrequencyHeatmap,
+    type HeatmapColumnSort,
+    type HeatmapLayout,
+    type HeatmapNormalization,
+    type HeatmapRowSort,
+} from "@/lib/search/heatmap";
+import { SURAH_NAMES } from "@/lib/data/surahData";
+import { useZoom } from "@/lib/hooks/useZoom";
+import { useVizControl } from "@/lib/hooks/VizControlContext";
+import { VizExplainerDialog, HelpIcon } from "@/components/ui/VizExplainerDialog";
+
+export interface HeatmapCellSelection {
+    surahId: number;
+    ayah?: number;
+    root: string | null;
+    tokenId: string | null;
+}
+
+interface FrequencyHeatmapProps {
+    tokens: CorpusToken[];
+    selectedSurahId: number;
+    highlightRoot?: string | null;
+    onTokenHover: (tokenId: string | null) => void;
+    onCellSelect?: (selection: HeatmapCellSelection) => void;
+    theme?: "light" | "dark";
+}
+
+interface HoveredCell {
+    rowIndex: number;
+    columnIndex: number;
+}
+
+const CELL_SIZE = 14;
+const ROW_LABEL_WIDTH = 96;
+const COLUMN_LABEL_HEIGHT = 36;
+const MARGIN = 40;
+
+function formatValue(value: number, normalization: HeatmapNormalization): string {
+    if (normalization === "raw") return value.toLocaleString();
+    if (normalization === "per-1000") return value.toFixed(1);
+    return value.toFixed(3);
+}
+
+export default function FrequencyHeatmap({
+    tokens,
+    selectedSurahId,
+    highlightRoot,
+    onTokenHover,
+    onCellSelect,
+    theme = "dark",
+}: FrequencyHeatmapProps) {
+    const t = useTranslations("Visualizations.Heatmap");
+    const ts = useTranslations("Visualizations.Shared");
+    const { isLeftSidebarOpen } = useVizControl();
+    const { svgRef, gRef, resetZoom } = useZoom<SVGSVGElement>({ minScale: 0.2, maxScale: 6 });
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [isMounted, setIsMounted] = useState(false);
+    const [showHelp, setShowHelp] = useState(false);
+    const [layoutMode, setLayoutMode] = useState<HeatmapLayout>("root-surah");
+    const [normalization, setNormalization] = useState<HeatmapNormalization>("per-1000");
+    const [rowSort, setRowSort] = useState<HeatmapRowSort>("frequency");
+    const [columnSort, setColumnSort] = useState<HeatmapColumnSort>("canonical");
+    const [maxRows, setMaxRows] = useState(30);
+    const [hoveredCell, setHoveredCell] = useState<HoveredCell | null>(null);
+
+    useEffect(() => {
+        setIsMounted(true);
+    }, []);
+
+    const themeColors = resolveVisualizationTheme(theme);
+    const freqData = useMemo(() => calculateRootFrequencies(tokens), [tokens]);
+
+    const matrix = useMemo(
+        () => buildFrequencyHeatmap(
+            tokens,
+            { layout: layoutMode, normalization, rowSort, columnSort, maxRows, surahId: selectedSurahId },
+            freqData
+        ),
+        [tokens, layoutMode, normalization, rowSort, columnSort, maxRows, selectedSurahId, freqData]
+    );
+
+    const colorScale = useMemo(
+        () => d3.scaleSequentialSqrt(theme === "dark" ? d3.interpolateInferno : d3.interpolateYlGnBu)
+            .domain([0, matrix.maxValue || 1]),
+        [matrix.maxValue, theme]
+    );
+
+    const gridWidth = matrix.columns.length * CELL_SIZE;
+    const gridHeight = matrix.rows.length * CELL_SIZE;
+    const width = MARGIN * 2 + ROW_LABEL_WIDTH + gridWidth;
+    const height = MARGIN * 2 + COLUMN_LABEL_HEIGHT + gridHeight;
+    const columnLabelStep = Math.max(1, Math.ceil(matrix.columns.length / 40));
+
+    const hovered = hoveredCell
+        ? {
+            row: matrix.rows[hoveredCell.rowIndex],
+            column: matrix.columns[hoveredCell.columnIndex],
+            cell: matrix.cells[hoveredCell.rowIndex]?.[hoveredCell.columnIndex],
+        }
+        : null;
+
+    const handleCellClick = (rowIndex: number, columnIndex: number) => {
+        const row = matrix.rows[rowIndex];
+        const column = matrix.columns[columnIndex];
+        const cell = matrix.cells[rowIndex]?.[columnIndex];
+        if (!row || !column || !cell || cell.count === 0) return;
+        onCellSelect?.({
+            surahId: column.surahId,
+            ayah: column.ayah,
+            root: row.root,
+            tokenId: cell.tokenId,
+        });
+    };
+
+    const layoutLabel = layoutMode === "pos-ayah"
+        ? t("scopeSurah", { surah: SURAH_NAMES[selectedSurahId]?.name ?? selectedSurahId })
+        : t("scopeCorpus");
+
+    return (
+        <section className="immersive-viz" data-theme={theme} style={{ width: "100%", height: "100%", position: "relative", overflow: "hidden" }}>
+            <div className="viz-controls floating-controls">
+                <div className="ayah-meta-wrapper">
+                    <button className="kg-reset-btn" onClick={resetZoom} title={ts("reset")}>
+                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                            <path d="M4 14v4h4M20 10V6h-4M4 10V6h4M20 14v4h-4M10 10l-6-6M14 14l6 6M10 14l-6 6M14 10l6-6" />
+                        </svg>
+                    </button>
+                    <p className="ayah-meta-glass" style={{ marginLeft: 8 }}>
+                        {matrix.rows.length} × {matrix.columns.length} · {layoutLabel}
+                        {highlightRoot && ` · ${ts("root")}: ${highlightRoot}`}
+                    </p>
+                </div>
+            </div>
+
+            <div ref={containerRef} className="viz-container" style={{ width: "100%", height: "100%", position: "absolute", top: 0, left: 0 }}>
+                <svg
+                    ref={svgRef}
+                    viewBox={`0 0 ${width} ${height}`}
+                    className="frequency-heatmap viz-canvas"
+                    data-testid="frequency-heatmap"
+                    style={{ width: "100%", height: "100%", cursor: "grab" }}
+                >
+                    <g ref={gRef}>
+                        <g transform={`translate(${MARGIN + ROW_LABEL_WIDTH}, ${MARGIN})`}>
+                            {matrix.columns.map((column, columnIndex) => (
+                                columnIndex % columnLabelStep === 0 ? (
+                                    <text
+                                        key={`col-${column.key}`}
+                                        x={columnIndex * CELL_SIZE + CELL_SIZE / 2}
+                                        y={COLUMN_LABEL_HEIGHT - 6}
+                                        textAnchor="start"
+                                        fontSize="9"
+                                        fill={hoveredCell?.columnIndex === columnIndex ? themeColors.accent : themeColors.textColors.muted}
+                                        transform={`rotate(-60 ${columnIndex * CELL_SIZE + CELL_SIZE / 2} ${COLUMN_LABEL_HEIGHT - 6})`}
+                                    >
+                                        {column.label}
+                                    </text>
+                                ) : null
+                            ))}
+                        </g>
+
+                        <g transform={`translate(${MARGIN}, ${MARGIN + COLUMN_LABEL_HEIGHT})`}>
+                            {matrix.rows.map((row, rowIndex) => {
+                                const isHighlighted = Boolean(highlightRoot) && row.root === highlightRoot;
+                                return (
+                                    <g key={`row-${row.key}`}>
+                                        {layoutMode === "pos-ayah" && (
+                                            <circle
+                                                cx={8}
+                                                cy={rowIndex * CELL_SIZE + CELL_SIZE / 2}
+                                                r={4}
+                                                fill={getNodeColor(row.key)}
+                                            />
+                                        )}
+                                        <text
+                                            x={ROW_LABEL_WIDTH - 8}
+                                            y={rowIndex * CELL_SIZE + CELL_SIZE / 2 + 4}
+                                            textAnchor="end"
+                                            fontSize="12"
+                                            fontWeight={isHighlighted ? 700 : 500}
+                                            className={layoutMode === "pos-ayah" ? undefined : "arabic-text"}
+                                            fill={isHighlighted || hoveredCell?.rowIndex === rowIndex ? themeColors.accent : themeColors.textColors.secondary}
+                                        >
+                                            {row.label}
+                                        </text>
+                                    </g>
+                                );
+                            })}
+                        </g>
+
+                        <g transform={`translate(${MARGIN + ROW_LABEL_WIDTH}, ${MARGIN + COLUMN_LABEL_HEIGHT})`}>
+                            {matrix.cells.map((rowCells, rowIndex) => rowCells.map((cell, columnIndex) => (
+                                <rect
+                                    key={`${rowIndex}-${columnIndex}`}
+                                    x={columnIndex * CELL_SIZE}
+                                    y={rowIndex * CELL_SIZE}
+                                    width={CELL_SIZE - 1}
+                                    height={CELL_SIZE - 1}
+                                    rx={2}
+                                    fill={cell.count === 0
+                                        ? (theme === "dark" ? "rgba(255,255,255,0.04)" : "rgba(31, 28, 25, 0.05)")
+                                        : colorScale(cell.value)}
+                                    stroke={hoveredCell?.rowIndex === rowIndex && hoveredCell?.columnIndex === columnIndex ? themeColors.accent : "none"}
+                                    strokeWidth={1.5}
+                                    style={{ cursor: cell.count > 0 ? "pointer" : "default" }}
+                                    onMouseEnter={() => {
+                                        setHoveredCell({ rowIndex, columnIndex });
+                                        onTokenHover(cell.tokenId);
+                                    }}
+                                    onMouseLeave={() => {
+                                        setHoveredCell(null);
+                                        onTokenHover(null);
+                                    }}
+                                    onClick={() => handleCellClick(rowIndex, columnIndex)}
+                                />
+                            )))}
+                        </g>
+
+                        {matrix.rows.length === 0 && (
+                            <text x={width / 2} y={height / 2} textAnchor="middle" fill={themeColors.textColors.muted} fontSize="13">
+                                {t("empty")}
+                            </text>
+                        )}
+                    </g>
+                </svg>
+            </div>
+
+            {isMounted && document.getElementById("viz-sidebar-portal") && createPortal(
+                <div className={`viz-left-stack ${!isLeftSidebarOpen ? "collapsed" : ""}`}>
+                    <div className="viz-left-panel heatmap-controls" data-testid="heatmap-controls">
+                        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
+                            <p className="eyebrow">{t("title")}</p>
+                            <HelpIcon onClick={() => setShowHelp(true)} />
+                        </div>
+                        <label className="heatmap-field">
+                            <span className="heatmap-label">{t("layout")}</span>
+                            <select className="heatmap-select" value={layoutMode} onChange={(e) => setLayoutMode(e.target.value as HeatmapLayout)}>
+                                <option value="root-surah">{t("layouts.root-surah")}</option>
+                                <option value="lemma-surah">{t("layouts.lemma-surah")}</option>
+                                <option value="pos-ayah">{t("layouts.pos-ayah")}</option>
+                            </select>
+                        </label>
+                        <label className="heatmap-field">
+                            <span className="heatmap-label">{t("normalization")}</span>
+                            <select className="heatmap-select" value={normalization} onChange={(e) => setNormalization(e.target.value as HeatmapNormalization)}>
+                                <option value="raw">{t("normalizations.raw")}</option>
+                                <option value="per-1000">{t("normalizations.per-1000")}</option>
+                                <option value="tfidf">{t("normalizations.tfidf")}</option>
+                            </select>
+                        </label>
+                        <label className="heatmap-field">
+                            <span className="heatmap-label">{t("rowSort")}</span>
+                            <select className="heatmap-select" value={rowSort} onChange={(e) => setRowSort(e.target.value as HeatmapRowSort)}>
+                                <option value="frequency">{t("rowSorts.frequency")}</option>
+                                <option value="alphabetical">{t("rowSorts.alphabetical")}</option>
+                                <option value="peak">{t("rowSorts.peak")}</option>
+                            </select>
+                        </label>
+                        <label className="heatmap-field">
+                            <span className="heatmap-label">{t("columnSort")}</span>
+                            <select className="heatmap-select" value={columnSort} onChange={(e) => setColumnSort(e.target.value as HeatmapColumnSort)}>
+                                <option value="canonical">{t("columnSorts.canonical")}</option>
+                                <option value="size">{t("columnSorts.size")}</option>
+                                <option value="weight">{t("columnSorts.weight")}</option>
+                            </select>
+                        </label>
+                        {layoutMode !== "pos-ayah" && (
+                            <label className="heatmap-field">
+                                <span className="heatmap-label">{t("maxRows", { count: maxRows })}</span>
+                                <input type="range" min={10} max={80} step={5} value={maxRows} onChange={(e) => setMaxRows(parseInt(e.target.value, 10))} style={{ accentColor: themeColors.accent }} />
+                            </label>
+                        )}
+                    </div>
+
+                    {hovered?.row && hovered.column && hovered.cell && (
+                        <div className="viz-left-panel">
+                            <div className={`viz-tooltip-title ${layoutMode === "pos-ayah" ? "" : "arabic-text"}`}>{hovered.row.label}</div>
+                            <div className="viz-tooltip-subtitle">
+                                {hovered.column.ayah
+                                    ? `${ts("ayah")} ${hovered.column.surahId}:${hovered.column.ayah}`
+                                    : `${ts("surah")} ${hovered.column.surahId} · ${SURAH_NAMES[hovered.column.surahId]?.name ?? ""}`}
+                            </div>
+                            <div className="viz-tooltip-row">
+                                <span className="viz-tooltip-label">{ts("occurrences")}</span>
+                                <span className="viz-tooltip-value">{hovered.cell.count.toLocaleString()}</span>
+                            </div>
+                            <div className="viz-tooltip-row">
+                                <span className="viz-tooltip-label">{t(`normalizations.${normalization}`)}</span>
+                                <span className="viz-tooltip-value">{formatValue(hovered.cell.value, normalization)}</span>
+                            </div>
+                            <div className="viz-tooltip-row">
+                                <span className="viz-tooltip-label">{ts("totalInQuran")}</span>
+                                <span className="viz-tooltip-value">{hovered.row.total.toLocaleString()}</span>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="viz-legend" style={{ marginTop: "auto" }}>
+                        <span className="eyebrow" style={{ fontSize: "0.7em" }}>{ts("legend")}</span>
+                        <div
+                            className="heatmap-legend-ramp"
+                            style={{
+                                background: `linear-gradient(90deg, ${d3.range(0, 1.01, 0.25).map((step) => colorScale(step * (matrix.maxValue || 1))).join(", ")})`,
+                            }}
+                        />
+                        <div style={{ display: "flex", justifyContent: "space-between", width: "100%", fontSize: "0.7rem" }}>
+                            <span>0</span>
+                            <span>{formatValue(matrix.maxValue, normalization)}</span>
+                        </div>
+                        <div className="viz-legend-item">
+                            <span>{t("clickHint")}</span>
+                        </div>
+                    </div>
+                </div>,
+                document.getElementById("viz-sidebar-portal")!
+            )}
+
+            <VizExplainerDialog
+                isOpen={showHelp}
+                onClose={() => setShowHelp(false)}
+                content={{
+                    title: t("Help.title"),
+                    description: t("Help.description"),
+                    sections: [
+                        { label: t("Help.layoutLabel"), text: t("Help.layoutText") },
+                        { label: t("Help.normalizationLabel"), text: t("Help.normalizationText") },
+                        { label: t("Help.clickLabel"), text: t("Help.clickText") },
+                    ],
+                }}
+                theme={theme}
+            />
+
+            <style jsx>{`
+                .heatmap-field {
+                    display: flex;
+                    flex-direction: column;
+                    gap: 4px;
+                    margin-bottom: 8px;
+                }
+
+                .heatmap-label {
+                    font-size: 0.72rem;
+                    color: var(--ink-secondary);
+                    letter-spacing: 0.02em;
+                }
+
+                .heatmap-select {
+                    border: 1px solid var(--line);
+                    border-radius: 6px;
+                    background: var(--bg-1);
+                    color: var(--ink);
+                    font-size: 0.78rem;
+                    padding: 4px 8px;
+                }
+
+                .heatmap-legend-ramp {
+                    width: 100%;
+                    height: 10px;
+                    border-radius: 999px;
+                    margin: 8px 0 4px;
+                }
+            `}</style>
+        </section>
+    );
+}
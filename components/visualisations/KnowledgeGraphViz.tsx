@@ -7,6 +7,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import type { CorpusToken } from "@/lib/schema/types";
 import { resolveVisualizationTheme } from "@/lib/schema/visualizationTypes";
 import { useKnowledge } from "@/lib/context/KnowledgeContext";
+import { describeStudyItemRef, studyItemCoversToken } from "@/lib/study/studyItems";
 import { useTranslations } from "next-intl";
 
 // ── Types ──────────────────────────────────────────────────────────
@@ -20,15 +21,19 @@ interface KnowledgeGraphVizProps {
 interface KGNode extends d3.SimulationNodeDatum {
     id: string;
     label: string;
-    type: "tracked-root" | "ghost-root" | "lemma";
+    type: "tracked-root" | "ghost-root" | "lemma" | ItemNodeType;
     state?: "learning" | "learned";
     frequency: number;
     radius: number;
     color: string;
     glowColor: string;
     notes?: string;
+    collections?: string[];
 }
 
+// Saved study items; saved roots show up as ordinary root nodes.
+type ItemNodeType = "lemma-item" | "ayah-item" | "passage-item" | "search-item";
+
 interface KGLink extends d3.SimulationLinkDatum<KGNode> {
     weight: number;
     color: string;
@@ -36,6 +41,14 @@ interface KGLink extends d3.SimulationLinkDatum<KGNode> {
 
 // ── Helpers ────────────────────────────────────────────────────────
 
+function isItemNode(node: KGNode): boolean {
+    return node.type.endsWith("-item");
+}
+
+function isRootNode(node: KGNode): boolean {
+    return node.type === "tracked-root" || node.type === "ghost-root";
+}
+
 /** Pick top-N ghost roots that share surahs with tracked roots for context. */
 function pickGhostRoots(
     allRootMap: Map<string, { count: number; lemmas: Set<string> }>,
@@ -56,7 +69,7 @@ export default function KnowledgeGraphViz({
     onRootSelect,
     theme = "dark",
 }: KnowledgeGraphVizProps) {
-    const { roots: trackedRoots, stats, trackRoot } = useKnowledge();
+    const { roots: trackedRoots, stats, trackRoot, studyItems } = useKnowledge();
     const ts = useTranslations("Visualizations.Shared");
     const tk = useTranslations("CurrentSelectionPanel.knowledge");
     const themeColors = resolveVisualizationTheme(theme);
@@ -92,6 +105,10 @@ export default function KnowledgeGraphViz({
             linkLearning: isDark ? "rgba(34,211,238,0.25)" : "rgba(8,145,178,0.18)",
             linkLearned: isDark ? "rgba(74,222,128,0.25)" : "rgba(22,163,74,0.18)",
             linkGhost: isDark ? "rgba(255,255,255,0.04)" : "rgba(0,0,0,0.03)",
+            passageNode: isDark ? "#fbbf24" : "#d97706",      // amber
+            passageGlow: isDark ? "rgba(251,191,36,0.45)" : "rgba(217,119,6,0.35)",
+            searchNode: isDark ? "#c084fc" : "#9333ea",       // violet
+            linkItem: isDark ? "rgba(251,191,36,0.22)" : "rgba(217,119,6,0.16)",
             coreGlow: isDark
                 ? "radial-gradient(circle, rgba(139,92,246,0.18) 0%, transparent 70%)"
                 : "radial-gradient(circle, rgba(139,92,246,0.08) 0%, transparent 70%)",
@@ -125,9 +142,10 @@ export default function KnowledgeGraphViz({
         const ghostLimit = hasTracked ? Math.min(20, Math.max(8, 40 - trackedSet.size * 3)) : 30;
         const ghosts = pickGhostRoots(rootMap, trackedSet, ghostLimit);
 
-        const activeRoots = hasTracked
-            ? [...trackedSet, ...ghosts].filter((r) => rootMap.has(r))
-            : ghosts; // Show top roots as preview when nothing is tracked
+        const savedRoots = [...studyItems.values()].flatMap((item) => (item.ref.kind === "root" ? [item.ref.root] : []));
+        const activeRoots = [...new Set(hasTracked
+            ? [...trackedSet, ...savedRoots, ...ghosts].filter((r) => rootMap.has(r))
+            : [...savedRoots.filter((r) => rootMap.has(r)), ...ghosts])]; // Show top roots as preview when nothing is tracked
 
         const maxFreq = Math.max(...activeRoots.map((r) => rootMap.get(r)?.count ?? 0), 1);
 
@@ -199,8 +217,72 @@ export default function KnowledgeGraphViz({
             }
         }
 
+        // Saved study items, linked to the roots they contain
+        const shownRoots = new Set(activeRoots);
+        for (const item of studyItems.values()) {
+            const { ref } = item;
+            if (ref.kind === "root") continue;
+
+            if (ref.kind === "lemma") {
+                const existing = nodesResult.find((n) => n.id === `lemma-${ref.lemma}`);
+                if (existing) {
+                    existing.type = "lemma-item";
+                    existing.color = palette.lemmaNode;
+                    existing.glowColor = palette.learningGlow;
+                    existing.radius = Math.max(existing.radius, 7);
+                    existing.collections = item.collections;
+                    continue;
+                }
+                const ld = lemmaMap.get(ref.lemma);
+                nodesResult.push({
+                    id: `lemma-${ref.lemma}`,
+                    label: ref.lemma,
+                    type: "lemma-item",
+                    frequency: ld?.count ?? 0,
+                    radius: 7 + Math.min((ld?.count ?? 0) / maxFreq, 1) * 6,
+                    color: palette.lemmaNode,
+                    glowColor: palette.learningGlow,
+                    notes: item.notes,
+                    collections: item.collections,
+                });
+                for (const root of ld?.roots ?? []) {
+                    if (!shownRoots.has(root)) continue;
+                    linksResult.push({ source: `root-${root}`, target: `lemma-${ref.lemma}`, weight: ld!.count, color: palette.linkItem });
+                }
+                continue;
+            }
+
+            const rootCounts = new Map<string, number>();
+            let covered = 0;
+            if (ref.kind !== "search") {
+                for (const token of tokens) {
+                    if (!studyItemCoversToken(ref, token)) continue;
+                    covered++;
+                    if (token.root && shownRoots.has(token.root)) {
+                        rootCounts.set(token.root, (rootCounts.get(token.root) ?? 0) + 1);
+                    }
+                }
+            }
+
+            const nodeId = `item-${item.id}`;
+            nodesResult.push({
+                id: nodeId,
+                label: item.label || describeStudyItemRef(ref),
+                type: `${ref.kind}-item`,
+                frequency: covered,
+                radius: ref.kind === "search" ? 6 : 7 + Math.min(covered, 80) / 10,
+                color: ref.kind === "search" ? palette.searchNode : palette.passageNode,
+                glowColor: ref.kind === "search" ? "transparent" : palette.passageGlow,
+                notes: item.notes,
+                collections: item.collections,
+            });
+            for (const [root, count] of rootCounts) {
+                linksResult.push({ source: `root-${root}`, target: nodeId, weight: count, color: palette.linkItem });
+            }
+        }
+
         return { initialNodes: nodesResult, initialLinks: linksResult };
-    }, [tokens, trackedRoots, palette]);
+    }, [tokens, trackedRoots, studyItems, palette]);
 
     // ── Resize observer ──────────────────────────────────────────────
 
@@ -259,6 +341,7 @@ export default function KnowledgeGraphViz({
                         (d) => {
                             if (d.type === "tracked-root") return spread * 0.3;
                             if (d.type === "ghost-root") return spread * 0.7;
+                            if (isItemNode(d) && d.type !== "lemma-item") return spread * 0.45;
                             return spread * 0.55;
                         },
                         cx,
@@ -289,8 +372,9 @@ export default function KnowledgeGraphViz({
     // ── Flow/Neural layout toggle ────────────────────────────────────
 
     function applyFlowLayout(nodeList: KGNode[], dims: { width: number; height: number }) {
-        const rootNodes = nodeList.filter(n => n.type === "tracked-root" || n.type === "ghost-root");
-        const lemmaNodes = nodeList.filter(n => n.type === "lemma");
+        const rootNodes = nodeList.filter(isRootNode);
+        const lemmaNodes = nodeList.filter(n => n.type === "lemma" || n.type === "lemma-item");
+        const itemNodes = nodeList.filter(n => isItemNode(n) && n.type !== "lemma-item");
 
         const rowTopY = dims.height * 0.22;
         const rowBotY = dims.height * 0.78;
@@ -316,6 +400,13 @@ export default function KnowledgeGraphViz({
             n.fx = margin + i * lemmaSpacing;
             n.fy = rowBotY;
         });
+
+        // Saved ayahs, passages and searches sit between the two rows
+        const itemSpacing = Math.max((dims.width - margin * 2) / Math.max(itemNodes.length - 1, 1), 40);
+        itemNodes.forEach((n, i) => {
+            n.fx = margin + i * itemSpacing;
+            n.fy = dims.height * 0.5;
+        });
     }
 
     function releaseFlowLayout(nodeList: KGNode[]) {
@@ -402,7 +493,7 @@ export default function KnowledgeGraphViz({
     const handleNodeClick = useCallback(
         (node: KGNode) => {
             setSelectedNode(node.id === selectedNode ? null : node.id);
-            if (node.type !== "lemma" && onRootSelect) {
+            if (isRootNode(node) && onRootSelect) {
                 onRootSelect(node.label);
             }
         },
@@ -422,7 +513,8 @@ export default function KnowledgeGraphViz({
 
     // ── Empty state ──────────────────────────────────────────────────
 
-    const hasTracked = stats.total > 0;
+    const hasTracked = stats.total > 0 || studyItems.size > 0;
+    const itemCount = nodes.filter((n) => isItemNode(n)).length;
 
     // ── Render ───────────────────────────────────────────────────────
 
@@ -448,8 +540,9 @@ export default function KnowledgeGraphViz({
                         </svg>
                     </button>
                     <p className="ayah-meta-glass" style={{ marginLeft: 8 }}>
-                        {nodes.filter(n => n.type === "tracked-root" || n.type === "ghost-root").length} roots · {nodes.filter(n => n.type === "lemma").length} lemmas · {links.length} connections
-                        {hasTracked && ` · ${stats.total} tracked`}
+                        {nodes.filter(isRootNode).length} roots · {nodes.filter(n => n.type === "lemma").length} lemmas · {links.length} connections
+                        {stats.total > 0 && ` · ${stats.total} tracked`}
+                        {itemCount > 0 && ` · ${itemCount} saved`}
                         {!hasTracked && " · Select roots to begin tracking"}
                     </p>
                 </div>
@@ -622,6 +715,7 @@ export default function KnowledgeGraphViz({
                                     const isHighlighted = isHovered || isSelected;
                                     const isTrackedRoot = node.type === "tracked-root";
                                     const isGhost = node.type === "ghost-root";
+                                    const isItem = isItemNode(node);
 
                                     return (
                                         <g
@@ -667,7 +761,8 @@ export default function KnowledgeGraphViz({
                                                             : "rgba(255,255,255,0.15)"
                                                 }
                                                 strokeWidth={isTrackedRoot ? 2 : 0.5}
-                                                filter={isTrackedRoot || isHighlighted ? "url(#kg-glow)" : undefined}
+                                                strokeDasharray={node.type === "search-item" ? "3 2" : undefined}
+                                                filter={isTrackedRoot || isHighlighted ? "url(#kg-glow)" : isItem ? "url(#kg-subtleGlow)" : undefined}
                                             />
 
                                             {/* Inner bright dot for tracked roots */}
@@ -676,7 +771,7 @@ export default function KnowledgeGraphViz({
                                             )}
 
                                             {/* Label */}
-                                            {(isHighlighted || isTrackedRoot) && (
+                                            {(isHighlighted || isTrackedRoot || isItem) && (
                                                 <text
                                                     className="node-label arabic-text"
                                                     y={node.radius + 16}
@@ -715,7 +810,11 @@ export default function KnowledgeGraphViz({
                                 const isGhost = node.type === "ghost-root";
                                 const statusLabel = node.type === "tracked-root"
                                     ? node.state === "learned" ? ts("learned") : ts("learning")
-                                    : isGhost ? ts("untracked") : ts("lemma");
+                                    : isGhost
+                                        ? ts("untracked")
+                                        : node.type === "lemma"
+                                            ? ts("lemma")
+                                            : ts(`savedItems.${node.type}`);
                                 return (
                                     <>
                                         <span className="kg-info-word arabic-text">{node.label}</span>
@@ -723,6 +822,12 @@ export default function KnowledgeGraphViz({
                                         <span className="kg-info-meta">{statusLabel}</span>
                                         <span className="kg-info-divider">·</span>
                                         <span className="kg-info-meta">{node.frequency}x</span>
+                                        {node.collections && node.collections.length > 0 && (
+                                            <>
+                                                <span className="kg-info-divider">·</span>
+                                                <span className="kg-info-meta">{node.collections.join(", ")}</span>
+                                            </>
+                                        )}
                                         {isGhost && (
                                             <button
                                                 className="kg-info-track-btn"
@@ -778,6 +883,24 @@ export default function KnowledgeGraphViz({
                             />
                             <span>{ts("lemma")}</span>
                         </div>
+                        {studyItems.size > 0 && (
+                            <>
+                                <div className="viz-legend-item">
+                                    <div
+                                        className="viz-legend-dot"
+                                        style={{ background: palette.passageNode, width: 12, height: 12, borderRadius: "50%", boxShadow: `0 0 8px ${palette.passageGlow}` }}
+                                    />
+                                    <span>{ts("savedItems.passages")}</span>
+                                </div>
+                                <div className="viz-legend-item">
+                                    <div
+                                        className="viz-legend-dot"
+                                        style={{ background: palette.searchNode, width: 10, height: 10, borderRadius: "50%" }}
+                                    />
+                                    <span>{ts("savedItems.search-item")}</span>
+                                </div>
+                            </>
+                        )}
                     </div>,
                     document.getElementById("viz-sidebar-portal")!
                 )}
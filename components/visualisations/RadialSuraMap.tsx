@@ -6,12 +6,16 @@ import * as d3 from "d3";
 import { motion, AnimatePresence } from "framer-motion";
 import type { CorpusToken } from "@/lib/schema/types";
 import { getAyah } from "@/lib/corpus/corpusLoader";
-import { getNodeColor, resolveVisualizationTheme } from "@/lib/schema/visualizationTypes";
+import { getNodeColor, POS_FAMILY_LABEL_KEYS, resolveVisualizationTheme } from "@/lib/schema/visualizationTypes";
+import { getPosFamily, POS_FAMILIES } from "@/lib/schema/posTagset";
 import { getFrequencyColor, getIdentityColor, type LexicalColorMode } from "@/lib/theme/lexicalColoring";
 import { useZoom } from "@/lib/hooks/useZoom";
 import { useTranslations } from "next-intl";
 import { VizExplainerDialog, HelpIcon } from "@/components/ui/VizExplainerDialog";
 import { useVizControl } from "@/lib/hooks/VizControlContext";
+import SurahKeywordsPanel from "@/components/visualisations/SurahKeywordsPanel";
+import SimilarAyahsPanel from "@/components/visualisations/SimilarAyahsPanel";
+import type { SimilarAyah } from "@/lib/search/verseSimilarity";
 
 interface RadialSuraMapProps {
   tokens: CorpusToken[];
@@ -21,6 +25,8 @@ interface RadialSuraMapProps {
   onTokenHover: (tokenId: string | null) => void;
   onTokenFocus: (tokenId: string) => void;
   onRootSelect?: (root: string | null) => void;
+  // Opens another ayah, possibly in another surah, focused on the given token.
+  onAyahNavigate?: (surahId: number, tokenId: string) => void;
   highlightRoot?: string | null;
   theme?: "light" | "dark";
   lexicalColorMode?: LexicalColorMode;
@@ -69,6 +75,7 @@ export default function RadialSuraMap({
   onTokenHover,
   onTokenFocus,
   onRootSelect,
+  onAyahNavigate,
   highlightRoot,
   theme = "dark",
   lexicalColorMode = "theme",
@@ -94,6 +101,8 @@ export default function RadialSuraMap({
   const [fullAyahText, setFullAyahText] = useState<string | null>(null);
   const [showHints, setShowHints] = useState(true);
   const prevSuraIdRef = useRef<number | null>(null);
+  // Ayah to select once a similar-ayah jump to another surah lands.
+  const pendingAyahRef = useRef<number | null>(null);
   const shouldAnimateConnections = prevSuraIdRef.current === null || prevSuraIdRef.current !== suraId;
   const shouldAnimateBars = shouldAnimateConnections;
 
@@ -107,7 +116,8 @@ export default function RadialSuraMap({
 
   useEffect(() => {
     setSelectedConnection(null);
-    setSelectedAyah(null);
+    setSelectedAyah(pendingAyahRef.current);
+    pendingAyahRef.current = null;
     setHoveredAyah(null);
     setHoveredRoot(null);
     setHoveredConnection(null);
@@ -232,10 +242,11 @@ export default function RadialSuraMap({
     // Create ayah bars
     const bars: AyahBar[] = [];
     ayahTokens.forEach((ayahTokensList, ayahNum) => {
-      // Find dominant POS
+      // Find dominant POS family (detailed tags separate conjunctions and particles from prepositions)
       const posCount = new Map<string, number>();
       for (const t of ayahTokensList) {
-        posCount.set(t.pos, (posCount.get(t.pos) ?? 0) + 1);
+        const family = getPosFamily(t.posDetailed ?? t.pos);
+        posCount.set(family, (posCount.get(family) ?? 0) + 1);
       }
       const dominantPOS = [...posCount.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? "N";
 
@@ -608,6 +619,16 @@ export default function RadialSuraMap({
     if (tokenId) onTokenFocus(tokenId);
   }, [ayahTokenIdByAyahRoot, ayahTokenIdByAyah, onTokenFocus]);
 
+  const handleSimilarAyahSelect = useCallback((result: SimilarAyah) => {
+    if (result.surah === suraId) {
+      handleAyahSelect(result.ayah);
+      return;
+    }
+    if (!onAyahNavigate) return;
+    pendingAyahRef.current = result.ayah;
+    onAyahNavigate(result.surah, result.firstTokenId);
+  }, [suraId, handleAyahSelect, onAyahNavigate]);
+
   const handleBarHover = useCallback((ayah: number | null) => {
     setHoveredAyah((prev) => (prev === ayah ? prev : ayah));
     if (ayah) {
@@ -770,6 +791,13 @@ export default function RadialSuraMap({
               </div>
             )}
 
+            <SurahKeywordsPanel
+              tokens={tokens}
+              suraId={suraId}
+              highlightRoot={highlightRoot}
+              onRootSelect={onRootSelect}
+            />
+
             <AnimatePresence>
               {selectedAyahData && (
                 <motion.div
@@ -864,6 +892,15 @@ export default function RadialSuraMap({
               )}
             </AnimatePresence>
 
+            {selectedAyah && (
+              <SimilarAyahsPanel
+                tokens={tokens}
+                surah={suraId}
+                ayah={selectedAyah}
+                onAyahSelect={handleSimilarAyahSelect}
+              />
+            )}
+
             <AnimatePresence>
               {(selectedConnection || hoveredConnection) && (
                 <motion.div
@@ -899,22 +936,12 @@ export default function RadialSuraMap({
               </div>
               {lexicalColorMode === "theme" ? (
                 <>
-                  <div className="viz-legend-item">
-                    <div className="viz-legend-dot" style={{ background: getNodeColor("N") }} />
-                    <span>{ts("noun")}</span>
-                  </div>
-                  <div className="viz-legend-item">
-                    <div className="viz-legend-dot" style={{ background: getNodeColor("V") }} />
-                    <span>{ts("verb")}</span>
-                  </div>
-                  <div className="viz-legend-item">
-                    <div className="viz-legend-dot" style={{ background: getNodeColor("ADJ") }} />
-                    <span>{ts("adjective")}</span>
-                  </div>
-                  <div className="viz-legend-item">
-                    <div className="viz-legend-dot" style={{ background: getNodeColor("P") }} />
-                    <span>{ts("preposition")}</span>
-                  </div>
+                  {POS_FAMILIES.map((family) => (
+                    <div key={family} className="viz-legend-item">
+                      <div className="viz-legend-dot" style={{ background: getNodeColor(family) }} />
+                      <span>{ts(POS_FAMILY_LABEL_KEYS[family])}</span>
+                    </div>
+                  ))}
                 </>
               ) : lexicalColorMode === "frequency" ? (
                 <>
@@ -6,9 +6,11 @@ import * as d3 from "d3";
 import { motion } from "framer-motion";
 import type { CorpusToken } from "@/lib/schema/types";
 import type { ExperienceLevel } from "@/lib/schema/experience";
-import { getNodeColor, resolveVisualizationTheme } from "@/lib/schema/visualizationTypes";
+import { getNodeColor, getTokenColor, resolveVisualizationTheme } from "@/lib/schema/visualizationTypes";
 import { getFrequencyColor, getIdentityColor, type LexicalColorMode } from "@/lib/theme/lexicalColoring";
 import { useTranslations } from "next-intl";
+import { useCorpusQuery } from "@/lib/hooks/useCorpusQuery";
+import { compareTermsBy, DISPERSION_SORT_KEYS, type DispersionSortKey } from "@/lib/search/dispersion";
 
 interface RootNetworkGraphProps {
   tokens: CorpusToken[];
@@ -67,11 +69,19 @@ export default function RootNetworkGraph({
   const [hoveredNode, setHoveredNode] = useState<string | null>(null);
   const [selectedNode, setSelectedNode] = useState<string | null>(null);
   const [rootLimit, setRootLimit] = useState(30);
+  const [sortKey, setSortKey] = useState<DispersionSortKey>("frequency");
   const [nodes, setNodes] = useState<NetworkNode[]>([]);
   const [links, setLinks] = useState<NetworkLink[]>([]);
   const [isMounted, setIsMounted] = useState(false);
   const liveNodesRef = useRef<NetworkNode[]>([]);
   const effectiveRootLimit = experienceLevel === "beginner" ? 30 : rootLimit;
+  const effectiveSortKey = experienceLevel === "advanced" ? sortKey : "frequency";
+
+  // Dispersion is a corpus-wide property of each root, even when one surah is shown.
+  const { data: rootDispersion } = useCorpusQuery(
+    tokens,
+    effectiveSortKey !== "frequency" ? { type: "dispersion", feature: "root" } : null
+  );
 
   const themeColors = resolveVisualizationTheme(theme);
 
@@ -130,7 +140,9 @@ export default function RootNetworkGraph({
 
     // Create nodes - limit controlled by slider
     const sortedRoots = [...rootMap.entries()]
-      .sort((a, b) => b[1].count - a[1].count)
+      .sort((a, b) =>
+        compareTermsBy(effectiveSortKey, rootDispersion, { term: a[0], count: a[1].count }, { term: b[0], count: b[1].count })
+      )
       .slice(0, effectiveRootLimit);
 
     const maxFreq = Math.max(...sortedRoots.map(([, d]) => d.count), 1);
@@ -175,7 +187,7 @@ export default function RootNetworkGraph({
               ? getFrequencyColor(lemmaFrequencyRatio, theme)
               : lexicalColorMode === "identity"
                 ? getIdentityColor(lemma, theme)
-                : getNodeColor(lemmaData.tokens[0]?.pos ?? "N");
+                : lemmaData.tokens[0] ? getTokenColor(lemmaData.tokens[0]) : getNodeColor("N");
           nodesResult.push({
             id: `lemma-${lemma}`,
             label: lemma,
@@ -197,7 +209,7 @@ export default function RootNetworkGraph({
     }
 
     return { initialNodes: nodesResult, initialLinks: linksResult };
-  }, [scopedTokens, themeColors.nodeColors.default, effectiveRootLimit, lexicalColorMode, theme]);
+  }, [scopedTokens, themeColors.nodeColors.default, effectiveRootLimit, effectiveSortKey, rootDispersion, lexicalColorMode, theme]);
 
   // Update dimensions on resize
   useEffect(() => {
@@ -437,6 +449,18 @@ export default function RootNetworkGraph({
               style={{ width: 100, accentColor: 'var(--accent)', cursor: 'pointer' }}
             />
             <span style={{ fontSize: '0.72rem', color: 'var(--ink-muted)', minWidth: 44, textAlign: 'right' }}>{Math.min(rootLimit, totalRoots)}/{totalRoots}</span>
+            <select
+              data-testid="root-network-sort-control"
+              value={sortKey}
+              onChange={(e) => setSortKey(e.target.value as DispersionSortKey)}
+              aria-label={t("sortBy")}
+              title={t("sortHint")}
+              style={{ fontSize: '0.72rem', padding: '2px 6px', borderRadius: 6, border: '1px solid var(--line)', background: 'var(--surface)', color: 'var(--ink)' }}
+            >
+              {DISPERSION_SORT_KEYS.map((key) => (
+                <option key={key} value={key}>{t(`sortKeys.${key}`)}</option>
+              ))}
+            </select>
           </div>
         ) : null}
       </div>
@@ -0,0 +1,186 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import type { CorpusToken } from "@/lib/schema/types";
+import { SURAH_NAMES } from "@/lib/data/surahData";
+import {
+  SIMILARITY_FEATURES,
+  SIMILARITY_MEASURES,
+  type SimilarAyah,
+  type SimilarityFeature,
+  type SimilarityMeasure,
+} from "@/lib/search/verseSimilarity";
+import { useCorpusQuery } from "@/lib/hooks/useCorpusQuery";
+
+interface SimilarAyahsPanelProps {
+  tokens: CorpusToken[];
+  surah: number;
+  ayah: number;
+  onAyahSelect?: (result: SimilarAyah) => void;
+}
+
+const VISIBLE_RESULTS = 8;
+
+/**
+ * Parallel passages for the selected ayah: other ayahs sharing its roots or
+ * lemmas, ranked by cosine, Jaccard or shared word order.
+ */
+export default function SimilarAyahsPanel({ tokens, surah, ayah, onAyahSelect }: SimilarAyahsPanelProps) {
+  const t = useTranslations("Visualizations.SimilarAyahs");
+  const [feature, setFeature] = useState<SimilarityFeature>("lemma");
+  const [measure, setMeasure] = useState<SimilarityMeasure>("cosine");
+  const [excludeSameSurah, setExcludeSameSurah] = useState(false);
+
+  const { data: similar, loading } = useCorpusQuery(tokens, {
+    type: "similarAyahs",
+    surah,
+    ayah,
+    options: { feature, measure, excludeSameSurah, limit: VISIBLE_RESULTS },
+  });
+  const results = similar ?? [];
+
+  const snippets = useMemo(() => {
+    const wanted = new Set((similar ?? []).map((result) => `${result.surah}:${result.ayah}`));
+    const words = new Map<string, string[]>();
+    if (wanted.size === 0) return words;
+    for (const token of tokens) {
+      const key = `${token.sura}:${token.ayah}`;
+      if (!wanted.has(key)) continue;
+      const list = words.get(key);
+      if (list) list.push(token.text);
+      else words.set(key, [token.text]);
+    }
+    return words;
+  }, [similar, tokens]);
+
+  return (
+    <div className="viz-left-panel" data-testid="similar-ayahs-panel">
+      <div className="viz-tooltip-title">{t("title")}</div>
+      <div className="viz-tooltip-subtitle" style={{ opacity: 0.75 }}>{t("subtitle", { surah, ayah })}</div>
+      <div style={{ display: "flex", gap: 6, marginTop: 8 }}>
+        <select
+          value={feature}
+          aria-label={t("feature")}
+          onChange={(e) => setFeature(e.target.value as SimilarityFeature)}
+          className="similar-ayahs-field"
+        >
+          {SIMILARITY_FEATURES.map((option) => (
+            <option key={option} value={option}>{t(`features.${option}`)}</option>
+          ))}
+        </select>
+        <select
+          value={measure}
+          aria-label={t("measure")}
+          onChange={(e) => setMeasure(e.target.value as SimilarityMeasure)}
+          className="similar-ayahs-field"
+        >
+          {SIMILARITY_MEASURES.map((option) => (
+            <option key={option} value={option}>{t(`measures.${option}`)}</option>
+          ))}
+        </select>
+      </div>
+      <label className="similar-ayahs-check">
+        <input type="checkbox" checked={excludeSameSurah} onChange={(e) => setExcludeSameSurah(e.target.checked)} />
+        {t("otherSurahsOnly")}
+      </label>
+
+      {results.length === 0 ? (
+        <div style={{ marginTop: 8, fontSize: "0.75rem", opacity: 0.7 }}>{loading ? t("loading") : t("empty")}</div>
+      ) : (
+        <ol className="similar-ayahs-list">
+          {results.map((result) => {
+            const key = `${result.surah}:${result.ayah}`;
+            return (
+              <li key={key}>
+                <button
+                  type="button"
+                  className="similar-ayah-link"
+                  disabled={!onAyahSelect}
+                  onClick={() => onAyahSelect?.(result)}
+                  title={t("statsTitle", {
+                    cosine: result.cosine.toFixed(2),
+                    jaccard: result.jaccard.toFixed(2),
+                    lcs: result.lcs,
+                    shared: result.sharedTerms.length,
+                  })}
+                >
+                  <span className="similar-ayah-head">
+                    <span>{SURAH_NAMES[result.surah]?.name ?? result.surah} {key}</span>
+                    <span className="similar-ayah-score">{Math.round(result.score * 100)}%</span>
+                  </span>
+                  <span className="similar-ayah-text arabic-text" lang="ar" dir="rtl">
+                    {snippets.get(key)?.join(" ")}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <style jsx>{`
+        .similar-ayahs-field {
+          flex: 1;
+          min-width: 0;
+          font-size: 0.75rem;
+          padding: 3px 6px;
+          border-radius: 6px;
+          border: 1px solid var(--line);
+          background: var(--surface);
+          color: var(--ink);
+        }
+        .similar-ayahs-check {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          margin-top: 6px;
+          font-size: 0.74rem;
+          color: var(--ink-secondary);
+        }
+        .similar-ayahs-list {
+          list-style: none;
+          margin: 8px 0 0;
+          padding: 0;
+          display: grid;
+          gap: 4px;
+          max-height: 320px;
+          overflow-y: auto;
+        }
+        .similar-ayah-link {
+          display: grid;
+          gap: 2px;
+          width: 100%;
+          border: 1px solid var(--line);
+          border-radius: 8px;
+          background: transparent;
+          color: var(--ink-secondary);
+          padding: 4px 8px;
+          font-size: 0.75rem;
+          text-align: start;
+          cursor: pointer;
+        }
+        .similar-ayah-link:hover:not(:disabled) {
+          border-color: var(--accent);
+        }
+        .similar-ayah-head {
+          display: flex;
+          justify-content: space-between;
+          gap: 8px;
+        }
+        .similar-ayah-score {
+          opacity: 0.7;
+          font-variant-numeric: tabular-nums;
+        }
+        .similar-ayah-text {
+          color: var(--ink);
+          font-size: 0.95rem;
+          line-height: 1.5;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+      `}</style>
+    </div>
+  );
+}
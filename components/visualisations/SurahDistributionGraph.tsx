@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useRef, useMemo, useState, useCallback } from "react";
+import type { ChangeEvent } from "react";
 import { createPortal } from "react-dom";
 import * as d3 from "d3";
 import { motion, AnimatePresence } from "framer-motion";
@@ -12,6 +13,8 @@ import { SURAH_NAMES } from "@/lib/data/surahData";
 import { useTranslations } from "next-intl";
 import { useVizControl } from "@/lib/hooks/VizControlContext";
 import { VizExplainerDialog, HelpIcon } from "@/components/ui/VizExplainerDialog";
+import { MUSHAF_DIVISIONS, divisionCount, groupByDivision, type CorpusGrouping } from "@/lib/corpus/mushaf";
+import { useMushafIndex } from "@/lib/hooks/useMushafIndex";
 
 interface SurahDistributionGraphProps {
     tokens: CorpusToken[];
@@ -23,10 +26,14 @@ interface SurahDistributionGraphProps {
     lexicalColorMode?: LexicalColorMode;
 }
 
+// One node per surah, or per juz / hizb / ... when grouped by a mushaf division.
 interface SurahNode {
     id: number;
     name: string;
     arabicName: string;
+    // Surahs the group spans; a surah node spans only itself.
+    firstSurah: number;
+    lastSurah: number;
     tokenCount: number;
     ayahCount: number;
     x: number;
@@ -67,6 +74,10 @@ export default function SurahDistributionGraph({
     const [hoveredSurah, setHoveredSurah] = useState<number | null>(null);
     const [selectedSurah, setSelectedSurah] = useState<number | null>(null);
     const [isMounted, setIsMounted] = useState(false);
+    const [grouping, setGrouping] = useState<CorpusGrouping>("surah");
+    const { index: mushafIndex, loading: mushafLoading } = useMushafIndex(grouping !== "surah");
+    // Stay on surahs until the division index is available.
+    const activeGrouping: CorpusGrouping = mushafIndex ? grouping : "surah";
 
 
     const { isLeftSidebarOpen } = useVizControl();
@@ -79,21 +90,21 @@ export default function SurahDistributionGraph({
 
     const themeColors = resolveVisualizationTheme(theme);
 
-    // Build surah data from tokens
+    // Build surah (or division) data from tokens
     const layout = useMemo(() => {
-        const surahMap = new Map<number, { tokens: CorpusToken[]; ayahs: Set<number>; rootCounts: Map<string, number> }>();
-
-        for (const token of tokens) {
-            if (!surahMap.has(token.sura)) {
-                surahMap.set(token.sura, { tokens: [], ayahs: new Set(), rootCounts: new Map() });
-            }
-            const data = surahMap.get(token.sura)!;
-            data.tokens.push(token);
-            data.ayahs.add(token.ayah);
-            if (token.root) {
-                data.rootCounts.set(token.root, (data.rootCounts.get(token.root) ?? 0) + 1);
+        const surahMap = new Map<number, { tokens: CorpusToken[]; ayahs: Set<string>; rootCounts: Map<string, number> }>();
+
+        for (const [groupId, groupTokens] of groupByDivision(tokens, mushafIndex, activeGrouping)) {
+            const data = { tokens: groupTokens, ayahs: new Set<string>(), rootCounts: new Map<string, number>() };
+            for (const token of groupTokens) {
+                data.ayahs.add(`${token.sura}:${token.ayah}`);
+                if (token.root) {
+                    data.rootCounts.set(token.root, (data.rootCounts.get(token.root) ?? 0) + 1);
+                }
             }
+            surahMap.set(groupId, data);
         }
+        const groupCount = activeGrouping === "surah" || !mushafIndex ? 114 : divisionCount(mushafIndex, activeGrouping);
 
         const tokenCounts = [...surahMap.values()].map(d => d.tokens.length);
         const ayahCounts = [...surahMap.values()].map(d => d.ayahs.size);
@@ -112,7 +123,7 @@ export default function SurahDistributionGraph({
 
         const padding = 90;
         const xScale = d3.scaleLinear()
-            .domain([1, 114])
+            .domain([1, groupCount])
             .range([padding, dimensions.width - padding]);
         const yScale = d3.scaleSqrt()
             .domain([minTokens, maxTokens === minTokens ? minTokens + 1 : maxTokens])
@@ -122,7 +133,7 @@ export default function SurahDistributionGraph({
 
         const nodes: SurahNode[] = [];
 
-        for (const [suraId, data] of [...surahMap.entries()].sort((a, b) => a[0] - b[0])) {
+        for (const [suraId, data] of surahMap) {
             const containsRoot = highlightRoot
                 ? data.tokens.some(t => t.root === highlightRoot)
                 : false;
@@ -142,10 +153,16 @@ export default function SurahDistributionGraph({
                     : lexicalColorMode === "identity"
                         ? getIdentityColor(dominantRoot ?? `surah-${suraId}`, theme)
                         : colorScale(data.ayahs.size);
+            const firstSurah = data.tokens[0].sura;
+            const lastSurah = data.tokens[data.tokens.length - 1].sura;
             nodes.push({
                 id: suraId,
-                name: SURAH_NAMES[suraId]?.name || `Surah ${suraId}`,
-                arabicName: SURAH_NAMES[suraId]?.arabic || "",
+                name: activeGrouping === "surah"
+                    ? SURAH_NAMES[suraId]?.name || `Surah ${suraId}`
+                    : `${ts(`groupings.${activeGrouping}`)} ${suraId}`,
+                arabicName: SURAH_NAMES[firstSurah]?.arabic || "",
+                firstSurah,
+                lastSurah,
                 tokenCount: data.tokens.length,
                 ayahCount: data.ayahs.size,
                 x: xScale(suraId),
@@ -159,11 +176,12 @@ export default function SurahDistributionGraph({
             });
         }
 
-        const xTicks = d3.ticks(1, 114, 6).map(v => Math.round(v));
+        const xTicks = d3.ticks(1, groupCount, 6).map(v => Math.round(v));
         const yTicks = yScale.ticks(5);
 
         return {
             surahNodes: nodes,
+            groupCount,
             xScale,
             yScale,
             xTicks,
@@ -173,9 +191,9 @@ export default function SurahDistributionGraph({
             tokenExtent: [minTokens, maxTokens] as [number, number],
             colorScale
         };
-    }, [tokens, dimensions, highlightRoot, theme, lexicalColorMode]);
+    }, [tokens, mushafIndex, activeGrouping, dimensions, highlightRoot, theme, lexicalColorMode, ts]);
 
-    const { surahNodes, xScale, yScale, xTicks, yTicks, padding, ayahExtent, colorScale } = layout;
+    const { surahNodes, groupCount, xScale, yScale, xTicks, yTicks, padding, ayahExtent, colorScale } = layout;
 
     // Resize observer
     useEffect(() => {
@@ -214,10 +232,16 @@ export default function SurahDistributionGraph({
     const handleSurahClick = useCallback((node: SurahNode) => {
         setSelectedSurah(node.id === selectedSurah ? null : node.id);
         if (onSurahSelect) {
-            onSurahSelect(node.id);
+            onSurahSelect(node.firstSurah);
         }
     }, [selectedSurah, onSurahSelect]);
 
+    const handleGroupingChange = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
+        setGrouping(event.target.value as CorpusGrouping);
+        setSelectedSurah(null);
+        setHoveredSurah(null);
+    }, []);
+
     const totalTokens = tokens.length;
     const totalSurahs = surahNodes.length;
 
@@ -235,9 +259,23 @@ export default function SurahDistributionGraph({
                         </svg>
                     </button>
                     <p className="ayah-meta-glass" style={{ marginLeft: 8 }}>
-                        {totalSurahs} Surahs · {totalTokens.toLocaleString()} Words
+                        {t("summary", { count: totalSurahs, unit: t(`units.${activeGrouping}`), words: totalTokens.toLocaleString() })}
                         {highlightRoot && ` · ${ts("root")}: ${highlightRoot}`}
                     </p>
+                    <select
+                        className="ayah-meta-glass"
+                        data-testid="surah-distribution-grouping"
+                        value={grouping}
+                        onChange={handleGroupingChange}
+                        aria-label={ts("groupBy")}
+                        title={mushafLoading ? ts("loadingDivisions") : ts("groupBy")}
+                        style={{ marginLeft: 8 }}
+                    >
+                        <option value="surah">{ts("groupings.surah")}</option>
+                        {MUSHAF_DIVISIONS.map((division) => (
+                            <option key={division} value={division}>{ts(`groupings.${division}`)}</option>
+                        ))}
+                    </select>
                 </div>
             </div>
 
@@ -350,7 +388,9 @@ export default function SurahDistributionGraph({
                                 fill={themeColors.textColors.secondary}
                                 letterSpacing="0.12em"
                             >
-                                {t("xAxis")}
+                                {activeGrouping === "surah"
+                                    ? t("xAxis")
+                                    : t("xAxisDivision", { division: ts(`groupings.${activeGrouping}`).toUpperCase() })}
                             </text>
                             <text
                                 x={padding - 52}
@@ -391,7 +431,7 @@ export default function SurahDistributionGraph({
                                             type: "spring",
                                             stiffness: 100,
                                             damping: 15,
-                                            delay: node.id * 0.01,
+                                            delay: (node.id / groupCount) * 1.14,
                                         }}
                                         style={{ cursor: "pointer" }}
                                         onMouseEnter={() => handleSurahHover(node)}
@@ -488,10 +528,23 @@ export default function SurahDistributionGraph({
 
                                         return (
                                             <>
-                                                <div className="viz-tooltip-title arabic-text">{node.arabicName}</div>
-                                                <div className="viz-tooltip-subtitle">
-                                                    {t("surah")} {node.id} · {node.name}
-                                                </div>
+                                                {activeGrouping === "surah" ? (
+                                                    <>
+                                                        <div className="viz-tooltip-title arabic-text">{node.arabicName}</div>
+                                                        <div className="viz-tooltip-subtitle">
+                                                            {t("surah")} {node.id} · {node.name}
+                                                        </div>
+                                                    </>
+                                                ) : (
+                                                    <>
+                                                        <div className="viz-tooltip-title">{node.name}</div>
+                                                        <div className="viz-tooltip-subtitle">
+                                                            {node.firstSurah === node.lastSurah
+                                                                ? SURAH_NAMES[node.firstSurah]?.name
+                                                                : `${SURAH_NAMES[node.firstSurah]?.name} – ${SURAH_NAMES[node.lastSurah]?.name}`}
+                                                        </div>
+                                                    </>
+                                                )}
                                                 <div className="viz-tooltip-row">
                                                     <span className="viz-tooltip-label">{t("words")}</span>
                                                     <span className="viz-tooltip-value">{node.tokenCount.toLocaleString()}</span>
@@ -0,0 +1,156 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import type { CorpusToken } from "@/lib/schema/types";
+import { KEYNESS_FEATURES, type KeynessFeature } from "@/lib/search/keyness";
+import { useCorpusQuery } from "@/lib/hooks/useCorpusQuery";
+
+interface SurahKeywordsPanelProps {
+  tokens: CorpusToken[];
+  suraId: number;
+  highlightRoot?: string | null;
+  onRootSelect?: (root: string | null) => void;
+}
+
+type KeynessDirection = "over" | "under";
+
+const VISIBLE_KEYWORDS = 12;
+
+/**
+ * Roots, lemmas or parts of speech that are characteristic of the surah
+ * compared with the rest of the Quran. Root and lemma keywords select their
+ * root, which highlights it in the radial map.
+ */
+export default function SurahKeywordsPanel({ tokens, suraId, highlightRoot, onRootSelect }: SurahKeywordsPanelProps) {
+  const t = useTranslations("Visualizations.RadialSura.Keywords");
+  const [feature, setFeature] = useState<KeynessFeature>("root");
+  const [direction, setDirection] = useState<KeynessDirection>("over");
+
+  const { data: report, loading } = useCorpusQuery(tokens, {
+    type: "keyness",
+    scope: { kind: "surah", from: suraId, to: suraId },
+    options: { feature, limit: VISIBLE_KEYWORDS },
+  });
+
+  // Lemma keywords link to the root they belong to in this surah.
+  const lemmaRoots = useMemo(() => {
+    const roots = new Map<string, string>();
+    for (const token of tokens) {
+      if (token.sura === suraId && token.root && !roots.has(token.lemma)) roots.set(token.lemma, token.root);
+    }
+    return roots;
+  }, [tokens, suraId]);
+
+  const keywords = report?.feature === feature
+    ? (direction === "over" ? report.overRepresented : report.underRepresented)
+    : [];
+
+  return (
+    <div className="viz-left-panel" data-testid="surah-keywords-panel">
+      <div className="viz-tooltip-title">{t("title")}</div>
+      <div className="viz-tooltip-subtitle" style={{ opacity: 0.75 }}>{t("subtitle")}</div>
+      <div style={{ display: "flex", gap: 6, marginTop: 8 }}>
+        <select
+          value={feature}
+          aria-label={t("feature")}
+          onChange={(e) => setFeature(e.target.value as KeynessFeature)}
+          className="surah-keywords-field"
+        >
+          {KEYNESS_FEATURES.map((option) => (
+            <option key={option} value={option}>{t(`features.${option}`)}</option>
+          ))}
+        </select>
+        <select
+          value={direction}
+          aria-label={t("direction")}
+          onChange={(e) => setDirection(e.target.value as KeynessDirection)}
+          className="surah-keywords-field"
+        >
+          <option value="over">{t("overRepresented")}</option>
+          <option value="under">{t("underRepresented")}</option>
+        </select>
+      </div>
+
+      {keywords.length === 0 ? (
+        <div style={{ marginTop: 8, fontSize: "0.75rem", opacity: 0.7 }}>{loading ? t("loading") : t("empty")}</div>
+      ) : (
+        <ol className="surah-keywords-list">
+          {keywords.map((keyword) => {
+            const root = feature === "root" ? keyword.term : feature === "lemma" ? lemmaRoots.get(keyword.term) : undefined;
+            const label = feature === "pos" ? keyword.term : <span className="arabic-text">{keyword.term}</span>;
+            return (
+              <li key={keyword.term}>
+                {root && onRootSelect ? (
+                  <button
+                    type="button"
+                    className={`surah-keyword-link ${root === highlightRoot ? "active" : ""}`}
+                    onClick={() => onRootSelect(root === highlightRoot ? null : root)}
+                    title={t("showInMap")}
+                  >
+                    {label}
+                  </button>
+                ) : (
+                  <span>{label}</span>
+                )}
+                <span
+                  className="surah-keyword-stats"
+                  title={t("statsTitle", { target: keyword.targetFreq, reference: keyword.referenceFreq })}
+                >
+                  {t("stats", {
+                    logLikelihood: keyword.logLikelihood.toFixed(1),
+                    logRatio: `${keyword.logRatio >= 0 ? "+" : ""}${keyword.logRatio.toFixed(2)}`,
+                  })}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <style jsx>{`
+        .surah-keywords-field {
+          flex: 1;
+          min-width: 0;
+          font-size: 0.75rem;
+          padding: 3px 6px;
+          border-radius: 6px;
+          border: 1px solid var(--line);
+          background: var(--surface);
+          color: var(--ink);
+        }
+        .surah-keywords-list {
+          list-style: none;
+          margin: 8px 0 0;
+          padding: 0;
+          display: grid;
+          gap: 3px;
+          font-size: 0.78rem;
+        }
+        .surah-keywords-list li {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 8px;
+        }
+        .surah-keyword-link {
+          border: 1px solid var(--line);
+          border-radius: 999px;
+          background: transparent;
+          color: var(--ink-secondary);
+          padding: 0.08rem 0.5rem;
+          cursor: pointer;
+        }
+        .surah-keyword-link.active {
+          border-color: var(--accent);
+          color: var(--accent);
+        }
+        .surah-keyword-stats {
+          font-size: 0.7rem;
+          opacity: 0.7;
+          font-variant-numeric: tabular-nums;
+        }
+      `}</style>
+    </div>
+  );
+}
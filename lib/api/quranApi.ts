@@ -119,6 +119,8 @@ class QuranApiClient {
       translations?: number[];
       fields?: string[];
       wordFields?: string[];
+      // Language of the word-by-word `translation` (ISO 639-1, default English).
+      language?: string;
     } = {}
   ): Promise<VersesResponse> {
     const params = new URLSearchParams();
@@ -132,6 +134,7 @@ class QuranApiClient {
     if (options.translations?.length) {
       params.set("translations", options.translations.join(","));
     }
+    if (options.language) params.set("language", options.language);
 
     const query = params.toString();
     const endpoint = `/verses/by_chapter/${chapterId}${query ? `?${query}` : ""}`;
@@ -157,7 +160,7 @@ class QuranApiClient {
 
   async getAllVersesForChapter(
     chapterId: number,
-    options: { words?: boolean; fields?: string[] } = {}
+    options: { words?: boolean; fields?: string[]; language?: string } = {}
   ): Promise<QuranVerse[]> {
     const allVerses: QuranVerse[] = [];
     let page = 1;
@@ -3,10 +3,14 @@
  * Provides persistent caching for the full Quran corpus (~77,000 tokens)
  */
 
+import type { TreebankAyah } from '@/lib/corpus/treebankLoader';
+
 const DB_NAME = 'quran-corpus-cache';
-const DB_VERSION = 2; // Incremented for verses store
+const DB_VERSION = 4; // Incremented for translations store
 const STORE_TOKENS = 'tokens';
 const STORE_VERSES = 'verses';
+const STORE_DEPENDENCIES = 'dependencies';
+const STORE_TRANSLATIONS = 'translations';
 const STORE_METADATA = 'metadata';
 const CORPUS_METADATA_KEY = 'corpus';
 const CACHE_POLICY_METADATA_KEY = 'cache-policy';
@@ -20,6 +24,8 @@ interface CacheMetadata {
     tokenCount?: number;
     hasMorphology?: boolean;
     morphologyVersion?: string;
+    treebankVersion?: string;
+    ayahCount?: number;
     cachePolicyVersion?: number;
     migrationAppliedAt?: number;
 }
@@ -75,6 +81,18 @@ class CorpusCache {
                     verseStore.createIndex('by_sura', 'suraId', { unique: false });
                 }
 
+                // Store for treebank dependency graphs (keyed by surah:ayah)
+                if (!db.objectStoreNames.contains(STORE_DEPENDENCIES)) {
+                    db.createObjectStore(STORE_DEPENDENCIES, { keyPath: 'id' });
+                }
+
+                // Store for word-by-word translations (keyed by source:surah:ayah)
+                if (!db.objectStoreNames.contains(STORE_TRANSLATIONS)) {
+                    const translationStore = db.createObjectStore(STORE_TRANSLATIONS, { keyPath: 'id' });
+                    translationStore.createIndex('by_source', 'sourceId', { unique: false });
+                    translationStore.createIndex('by_sura', 'suraId', { unique: false });
+                }
+
                 // Store for metadata
                 if (!db.objectStoreNames.contains(STORE_METADATA)) {
                     db.createObjectStore(STORE_METADATA, { keyPath: 'key' });
@@ -115,6 +133,72 @@ class CorpusCache {
         });
     }
 
+    async storeDependencies(entries: TreebankAyah[]): Promise<void> {
+        const db = await this.init();
+        const tx = db.transaction(STORE_DEPENDENCIES, 'readwrite');
+        const store = tx.objectStore(STORE_DEPENDENCIES);
+
+        for (const entry of entries) {
+            store.put(entry);
+        }
+
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    async getDependencies(ayahId: string): Promise<TreebankAyah | null> {
+        const db = await this.init();
+        const tx = db.transaction(STORE_DEPENDENCIES, 'readonly');
+        const store = tx.objectStore(STORE_DEPENDENCIES);
+
+        return new Promise((resolve, reject) => {
+            const request = store.get(ayahId);
+            request.onsuccess = () => resolve(request.result ?? null);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    async clearDependencies(): Promise<void> {
+        const db = await this.init();
+        const tx = db.transaction(STORE_DEPENDENCIES, 'readwrite');
+        tx.objectStore(STORE_DEPENDENCIES).clear();
+
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    async storeTranslations(records: unknown[]): Promise<void> {
+        const db = await this.init();
+        const tx = db.transaction(STORE_TRANSLATIONS, 'readwrite');
+        const store = tx.objectStore(STORE_TRANSLATIONS);
+
+        for (const record of records) {
+            store.put(record);
+        }
+
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    async getTranslationsBySource(sourceId: string): Promise<unknown[]> {
+        const db = await this.init();
+        const tx = db.transaction(STORE_TRANSLATIONS, 'readonly');
+        const store = tx.objectStore(STORE_TRANSLATIONS);
+        const index = store.index('by_source');
+
+        return new Promise((resolve, reject) => {
+            const request = index.getAll(sourceId);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
     async getTokensBySura(suraId: number): Promise<unknown[]> {
         const db = await this.init();
         const tx = db.transaction(STORE_TOKENS, 'readonly');
@@ -178,6 +262,18 @@ class CorpusCache {
         });
     }
 
+    async getAllVerses(): Promise<unknown[]> {
+        const db = await this.init();
+        const tx = db.transaction(STORE_VERSES, 'readonly');
+        const store = tx.objectStore(STORE_VERSES);
+
+        return new Promise((resolve, reject) => {
+            const request = store.getAll();
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
     async getTokenCount(): Promise<number> {
         const db = await this.init();
         const tx = db.transaction(STORE_TOKENS, 'readonly');
@@ -252,9 +348,11 @@ class CorpusCache {
 
     async clearAll(): Promise<void> {
         const db = await this.init();
-        const tx = db.transaction([STORE_TOKENS, STORE_VERSES, STORE_METADATA], 'readwrite');
+        const tx = db.transaction([STORE_TOKENS, STORE_VERSES, STORE_DEPENDENCIES, STORE_TRANSLATIONS, STORE_METADATA], 'readwrite');
         tx.objectStore(STORE_TOKENS).clear();
         tx.objectStore(STORE_VERSES).clear();
+        tx.objectStore(STORE_DEPENDENCIES).clear();
+        tx.objectStore(STORE_TRANSLATIONS).clear();
         tx.objectStore(STORE_METADATA).clear();
 
         return new Promise((resolve, reject) => {
@@ -1,11 +1,21 @@
 /**
- * Knowledge Cache – IndexedDB wrapper for personal root tracking & notes.
+ * Knowledge Cache – IndexedDB wrapper for personal root tracking, notes and
+ * study items (lemmas, ayahs, passages, saved searches).
  * Completely local, no auth required. Supports export/import as JSON.
  */
 
+import { createKnowledgeExport } from '@/lib/export/knowledgeExport';
+import type { QuizScore } from '@/lib/study/quiz';
+import type { ReviewSchedule } from '@/lib/study/scheduler';
+import type { StudyItem } from '@/lib/study/studyItems';
+import type { FieldClocks, SyncOp } from '@/lib/sync/lww';
+
 const DB_NAME = 'quran-knowledge';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 const STORE_ROOTS = 'tracked_roots';
+const STORE_ITEMS = 'study_items';
+const STORE_SYNC_OPS = 'sync_ops';
+const STORE_SYNC_SNAPSHOTS = 'sync_snapshots';
 
 // ── Types ──────────────────────────────────────────────────────────
 
@@ -17,12 +27,27 @@ export interface TrackedRoot {
     notes: string;
     addedAt: number;             // epoch ms
     lastReviewedAt: number;      // epoch ms
+    schedule?: ReviewSchedule;   // absent until the root's first review
+    quiz?: QuizScore;            // absent until the root's first quiz answer
+    fieldClocks?: FieldClocks;   // set once the root has been edited through sync
 }
 
+export type TrackedRootPatch = Partial<Pick<TrackedRoot, 'state' | 'notes' | 'schedule' | 'quiz'>>;
+
+// Current JSON export shape; older versions are upgraded by migrateKnowledgeExport
 export interface KnowledgeExport {
-    version: 1;
+    version: 2;
     exportedAt: number;
     roots: TrackedRoot[];
+    items: StudyItem[];
+}
+
+// Last known cloud state of a signed-in user, loaded when Supabase is unreachable.
+export interface SyncSnapshot {
+    userId: string;              // primary key
+    roots: TrackedRoot[];
+    items: StudyItem[];
+    savedAt: number;             // epoch ms
 }
 
 // ── Cache class ────────────────────────────────────────────────────
@@ -59,6 +84,21 @@ class KnowledgeCache {
                     const store = db.createObjectStore(STORE_ROOTS, { keyPath: 'root' });
                     store.createIndex('by_state', 'state', { unique: false });
                 }
+
+                // v2: study items, one row per item id
+                if (!db.objectStoreNames.contains(STORE_ITEMS)) {
+                    const store = db.createObjectStore(STORE_ITEMS, { keyPath: 'id' });
+                    store.createIndex('by_collection', 'collections', { unique: false, multiEntry: true });
+                }
+
+                // v3: sync operation log and per-user cloud snapshots
+                if (!db.objectStoreNames.contains(STORE_SYNC_OPS)) {
+                    const store = db.createObjectStore(STORE_SYNC_OPS, { keyPath: 'id', autoIncrement: true });
+                    store.createIndex('by_user', 'userId', { unique: false });
+                }
+                if (!db.objectStoreNames.contains(STORE_SYNC_SNAPSHOTS)) {
+                    db.createObjectStore(STORE_SYNC_SNAPSHOTS, { keyPath: 'userId' });
+                }
             };
         });
 
@@ -86,7 +126,7 @@ class KnowledgeCache {
         });
     }
 
-    async updateRoot(root: string, patch: Partial<Pick<TrackedRoot, 'state' | 'notes'>>): Promise<TrackedRoot | null> {
+    async updateRoot(root: string, patch: TrackedRootPatch): Promise<TrackedRoot | null> {
         const existing = await this.getRoot(root);
         if (!existing) return null;
 
@@ -135,35 +175,116 @@ class KnowledgeCache {
         });
     }
 
+    // ── Study items ────────────────────────────────────────────────
+
+    async putItem(item: StudyItem): Promise<StudyItem> {
+        const db = await this.init();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(STORE_ITEMS, 'readwrite');
+            tx.objectStore(STORE_ITEMS).put(item);
+            tx.oncomplete = () => resolve(item);
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    async getAllItems(): Promise<StudyItem[]> {
+        const db = await this.init();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(STORE_ITEMS, 'readonly');
+            const req = tx.objectStore(STORE_ITEMS).getAll();
+            req.onsuccess = () => resolve(req.result as StudyItem[]);
+            req.onerror = () => reject(req.error);
+        });
+    }
+
+    async removeItem(id: string): Promise<void> {
+        const db = await this.init();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(STORE_ITEMS, 'readwrite');
+            tx.objectStore(STORE_ITEMS).delete(id);
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    // ── Sync log ───────────────────────────────────────────────────
+
+    async addSyncOp(op: SyncOp): Promise<SyncOp> {
+        const db = await this.init();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(STORE_SYNC_OPS, 'readwrite');
+            const req = tx.objectStore(STORE_SYNC_OPS).add(op);
+            tx.oncomplete = () => resolve({ ...op, id: req.result as number });
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    /** Pending operations of one user, oldest first. */
+    async getSyncOps(userId: string): Promise<SyncOp[]> {
+        const db = await this.init();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(STORE_SYNC_OPS, 'readonly');
+            const req = tx.objectStore(STORE_SYNC_OPS).index('by_user').getAll(userId);
+            req.onsuccess = () => resolve((req.result as SyncOp[]).sort((a, b) => (a.id ?? 0) - (b.id ?? 0)));
+            req.onerror = () => reject(req.error);
+        });
+    }
+
+    async removeSyncOp(id: number): Promise<void> {
+        const db = await this.init();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(STORE_SYNC_OPS, 'readwrite');
+            tx.objectStore(STORE_SYNC_OPS).delete(id);
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    async saveSyncSnapshot(snapshot: SyncSnapshot): Promise<void> {
+        const db = await this.init();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(STORE_SYNC_SNAPSHOTS, 'readwrite');
+            tx.objectStore(STORE_SYNC_SNAPSHOTS).put(snapshot);
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    async getSyncSnapshot(userId: string): Promise<SyncSnapshot | null> {
+        const db = await this.init();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(STORE_SYNC_SNAPSHOTS, 'readonly');
+            const req = tx.objectStore(STORE_SYNC_SNAPSHOTS).get(userId);
+            req.onsuccess = () => resolve((req.result as SyncSnapshot) ?? null);
+            req.onerror = () => reject(req.error);
+        });
+    }
+
     // ── Export / Import ────────────────────────────────────────────
 
     async exportKnowledge(): Promise<string> {
-        const roots = await this.getAllRoots();
-        const payload: KnowledgeExport = {
-            version: 1,
-            exportedAt: Date.now(),
-            roots,
-        };
-        return JSON.stringify(payload, null, 2);
+        const [roots, items] = await Promise.all([this.getAllRoots(), this.getAllItems()]);
+        return JSON.stringify(createKnowledgeExport(roots, items), null, 2);
     }
 
-    async importKnowledge(jsonString: string, merge = true): Promise<number> {
-        const payload = JSON.parse(jsonString) as KnowledgeExport;
-        if (payload.version !== 1 || !Array.isArray(payload.roots)) {
-            throw new Error('Invalid knowledge export format');
-        }
-
+    /** Stores a parsed export (see parseKnowledgeExport); returns the number of roots. */
+    async importKnowledge(payload: KnowledgeExport, merge = true): Promise<number> {
         const db = await this.init();
-        const tx = db.transaction(STORE_ROOTS, 'readwrite');
+        const tx = db.transaction([STORE_ROOTS, STORE_ITEMS], 'readwrite');
         const store = tx.objectStore(STORE_ROOTS);
+        const itemStore = tx.objectStore(STORE_ITEMS);
 
         if (!merge) {
             store.clear();
+            itemStore.clear();
         }
 
         for (const entry of payload.roots) {
             store.put(entry);
         }
+        for (const item of payload.items) {
+            itemStore.put(item);
+        }
 
         return new Promise((resolve, reject) => {
             tx.oncomplete = () => resolve(payload.roots.length);
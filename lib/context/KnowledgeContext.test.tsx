@@ -1,11 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { render, screen, act } from "@testing-library/react";
+import { render, screen, act, waitFor } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import type { ReactNode } from "react";
 import type { Session, User } from "@supabase/supabase-js";
 
 // ── Module mocks ──────────────────────────────────────────────────────────────
 
+// Backs the IndexedDB sync log mock
+const syncLog = vi.hoisted(() => ({ ops: [] as Array<{ id?: number; [field: string]: unknown }>, nextId: 1 }));
+
 vi.mock("@/lib/context/AuthContext", () => ({
     useAuth: vi.fn(),
     // PassThrough so that KnowledgeProvider (which calls useAuth) can be used
@@ -14,10 +17,8 @@ vi.mock("@/lib/context/AuthContext", () => ({
 
 vi.mock("@/lib/supabase/knowledgeService", () => ({
     getTrackedRoots: vi.fn(),
-    upsertRoot: vi.fn(),
-    updateRoot: vi.fn(),
-    removeRoot: vi.fn(),
-    batchUpsertRoots: vi.fn(),
+    getRootSyncState: vi.fn(async () => ({ record: null, deletedAt: null })),
+    putRootSyncState: vi.fn(async () => {}),
 }));
 
 vi.mock("@/lib/cache/knowledgeCache", () => ({
@@ -27,21 +28,44 @@ vi.mock("@/lib/cache/knowledgeCache", () => ({
         updateRoot: vi.fn(),
         removeRoot: vi.fn(),
         importKnowledge: vi.fn(),
+        getAllItems: vi.fn(async () => []),
+        putItem: vi.fn(async (item: unknown) => item),
+        removeItem: vi.fn(),
+        addSyncOp: vi.fn(async (op: object) => {
+            const stored = { ...op, id: syncLog.nextId++ };
+            syncLog.ops.push(stored);
+            return stored;
+        }),
+        getSyncOps: vi.fn(async () => [...syncLog.ops]),
+        removeSyncOp: vi.fn(async (id: number) => {
+            syncLog.ops = syncLog.ops.filter((op) => op.id !== id);
+        }),
+        saveSyncSnapshot: vi.fn(async () => {}),
+        getSyncSnapshot: vi.fn(async () => null),
     },
 }));
 
+vi.mock("@/lib/supabase/studyItemService", () => ({
+    getStudyItems: vi.fn(async () => []),
+    getItemSyncState: vi.fn(async () => ({ record: null, deletedAt: null })),
+    putItemSyncState: vi.fn(async () => {}),
+}));
+
 import { useAuth } from "@/lib/context/AuthContext";
 import * as knowledgeService from "@/lib/supabase/knowledgeService";
 import { knowledgeCache } from "@/lib/cache/knowledgeCache";
+import { createStudyItem } from "@/lib/study/studyItems";
 import { KnowledgeProvider, useKnowledge } from "./KnowledgeContext";
 
 const mockUseAuth = vi.mocked(useAuth);
 const mockGetTrackedRoots = vi.mocked(knowledgeService.getTrackedRoots);
-const mockUpsertRoot = vi.mocked(knowledgeService.upsertRoot);
 const mockCacheGetAll = vi.mocked(knowledgeCache.getAllRoots);
 const mockCacheTrack = vi.mocked(knowledgeCache.trackRoot);
 const mockCacheRemove = vi.mocked(knowledgeCache.removeRoot);
-const mockBatchUpsertRoots = vi.mocked(knowledgeService.batchUpsertRoots);
+const mockCacheGetAllItems = vi.mocked(knowledgeCache.getAllItems);
+const mockGetSyncSnapshot = vi.mocked(knowledgeCache.getSyncSnapshot);
+const mockGetRootSyncState = vi.mocked(knowledgeService.getRootSyncState);
+const mockPutRootSyncState = vi.mocked(knowledgeService.putRootSyncState);
 
 type MockAuthValue = ReturnType<typeof useAuth>;
 
@@ -100,12 +124,25 @@ function KnowledgeConsumer({ onAction }: { onAction?: string }) {
             <span data-testid="pending">{String(ctx.pendingMigration)}</span>
             <span data-testid="total">{ctx.stats.total}</span>
             <span data-testid="learning">{ctx.stats.learning}</span>
+            <span data-testid="items-count">{ctx.studyItems.size}</span>
+            <span data-testid="collections">{ctx.collections.map((c) => `${c.name}:${c.count}`).join(",")}</span>
+            <span data-testid="sync">{ctx.syncStatus?.phase ?? "local"}</span>
             {onAction === "trackRoot" && (
                 <button onClick={() => ctx.trackRoot("كتب")}>track</button>
             )}
             {onAction === "acceptMigration" && (
                 <button onClick={() => ctx.acceptMigration()}>accept</button>
             )}
+            {onAction === "import" && (
+                <button onClick={() => ctx.importKnowledge(JSON.stringify({ version: 1, exportedAt: 0, roots: [fakeRoot("صبر")] }))}>
+                    import
+                </button>
+            )}
+            {onAction === "replace" && (
+                <button onClick={() => ctx.importKnowledge(JSON.stringify({ version: 1, exportedAt: 0, roots: [fakeRoot("صبر")] }), false)}>
+                    replace
+                </button>
+            )}
             {onAction === "declineMigration" && (
                 <button onClick={() => ctx.declineMigration()}>decline</button>
             )}
@@ -146,6 +183,21 @@ describe("KnowledgeContext — anonymous (IndexedDB) path", () => {
         expect(screen.getByTestId("learning").textContent).toBe("1");
     });
 
+    it("loads study items from IndexedDB and summarizes their collections", async () => {
+        mockCacheGetAll.mockResolvedValue([]);
+        mockCacheGetAllItems.mockResolvedValueOnce([
+            createStudyItem({ kind: "ayah", sura: 2, ayah: 255 }, { collections: ["Memorize"] }),
+            createStudyItem({ kind: "lemma", lemma: "كِتَٰب" }, { collections: ["Memorize", "Nouns"] }),
+        ]);
+
+        await act(async () => {
+            render(<KnowledgeConsumer />, { wrapper: Wrapper });
+        });
+
+        expect(screen.getByTestId("items-count").textContent).toBe("2");
+        expect(screen.getByTestId("collections").textContent).toBe("Memorize:2,Nouns:1");
+    });
+
     it("does not call knowledgeService.getTrackedRoots", async () => {
         mockCacheGetAll.mockResolvedValue([]);
 
@@ -167,12 +219,16 @@ describe("KnowledgeContext — anonymous (IndexedDB) path", () => {
         await userEvent.click(screen.getByText("track"));
 
         expect(mockCacheTrack).toHaveBeenCalledWith("كتب", "learning");
-        expect(mockUpsertRoot).not.toHaveBeenCalled();
+        expect(mockPutRootSyncState).not.toHaveBeenCalled();
     });
 });
 
 describe("KnowledgeContext — authenticated (Supabase) path", () => {
-    beforeEach(() => { vi.clearAllMocks(); authedUser(); });
+    beforeEach(() => {
+        vi.clearAllMocks();
+        syncLog.ops = [];
+        authedUser();
+    });
 
     it("loads roots from Supabase", async () => {
         mockGetTrackedRoots.mockResolvedValue([fakeRoot("علم"), fakeRoot("درس")]);
@@ -186,10 +242,9 @@ describe("KnowledgeContext — authenticated (Supabase) path", () => {
         expect(screen.getByTestId("roots-count").textContent).toBe("2");
     });
 
-    it("trackRoot calls knowledgeService.upsertRoot with userId", async () => {
+    it("trackRoot applies the root locally and pushes it through the sync log", async () => {
         mockGetTrackedRoots.mockResolvedValue([]);
         mockCacheGetAll.mockResolvedValue([]);
-        mockUpsertRoot.mockResolvedValue(fakeRoot("كتب"));
 
         await act(async () => {
             render(<KnowledgeConsumer onAction="trackRoot" />, { wrapper: Wrapper });
@@ -197,10 +252,79 @@ describe("KnowledgeContext — authenticated (Supabase) path", () => {
 
         await userEvent.click(screen.getByText("track"));
 
-        expect(mockUpsertRoot).toHaveBeenCalledWith("uid-1", "كتب", "learning");
+        expect(screen.getByTestId("roots-count").textContent).toBe("1");
+        await waitFor(() => expect(mockPutRootSyncState).toHaveBeenCalledWith(
+            "uid-1",
+            "كتب",
+            expect.objectContaining({ record: expect.objectContaining({ root: "كتب", state: "learning" }) })
+        ));
+        await waitFor(() => expect(screen.getByTestId("sync").textContent).toBe("synced"));
+        expect(syncLog.ops).toEqual([]);
         expect(mockCacheTrack).not.toHaveBeenCalled();
     });
 
+    it("loads the last cloud snapshot with pending changes while Supabase is unreachable", async () => {
+        mockGetTrackedRoots.mockRejectedValueOnce(new Error("fetch failed"));
+        mockCacheGetAll.mockResolvedValue([]);
+        mockGetSyncSnapshot.mockResolvedValueOnce({
+            userId: "uid-1",
+            roots: [fakeRoot("علم"), fakeRoot("درس")],
+            items: [],
+            savedAt: 0,
+        });
+        mockGetRootSyncState.mockRejectedValueOnce(new Error("fetch failed"));
+        syncLog.ops = [{ id: 1, userId: "uid-1", entity: "root", key: "درس", type: "delete", fields: {}, at: 10 }];
+        const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+        await act(async () => {
+            render(<KnowledgeConsumer />, { wrapper: Wrapper });
+        });
+
+        expect(screen.getByTestId("roots-count").textContent).toBe("1");
+        await waitFor(() => expect(screen.getByTestId("sync").textContent).toBe("offline"));
+        expect(syncLog.ops).toHaveLength(1);
+        warnSpy.mockRestore();
+    });
+
+    it("imports through the sync log with field clocks", async () => {
+        mockGetTrackedRoots.mockResolvedValue([]);
+        mockCacheGetAll.mockResolvedValue([]);
+
+        await act(async () => {
+            render(<KnowledgeConsumer onAction="import" />, { wrapper: Wrapper });
+        });
+
+        await userEvent.click(screen.getByText("import"));
+
+        expect(screen.getByTestId("roots-count").textContent).toBe("1");
+        await waitFor(() => expect(mockPutRootSyncState).toHaveBeenCalledWith(
+            "uid-1",
+            "صبر",
+            expect.objectContaining({
+                record: expect.objectContaining({ root: "صبر", fieldClocks: expect.objectContaining({ state: expect.any(Number) }) }),
+            })
+        ));
+    });
+
+    it("replacing on import tombstones the roots the file leaves out", async () => {
+        mockGetTrackedRoots.mockResolvedValue([fakeRoot("علم"), fakeRoot("صبر")]);
+        mockCacheGetAll.mockResolvedValue([]);
+
+        await act(async () => {
+            render(<KnowledgeConsumer onAction="replace" />, { wrapper: Wrapper });
+        });
+
+        await userEvent.click(screen.getByText("replace"));
+
+        expect(screen.getByTestId("roots-count").textContent).toBe("1");
+        await waitFor(() => expect(mockPutRootSyncState).toHaveBeenCalledWith(
+            "uid-1",
+            "علم",
+            expect.objectContaining({ record: null, deletedAt: expect.any(Number) })
+        ));
+        expect(mockPutRootSyncState).not.toHaveBeenCalledWith("uid-1", "صبر", expect.objectContaining({ record: null }));
+    });
+
     it("does not offer migration when cloud already has roots", async () => {
         mockGetTrackedRoots.mockResolvedValue([fakeRoot("علم")]);
         mockCacheGetAll.mockResolvedValue([fakeRoot("درس")]);
@@ -214,7 +338,7 @@ describe("KnowledgeContext — authenticated (Supabase) path", () => {
 });
 
 describe("KnowledgeContext — migration flow", () => {
-    beforeEach(() => { vi.clearAllMocks(); authedUser(); });
+    beforeEach(() => { vi.clearAllMocks(); syncLog.ops = []; authedUser(); });
 
     it("sets pendingMigration=true when cloud empty and local has roots", async () => {
         mockGetTrackedRoots.mockResolvedValue([]);
@@ -242,13 +366,10 @@ describe("KnowledgeContext — migration flow", () => {
         expect(screen.getByTestId("pending").textContent).toBe("false");
     });
 
-    it("acceptMigration calls batchUpsertRoots, removes local roots, clears pending", async () => {
+    it("acceptMigration pushes local roots through the sync log, removes them locally, clears pending", async () => {
         const local = fakeRoot("درس");
-        mockGetTrackedRoots
-            .mockResolvedValueOnce([])          // initial hydrate
-            .mockResolvedValueOnce([local]);    // after migration reload
+        mockGetTrackedRoots.mockResolvedValue([]);
         mockCacheGetAll.mockResolvedValue([local]);
-        mockBatchUpsertRoots.mockResolvedValue(1);
         mockCacheRemove.mockResolvedValue(undefined);
 
         await act(async () => {
@@ -261,11 +382,14 @@ describe("KnowledgeContext — migration flow", () => {
             await userEvent.click(screen.getByText("accept"));
         });
 
-        expect(mockBatchUpsertRoots).toHaveBeenCalledWith("uid-1", [local]);
         expect(mockCacheRemove).toHaveBeenCalledWith("درس");
         expect(screen.getByTestId("pending").textContent).toBe("false");
-        // cloud roots are now loaded
         expect(screen.getByTestId("roots-count").textContent).toBe("1");
+        await waitFor(() => expect(mockPutRootSyncState).toHaveBeenCalledWith(
+            "uid-1",
+            "درس",
+            expect.objectContaining({ record: expect.objectContaining({ root: "درس", fieldClocks: expect.any(Object) }) })
+        ));
     });
 });
 
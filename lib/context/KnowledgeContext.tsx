@@ -11,19 +11,48 @@ import {
 import type { ReactNode } from "react";
 import {
     knowledgeCache,
+    type KnowledgeExport,
     type KnowledgeState,
     type TrackedRoot,
+    type TrackedRootPatch,
 } from "@/lib/cache/knowledgeCache";
+import {
+    buildKnowledgeFile,
+    createKnowledgeExport,
+    parseKnowledgeCsv,
+    parseKnowledgeExport,
+    type KnowledgeCsvError,
+    type KnowledgeExportFormat,
+} from "@/lib/export/knowledgeExport";
+import { downloadTextFile } from "@/lib/export/tableExport";
+import type { CorpusToken } from "@/lib/schema/types";
+import { recordQuizAnswer } from "@/lib/study/quiz";
+import {
+    createStudyItem,
+    studyItemId,
+    summarizeCollections,
+    type CollectionSummary,
+    type StudyItem,
+    type StudyItemPatch,
+    type StudyItemRef,
+} from "@/lib/study/studyItems";
+import { newReviewSchedule, scheduleReview, type ReviewGrade } from "@/lib/study/scheduler";
 import {
     clearDevPendingMigrationRoots,
     readDevAuthUser,
     readDevKnowledgeRoots,
     readDevPendingMigrationRoots,
+    readDevStudyItems,
     writeDevKnowledgeRoots,
+    writeDevStudyItems,
 } from "@/lib/dev/testOverrides";
 import * as knowledgeService from "@/lib/supabase/knowledgeService";
+import * as studyItemService from "@/lib/supabase/studyItemService";
 import { useAuth } from "@/lib/context/AuthContext";
 import { isSupabaseFetchError } from "@/lib/supabase/errors";
+import { replaySyncOps, type SyncOp } from "@/lib/sync/lww";
+import { ITEM_SYNC_TYPE, ROOT_SYNC_TYPE, itemPutOp, knowledgeSync, rootPutOp } from "@/lib/sync/knowledgeSync";
+import type { SyncStatus } from "@/lib/sync/syncEngine";
 
 interface KnowledgeContextValue {
     roots: Map<string, TrackedRoot>;
@@ -32,23 +61,73 @@ interface KnowledgeContextValue {
     acceptMigration: () => Promise<void>;
     declineMigration: () => void;
     trackRoot: (root: string, state?: KnowledgeState) => Promise<void>;
-    updateRoot: (root: string, patch: Partial<Pick<TrackedRoot, "state" | "notes">>) => Promise<void>;
+    updateRoot: (root: string, patch: TrackedRootPatch) => Promise<void>;
+    // Grades a review of the root and stores its next schedule.
+    reviewRoot: (root: string, grade: ReviewGrade) => Promise<void>;
+    // Adds one quiz answer to the root's running score.
+    answerQuiz: (root: string, correct: boolean) => Promise<void>;
     removeRoot: (root: string) => Promise<void>;
-    exportKnowledge: () => Promise<void>;
+    // Lemmas, ayahs, passages, roots and saved searches, keyed by item id.
+    studyItems: Map<string, StudyItem>;
+    collections: CollectionSummary[];
+    // Saves the item, or merges the fields into it when it is already saved.
+    saveStudyItem: (ref: StudyItemRef, fields?: StudyItemPatch) => Promise<void>;
+    updateStudyItem: (id: string, patch: StudyItemPatch) => Promise<void>;
+    removeStudyItem: (id: string) => Promise<void>;
+    // Downloads a file; Anki and Markdown exports draw lemmas, glosses and ayahs from `tokens`.
+    exportKnowledge: (format?: KnowledgeExportFormat, tokens?: CorpusToken[]) => Promise<void>;
+    // Accepts JSON exports of any known version.
     importKnowledge: (jsonString: string, merge?: boolean) => Promise<number>;
+    // Merges the valid rows and reports the others.
+    importKnowledgeCsv: (csv: string) => Promise<{ count: number; errors: KnowledgeCsvError[] }>;
     isTracked: (root: string) => boolean;
     stats: { total: number; learning: number; learned: number };
+    // null while knowledge is only kept on this device
+    syncStatus: SyncStatus | null;
+    // Pushes pending changes, then reloads the cloud copy.
+    syncNow: () => Promise<void>;
 }
 
 const KnowledgeContext = createContext<KnowledgeContextValue | null>(null);
 
+function toItemsMap(items: Iterable<StudyItem>): Map<string, StudyItem> {
+    const map = new Map<string, StudyItem>();
+    for (const item of items) map.set(item.id, item);
+    return map;
+}
+
+function toRootsMap(roots: Iterable<TrackedRoot>): Map<string, TrackedRoot> {
+    const map = new Map<string, TrackedRoot>();
+    for (const root of roots) map.set(root.root, root);
+    return map;
+}
+
+// Cloud knowledge with the user's not-yet-pushed changes replayed on top.
+async function loadSyncedKnowledge(userId: string) {
+    const [cloudRoots, cloudItems, ops] = await Promise.all([
+        knowledgeService.getTrackedRoots(),
+        studyItemService.getStudyItems(),
+        knowledgeCache.getSyncOps(userId).catch((): SyncOp[] => []),
+    ]);
+    return {
+        cloudRoots,
+        cloudItems,
+        roots: replaySyncOps(toRootsMap(cloudRoots), ops, "root", ROOT_SYNC_TYPE),
+        items: replaySyncOps(toItemsMap(cloudItems), ops, "item", ITEM_SYNC_TYPE),
+    };
+}
+
 export function KnowledgeProvider({ children }: { children: ReactNode }) {
     const { user } = useAuth();
     const [rootsMap, setRootsMap] = useState<Map<string, TrackedRoot>>(new Map());
     const [loading, setLoading] = useState(true);
     const [pendingMigration, setPendingMigration] = useState(false);
     const [localRootsForMigration, setLocalRootsForMigration] = useState<TrackedRoot[]>([]);
+    const [itemsMap, setItemsMap] = useState<Map<string, StudyItem>>(new Map());
+    const [localItemsForMigration, setLocalItemsForMigration] = useState<StudyItem[]>([]);
+    const [syncStatus, setSyncStatus] = useState<SyncStatus>(() => knowledgeSync.getStatus());
     const isDevKnowledgeMode = Boolean(user && readDevAuthUser());
+    const syncUserId = user && !isDevKnowledgeMode ? user.id : null;
 
     useEffect(() => {
         let cancelled = false;
@@ -58,11 +137,13 @@ export function KnowledgeProvider({ children }: { children: ReactNode }) {
             if (user) {
                 const devRoots = readDevKnowledgeRoots();
                 const devPendingMigrationRoots = readDevPendingMigrationRoots();
+                const devItems = readDevStudyItems() ?? [];
                 if (devRoots) {
                     const map = new Map<string, TrackedRoot>();
                     for (const root of devRoots) map.set(root.root, root);
                     if (!cancelled) {
                         setRootsMap(map);
+                        setItemsMap(toItemsMap(devItems));
                         setPendingMigration(Boolean(devPendingMigrationRoots?.length));
                         setLocalRootsForMigration(devPendingMigrationRoots ?? []);
                         setLoading(false);
@@ -73,6 +154,7 @@ export function KnowledgeProvider({ children }: { children: ReactNode }) {
                 if (devPendingMigrationRoots) {
                     if (!cancelled) {
                         setRootsMap(new Map());
+                        setItemsMap(toItemsMap(devItems));
                         setPendingMigration(devPendingMigrationRoots.length > 0);
                         setLocalRootsForMigration(devPendingMigrationRoots);
                         setLoading(false);
@@ -81,30 +163,39 @@ export function KnowledgeProvider({ children }: { children: ReactNode }) {
                 }
 
                 const localRoots = await knowledgeCache.getAllRoots().catch(() => []);
+                const localItems = await knowledgeCache.getAllItems().catch(() => []);
 
                 try {
-                    const cloudRoots = await knowledgeService.getTrackedRoots();
+                    const { cloudRoots, cloudItems, roots, items } = await loadSyncedKnowledge(user.id);
 
-                    if (localRoots.length > 0 && cloudRoots.length === 0 && !cancelled) {
-                        setLocalRootsForMigration(localRoots);
+                    const migrateRoots = localRoots.length > 0 && cloudRoots.length === 0;
+                    const migrateItems = localItems.length > 0 && cloudItems.length === 0;
+                    if ((migrateRoots || migrateItems) && !cancelled) {
+                        setLocalRootsForMigration(migrateRoots ? localRoots : []);
+                        setLocalItemsForMigration(migrateItems ? localItems : []);
                         setPendingMigration(true);
                     }
 
                     if (!cancelled) {
-                        const map = new Map<string, TrackedRoot>();
-                        for (const root of cloudRoots) map.set(root.root, root);
-                        setRootsMap(map);
+                        setRootsMap(roots);
+                        setItemsMap(items);
                         setLoading(false);
                     }
                 } catch (error) {
                     if (!cancelled) {
                         if (isSupabaseFetchError(error)) {
                             console.warn("[KnowledgeProvider] Supabase unavailable, falling back to local cache");
-                            const map = new Map<string, TrackedRoot>();
-                            for (const root of localRoots) map.set(root.root, root);
-                            setRootsMap(map);
+                            // Last cloud copy plus pending changes; the sync engine reconciles once reachable
+                            const snapshot = await knowledgeCache.getSyncSnapshot(user.id).catch(() => null);
+                            const ops = await knowledgeCache.getSyncOps(user.id).catch((): SyncOp[] => []);
+                            if (cancelled) return;
+                            const baseRoots = toRootsMap(snapshot?.roots ?? localRoots);
+                            const baseItems = toItemsMap(snapshot?.items ?? localItems);
+                            setRootsMap(replaySyncOps(baseRoots, ops, "root", ROOT_SYNC_TYPE));
+                            setItemsMap(replaySyncOps(baseItems, ops, "item", ITEM_SYNC_TYPE));
                             setPendingMigration(false);
                             setLocalRootsForMigration([]);
+                            setLocalItemsForMigration([]);
                             setLoading(false);
                             return;
                         }
@@ -117,11 +208,14 @@ export function KnowledgeProvider({ children }: { children: ReactNode }) {
 
             setPendingMigration(false);
             setLocalRootsForMigration([]);
+            setLocalItemsForMigration([]);
             const localRoots = await knowledgeCache.getAllRoots().catch(() => []);
+            const localItems = await knowledgeCache.getAllItems().catch(() => []);
             if (!cancelled) {
                 const map = new Map<string, TrackedRoot>();
                 for (const root of localRoots) map.set(root.root, root);
                 setRootsMap(map);
+                setItemsMap(toItemsMap(localItems));
                 setLoading(false);
             }
         }
@@ -138,6 +232,44 @@ export function KnowledgeProvider({ children }: { children: ReactNode }) {
         };
     }, [user]);
 
+    useEffect(() => {
+        if (!syncUserId) return;
+        setSyncStatus(knowledgeSync.getStatus());
+        const unsubscribe = knowledgeSync.subscribe(setSyncStatus);
+        knowledgeSync.start(syncUserId, async () => {
+            const { roots, items } = await loadSyncedKnowledge(syncUserId);
+            setRootsMap(roots);
+            setItemsMap(items);
+        });
+        return () => {
+            unsubscribe();
+            knowledgeSync.stop();
+        };
+    }, [syncUserId]);
+
+    // Keep the signed-in user's knowledge loadable while Supabase is unreachable
+    useEffect(() => {
+        if (!syncUserId || loading) return;
+        knowledgeCache
+            .saveSyncSnapshot({
+                userId: syncUserId,
+                roots: Array.from(rootsMap.values()),
+                items: Array.from(itemsMap.values()),
+                savedAt: Date.now(),
+            })
+            .catch(() => {});
+    }, [itemsMap, loading, rootsMap, syncUserId]);
+
+    // Applies a change locally and logs it for the sync engine to push.
+    const pushSyncOp = useCallback(async (op: SyncOp) => {
+        if (op.entity === "root") {
+            setRootsMap((prev) => replaySyncOps(prev, [op], "root", ROOT_SYNC_TYPE));
+        } else {
+            setItemsMap((prev) => replaySyncOps(prev, [op], "item", ITEM_SYNC_TYPE));
+        }
+        await knowledgeSync.enqueue(op);
+    }, []);
+
     const acceptMigration = useCallback(async () => {
         if (!user) return;
 
@@ -157,24 +289,28 @@ export function KnowledgeProvider({ children }: { children: ReactNode }) {
         }
 
         try {
-            await knowledgeService.batchUpsertRoots(user.id, localRootsForMigration);
+            // Logged like any other edit, so the move works offline and merges with the cloud copy
+            const now = Date.now();
+            for (const root of localRootsForMigration) await pushSyncOp(rootPutOp(user.id, root, now));
+            for (const item of localItemsForMigration) await pushSyncOp(itemPutOp(user.id, item, now));
             for (const root of localRootsForMigration) {
                 await knowledgeCache.removeRoot(root.root).catch(() => {});
             }
-            const cloudRoots = await knowledgeService.getTrackedRoots();
-            const map = new Map<string, TrackedRoot>();
-            for (const root of cloudRoots) map.set(root.root, root);
-            setRootsMap(map);
+            for (const item of localItemsForMigration) {
+                await knowledgeCache.removeItem(item.id).catch(() => {});
+            }
             setPendingMigration(false);
             setLocalRootsForMigration([]);
+            setLocalItemsForMigration([]);
         } catch (error) {
             console.error("[KnowledgeProvider] acceptMigration failed", error);
         }
-    }, [user, localRootsForMigration, rootsMap]);
+    }, [user, localRootsForMigration, localItemsForMigration, pushSyncOp, rootsMap]);
 
     const declineMigration = useCallback(() => {
         setPendingMigration(false);
         setLocalRootsForMigration([]);
+        setLocalItemsForMigration([]);
         clearDevPendingMigrationRoots();
     }, []);
 
@@ -197,16 +333,23 @@ export function KnowledgeProvider({ children }: { children: ReactNode }) {
         }
 
         if (user) {
-            const entry = await knowledgeService.upsertRoot(user.id, root, state);
-            setRootsMap((prev) => new Map(prev).set(root, entry));
+            const now = Date.now();
+            await pushSyncOp({
+                userId: user.id,
+                entity: "root",
+                key: root,
+                type: "put",
+                fields: { state, notes: "", addedAt: now, lastReviewedAt: now },
+                at: now,
+            });
             return;
         }
 
         const entry = await knowledgeCache.trackRoot(root, state);
         setRootsMap((prev) => new Map(prev).set(root, entry));
-    }, [isDevKnowledgeMode, user]);
+    }, [isDevKnowledgeMode, pushSyncOp, user]);
 
-    const updateRoot = useCallback(async (root: string, patch: Partial<Pick<TrackedRoot, "state" | "notes">>) => {
+    const updateRoot = useCallback(async (root: string, patch: TrackedRootPatch) => {
         if (isDevKnowledgeMode) {
             setRootsMap((prev) => {
                 const existing = prev.get(root);
@@ -224,14 +367,36 @@ export function KnowledgeProvider({ children }: { children: ReactNode }) {
         }
 
         if (user) {
-            const updated = await knowledgeService.updateRoot(root, patch);
-            setRootsMap((prev) => new Map(prev).set(root, updated));
+            if (!rootsMap.has(root)) return;
+            const now = Date.now();
+            await pushSyncOp({
+                userId: user.id,
+                entity: "root",
+                key: root,
+                type: "put",
+                fields: { ...patch, lastReviewedAt: now },
+                at: now,
+            });
             return;
         }
 
         const updated = await knowledgeCache.updateRoot(root, patch);
         if (updated) setRootsMap((prev) => new Map(prev).set(root, updated));
-    }, [isDevKnowledgeMode, user]);
+    }, [isDevKnowledgeMode, pushSyncOp, rootsMap, user]);
+
+    const reviewRoot = useCallback(async (root: string, grade: ReviewGrade) => {
+        const existing = rootsMap.get(root);
+        if (!existing) return;
+        const now = Date.now();
+        const schedule = scheduleReview(existing.schedule ?? newReviewSchedule(now), grade, now);
+        await updateRoot(root, { schedule });
+    }, [rootsMap, updateRoot]);
+
+    const answerQuiz = useCallback(async (root: string, correct: boolean) => {
+        const existing = rootsMap.get(root);
+        if (!existing) return;
+        await updateRoot(root, { quiz: recordQuizAnswer(existing.quiz, correct) });
+    }, [rootsMap, updateRoot]);
 
     const removeRoot = useCallback(async (root: string) => {
         if (isDevKnowledgeMode) {
@@ -245,36 +410,113 @@ export function KnowledgeProvider({ children }: { children: ReactNode }) {
         }
 
         if (user) {
-            await knowledgeService.removeRoot(root);
-        } else {
-            await knowledgeCache.removeRoot(root);
+            // Leaves a tombstone so other devices drop the root too
+            await pushSyncOp({ userId: user.id, entity: "root", key: root, type: "delete", fields: {}, at: Date.now() });
+            return;
         }
 
+        await knowledgeCache.removeRoot(root);
         setRootsMap((prev) => {
             const next = new Map(prev);
             next.delete(root);
             return next;
         });
-    }, [isDevKnowledgeMode, user]);
-
-    const exportKnowledge = useCallback(async () => {
-        const roots = Array.from(rootsMap.values());
-        const payload = { version: 1, exportedAt: Date.now(), roots };
-        const blob = new Blob([JSON.stringify(payload, null, 2)], { type: "application/json" });
-        const url = URL.createObjectURL(blob);
-        const anchor = document.createElement("a");
-        anchor.href = url;
-        anchor.download = `quran-knowledge-${new Date().toISOString().slice(0, 10)}.json`;
-        anchor.click();
-        URL.revokeObjectURL(url);
-    }, [rootsMap]);
+    }, [isDevKnowledgeMode, pushSyncOp, user]);
+
+    const storeStudyItem = useCallback((item: StudyItem) => {
+        setItemsMap((prev) => {
+            const next = new Map(prev).set(item.id, item);
+            if (isDevKnowledgeMode) writeDevStudyItems(Array.from(next.values()));
+            return next;
+        });
+    }, [isDevKnowledgeMode]);
+
+    const saveStudyItem = useCallback(async (ref: StudyItemRef, fields: StudyItemPatch = {}) => {
+        const existing = itemsMap.get(studyItemId(ref));
+        const now = Date.now();
+        const item = existing
+            ? {
+                ...existing,
+                ...fields,
+                collections: [...new Set([...existing.collections, ...(fields.collections ?? [])])],
+                updatedAt: now,
+            }
+            : createStudyItem(ref, fields, now);
+
+        if (isDevKnowledgeMode) {
+            storeStudyItem(item);
+            return;
+        }
 
-    const importKnowledge = useCallback(async (jsonString: string, merge = true) => {
-        const payload = JSON.parse(jsonString) as { version: 1; roots: TrackedRoot[] };
-        if (payload.version !== 1 || !Array.isArray(payload.roots)) {
-            throw new Error("Invalid knowledge export format");
+        if (user) {
+            // Re-saving only logs the fields it writes, so edits to the others made elsewhere survive
+            const { id, ...created } = item;
+            await pushSyncOp({
+                userId: user.id,
+                entity: "item",
+                key: id,
+                type: "put",
+                fields: existing ? { ...fields, collections: item.collections, updatedAt: now } : created,
+                at: now,
+            });
+            return;
+        }
+
+        storeStudyItem(await knowledgeCache.putItem(item));
+    }, [isDevKnowledgeMode, itemsMap, pushSyncOp, storeStudyItem, user]);
+
+    const updateStudyItem = useCallback(async (id: string, patch: StudyItemPatch) => {
+        const existing = itemsMap.get(id);
+        if (!existing) return;
+        const item = { ...existing, ...patch, updatedAt: Date.now() };
+
+        if (isDevKnowledgeMode) {
+            storeStudyItem(item);
+            return;
+        }
+
+        if (user) {
+            await pushSyncOp({
+                userId: user.id,
+                entity: "item",
+                key: id,
+                type: "put",
+                fields: { ...patch, updatedAt: item.updatedAt },
+                at: item.updatedAt,
+            });
+            return;
+        }
+
+        storeStudyItem(await knowledgeCache.putItem(item));
+    }, [isDevKnowledgeMode, itemsMap, pushSyncOp, storeStudyItem, user]);
+
+    const removeStudyItem = useCallback(async (id: string) => {
+        if (!isDevKnowledgeMode) {
+            if (user) {
+                await pushSyncOp({ userId: user.id, entity: "item", key: id, type: "delete", fields: {}, at: Date.now() });
+                return;
+            }
+            await knowledgeCache.removeItem(id);
         }
 
+        setItemsMap((prev) => {
+            const next = new Map(prev);
+            next.delete(id);
+            if (isDevKnowledgeMode) writeDevStudyItems(Array.from(next.values()));
+            return next;
+        });
+    }, [isDevKnowledgeMode, pushSyncOp, user]);
+
+    const exportKnowledge = useCallback(async (format: KnowledgeExportFormat = "json", tokens: CorpusToken[] = []) => {
+        const file = buildKnowledgeFile(format, {
+            roots: Array.from(rootsMap.values()),
+            items: Array.from(itemsMap.values()),
+            tokens,
+        });
+        downloadTextFile(file.content, file.fileName, file.mimeType);
+    }, [itemsMap, rootsMap]);
+
+    const importPayload = useCallback(async (payload: KnowledgeExport, merge: boolean) => {
         if (isDevKnowledgeMode) {
             const baseRoots = merge ? Array.from(rootsMap.values()) : [];
             const next = new Map<string, TrackedRoot>();
@@ -283,28 +525,56 @@ export function KnowledgeProvider({ children }: { children: ReactNode }) {
             const nextRoots = Array.from(next.values());
             writeDevKnowledgeRoots(nextRoots);
             setRootsMap(new Map(nextRoots.map((root) => [root.root, root] as const)));
+            const nextItems = toItemsMap([...(merge ? itemsMap.values() : []), ...payload.items]);
+            writeDevStudyItems(Array.from(nextItems.values()));
+            setItemsMap(nextItems);
             return payload.roots.length;
         }
 
         if (user) {
-            const count = await knowledgeService.batchUpsertRoots(user.id, payload.roots);
-            const cloudRoots = await knowledgeService.getTrackedRoots();
-            const map = new Map<string, TrackedRoot>();
-            for (const root of cloudRoots) map.set(root.root, root);
-            setRootsMap(map);
-            return count;
+            const now = Date.now();
+            if (!merge) {
+                // Replacing tombstones everything the file leaves out
+                const keepRoots = new Set(payload.roots.map((root) => root.root));
+                const keepItems = new Set(payload.items.map((item) => item.id));
+                for (const root of rootsMap.keys()) {
+                    if (!keepRoots.has(root)) await pushSyncOp({ userId: user.id, entity: "root", key: root, type: "delete", fields: {}, at: now });
+                }
+                for (const id of itemsMap.keys()) {
+                    if (!keepItems.has(id)) await pushSyncOp({ userId: user.id, entity: "item", key: id, type: "delete", fields: {}, at: now });
+                }
+            }
+            for (const root of payload.roots) await pushSyncOp(rootPutOp(user.id, root, now));
+            for (const item of payload.items) await pushSyncOp(itemPutOp(user.id, item, now));
+            return payload.roots.length;
         }
 
-        const count = await knowledgeCache.importKnowledge(jsonString, merge);
+        const count = await knowledgeCache.importKnowledge(payload, merge);
         const localRoots = await knowledgeCache.getAllRoots();
         const map = new Map<string, TrackedRoot>();
         for (const root of localRoots) map.set(root.root, root);
         setRootsMap(map);
+        setItemsMap(toItemsMap(await knowledgeCache.getAllItems()));
         return count;
-    }, [isDevKnowledgeMode, rootsMap, user]);
+    }, [isDevKnowledgeMode, itemsMap, pushSyncOp, rootsMap, user]);
+
+    const importKnowledge = useCallback(
+        (jsonString: string, merge = true) => importPayload(parseKnowledgeExport(jsonString), merge),
+        [importPayload],
+    );
+
+    const importKnowledgeCsv = useCallback(async (csv: string) => {
+        const { roots, errors } = parseKnowledgeCsv(csv);
+        const count = roots.length > 0 ? await importPayload(createKnowledgeExport(roots, []), true) : 0;
+        return { count, errors };
+    }, [importPayload]);
+
+    const collections = useMemo(() => summarizeCollections(itemsMap.values()), [itemsMap]);
 
     const isTracked = useCallback((root: string) => rootsMap.has(root), [rootsMap]);
 
+    const syncNow = useCallback(() => knowledgeSync.syncNow(), []);
+
     const stats = useMemo(() => {
         let learning = 0;
         let learned = 0;
@@ -324,11 +594,21 @@ export function KnowledgeProvider({ children }: { children: ReactNode }) {
             declineMigration,
             trackRoot,
             updateRoot,
+            reviewRoot,
+            answerQuiz,
             removeRoot,
+            studyItems: itemsMap,
+            collections,
+            saveStudyItem,
+            updateStudyItem,
+            removeStudyItem,
             exportKnowledge,
             importKnowledge,
+            importKnowledgeCsv,
             isTracked,
             stats,
+            syncStatus: syncUserId ? syncStatus : null,
+            syncNow,
         }),
         [
             rootsMap,
@@ -338,11 +618,22 @@ export function KnowledgeProvider({ children }: { children: ReactNode }) {
             declineMigration,
             trackRoot,
             updateRoot,
+            reviewRoot,
+            answerQuiz,
             removeRoot,
+            itemsMap,
+            collections,
+            saveStudyItem,
+            updateStudyItem,
+            removeStudyItem,
             exportKnowledge,
             importKnowledge,
+            importKnowledgeCsv,
             isTracked,
             stats,
+            syncUserId,
+            syncStatus,
+            syncNow,
         ],
     );
 
@@ -0,0 +1,110 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+import { loadWordTranslations } from "@/lib/corpus/translationLoader";
+import { OPTIONAL_GLOSS_LANGUAGES, type GlossLayer } from "@/lib/corpus/translations";
+
+interface TranslationsContextValue {
+    // Extra word-gloss languages the user picked, in the order they were added.
+    languages: string[];
+    loadingLanguages: string[];
+    failedLanguages: string[];
+    // Loaded glosses by language; useCorpusData merges them into the corpus tokens.
+    layers: ReadonlyMap<string, GlossLayer>;
+    addLanguage: (language: string) => void;
+    removeLanguage: (language: string) => void;
+}
+
+const STORAGE_KEY = "quran-corpus-gloss-languages";
+
+const TranslationsContext = createContext<TranslationsContextValue | null>(null);
+
+function readStoredLanguages(): string[] {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+        return Array.isArray(stored) ? stored.filter((language) => OPTIONAL_GLOSS_LANGUAGES.includes(language)) : [];
+    } catch {
+        return [];
+    }
+}
+
+export function TranslationsProvider({ children }: { children: ReactNode }) {
+    const [languages, setLanguages] = useState<string[]>([]);
+    const [loadingLanguages, setLoadingLanguages] = useState<string[]>([]);
+    const [failedLanguages, setFailedLanguages] = useState<string[]>([]);
+    // Kept after a language is removed, so adding it back needs no reload.
+    const [loadedLayers, setLoadedLayers] = useState<ReadonlyMap<string, GlossLayer>>(new Map());
+
+    useEffect(() => {
+        setLanguages(readStoredLanguages());
+    }, []);
+
+    // Load every selected language that is not loaded or loading yet.
+    useEffect(() => {
+        const pending = languages.filter(
+            (language) => !loadedLayers.has(language) && !loadingLanguages.includes(language) && !failedLanguages.includes(language)
+        );
+        if (pending.length === 0) return;
+
+        setLoadingLanguages((current) => [...current, ...pending]);
+        for (const language of pending) {
+            loadWordTranslations(language)
+                .then((layer) => setLoadedLayers((current) => new Map(current).set(language, layer)))
+                .catch((err) => {
+                    console.warn(`[Translations] Failed to load ${language} glosses`, err);
+                    setFailedLanguages((current) => [...current, language]);
+                })
+                .finally(() => setLoadingLanguages((current) => current.filter((entry) => entry !== language)));
+        }
+    }, [languages, loadedLayers, loadingLanguages, failedLanguages]);
+
+    const persist = (next: string[]) => {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+        } catch {
+            // Ignore localStorage errors
+        }
+    };
+
+    const addLanguage = useCallback((language: string) => {
+        if (!OPTIONAL_GLOSS_LANGUAGES.includes(language)) return;
+        setFailedLanguages((current) => current.filter((entry) => entry !== language));
+        setLanguages((current) => {
+            if (current.includes(language)) return current;
+            const next = [...current, language];
+            persist(next);
+            return next;
+        });
+    }, []);
+
+    const removeLanguage = useCallback((language: string) => {
+        setLanguages((current) => {
+            const next = current.filter((entry) => entry !== language);
+            persist(next);
+            return next;
+        });
+    }, []);
+
+    const layers = useMemo(() => {
+        const selected = new Map<string, GlossLayer>();
+        for (const language of languages) {
+            const layer = loadedLayers.get(language);
+            if (layer) selected.set(language, layer);
+        }
+        return selected;
+    }, [languages, loadedLayers]);
+
+    const value = useMemo<TranslationsContextValue>(
+        () => ({ languages, loadingLanguages, failedLanguages, layers, addLanguage, removeLanguage }),
+        [languages, loadingLanguages, failedLanguages, layers, addLanguage, removeLanguage],
+    );
+
+    return <TranslationsContext.Provider value={value}>{children}</TranslationsContext.Provider>;
+}
+
+export function useTranslationLayers(): TranslationsContextValue {
+    const ctx = useContext(TranslationsContext);
+    if (!ctx) throw new Error("useTranslationLayers must be used within a TranslationsProvider");
+    return ctx;
+}
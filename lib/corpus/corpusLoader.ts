@@ -9,7 +9,10 @@ import { createClient } from '@/lib/supabase/client';
 import { corpusCache, QURAN_COM_CACHE_TTL_MS } from '@/lib/cache/corpusCache';
 import { SAMPLE_MORPHOLOGY_DATA } from '@/lib/corpus/morphologyData';
 import { loadMorphologyMap, type MorphologyEntry, buildSampleMorphologyMap } from '@/lib/corpus/morphologyLoader';
-import type { CorpusToken, PartOfSpeech, AyahRecord } from '@/lib/schema/types';
+import { mushafPositionFromVerse } from '@/lib/corpus/mushaf';
+import { translationMetadataKey } from '@/lib/corpus/translationLoader';
+import { buildWordTranslationRecords, DEFAULT_GLOSS_LANGUAGE, getTranslationSource } from '@/lib/corpus/translations';
+import type { CorpusToken, PartOfSpeech, AyahRecord, TranslationRecord } from '@/lib/schema/types';
 
 export interface LoadingProgress {
     currentSura: number;
@@ -24,7 +27,9 @@ export type ProgressCallback = (progress: LoadingProgress) => void;
 
 const sampleMorphologyMap = buildSampleMorphologyMap(SAMPLE_MORPHOLOGY_DATA);
 const TOKEN_ID_PATTERN = /^(\d+):(\d+):(\d+)$/;
-const MORPHOLOGY_CACHE_VERSION = "qac-0.4.2-root-coverage";
+const MORPHOLOGY_CACHE_VERSION = "qac-0.4.5-stem-pos";
+// Verses are fetched with Quran.com's default (English) word translations.
+const ENGLISH_GLOSS_SOURCE = getTranslationSource(DEFAULT_GLOSS_LANGUAGE)!;
 let cachePolicyInFlight: Promise<void> | null = null;
 
 async function ensureQuranComCachePolicy(): Promise<void> {
@@ -70,11 +75,13 @@ function buildMorphologyFallbackBySura(
             root: entry.root || "",
             lemma: entry.lemma || fallbackText,
             pos: (entry.pos ?? "N") as PartOfSpeech,
+            posDetailed: entry.posDetailed,
             morphology: {
                 features: entry.features ?? {},
                 gloss: null,
                 stem: entry.stem ?? null,
             },
+            segments: entry.segments,
         });
     }
 
@@ -109,11 +116,13 @@ function wordToToken(
         root: morphData?.root ?? '',
         lemma: morphData?.lemma ?? word.text,
         pos: (morphData?.pos ?? 'N') as PartOfSpeech,
+        ...(morphData?.posDetailed ? { posDetailed: morphData.posDetailed } : {}),
         morphology: {
             features: morphData?.features ?? {},
             gloss: word.translation?.text ?? null,
             stem: morphData?.stem ?? null,
         },
+        ...(morphData?.segments.length ? { segments: morphData.segments } : {}),
     };
 }
 
@@ -326,6 +335,8 @@ async function _doLoadFullCorpus(
 
         const allTokens: CorpusToken[] = [];
         const allVerses: AyahRecord[] = [];
+        const allTranslations: TranslationRecord[] = [];
+        let translationsComplete = true;
 
         for (let i = 0; i < chapters.length; i++) {
             const chapter = chapters[i];
@@ -346,7 +357,8 @@ async function _doLoadFullCorpus(
                             ayahNumber: verse.verse_number,
                             textUthmani: verse.text_uthmani || verse.text_uthmani_simple || verse.text_imlaei || verse.text_imlaei_simple || verse.text_simple || "",
                             textSimple: verse.text_imlaei_simple || verse.text_imlaei || verse.text_simple || undefined,
-                            tokenIds: []
+                            tokenIds: [],
+                            mushaf: mushafPositionFromVerse(verse)
                         };
 
                         const verseTokens: CorpusToken[] = [];
@@ -361,12 +373,14 @@ async function _doLoadFullCorpus(
                         allVerses.push(ayahRecord);
                     }
                 }
+                allTranslations.push(...buildWordTranslationRecords(ENGLISH_GLOSS_SOURCE, chapter.id, verses));
 
                 progress.currentTokens = allTokens.length;
                 console.log(`[CorpusLoader] Loaded ${chapter.name_simple}: ${verses.length} verses, ${allTokens.length} tokens`);
                 notify();
             } catch (err) {
                 console.warn(`[CorpusLoader] Failed to load surah ${chapter.id}:`, err);
+                translationsComplete = false;
                 const fallbackTokens = morphologyFallbackBySura?.get(chapter.id) ?? [];
                 if (fallbackTokens.length > 0) {
                     allTokens.push(...fallbackTokens);
@@ -390,6 +404,10 @@ async function _doLoadFullCorpus(
 
         await corpusCache.storeTokens(allTokens);
         await corpusCache.storeVerses(allVerses);
+        await corpusCache.storeTranslations(allTranslations);
+        if (translationsComplete && allTranslations.length > 0) {
+            await corpusCache.setMetadata(translationMetadataKey(ENGLISH_GLOSS_SOURCE), { ayahCount: allTranslations.length });
+        }
 
         await corpusCache.setMetadata('corpus', {
             tokenCount: allTokens.length,
@@ -476,7 +494,8 @@ export async function loadSurahs(
                             ayahNumber: verse.verse_number,
                             textUthmani: verse.text_uthmani || verse.text_uthmani_simple || verse.text_imlaei || verse.text_imlaei_simple || verse.text_simple || "",
                             textSimple: verse.text_imlaei_simple || verse.text_imlaei || verse.text_simple || undefined,
-                            tokenIds: []
+                            tokenIds: [],
+                            mushaf: mushafPositionFromVerse(verse)
                         };
 
                         for (const word of verse.words) {
@@ -492,6 +511,7 @@ export async function loadSurahs(
                 allTokens.push(...verseTokens);
                 await corpusCache.storeTokens(verseTokens);
                 await corpusCache.storeVerses(versesRecords);
+                await corpusCache.storeTranslations(buildWordTranslationRecords(ENGLISH_GLOSS_SOURCE, suraId, verses));
             } catch (err) {
                 console.warn(`[CorpusLoader] Failed API load for surah ${suraId}, trying morphology fallback.`, err);
                 const fallbackTokens = morphologyFallbackBySura?.get(suraId) ?? [];
@@ -545,6 +565,7 @@ export async function getAyah(sura: number, ayah: number): Promise<AyahRecord |
                     .filter((word) => word.char_type_name === 'word')
                     .map((word) => `${sura}:${ayah}:${word.position}`)
                 : [],
+            mushaf: mushafPositionFromVerse(verse),
         };
 
         try {
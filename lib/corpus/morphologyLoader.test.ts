@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { parseMorphologyText } from "@/lib/corpus/morphologyLoader";
+
+const SAMPLE = [
+  "# LOCATION\tFORM\tTAG\tFEATURES",
+  "(2:11:1:1)\twa\tCONJ\tPREFIX|w:CONJ+",
+  "(2:11:1:2)\t<i*aA\tT\tSTEM|POS:T|LEM:<i*aA",
+  "(2:13:5:1)\tAl\tDET\tPREFIX|Al+",
+  "(2:13:5:2)\tn~aAsu\tN\tSTEM|POS:N|LEM:n~aAs|ROOT:nws|M|NOM",
+  "(2:14:2:1)\tqaAlu\tV\tSTEM|POS:V|PERF|LEM:qaAla|ROOT:qwl|3MP",
+  "(2:14:2:2)\twA@\tPRON\tSUFFIX|PRON:3MP",
+].join("\n");
+
+describe("parseMorphologyText", () => {
+  it("keeps prefix, stem and suffix segments for each word", () => {
+    const entries = parseMorphologyText(SAMPLE);
+    const word = entries.get("2:14:2");
+
+    expect(word?.root).toBe("قول");
+    expect(word?.segments.map((segment) => [segment.index, segment.role, segment.tag])).toEqual([
+      [1, "stem", "V"],
+      [2, "suffix", "PRON"],
+    ]);
+    expect(word?.segments[1].features).toEqual({ PRON: "3MP" });
+    expect(word?.segments[0].root).toBe("قول");
+    expect(word?.posDetailed).toBe("V");
+  });
+
+  it("takes the detailed tag of a rootless word from its stem, not a prefix", () => {
+    const entries = parseMorphologyText(
+      [SAMPLE, "(1:7:9:1)\twa\tCONJ\tPREFIX|w:CONJ+", "(1:7:9:2)\tlaA\tNEG\tSTEM|POS:NEG|LEM:laA"].join("\n")
+    );
+
+    expect(entries.get("2:11:1")).toMatchObject({ pos: "P", posDetailed: "T" });
+    expect(entries.get("1:7:9")).toMatchObject({ pos: "P", posDetailed: "NEG" });
+    expect(parseMorphologyText("(2:11:1:1)\twa\tCONJ\tPREFIX|w:CONJ+").get("2:11:1")?.posDetailed).toBe("CONJ");
+  });
+
+  it("drops role and prefix markers from segment features", () => {
+    const word = parseMorphologyText(SAMPLE).get("2:13:5");
+
+    expect(word?.segments[0]).toMatchObject({ role: "prefix", tag: "DET", pos: "P", form: "ال", features: {} });
+    expect(word?.segments[1]).toMatchObject({ role: "stem", tag: "N", features: { M: "true", NOM: "true" } });
+    expect(parseMorphologyText(SAMPLE).get("2:11:1")?.segments[0].features).toEqual({});
+  });
+});
@@ -1,11 +1,16 @@
-import type { CorpusToken, PartOfSpeech } from "@/lib/schema/types";
+import type { CorpusSegment, CorpusToken, PartOfSpeech, SegmentRole } from "@/lib/schema/types";
+import { toCoarsePos } from "@/lib/schema/posTagset";
 
 export interface MorphologyEntry {
   root: string;
   lemma: string;
   pos: PartOfSpeech;
+  // Quranic Arabic Corpus tag of the word's stem segment (e.g. "PN", "COND"),
+  // or of its first segment when it has no stem.
+  posDetailed: string;
   features: Record<string, string>;
   stem: string | null;
+  segments: CorpusSegment[];
 }
 
 const MORPHOLOGY_URL = "/data/quranic-corpus-morphology-0.4.txt";
@@ -114,27 +119,7 @@ function buckwalterToArabic(input: string): string {
 }
 
 function normalizePos(rawPos: string): PartOfSpeech {
-  const pos = rawPos.toUpperCase();
-  if (pos.startsWith("V")) return "V";
-  if (pos === "ADJ") return "ADJ";
-  if (pos === "PRON" || pos === "REL" || pos === "DEM") return "PRON";
-  if (
-    pos === "P" ||
-    pos === "CONJ" ||
-    pos === "DET" ||
-    pos === "REM" ||
-    pos === "INL" ||
-    pos === "VOC" ||
-    pos === "NEG" ||
-    pos === "INTG" ||
-    pos === "COND" ||
-    pos === "SUB" ||
-    pos === "RSLT" ||
-    pos === "T"
-  ) {
-    return "P";
-  }
-  return "N";
+  return toCoarsePos(rawPos);
 }
 
 function extractFeature(features: string[], key: string): string | null {
@@ -160,7 +145,39 @@ function buildFeatureMap(features: string[]): Record<string, string> {
   return map;
 }
 
-function parseMorphologyText(text: string): Map<string, MorphologyEntry> {
+const SEGMENT_ROLES: Record<string, SegmentRole> = {
+  PREFIX: "prefix",
+  STEM: "stem",
+  SUFFIX: "suffix",
+};
+
+function buildSegment(
+  index: number,
+  form: string,
+  tag: string,
+  featureTokens: string[],
+  root: string | null,
+  lemma: string | null
+): CorpusSegment {
+  const role = SEGMENT_ROLES[featureTokens[0] ?? ""] ?? "stem";
+  // Drop the role marker and prefix markers such as "w:CONJ+" / "Al+".
+  const features = buildFeatureMap(
+    featureTokens.filter((token) => !SEGMENT_ROLES[token] && !token.endsWith("+"))
+  );
+
+  return {
+    index,
+    role,
+    form: buckwalterToArabic(form),
+    tag,
+    pos: normalizePos(tag || "N"),
+    features,
+    ...(root ? { root: buckwalterToArabic(root) } : {}),
+    ...(lemma ? { lemma: buckwalterToArabic(lemma) } : {}),
+  };
+}
+
+export function parseMorphologyText(text: string): Map<string, MorphologyEntry> {
   const map = new Map<string, MorphologyEntry & { hasRoot: boolean }>();
 
   const lines = text.split(/\r?\n/);
@@ -183,20 +200,27 @@ function parseMorphologyText(text: string): Map<string, MorphologyEntry> {
     const lemma = extractFeature(featureTokens, "LEM");
     const posRaw = extractFeature(featureTokens, "POS") ?? tag;
     const normalizedPos = normalizePos(posRaw || "N");
+    const detailedPos = (posRaw || "N").toUpperCase();
 
     const entry = map.get(key) ?? {
       root: "",
       lemma: "",
       pos: normalizedPos,
+      posDetailed: detailedPos,
       features: {},
       stem: null,
+      segments: [],
       hasRoot: false,
     };
 
+    const segment = buildSegment(Number(match[4]), parts[1] ?? "", tag ?? "", featureTokens, root, lemma);
+    entry.segments.push(segment);
+
     if (root) {
       entry.root = buckwalterToArabic(root);
       entry.lemma = lemma ? buckwalterToArabic(lemma) : entry.lemma;
       entry.pos = normalizedPos;
+      entry.posDetailed = detailedPos;
       entry.features = buildFeatureMap(featureTokens);
       entry.stem = entry.lemma || entry.stem;
       entry.hasRoot = true;
@@ -208,6 +232,8 @@ function parseMorphologyText(text: string): Map<string, MorphologyEntry> {
         entry.lemma = buckwalterToArabic(parts[1]);
       }
       entry.pos = entry.pos || normalizedPos;
+      // Prefixes such as CONJ, P or DET come first; the stem carries the word's own tag
+      if (segment.role === "stem") entry.posDetailed = detailedPos;
       entry.features = entry.features && Object.keys(entry.features).length > 0
         ? entry.features
         : buildFeatureMap(featureTokens);
@@ -222,6 +248,7 @@ function parseMorphologyText(text: string): Map<string, MorphologyEntry> {
   for (const [key, value] of map.entries()) {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const { hasRoot: _hasRoot, ...entry } = value;
+    entry.segments.sort((a, b) => a.index - b.index);
     result.set(key, entry);
   }
   return result;
@@ -254,8 +281,10 @@ export function buildSampleMorphologyMap(tokens: CorpusToken[]): Map<string, Mor
         root: token.root,
         lemma: token.lemma,
         pos: token.pos,
+        posDetailed: token.posDetailed ?? token.pos,
         features: token.morphology.features,
         stem: token.morphology.stem,
+        segments: token.segments ?? [],
       },
     ])
   );
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import type { AyahRecord, MushafPosition } from "@/lib/schema/types";
+import {
+  ayahHizbsOf,
+  ayahPagesOf,
+  buildMushafIndex,
+  divisionCount,
+  divisionStart,
+  groupByDivision,
+  groupNumberOf,
+  mushafPositionFromVerse,
+} from "@/lib/corpus/mushaf";
+
+function record(id: string, position: Partial<MushafPosition> | null): AyahRecord {
+  const [suraId, ayahNumber] = id.split(":").map(Number);
+  return {
+    id,
+    suraId,
+    ayahNumber,
+    textUthmani: "",
+    tokenIds: [],
+    mushaf: position
+      ? { juz: 1, hizb: 1, rub: 1, manzil: 1, ruku: 1, page: 1, sajdah: null, ...position }
+      : undefined,
+  };
+}
+
+describe("mushafPositionFromVerse", () => {
+  it("maps the Quran.com verse fields", () => {
+    expect(
+      mushafPositionFromVerse({
+        id: 1160,
+        verse_number: 206,
+        verse_key: "7:206",
+        juz_number: 9,
+        hizb_number: 18,
+        rub_el_hizb_number: 72,
+        manzil_number: 2,
+        ruku_number: 141,
+        page_number: 176,
+        sajdah_number: 1,
+      })
+    ).toEqual({ juz: 9, hizb: 18, rub: 72, manzil: 2, ruku: 141, page: 176, sajdah: 1 });
+  });
+});
+
+describe("buildMushafIndex", () => {
+  it("records division starts in mushaf order and skips records without positions", () => {
+    const index = buildMushafIndex([
+      record("2:142", { juz: 2, hizb: 3, page: 22 }),
+      record("2:141", { juz: 1, page: 21 }),
+      record("1:1", { juz: 1, page: 1, sajdah: null }),
+      record("2:143", { juz: 2, hizb: 3, page: 22, sajdah: 1 }),
+      record("2:144", null),
+    ]);
+
+    expect(divisionCount(index, "juz")).toBe(2);
+    expect(divisionStart(index, "juz", 2)).toEqual([2, 142]);
+    expect(divisionStart(index, "page", 21)).toEqual([2, 141]);
+    expect(divisionStart(index, "juz", 3)).toBeNull();
+    expect(ayahPagesOf(index)).toEqual(new Map([["1:1", 1], ["2:141", 21], ["2:142", 22], ["2:143", 22]]));
+    expect(ayahHizbsOf(index)).toEqual(new Map([["1:1", 1], ["2:141", 1], ["2:142", 3], ["2:143", 3]]));
+    expect(groupNumberOf(index, "page", 2, 143)).toBe(22);
+    expect(groupNumberOf(index, "juz", 2, 144)).toBeNull();
+    expect(groupNumberOf(null, "surah", 2, 144)).toBe(2);
+  });
+});
+
+describe("groupByDivision", () => {
+  it("groups items by division number in ascending order", () => {
+    const index = buildMushafIndex([
+      record("1:1", { juz: 1 }),
+      record("2:141", { juz: 1 }),
+      record("2:142", { juz: 2 }),
+    ]);
+    const items = [
+      { id: "a", sura: 2, ayah: 142 },
+      { id: "b", sura: 1, ayah: 1 },
+      { id: "c", sura: 2, ayah: 141 },
+      { id: "d", sura: 3, ayah: 1 },
+    ];
+
+    const groups = groupByDivision(items, index, "juz");
+
+    expect([...groups.keys()]).toEqual([1, 2]);
+    expect(groups.get(1)!.map((item) => item.id)).toEqual(["b", "c"]);
+    expect(groupByDivision(items, null, "surah").get(2)!.map((item) => item.id)).toEqual(["a", "c"]);
+  });
+});
@@ -0,0 +1,98 @@
+import type { QuranVerse } from "@/lib/api/quranApi";
+import type { AyahRecord, MushafDivision, MushafPosition } from "@/lib/schema/types";
+
+export const MUSHAF_DIVISIONS: readonly MushafDivision[] = ["juz", "hizb", "rub", "manzil", "ruku", "page"];
+
+/** How the visualisations group ayahs: by surah or by one of the mushaf divisions. */
+export type CorpusGrouping = "surah" | MushafDivision;
+
+export function mushafPositionFromVerse(verse: QuranVerse): MushafPosition {
+  return {
+    juz: verse.juz_number,
+    hizb: verse.hizb_number,
+    rub: verse.rub_el_hizb_number,
+    manzil: verse.manzil_number,
+    ruku: verse.ruku_number,
+    page: verse.page_number,
+    sajdah: verse.sajdah_number ?? null,
+  };
+}
+
+export interface MushafIndex {
+  // Keyed by ayah id ("surah:ayah").
+  positions: Map<string, MushafPosition>;
+  // First ayah id of each division number, per division.
+  starts: Record<MushafDivision, Map<number, string>>;
+}
+
+/**
+ * Indexes the mushaf position of every record that has one. Division starts
+ * come from the records themselves, so counts follow whatever the source
+ * numbers (e.g. global ruku numbers) rather than a hardcoded table.
+ */
+export function buildMushafIndex(records: Array<Pick<AyahRecord, "id" | "suraId" | "ayahNumber" | "mushaf">>): MushafIndex {
+  const ordered = records
+    .filter((record) => record.mushaf)
+    .sort((a, b) => a.suraId - b.suraId || a.ayahNumber - b.ayahNumber);
+
+  const index: MushafIndex = {
+    positions: new Map(),
+    starts: { juz: new Map(), hizb: new Map(), rub: new Map(), manzil: new Map(), ruku: new Map(), page: new Map() },
+  };
+  for (const record of ordered) {
+    const position = record.mushaf!;
+    index.positions.set(record.id, position);
+    for (const division of MUSHAF_DIVISIONS) {
+      if (!index.starts[division].has(position[division])) index.starts[division].set(position[division], record.id);
+    }
+  }
+  return index;
+}
+
+/** Mushaf page per ayah id, as used by `page:` search scopes. */
+export function ayahPagesOf(index: MushafIndex): Map<string, number> {
+  return new Map([...index.positions].map(([ayahId, position]) => [ayahId, position.page]));
+}
+
+/** Hizb per ayah id, as used by hizb sub-corpora. */
+export function ayahHizbsOf(index: MushafIndex): Map<string, number> {
+  return new Map([...index.positions].map(([ayahId, position]) => [ayahId, position.hizb]));
+}
+
+/** Number of the group the ayah falls in, or null when the index does not cover it. */
+export function groupNumberOf(index: MushafIndex | null, grouping: CorpusGrouping, sura: number, ayah: number): number | null {
+  if (grouping === "surah") return sura;
+  return index?.positions.get(`${sura}:${ayah}`)?.[grouping] ?? null;
+}
+
+export function divisionCount(index: MushafIndex, division: MushafDivision): number {
+  return index.starts[division].size;
+}
+
+/** First ayah of a division number as [surah, ayah], or null when there is no such number. */
+export function divisionStart(index: MushafIndex, division: MushafDivision, number: number): [number, number] | null {
+  const start = index.starts[division].get(number);
+  if (!start) return null;
+  const [sura, ayah] = start.split(":").map(Number);
+  return [sura, ayah];
+}
+
+/**
+ * Groups items by the surah or division of their ayah, in ascending group
+ * order. Items the index does not cover are left out.
+ */
+export function groupByDivision<T extends { sura: number; ayah: number }>(
+  items: T[],
+  index: MushafIndex | null,
+  grouping: CorpusGrouping
+): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  for (const item of items) {
+    const group = groupNumberOf(index, grouping, item.sura, item.ayah);
+    if (group === null) continue;
+    const members = groups.get(group);
+    if (members) members.push(item);
+    else groups.set(group, [item]);
+  }
+  return new Map([...groups].sort((a, b) => a[0] - b[0]));
+}
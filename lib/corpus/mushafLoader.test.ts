@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from "vitest";
+import type { QuranVerse } from "@/lib/api/quranApi";
+import type { AyahRecord } from "@/lib/schema/types";
+import { loadMushafIndex } from "@/lib/corpus/mushafLoader";
+
+const { quranApi, corpusCache } = vi.hoisted(() => ({
+  quranApi: { getChapters: vi.fn(), getAllVersesForChapter: vi.fn() },
+  corpusCache: { getAllVerses: vi.fn(), storeVerses: vi.fn() },
+}));
+vi.mock("@/lib/api/quranApi", () => ({ quranApi }));
+vi.mock("@/lib/cache/corpusCache", () => ({ corpusCache }));
+
+const position = { juz: 1, hizb: 1, rub: 1, manzil: 1, ruku: 1, page: 1, sajdah: null };
+
+function cached(id: string, withPosition: boolean): AyahRecord {
+  const [suraId, ayahNumber] = id.split(":").map(Number);
+  return { id, suraId, ayahNumber, textUthmani: `text ${id}`, tokenIds: [`${id}:1`], mushaf: withPosition ? position : undefined };
+}
+
+function verse(id: string, page: number): QuranVerse {
+  return {
+    id: 0,
+    verse_number: Number(id.split(":")[1]),
+    verse_key: id,
+    juz_number: 1,
+    hizb_number: 1,
+    rub_el_hizb_number: 1,
+    manzil_number: 1,
+    ruku_number: 1,
+    page_number: page,
+    sajdah_number: null,
+  };
+}
+
+describe("loadMushafIndex", () => {
+  it("fetches only the chapters whose cached records are missing or incomplete", async () => {
+    corpusCache.getAllVerses.mockResolvedValue([cached("1:1", true), cached("1:2", true), cached("2:1", false)]);
+    corpusCache.storeVerses.mockResolvedValue(undefined);
+    quranApi.getChapters.mockResolvedValue([
+      { id: 1, verses_count: 2 },
+      { id: 2, verses_count: 2 },
+      { id: 3, verses_count: 1 },
+    ]);
+    quranApi.getAllVersesForChapter.mockImplementation(async (chapter: number) =>
+      chapter === 2 ? [verse("2:1", 2), verse("2:2", 2)] : [verse("3:1", 3)]
+    );
+
+    const index = await loadMushafIndex();
+
+    expect(quranApi.getAllVersesForChapter.mock.calls.map(([chapter]) => chapter)).toEqual([2, 3]);
+    const stored = corpusCache.storeVerses.mock.calls[0][0] as AyahRecord[];
+    expect(stored.map((record) => record.id)).toEqual(["2:1", "2:2", "3:1"]);
+    expect(stored[0]).toMatchObject({ textUthmani: "text 2:1", tokenIds: ["2:1:1"] });
+    expect([...index.positions.keys()]).toEqual(["1:1", "1:2", "2:1", "2:2", "3:1"]);
+    expect(index.positions.get("2:2")?.page).toBe(2);
+  });
+});
@@ -0,0 +1,86 @@
+import { quranApi } from "@/lib/api/quranApi";
+import { corpusCache } from "@/lib/cache/corpusCache";
+import { buildMushafIndex, mushafPositionFromVerse, type MushafIndex } from "@/lib/corpus/mushaf";
+import type { AyahRecord } from "@/lib/schema/types";
+
+const TOTAL_AYAHS = 6236;
+
+let mushafIndex: MushafIndex | null = null;
+let mushafPromise: Promise<MushafIndex> | null = null;
+
+async function readCachedRecords(): Promise<AyahRecord[]> {
+  try {
+    return (await corpusCache.getAllVerses()) as AyahRecord[];
+  } catch (err) {
+    console.warn("[MushafLoader] Failed to read cached verses", err);
+    return [];
+  }
+}
+
+// Fetches verse metadata without words for chapters whose cached records are
+// missing or lack mushaf positions; cached token ids and texts are kept.
+async function fetchRecords(cached: AyahRecord[]): Promise<AyahRecord[]> {
+  const cachedById = new Map(cached.map((record) => [record.id, record]));
+  const cachedBySura = new Map<number, AyahRecord[]>();
+  for (const record of cached) {
+    const records = cachedBySura.get(record.suraId);
+    if (records) records.push(record);
+    else cachedBySura.set(record.suraId, [record]);
+  }
+
+  const chapters = await quranApi.getChapters();
+  const missing = chapters.filter((chapter) => {
+    const records = cachedBySura.get(chapter.id) ?? [];
+    return records.length < chapter.verses_count || records.some((record) => !record.mushaf);
+  });
+  const missingIds = new Set(missing.map((chapter) => chapter.id));
+  const records = cached.filter((record) => !missingIds.has(record.suraId));
+  const fetched: AyahRecord[] = [];
+
+  for (let i = 0; i < missing.length; i++) {
+    const verses = await quranApi.getAllVersesForChapter(missing[i].id);
+    for (const verse of verses) {
+      const existing = cachedById.get(verse.verse_key);
+      fetched.push({
+        id: verse.verse_key,
+        suraId: missing[i].id,
+        ayahNumber: verse.verse_number,
+        textUthmani: existing?.textUthmani || verse.text_uthmani || verse.text_uthmani_simple || verse.text_imlaei || "",
+        textSimple: existing?.textSimple || verse.text_imlaei_simple || verse.text_imlaei || verse.text_simple || undefined,
+        tokenIds: existing?.tokenIds ?? [],
+        mushaf: mushafPositionFromVerse(verse),
+      });
+    }
+    // Small delay to avoid rate limiting
+    if (i < missing.length - 1) await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+
+  try {
+    await corpusCache.storeVerses(fetched);
+  } catch (err) {
+    console.warn("[MushafLoader] Failed to cache verse divisions", err);
+  }
+  return [...records, ...fetched];
+}
+
+/**
+ * Juz, hizb, rub', manzil, ruku, page and sajdah positions of every ayah.
+ * Read from the cached verse records; chapters missing from the cache or
+ * cached without positions are fetched from Quran.com and written back.
+ */
+export async function loadMushafIndex(): Promise<MushafIndex> {
+  if (mushafIndex) return mushafIndex;
+  if (!mushafPromise) {
+    mushafPromise = (async () => {
+      const cached = await readCachedRecords();
+      const complete = cached.length >= TOTAL_AYAHS && cached.every((record) => record.mushaf);
+      mushafIndex = buildMushafIndex(complete ? cached : await fetchRecords(cached));
+      return mushafIndex;
+    })();
+    mushafPromise.catch(() => {
+      // Allow a later retry after a failed fetch.
+      mushafPromise = null;
+    });
+  }
+  return mushafPromise;
+}
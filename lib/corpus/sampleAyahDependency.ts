@@ -70,5 +70,6 @@ export const sampleAyahDependency: AyahDependencyData = {
     { id: "1:5:dep:2", ayahId: "1:5", dependentTokenId: "1:5:3", headTokenId: "1:5:5", relation: "cc" },
     { id: "1:5:dep:3", ayahId: "1:5", dependentTokenId: "1:5:4", headTokenId: "1:5:5", relation: "obj" },
     { id: "1:5:dep:4", ayahId: "1:5", dependentTokenId: "1:5:5", headTokenId: "1:5:2", relation: "conj" }
-  ]
+  ],
+  source: "treebank"
 };
@@ -0,0 +1,81 @@
+import { quranApi } from "@/lib/api/quranApi";
+import { corpusCache } from "@/lib/cache/corpusCache";
+import {
+  buildWordTranslationRecords,
+  getTranslationSource,
+  indexTranslationRecords,
+  type GlossLayer,
+  type TranslationSource,
+} from "@/lib/corpus/translations";
+import type { TranslationRecord } from "@/lib/schema/types";
+
+const inFlight = new Map<string, Promise<GlossLayer>>();
+
+export function translationMetadataKey(source: TranslationSource): string {
+  return `translations:${source.id}`;
+}
+
+async function readCachedTranslations(source: TranslationSource): Promise<TranslationRecord[] | null> {
+  try {
+    const metadata = await corpusCache.getMetadata(translationMetadataKey(source));
+    if (!metadata?.ayahCount || corpusCache.isMetadataExpired(metadata)) return null;
+    const records = (await corpusCache.getTranslationsBySource(source.id)) as TranslationRecord[];
+    return records.length >= metadata.ayahCount ? records : null;
+  } catch (err) {
+    console.warn(`[TranslationLoader] Failed to read cached ${source.id} translations`, err);
+    return null;
+  }
+}
+
+async function fetchTranslations(source: TranslationSource): Promise<TranslationRecord[]> {
+  const chapters = await quranApi.getChapters();
+  const records: TranslationRecord[] = [];
+  let failed = 0;
+
+  for (let i = 0; i < chapters.length; i++) {
+    try {
+      const verses = await quranApi.getAllVersesForChapter(chapters[i].id, { words: true, language: source.language });
+      records.push(...buildWordTranslationRecords(source, chapters[i].id, verses));
+    } catch (err) {
+      failed++;
+      console.warn(`[TranslationLoader] Failed to load ${source.id} for surah ${chapters[i].id}`, err);
+    }
+    // Small delay to avoid rate limiting
+    if (i < chapters.length - 1) await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+
+  if (records.length === 0) throw new Error(`No ${source.language} word translations available`);
+
+  try {
+    await corpusCache.storeTranslations(records);
+    // Only a complete download is marked as cached, so missing surahs are retried next time.
+    if (failed === 0) {
+      await corpusCache.setMetadata(translationMetadataKey(source), { ayahCount: records.length });
+    }
+  } catch (err) {
+    console.warn(`[TranslationLoader] Failed to cache ${source.id} translations`, err);
+  }
+  return records;
+}
+
+/**
+ * Word-by-word glosses for every token in `language`, read from IndexedDB
+ * or fetched surah by surah from Quran.com and cached. Concurrent calls for
+ * the same language share one load.
+ */
+export function loadWordTranslations(language: string): Promise<GlossLayer> {
+  const source = getTranslationSource(language);
+  if (!source || source.kind !== "word-by-word") {
+    return Promise.reject(new Error(`No word-by-word translation source for "${language}"`));
+  }
+
+  let load = inFlight.get(source.id);
+  if (!load) {
+    load = (async () => {
+      const records = (await readCachedTranslations(source)) ?? (await fetchTranslations(source));
+      return indexTranslationRecords(records);
+    })().finally(() => inFlight.delete(source.id));
+    inFlight.set(source.id, load);
+  }
+  return load;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import type { QuranVerse, QuranWord } from "@/lib/api/quranApi";
+import type { CorpusToken } from "@/lib/schema/types";
+import {
+  applyGlossLayers,
+  buildWordTranslationRecords,
+  getTranslationSource,
+  indexTranslationRecords,
+  tokenGloss,
+  tokenGlossEntries,
+} from "@/lib/corpus/translations";
+
+function word(position: number, text: string, charType: QuranWord["char_type_name"] = "word"): QuranWord {
+  return {
+    id: position,
+    position,
+    audio_url: null,
+    char_type_name: charType,
+    code_v1: "",
+    page_number: 1,
+    line_number: 1,
+    text: "",
+    translation: { text, language_name: "urdu" },
+    transliteration: { text: null, language_name: "english" },
+  };
+}
+
+function verse(number: number, words: QuranWord[]): QuranVerse {
+  return {
+    id: number,
+    verse_number: number,
+    verse_key: `1:${number}`,
+    hizb_number: 1,
+    rub_el_hizb_number: 1,
+    ruku_number: 1,
+    manzil_number: 1,
+    sajdah_number: null,
+    page_number: 1,
+    juz_number: 1,
+    words,
+  };
+}
+
+function token(id: string, gloss: string | null, lemma = "رَحِيم"): CorpusToken {
+  const [sura, ayah, position] = id.split(":").map(Number);
+  return { id, sura, ayah, position, text: "", root: "", lemma, pos: "N", morphology: { features: {}, gloss, stem: null } };
+}
+
+describe("buildWordTranslationRecords", () => {
+  it("keys word glosses by token id and skips verse-end markers", () => {
+    const source = getTranslationSource("ur")!;
+    const records = buildWordTranslationRecords(source, 1, [
+      verse(1, [word(1, " نام سے "), word(2, "اللہ"), word(3, "(1)", "end")]),
+      verse(2, [word(1, "", "word")]),
+    ]);
+
+    expect(records).toEqual([
+      {
+        id: "qurancom-wbw-ur:1:1",
+        sourceId: "qurancom-wbw-ur",
+        language: "ur",
+        ayahId: "1:1",
+        suraId: 1,
+        words: { "1:1:1": "نام سے", "1:1:2": "اللہ" },
+      },
+    ]);
+  });
+});
+
+describe("applyGlossLayers", () => {
+  it("merges loaded languages into copies of the glossed tokens only", () => {
+    const tokens = [token("1:1:1", "In (the) name"), token("1:1:2", "(of) Allah")];
+    const layers = new Map([["ur", indexTranslationRecords([
+      { id: "x", sourceId: "qurancom-wbw-ur", language: "ur", ayahId: "1:1", suraId: 1, words: { "1:1:1": "نام سے" } },
+    ])]]);
+
+    const glossed = applyGlossLayers(tokens, layers);
+
+    expect(glossed[0]).not.toBe(tokens[0]);
+    expect(glossed[0].glosses).toEqual({ ur: "نام سے" });
+    expect(glossed[1]).toBe(tokens[1]);
+    expect(tokens[0].glosses).toBeUndefined();
+    expect(applyGlossLayers(tokens, new Map())).toBe(tokens);
+  });
+});
+
+describe("tokenGloss", () => {
+  it("falls back to the English morphology gloss and the Arabic lemma", () => {
+    const glossed = { ...token("1:1:3", "the Most Merciful"), glosses: { tr: "merhametli" } };
+
+    expect(tokenGloss(glossed)).toBe("the Most Merciful");
+    expect(tokenGloss(glossed, "TR")).toBe("merhametli");
+    expect(tokenGloss(glossed, "ar")).toBe("رَحِيم");
+    expect(tokenGloss(glossed, "ur")).toBeNull();
+    expect(tokenGlossEntries(glossed)).toEqual([
+      { language: "en", gloss: "the Most Merciful" },
+      { language: "tr", gloss: "merhametli" },
+    ]);
+  });
+});
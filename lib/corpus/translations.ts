@@ -0,0 +1,118 @@
+import type { QuranVerse } from "@/lib/api/quranApi";
+import type { CorpusToken, TranslationRecord } from "@/lib/schema/types";
+
+export type TranslationSourceKind = "word-by-word" | "lemma";
+
+export interface TranslationSource {
+  id: string;
+  language: string;
+  kind: TranslationSourceKind;
+}
+
+export const DEFAULT_GLOSS_LANGUAGE = "en";
+
+/**
+ * Word-gloss sources by language. Quran.com serves word-by-word translations
+ * for the `word-by-word` languages; it has none for Arabic, so Arabic glosses
+ * are the dictionary form (lemma) from the morphology data, a bare headword
+ * with no tafsir.
+ */
+export const TRANSLATION_SOURCES: readonly TranslationSource[] = [
+  { id: "qurancom-wbw-en", language: "en", kind: "word-by-word" },
+  { id: "qac-lemma-ar", language: "ar", kind: "lemma" },
+  { id: "qurancom-wbw-ur", language: "ur", kind: "word-by-word" },
+  { id: "qurancom-wbw-id", language: "id", kind: "word-by-word" },
+  { id: "qurancom-wbw-bn", language: "bn", kind: "word-by-word" },
+  { id: "qurancom-wbw-tr", language: "tr", kind: "word-by-word" },
+  { id: "qurancom-wbw-fa", language: "fa", kind: "word-by-word" },
+  { id: "qurancom-wbw-hi", language: "hi", kind: "word-by-word" },
+];
+
+export function getTranslationSource(language: string): TranslationSource | undefined {
+  const normalized = language.toLowerCase();
+  return TRANSLATION_SOURCES.find((source) => source.language === normalized);
+}
+
+/** Languages that are fetched on demand; English and Arabic are always available. */
+export const OPTIONAL_GLOSS_LANGUAGES = TRANSLATION_SOURCES
+  .filter((source) => source.kind === "word-by-word" && source.language !== DEFAULT_GLOSS_LANGUAGE)
+  .map((source) => source.language);
+
+/** One record per ayah from a Quran.com verses page fetched with `words: true`. */
+export function buildWordTranslationRecords(
+  source: TranslationSource,
+  suraId: number,
+  verses: QuranVerse[]
+): TranslationRecord[] {
+  const records: TranslationRecord[] = [];
+  for (const verse of verses) {
+    const words: Record<string, string> = {};
+    for (const word of verse.words ?? []) {
+      const text = word.translation?.text?.trim();
+      if (word.char_type_name !== "word" || !text) continue;
+      words[`${suraId}:${verse.verse_number}:${word.position}`] = text;
+    }
+    if (Object.keys(words).length === 0) continue;
+    const ayahId = `${suraId}:${verse.verse_number}`;
+    records.push({ id: `${source.id}:${ayahId}`, sourceId: source.id, language: source.language, ayahId, suraId, words });
+  }
+  return records;
+}
+
+/** Token id to gloss for one language. */
+export type GlossLayer = Map<string, string>;
+
+export function indexTranslationRecords(records: TranslationRecord[]): GlossLayer {
+  const layer: GlossLayer = new Map();
+  for (const record of records) {
+    for (const [tokenId, gloss] of Object.entries(record.words)) layer.set(tokenId, gloss);
+  }
+  return layer;
+}
+
+/**
+ * Copies each token that has a gloss in one of `layers` (keyed by language)
+ * with those glosses merged into `glosses`. Tokens without one are returned
+ * as is, and with no layers the array itself is returned unchanged.
+ */
+export function applyGlossLayers(tokens: CorpusToken[], layers: ReadonlyMap<string, GlossLayer>): CorpusToken[] {
+  if (layers.size === 0) return tokens;
+  return tokens.map((token) => {
+    let glosses: Record<string, string> | undefined;
+    for (const [language, layer] of layers) {
+      const gloss = layer.get(token.id);
+      if (gloss) (glosses ??= { ...token.glosses })[language] = gloss;
+    }
+    return glosses ? { ...token, glosses } : token;
+  });
+}
+
+/** The token's gloss in `language`, or null when that language is not loaded. */
+export function tokenGloss(token: CorpusToken, language: string = DEFAULT_GLOSS_LANGUAGE): string | null {
+  const normalized = language.toLowerCase();
+  const stored = token.glosses?.[normalized];
+  if (stored) return stored;
+  if (normalized === DEFAULT_GLOSS_LANGUAGE) return token.morphology?.gloss || null;
+  if (getTranslationSource(normalized)?.kind === "lemma") return token.lemma || null;
+  return null;
+}
+
+/** Every loaded gloss of the token, English first; derived Arabic glosses are not included. */
+export function tokenGlossEntries(token: CorpusToken): Array<{ language: string; gloss: string }> {
+  const entries: Array<{ language: string; gloss: string }> = [];
+  const english = tokenGloss(token, DEFAULT_GLOSS_LANGUAGE);
+  if (english) entries.push({ language: DEFAULT_GLOSS_LANGUAGE, gloss: english });
+  for (const [language, gloss] of Object.entries(token.glosses ?? {})) {
+    if (language !== DEFAULT_GLOSS_LANGUAGE && gloss) entries.push({ language, gloss });
+  }
+  return entries;
+}
+
+/** The glosses a `gloss:` term is matched against: one language, or every loaded one. */
+export function searchableGlosses(token: CorpusToken, language?: string): string[] {
+  if (language) {
+    const gloss = tokenGloss(token, language);
+    return gloss ? [gloss] : [];
+  }
+  return tokenGlossEntries(token).map((entry) => entry.gloss);
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { parseTreebankText } from "@/lib/corpus/treebankLoader";
+
+// Syntax graphs for 1:1 and 1:2 in the shape served by the corpus syntax API
+// (see scripts/fetch-treebank.js), trimmed to the fields the parser reads.
+const GRAPH_1_1 = {
+  graphNumber: 1,
+  graphCount: 1,
+  words: [
+    { type: "token", token: { location: [1, 1, 1] }, startNode: 0, endNode: 1 },
+    { type: "token", token: { location: [1, 1, 2] }, startNode: 2, endNode: 2 },
+    { type: "token", token: { location: [1, 1, 3] }, startNode: 3, endNode: 3 },
+    { type: "token", token: { location: [1, 1, 4] }, startNode: 4, endNode: 4 },
+  ],
+  edges: [
+    { startNode: 1, endNode: 0, dependencyTag: "gen" },
+    { startNode: 2, endNode: 1, dependencyTag: "poss" },
+    { startNode: 3, endNode: 2, dependencyTag: "adj" },
+    { startNode: 4, endNode: 2, dependencyTag: "adj" },
+  ],
+};
+
+const GRAPH_1_2 = {
+  graphNumber: 1,
+  graphCount: 1,
+  words: [
+    { type: "token", token: { location: [1, 2, 1] }, startNode: 0, endNode: 0 },
+    { type: "token", token: { location: [1, 2, 2] }, startNode: 1, endNode: 2 },
+    { type: "elided", elidedText: "كائن", elidedPosTag: "N", startNode: 3, endNode: 3 },
+    { type: "token", token: { location: [1, 2, 3] }, startNode: 4, endNode: 4 },
+    { type: "token", token: { location: [1, 2, 4] }, startNode: 5, endNode: 5 },
+  ],
+  edges: [
+    { startNode: 2, endNode: 1, dependencyTag: "gen" },
+    { startNode: 6, endNode: 3, dependencyTag: "link" },
+    { startNode: 3, endNode: 0, dependencyTag: "pred" },
+    { startNode: 4, endNode: 2, dependencyTag: "adj" },
+    { startNode: 5, endNode: 4, dependencyTag: "poss" },
+  ],
+  phraseNodes: [{ startNode: 1, endNode: 2, phraseTag: "PP" }],
+};
+
+const SAMPLE = [GRAPH_1_1, GRAPH_1_2].map((graph) => JSON.stringify(graph)).join("\n");
+
+const edgesOf = (ayahs: ReturnType<typeof parseTreebankText>, ayahId: string) =>
+  ayahs.get(ayahId)?.dependencies.map((edge) => [edge.dependentTokenId, edge.relation, edge.headTokenId]);
+
+describe("parseTreebankText", () => {
+  it("folds segment nodes into words and drops edges inside one word", () => {
+    const ayahs = parseTreebankText(SAMPLE);
+
+    expect(edgesOf(ayahs, "1:1")).toEqual([
+      ["1:1:2", "poss", "1:1:1"],
+      ["1:1:3", "adj", "1:1:2"],
+      ["1:1:4", "adj", "1:1:2"],
+    ]);
+    expect(ayahs.get("1:1")?.dependencies[0].id).toBe("1:1:dep:1");
+  });
+
+  it("turns elided words into hidden nodes and numbers phrases after the terminals", () => {
+    const ayah = parseTreebankText(SAMPLE).get("1:2");
+
+    expect(ayah?.nodes).toEqual([
+      { id: "1:2:h1", ayahId: "1:2", kind: "hidden", tag: "N", label: "كائن", tokenIds: ["1:2:2"] },
+      { id: "1:2:p1", ayahId: "1:2", kind: "phrase", tag: "PP", label: "PP", tokenIds: ["1:2:2"] },
+    ]);
+    expect(edgesOf(parseTreebankText(SAMPLE), "1:2")).toEqual([
+      ["1:2:p1", "link", "1:2:h1"],
+      ["1:2:h1", "pred", "1:2:1"],
+      ["1:2:3", "adj", "1:2:2"],
+      ["1:2:4", "poss", "1:2:3"],
+    ]);
+  });
+
+  it("drops edges to words in other ayahs and ignores malformed lines", () => {
+    const reference = {
+      words: [
+        { type: "reference", token: { location: [1, 1, 2] }, startNode: 0, endNode: 0 },
+        { type: "token", token: { location: [1, 3, 1] }, startNode: 1, endNode: 1 },
+        { type: "token", token: { location: [1, 3, 2] }, startNode: 2, endNode: 2 },
+      ],
+      edges: [
+        { startNode: 1, endNode: 0, dependencyTag: "adj" },
+        { startNode: 2, endNode: 1, dependencyTag: "poss" },
+      ],
+    };
+    const ayahs = parseTreebankText(["not json", JSON.stringify({ words: [] }), JSON.stringify(reference)].join("\n"));
+
+    expect([...ayahs.keys()]).toEqual(["1:3"]);
+    expect(edgesOf(ayahs, "1:3")).toEqual([["1:3:2", "poss", "1:3:1"]]);
+  });
+});
@@ -0,0 +1,191 @@
+import type { DependencyEdge, DependencyNode } from "@/lib/schema/types";
+import { corpusCache } from "@/lib/cache/corpusCache";
+
+export interface TreebankAyah {
+  id: string;
+  nodes: DependencyNode[];
+  dependencies: DependencyEdge[];
+}
+
+const TREEBANK_URL = "/data/quranic-corpus-treebank-0.4.jsonl";
+const TREEBANK_CACHE_VERSION = "qac-treebank-0.4-graphs";
+const TREEBANK_METADATA_KEY = "treebank";
+
+/**
+ * One dependency graph as served by the Quranic Arabic Corpus syntax API and
+ * saved line by line by `npm run fetch:treebank`. Words span one terminal node
+ * per segment; phrase nodes are numbered after the terminals, in order.
+ */
+interface SyntaxGraph {
+  words?: SyntaxWord[];
+  edges?: Array<{ startNode: number; endNode: number; dependencyTag: string }>;
+  phraseNodes?: Array<{ startNode: number; endNode: number; phraseTag: string }>;
+}
+
+interface SyntaxWord {
+  type: "token" | "reference" | "elided";
+  token?: { location: number[] };
+  elidedText?: string;
+  elidedPosTag?: string;
+  startNode: number;
+  endNode: number;
+}
+
+function wordTokenId(word: SyntaxWord): string | null {
+  const [sura, ayah, position] = word.token?.location ?? [];
+  if (!sura || !ayah || !position) return null;
+  return `${sura}:${ayah}:${position}`;
+}
+
+const ayahOf = (nodeId: string) => nodeId.split(":").slice(0, 2).join(":");
+
+/**
+ * Parses the treebank as JSON Lines of syntax graphs. Segment nodes are
+ * folded into their word, elided words become hidden nodes ("S:A:hN") and
+ * phrases become phrase nodes ("S:A:pN"), numbered per ayah across graphs.
+ * Edges run from `startNode` (dependent) to `endNode` (head); edges inside
+ * one word, across ayahs or to unknown nodes are dropped, as are lines that
+ * are not valid graphs.
+ */
+export function parseTreebankText(text: string): Map<string, TreebankAyah> {
+  const ayahs = new Map<string, TreebankAyah>();
+  const hiddenCounts = new Map<string, number>();
+  const phraseCounts = new Map<string, number>();
+
+  const getAyah = (ayahId: string): TreebankAyah => {
+    let entry = ayahs.get(ayahId);
+    if (!entry) {
+      entry = { id: ayahId, nodes: [], dependencies: [] };
+      ayahs.set(ayahId, entry);
+    }
+    return entry;
+  };
+  const nextId = (counts: Map<string, number>, ayahId: string) => {
+    const index = (counts.get(ayahId) ?? 0) + 1;
+    counts.set(ayahId, index);
+    return index;
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    let graph: SyntaxGraph;
+    try {
+      graph = JSON.parse(line) as SyntaxGraph;
+    } catch {
+      continue;
+    }
+    const words = Array.isArray(graph.words) ? graph.words : [];
+    const firstTokenId = words.map((word) => (word.type === "token" ? wordTokenId(word) : null)).find(Boolean);
+    if (!firstTokenId) continue;
+    const ayahId = ayahOf(firstTokenId);
+    const entry = getAyah(ayahId);
+
+    // Terminal node index -> token or hidden node id
+    const terminals = new Map<number, string>();
+    words.forEach((word, index) => {
+      let nodeId = word.type === "elided" ? null : wordTokenId(word);
+      if (word.type === "elided") {
+        // Hidden nodes sit next to the closest preceding word, else the following one
+        const neighbours = [...words.slice(0, index).reverse(), ...words.slice(index + 1)];
+        const anchor = neighbours.map((other) => (other.type === "token" ? wordTokenId(other) : null)).find(Boolean);
+        if (!anchor) return;
+        const tag = word.elidedPosTag ?? "";
+        nodeId = `${ayahId}:h${nextId(hiddenCounts, ayahId)}`;
+        entry.nodes.push({ id: nodeId, ayahId, kind: "hidden", tag, label: word.elidedText || tag, tokenIds: [anchor] });
+      }
+      if (!nodeId) return;
+      for (let node = word.startNode; node <= word.endNode; node++) terminals.set(node, nodeId);
+    });
+
+    const terminalCount = Math.max(-1, ...terminals.keys()) + 1;
+    const nodeIds = new Map(terminals);
+    (graph.phraseNodes ?? []).forEach((phrase, index) => {
+      const tokenIds: string[] = [];
+      for (let node = phrase.startNode; node <= phrase.endNode; node++) {
+        const tokenId = terminals.get(node);
+        if (tokenId && /:\d+$/.test(tokenId) && !tokenIds.includes(tokenId)) tokenIds.push(tokenId);
+      }
+      if (tokenIds.length === 0) return;
+      const nodeId = `${ayahId}:p${nextId(phraseCounts, ayahId)}`;
+      nodeIds.set(terminalCount + index, nodeId);
+      entry.nodes.push({ id: nodeId, ayahId, kind: "phrase", tag: phrase.phraseTag, label: phrase.phraseTag, tokenIds });
+    });
+
+    for (const edge of graph.edges ?? []) {
+      const dependent = nodeIds.get(edge.startNode);
+      const head = nodeIds.get(edge.endNode);
+      if (!dependent || !head || !edge.dependencyTag || dependent === head) continue;
+      if (ayahOf(dependent) !== ayahId || ayahOf(head) !== ayahId) continue;
+      entry.dependencies.push({
+        id: `${ayahId}:dep:${entry.dependencies.length + 1}`,
+        ayahId,
+        dependentTokenId: dependent,
+        headTokenId: head,
+        relation: edge.dependencyTag,
+      });
+    }
+  }
+
+  return ayahs;
+}
+
+let treebankMap: Map<string, TreebankAyah> | null = null;
+let treebankPromise: Promise<Map<string, TreebankAyah>> | null = null;
+
+export async function loadTreebankMap(): Promise<Map<string, TreebankAyah>> {
+  if (treebankMap) return treebankMap;
+  if (!treebankPromise) {
+    treebankPromise = (async () => {
+      const response = await fetch(TREEBANK_URL);
+      if (!response.ok) {
+        throw new Error(`Failed to load treebank data: ${response.status} ${response.statusText}`);
+      }
+      const text = await response.text();
+      treebankMap = parseTreebankText(text);
+
+      try {
+        await corpusCache.clearDependencies();
+        await corpusCache.storeDependencies([...treebankMap.values()]);
+        await corpusCache.setMetadata(TREEBANK_METADATA_KEY, {
+          treebankVersion: TREEBANK_CACHE_VERSION,
+          ayahCount: treebankMap.size,
+        });
+      } catch (err) {
+        console.warn("[TreebankLoader] Failed to cache treebank", err);
+      }
+
+      return treebankMap;
+    })();
+    treebankPromise.catch(() => {
+      // Allow a later retry after a failed fetch.
+      treebankPromise = null;
+    });
+  }
+  return treebankPromise;
+}
+
+/**
+ * Returns treebank nodes and edges for one ayah, reading IndexedDB before
+ * falling back to the full treebank file. Resolves to null when the ayah is not
+ * annotated or the treebank is unavailable.
+ */
+export async function getAyahTreebank(ayahId: string): Promise<TreebankAyah | null> {
+  if (treebankMap) return treebankMap.get(ayahId) ?? null;
+
+  try {
+    const metadata = await corpusCache.getMetadata(TREEBANK_METADATA_KEY);
+    if (metadata?.treebankVersion === TREEBANK_CACHE_VERSION) {
+      return await corpusCache.getDependencies(ayahId);
+    }
+  } catch (err) {
+    console.warn(`[TreebankLoader] Failed to read cached dependencies for ${ayahId}`, err);
+  }
+
+  try {
+    const map = await loadTreebankMap();
+    return map.get(ayahId) ?? null;
+  } catch (err) {
+    console.warn("[TreebankLoader] Treebank unavailable, using heuristic dependencies", err);
+    return null;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * First ayah of each juz in the standard (Hafs, Madani mushaf) division, as
+ * [surah, ayah]. Juz n runs from JUZ_STARTS[n - 1] up to the ayah before the
+ * next entry.
+ */
+export const JUZ_STARTS: ReadonlyArray<readonly [number, number]> = [
+    [1, 1],
+    [2, 142],
+    [2, 253],
+    [3, 93],
+    [4, 24],
+    [4, 148],
+    [5, 82],
+    [6, 111],
+    [7, 88],
+    [8, 41],
+    [9, 93],
+    [11, 6],
+    [12, 53],
+    [15, 1],
+    [17, 1],
+    [18, 75],
+    [21, 1],
+    [23, 1],
+    [25, 21],
+    [27, 56],
+    [29, 46],
+    [33, 31],
+    [36, 28],
+    [39, 32],
+    [41, 47],
+    [46, 1],
+    [51, 31],
+    [58, 1],
+    [67, 1],
+    [78, 1],
+];
+
+export const JUZ_COUNT = JUZ_STARTS.length;
+
+export function getJuzForAyah(surah: number, ayah: number): number {
+    let juz = 1;
+    for (let idx = 0; idx < JUZ_STARTS.length; idx++) {
+        const [startSurah, startAyah] = JUZ_STARTS[idx];
+        if (surah > startSurah || (surah === startSurah && ayah >= startAyah)) juz = idx + 1;
+        else break;
+    }
+    return juz;
+}
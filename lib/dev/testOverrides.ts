@@ -2,9 +2,11 @@
 
 import type { Session, User } from "@supabase/supabase-js";
 import type { TrackedRoot } from "@/lib/cache/knowledgeCache";
+import type { StudyItem } from "@/lib/study/studyItems";
 
 export const DEV_AUTH_USER_KEY = "qcv-dev-auth-user";
 export const DEV_KNOWLEDGE_KEY = "qcv-dev-knowledge";
+export const DEV_STUDY_ITEMS_KEY = "qcv-dev-study-items";
 export const DEV_CORPUS_STATUS_KEY = "qcv-dev-corpus-status";
 export const DEV_PENDING_MIGRATION_KEY = "qcv-dev-pending-migration";
 export const DEV_SEARCH_STATUS_KEY = "qcv-dev-search-status";
@@ -66,6 +68,24 @@ export function readDevKnowledgeRoots(): TrackedRoot[] | null {
   }
 }
 
+export function writeDevStudyItems(items: StudyItem[]) {
+  if (!isDevOverrideEnabled()) return;
+  window.localStorage.setItem(DEV_STUDY_ITEMS_KEY, JSON.stringify(items));
+}
+
+export function readDevStudyItems(): StudyItem[] | null {
+  if (!isDevOverrideEnabled()) return null;
+
+  try {
+    const raw = window.localStorage.getItem(DEV_STUDY_ITEMS_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as StudyItem[];
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
 export function readDevCorpusStatus(): "sample" | "loading" | "full" | "fallback" | null {
   if (!isDevOverrideEnabled()) return null;
 
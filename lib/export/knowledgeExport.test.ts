@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import type { TrackedRoot } from "@/lib/cache/knowledgeCache";
+import type { CorpusToken } from "@/lib/schema/types";
+import { createStudyItem } from "@/lib/study/studyItems";
+import {
+  buildKnowledgeFile,
+  knowledgeToAnkiDeck,
+  knowledgeToCsv,
+  knowledgeToMarkdown,
+  migrateKnowledgeExport,
+  parseKnowledgeCsv,
+} from "@/lib/export/knowledgeExport";
+
+const AT = Date.UTC(2024, 0, 1);
+
+function token(id: string, text: string, root: string, lemma: string, gloss: string | null = null): CorpusToken {
+  const [sura, ayah, position] = id.split(":").map(Number);
+  return { id, sura, ayah, position, text, root, lemma, pos: "N", morphology: { features: {}, gloss, stem: null } };
+}
+
+const tokens = [
+  token("2:2:1", "ذَٰلِكَ", "", ""),
+  token("2:2:2", "ٱلْكِتَٰبُ", "كتب", "كِتَٰب", "the Book"),
+  token("2:3:1", "يَعْلَمُونَ", "علم", "عَلِمَ", "know"),
+];
+
+const kitab: TrackedRoot = {
+  root: "كتب",
+  state: "learning",
+  notes: "Writing, book; see 2:2",
+  addedAt: AT,
+  lastReviewedAt: AT,
+  schedule: { ease: 2.36, intervalDays: 3, dueAt: AT + 3 * 86_400_000, lapses: 1, reps: 2 },
+};
+const ilm: TrackedRoot = {
+  root: "علم",
+  state: "learned",
+  notes: "",
+  addedAt: AT,
+  lastReviewedAt: AT,
+  quiz: { attempts: 4, correct: 3, lastAttemptAt: AT },
+};
+
+describe("migrateKnowledgeExport", () => {
+  it("upgrades a version 1 export without study items", () => {
+    const payload = migrateKnowledgeExport({ version: 1, exportedAt: AT, roots: [kitab] });
+
+    expect(payload).toEqual({ version: 2, exportedAt: AT, roots: [kitab], items: [] });
+  });
+
+  it("rejects malformed, unknown and newer versions", () => {
+    expect(() => migrateKnowledgeExport({ roots: [] })).toThrow("Invalid knowledge export format");
+    expect(() => migrateKnowledgeExport({ version: 0, roots: [] })).toThrow("Unsupported knowledge export version 0");
+    expect(() => migrateKnowledgeExport({ version: 3, roots: [], items: [] })).toThrow("newer than this app supports");
+  });
+});
+
+describe("knowledge CSV", () => {
+  it("round-trips roots with their schedule, quiz score and quoted notes", () => {
+    const roots = [{ ...kitab, notes: 'Writing, "book"\nsee 2:2' }, ilm];
+
+    const { roots: parsed, errors } = parseKnowledgeCsv(`\uFEFF${knowledgeToCsv(roots)}`);
+
+    expect(errors).toEqual([]);
+    expect(parsed).toEqual(roots);
+  });
+
+  it("reports every problem with its row and imports the valid rows", () => {
+    const csv = [
+      "root,state,notes,due_at,ease,quiz_attempts,quiz_correct,last_quiz_at",
+      "كتب,learned,ok,,,,,",
+      ",learning,,,,,,",
+      "ktb,learning,,,,,,",
+      "كتب,learning,,,,,,",
+      "علم,known,,tomorrow,1.1,,,",
+      "رحم,,,,,2,3,2024-01-02",
+    ].join("\n");
+
+    const { roots, errors } = parseKnowledgeCsv(csv, AT);
+
+    expect(roots).toEqual([{ root: "كتب", state: "learned", notes: "ok", addedAt: AT, lastReviewedAt: AT }]);
+    expect(errors).toEqual([
+      { row: 3, code: "missing-root" },
+      { row: 4, code: "invalid-root", column: "root", value: "ktb" },
+      { row: 5, code: "duplicate-root", column: "root", value: "كتب" },
+      { row: 6, code: "invalid-state", column: "state", value: "known" },
+      { row: 6, code: "invalid-date", column: "due_at", value: "tomorrow" },
+      { row: 6, code: "invalid-number", column: "ease", value: "1.1" },
+      { row: 7, code: "invalid-quiz", column: "quiz_correct", value: "3" },
+    ]);
+  });
+
+  it("requires a root column", () => {
+    expect(parseKnowledgeCsv("state,notes\nlearning,x").errors).toEqual([
+      { row: 1, code: "missing-root-column", column: "root" },
+    ]);
+  });
+});
+
+describe("knowledgeToAnkiDeck", () => {
+  it("writes one note per root with lemmas on the front and glosses and examples on the back", () => {
+    const deck = knowledgeToAnkiDeck([kitab], tokens).split("\n");
+    const [front, back, tags] = deck[deck.length - 1].split("\t");
+
+    expect(deck).toContain("#separator:tab");
+    expect(deck).toContain("#html:true");
+    expect(front).toBe('<div dir="rtl" lang="ar"><b>كتب</b><br>كِتَٰب</div>');
+    expect(back).toContain("<div>the Book</div>");
+    expect(back).toContain("ذَٰلِكَ <b>ٱلْكِتَٰبُ</b> <small>(2:2)</small>");
+    expect(back).toContain("<i>Writing, book; see 2:2</i>");
+    expect(tags).toBe("quran-root learning");
+  });
+});
+
+describe("knowledgeToMarkdown", () => {
+  it("groups notes and study items under the roots they contain", () => {
+    const items = [
+      createStudyItem({ kind: "ayah", sura: 2, ayah: 2 }, { notes: "No doubt in it", collections: ["Memorize"] }, AT),
+      createStudyItem({ kind: "search", query: "root:رحم" }, { label: "Mercy" }, AT),
+    ];
+
+    const markdown = knowledgeToMarkdown([kitab, ilm], items, tokens, AT);
+
+    expect(markdown).toContain("## كتب\n\n**Learning** · added 2024-01-01 · next review 2024-01-04\n\nWriting, book; see 2:2\n\n- **2:2** (ayah) · _Memorize_ — No doubt in it");
+    expect(markdown).toContain("## علم\n\n**Learned** · added 2024-01-01");
+    expect(markdown).toContain("## Other study items\n\n- **Mercy** (search)");
+  });
+});
+
+describe("buildKnowledgeFile", () => {
+  it("names files by format and date", () => {
+    const data = { roots: [kitab], items: [], tokens };
+
+    expect(buildKnowledgeFile("json", data, AT)).toMatchObject({ fileName: "quran-knowledge-2024-01-01.json" });
+    expect(JSON.parse(buildKnowledgeFile("json", data, AT).content)).toMatchObject({ version: 2, items: [] });
+    expect(buildKnowledgeFile("anki", data, AT).fileName).toBe("quran-knowledge-anki-2024-01-01.txt");
+    expect(buildKnowledgeFile("markdown", data, AT).fileName).toBe("quran-knowledge-notes-2024-01-01.md");
+  });
+});
@@ -0,0 +1,374 @@
+import type { KnowledgeExport, KnowledgeState, TrackedRoot } from "@/lib/cache/knowledgeCache";
+import { formatDelimited, parseDelimited } from "@/lib/export/tableExport";
+import type { CorpusToken } from "@/lib/schema/types";
+import { buildRootReviewCard } from "@/lib/study/reviewCard";
+import { DEFAULT_EASE, MIN_EASE } from "@/lib/study/scheduler";
+import { describeStudyItemRef, studyItemCoversToken, type StudyItem } from "@/lib/study/studyItems";
+
+export type KnowledgeExportFormat = "json" | "csv" | "anki" | "markdown";
+
+export const KNOWLEDGE_EXPORT_FORMATS: readonly KnowledgeExportFormat[] = ["json", "csv", "anki", "markdown"];
+
+export const KNOWLEDGE_EXPORT_VERSION: KnowledgeExport["version"] = 2;
+
+// ── JSON versions ──────────────────────────────────────────────────
+
+type ExportPayload = Record<string, unknown> & { version: number };
+
+/**
+ * Upgrades an export payload from the version it is keyed by to the next one.
+ * Add a step here whenever `KnowledgeExport` changes shape.
+ */
+const EXPORT_MIGRATIONS: Record<number, (payload: ExportPayload) => ExportPayload> = {
+  // v2: `items` is always present; v1 files made before study items have none
+  1: (payload) => ({ ...payload, version: 2, items: Array.isArray(payload.items) ? payload.items : [] }),
+};
+
+function isExportPayload(value: unknown): value is ExportPayload {
+  return typeof value === "object" && value !== null && typeof (value as ExportPayload).version === "number";
+}
+
+/** Validates an export of any known version and migrates it to the current one. */
+export function migrateKnowledgeExport(payload: unknown): KnowledgeExport {
+  if (!isExportPayload(payload) || !Array.isArray(payload.roots)) {
+    throw new Error("Invalid knowledge export format");
+  }
+  if (payload.version > KNOWLEDGE_EXPORT_VERSION) {
+    throw new Error(`Knowledge export version ${payload.version} is newer than this app supports`);
+  }
+
+  let current = payload;
+  while (current.version < KNOWLEDGE_EXPORT_VERSION) {
+    const migrate = EXPORT_MIGRATIONS[current.version];
+    if (!migrate) throw new Error(`Unsupported knowledge export version ${current.version}`);
+    current = migrate(current);
+  }
+
+  if (!Array.isArray(current.items)) throw new Error("Invalid knowledge export format");
+  return current as unknown as KnowledgeExport;
+}
+
+export function parseKnowledgeExport(json: string): KnowledgeExport {
+  return migrateKnowledgeExport(JSON.parse(json));
+}
+
+export function createKnowledgeExport(roots: TrackedRoot[], items: StudyItem[], now: number = Date.now()): KnowledgeExport {
+  return { version: KNOWLEDGE_EXPORT_VERSION, exportedAt: now, roots, items };
+}
+
+// ── CSV ────────────────────────────────────────────────────────────
+
+const CSV_COLUMNS = [
+  "root",
+  "state",
+  "notes",
+  "added_at",
+  "last_reviewed_at",
+  "due_at",
+  "ease",
+  "interval_days",
+  "lapses",
+  "reps",
+  "quiz_attempts",
+  "quiz_correct",
+  "last_quiz_at",
+] as const;
+
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+const ARABIC_ROOT = /^[\u0621-\u064A\s-]+$/;
+
+export type KnowledgeCsvErrorCode =
+  | "missing-root-column"
+  | "missing-root"
+  | "invalid-root"
+  | "duplicate-root"
+  | "invalid-state"
+  | "invalid-date"
+  | "invalid-number"
+  | "invalid-quiz";
+
+export interface KnowledgeCsvError {
+  row: number; // 1-based record number; the header is row 1
+  code: KnowledgeCsvErrorCode;
+  column?: string;
+  value?: string;
+}
+
+export interface KnowledgeCsvImport {
+  roots: TrackedRoot[]; // valid rows only
+  errors: KnowledgeCsvError[];
+}
+
+function isoOrEmpty(ms: number | undefined): string {
+  return ms === undefined ? "" : new Date(ms).toISOString();
+}
+
+/** One row per tracked root; review and quiz columns are empty until used. */
+export function knowledgeToCsv(roots: TrackedRoot[]): string {
+  const rows = roots.map((root) => [
+    root.root,
+    root.state,
+    root.notes,
+    isoOrEmpty(root.addedAt),
+    isoOrEmpty(root.lastReviewedAt),
+    isoOrEmpty(root.schedule?.dueAt),
+    root.schedule ? String(root.schedule.ease) : "",
+    root.schedule ? String(root.schedule.intervalDays) : "",
+    root.schedule ? String(root.schedule.lapses) : "",
+    root.schedule ? String(root.schedule.reps) : "",
+    root.quiz ? String(root.quiz.attempts) : "",
+    root.quiz ? String(root.quiz.correct) : "",
+    isoOrEmpty(root.quiz?.lastAttemptAt),
+  ]);
+  return formatDelimited([...CSV_COLUMNS], rows, "csv");
+}
+
+/**
+ * Reads tracked roots from CSV in the `knowledgeToCsv` layout. Only `root` is
+ * required; unknown columns are ignored. Rows with any error are skipped and
+ * reported, so the valid rows can still be imported.
+ */
+export function parseKnowledgeCsv(text: string, now: number = Date.now()): KnowledgeCsvImport {
+  const [header = [], ...records] = parseDelimited(text, "csv");
+  const columns = new Map(header.map((name, index) => [name.trim().toLowerCase(), index] as const));
+  if (!columns.has("root")) {
+    return { roots: [], errors: [{ row: 1, code: "missing-root-column", column: "root" }] };
+  }
+
+  const roots: TrackedRoot[] = [];
+  const errors: KnowledgeCsvError[] = [];
+  const seen = new Set<string>();
+
+  records.forEach((cells, index) => {
+    const row = index + 2;
+    const rowErrors: KnowledgeCsvError[] = [];
+    const read = (column: CsvColumn) => {
+      const at = columns.get(column);
+      return at === undefined ? "" : (cells[at] ?? "").trim();
+    };
+    const fail = (code: KnowledgeCsvErrorCode, column?: CsvColumn) => {
+      rowErrors.push({ row, code, ...(column ? { column, value: read(column) } : {}) });
+    };
+    const readDate = (column: CsvColumn): number | undefined => {
+      const value = read(column);
+      if (!value) return undefined;
+      const ms = Date.parse(value);
+      if (Number.isNaN(ms)) fail("invalid-date", column);
+      return ms;
+    };
+    const readNumber = (column: CsvColumn, fallback: number, min = 0): number => {
+      const value = read(column);
+      if (!value) return fallback;
+      const number = Number(value);
+      if (!Number.isFinite(number) || number < min) fail("invalid-number", column);
+      return number;
+    };
+
+    const root = read("root");
+    if (!root) fail("missing-root");
+    else if (!ARABIC_ROOT.test(root)) fail("invalid-root", "root");
+    else if (seen.has(root)) fail("duplicate-root", "root");
+
+    const state = read("state") || "learning";
+    if (state !== "learning" && state !== "learned") fail("invalid-state", "state");
+
+    const addedAt = readDate("added_at") ?? now;
+    const lastReviewedAt = readDate("last_reviewed_at") ?? addedAt;
+    const entry: TrackedRoot = { root, state: state as KnowledgeState, notes: read("notes"), addedAt, lastReviewedAt };
+
+    // due_at and last_quiz_at stay empty until the first review or quiz answer
+    const dueAt = readDate("due_at");
+    if (dueAt !== undefined) {
+      entry.schedule = {
+        ease: readNumber("ease", DEFAULT_EASE, MIN_EASE),
+        intervalDays: readNumber("interval_days", 0),
+        dueAt,
+        lapses: readNumber("lapses", 0),
+        reps: readNumber("reps", 0),
+      };
+    }
+    const lastAttemptAt = readDate("last_quiz_at");
+    if (lastAttemptAt !== undefined) {
+      entry.quiz = {
+        attempts: readNumber("quiz_attempts", 0),
+        correct: readNumber("quiz_correct", 0),
+        lastAttemptAt,
+      };
+      if (entry.quiz.correct > entry.quiz.attempts) fail("invalid-quiz", "quiz_correct");
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      return;
+    }
+    seen.add(root);
+    roots.push(entry);
+  });
+
+  return { roots, errors };
+}
+
+// ── Anki ───────────────────────────────────────────────────────────
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function ankiCell(html: string): string {
+  return html.replace(/[\t\r\n]+/g, " ");
+}
+
+/**
+ * A deck in Anki's text import format (File → Import): one Basic note per
+ * tracked root. The front shows the root and its derived lemmas, the back its
+ * glosses, example ayahs with the root's words in bold, and the user's notes.
+ */
+export function knowledgeToAnkiDeck(roots: TrackedRoot[], tokens: CorpusToken[], deckName = "Quran Roots"): string {
+  const lines = [
+    "#separator:tab",
+    "#html:true",
+    "#notetype:Basic",
+    `#deck:${deckName}`,
+    "#columns:Front\tBack\tTags",
+    "#tags column:3",
+  ];
+
+  for (const root of roots) {
+    const card = buildRootReviewCard(root.root, tokens);
+    const lemmas = card.lemmas.map((lemma) => escapeHtml(lemma.lemma)).join(" · ");
+    const front = `<div dir="rtl" lang="ar"><b>${escapeHtml(root.root)}</b>${lemmas ? `<br>${lemmas}` : ""}</div>`;
+
+    const back = [
+      card.glosses.length > 0 ? `<div>${escapeHtml(card.glosses.join("; "))}</div>` : "",
+      ...card.examples.map((example) => {
+        const words = example.words
+          .map((word) => (word.isMatch ? `<b>${escapeHtml(word.text)}</b>` : escapeHtml(word.text)))
+          .join(" ");
+        return `<div dir="rtl" lang="ar">${words} <small>(${example.ayahId})</small></div>`;
+      }),
+      root.notes ? `<div><i>${escapeHtml(root.notes).replace(/\r?\n/g, "<br>")}</i></div>` : "",
+    ].join("");
+
+    lines.push([front, back, `quran-root ${root.state}`].map(ankiCell).join("\t"));
+  }
+
+  return lines.join("\n");
+}
+
+// ── Markdown ───────────────────────────────────────────────────────
+
+function formatDay(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function indentContinuation(text: string): string {
+  return text.trim().replace(/\r?\n/g, "\n  ");
+}
+
+function studyItemLine(item: StudyItem): string {
+  const title = item.label || describeStudyItemRef(item.ref);
+  const parts = [`- **${title}** (${item.ref.kind})`];
+  if (item.collections.length > 0) parts.push(` · _${item.collections.join(", ")}_`);
+  if (item.notes.trim()) parts.push(` — ${indentContinuation(item.notes)}`);
+  return parts.join("");
+}
+
+/**
+ * A notebook of the user's notes: one section per tracked root with its notes
+ * and the study items that contain it, then the items tied to no tracked root.
+ */
+export function knowledgeToMarkdown(
+  roots: TrackedRoot[],
+  items: StudyItem[],
+  tokens: CorpusToken[],
+  now: number = Date.now()
+): string {
+  const tracked = new Set(roots.map((root) => root.root));
+  const itemsByRoot = new Map<string, StudyItem[]>();
+  const unlinked: StudyItem[] = [];
+
+  for (const item of items) {
+    const itemRoots = new Set<string>();
+    if (item.ref.kind === "root") itemRoots.add(item.ref.root);
+    else {
+      for (const token of tokens) {
+        if (token.root && tracked.has(token.root) && studyItemCoversToken(item.ref, token)) itemRoots.add(token.root);
+      }
+    }
+    const linked = [...itemRoots].filter((root) => tracked.has(root));
+    if (linked.length === 0) unlinked.push(item);
+    for (const root of linked) itemsByRoot.set(root, [...(itemsByRoot.get(root) ?? []), item]);
+  }
+
+  const collator = new Intl.Collator("ar");
+  const sections = [...roots]
+    .sort((a, b) => collator.compare(a.root, b.root))
+    .map((root) => {
+      const meta = [`**${root.state === "learned" ? "Learned" : "Learning"}**`, `added ${formatDay(root.addedAt)}`];
+      if (root.schedule) meta.push(`next review ${formatDay(root.schedule.dueAt)}`);
+      const lines = [`## ${root.root}`, "", meta.join(" · ")];
+      if (root.notes.trim()) lines.push("", root.notes.trim());
+      const rootItems = itemsByRoot.get(root.root) ?? [];
+      if (rootItems.length > 0) lines.push("", ...rootItems.map(studyItemLine));
+      return lines.join("\n");
+    });
+
+  if (unlinked.length > 0) {
+    sections.push(["## Other study items", "", ...unlinked.map(studyItemLine)].join("\n"));
+  }
+
+  const summary = `_Exported ${formatDay(now)} · ${roots.length} roots · ${items.length} study items_`;
+  return ["# Quran knowledge notes", summary, ...sections].join("\n\n") + "\n";
+}
+
+// ── Files ──────────────────────────────────────────────────────────
+
+export interface KnowledgeFile {
+  content: string;
+  fileName: string;
+  mimeType: string;
+}
+
+export interface KnowledgeFileData {
+  roots: TrackedRoot[];
+  items: StudyItem[];
+  // Loaded corpus, for lemmas, glosses and examples; may be empty
+  tokens: CorpusToken[];
+}
+
+/** Builds the download for one export format. */
+export function buildKnowledgeFile(
+  format: KnowledgeExportFormat,
+  { roots, items, tokens }: KnowledgeFileData,
+  now: number = Date.now()
+): KnowledgeFile {
+  const day = formatDay(now);
+  switch (format) {
+    case "json":
+      return {
+        content: JSON.stringify(createKnowledgeExport(roots, items, now), null, 2),
+        fileName: `quran-knowledge-${day}.json`,
+        mimeType: "application/json",
+      };
+    case "csv":
+      // Byte-order mark so spreadsheet applications read Arabic as UTF-8
+      return {
+        content: `\uFEFF${knowledgeToCsv(roots)}`,
+        fileName: `quran-knowledge-${day}.csv`,
+        mimeType: "text/csv;charset=utf-8",
+      };
+    case "anki":
+      return {
+        content: knowledgeToAnkiDeck(roots, tokens),
+        fileName: `quran-knowledge-anki-${day}.txt`,
+        mimeType: "text/plain;charset=utf-8",
+      };
+    case "markdown":
+      return {
+        content: knowledgeToMarkdown(roots, items, tokens, now),
+        fileName: `quran-knowledge-notes-${day}.md`,
+        mimeType: "text/markdown;charset=utf-8",
+      };
+  }
+}
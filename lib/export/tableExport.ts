@@ -0,0 +1,85 @@
+export type DelimitedFormat = "csv" | "tsv";
+
+const MIME_TYPES: Record<DelimitedFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  tsv: "text/tab-separated-values;charset=utf-8",
+};
+
+function escapeCell(value: string, format: DelimitedFormat): string {
+  if (format === "tsv") return value.replace(/[\t\r\n]+/g, " ");
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatDelimited(header: string[], rows: string[][], format: DelimitedFormat): string {
+  const separator = format === "tsv" ? "\t" : ",";
+  return [header, ...rows].map((row) => row.map((cell) => escapeCell(cell, format)).join(separator)).join("\n");
+}
+
+/**
+ * Splits delimited text into rows of cells, the inverse of `formatDelimited`.
+ * CSV cells may be quoted and contain separators, quotes and line breaks. A
+ * leading byte-order mark and blank lines are dropped.
+ */
+export function parseDelimited(text: string, format: DelimitedFormat): string[][] {
+  const separator = format === "tsv" ? "\t" : ",";
+  const source = text.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value !== "")) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && format === "csv" && cell === "") {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+/** Downloads text as a file. */
+export function downloadTextFile(content: string, fileName: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  document.body.removeChild(anchor);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Downloads delimited text. A byte-order mark is prepended so spreadsheet
+ * applications read Arabic text as UTF-8.
+ */
+export function downloadDelimited(content: string, fileBaseName: string, format: DelimitedFormat): void {
+  downloadTextFile(`\uFEFF${content}`, `${fileBaseName}.${format}`, MIME_TYPES[format]);
+}
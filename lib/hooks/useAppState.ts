@@ -40,6 +40,7 @@ function isValidVizMode(mode: string | null): mode is VisualizationMode {
         "surah-distribution",
         "corpus-architecture",
         "heatmap",
+        "formulaic-sequences",
     ];
     return !!mode && validModes.includes(mode as VisualizationMode);
 }
@@ -8,6 +8,8 @@ import {
   trackCorpusShellReady,
 } from "@/lib/analytics/events";
 import { loadFullCorpus, type LoadingProgress } from "@/lib/corpus/corpusLoader";
+import { applyGlossLayers } from "@/lib/corpus/translations";
+import { useTranslationLayers } from "@/lib/context/TranslationsContext";
 import { buildCorpusOverviewData } from "@/lib/corpus/overviewData";
 import {
   deriveCorpusReadiness,
@@ -35,7 +37,7 @@ export interface CorpusDataState {
 }
 
 export function useCorpusData(initialOverviewData?: CorpusOverviewData): CorpusDataState {
-  const [deepTokens, setDeepTokens] = useState<CorpusToken[]>([]);
+  const [loadedTokens, setLoadedTokens] = useState<CorpusToken[]>([]);
   const [loadingProgress, setLoadingProgress] = useState<LoadingProgress | null>(null);
   const [isLoadingCorpus, setIsLoadingCorpus] = useState(false);
   const [dataStatus, setDataStatus] = useState<DataReadinessStatus>("sample");
@@ -68,7 +70,7 @@ export function useCorpusData(initialOverviewData?: CorpusOverviewData): CorpusD
         });
 
         if (!cancelled && corpusTokens.length > 0) {
-          setDeepTokens(corpusTokens);
+          setLoadedTokens(corpusTokens);
           setDataStatus("full");
         } else if (!cancelled) {
           trackClientError("corpus", "empty_corpus_result", {
@@ -95,6 +97,10 @@ export function useCorpusData(initialOverviewData?: CorpusOverviewData): CorpusD
     };
   }, []);
 
+  // Word glosses in the user's extra languages, merged in as they load.
+  const { layers: glossLayers } = useTranslationLayers();
+  const deepTokens = useMemo(() => applyGlossLayers(loadedTokens, glossLayers), [loadedTokens, glossLayers]);
+
   const { shellTokens, visualizationTokens: allTokens, overview, overviewSource, visualizationSource } = useMemo(() => {
     if (deepTokens.length > 0) {
       return {
@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { CorpusToken } from "@/lib/schema/types";
+import { getCorpusWorker, isAbortError } from "@/lib/workers/corpusWorkerClient";
+import type { CorpusQueryOf, CorpusQueryResults, CorpusQueryType } from "@/lib/workers/corpusWorkerProtocol";
+
+interface CorpusQueryState<T> {
+  data: T | null;
+  loading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Runs a corpus query in the worker. A changed query cancels the previous one;
+ * the last result stays in `data` until the new one arrives. Pass null to skip.
+ */
+export function useCorpusQuery<K extends CorpusQueryType>(
+  tokens: CorpusToken[],
+  query: CorpusQueryOf<K> | null
+): CorpusQueryState<CorpusQueryResults[K]> {
+  const [state, setState] = useState<CorpusQueryState<CorpusQueryResults[K]>>({
+    data: null,
+    loading: false,
+    error: null,
+  });
+  // Queries are small plain objects, so their serialization is a stable dependency.
+  const queryKey = query ? JSON.stringify(query) : null;
+
+  useEffect(() => {
+    if (!queryKey) {
+      setState({ data: null, loading: false, error: null });
+      return;
+    }
+
+    const controller = new AbortController();
+    setState((current) => ({ ...current, loading: true }));
+    getCorpusWorker(tokens)
+      .run(JSON.parse(queryKey) as CorpusQueryOf<K>, controller.signal)
+      .then((data) => setState({ data, loading: false, error: null }))
+      .catch((error: unknown) => {
+        if (isAbortError(error)) return;
+        setState({ data: null, loading: false, error: error instanceof Error ? error : new Error(String(error)) });
+      });
+
+    return () => controller.abort();
+  }, [queryKey, tokens]);
+
+  return state;
+}
@@ -80,7 +80,8 @@ const VIEW_CONTEXT_CAPABILITIES: Record<VisualizationMode, ViewContextCapabiliti
   "sankey-flow": { ayah: false, root: false, lemma: false },
   "collocation-network": { ayah: false, root: true, lemma: false },
   "knowledge-graph": { ayah: false, root: true, lemma: false },
-  "heatmap": { ayah: false, root: false, lemma: false },
+  "heatmap": { ayah: false, root: true, lemma: false },
+  "formulaic-sequences": { ayah: false, root: false, lemma: false },
 };
 
 function describeContextTransform(
@@ -466,6 +467,8 @@ export function useHomePageController(
           "dependency-tree",
           "sankey-flow",
           "collocation-network",
+          "heatmap",
+          "formulaic-sequences",
           "knowledge-graph",
         ]
       : BEGINNER_PRIMARY_MODES),
@@ -503,7 +506,7 @@ export function useHomePageController(
     });
   }, [vizMode, selectedSurahId, selectedAyahInSurah, selectedRootValue, selectedLemmaValue]);
 
-  const handleSurahSelect = useCallback((suraId: number, preferredView?: "root-network" | "radial-sura") => {
+  const handleSurahSelect = useCallback((suraId: number, preferredView?: "root-network" | "radial-sura" | "dependency-tree") => {
     setSelectedSurahId(suraId);
     if (preferredView) {
       setVizMode(preferredView);
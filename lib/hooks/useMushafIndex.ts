@@ -0,0 +1,38 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { MushafIndex } from "@/lib/corpus/mushaf";
+import { loadMushafIndex } from "@/lib/corpus/mushafLoader";
+
+interface MushafIndexState {
+  index: MushafIndex | null;
+  loading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Loads the mushaf division index the first time `enabled` is true; views
+ * only ask for it once the user picks a grouping other than surah.
+ */
+export function useMushafIndex(enabled: boolean): MushafIndexState {
+  const [state, setState] = useState<MushafIndexState>({ index: null, loading: false, error: null });
+
+  useEffect(() => {
+    if (!enabled || state.index) return;
+
+    let cancelled = false;
+    setState((current) => ({ ...current, loading: true, error: null }));
+    loadMushafIndex()
+      .then((index) => {
+        if (!cancelled) setState({ index, loading: false, error: null });
+      })
+      .catch((err) => {
+        if (!cancelled) setState({ index: null, loading: false, error: err instanceof Error ? err : new Error(String(err)) });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, state.index]);
+
+  return state;
+}
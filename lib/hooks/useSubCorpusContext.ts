@@ -0,0 +1,40 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { quranApi } from "@/lib/api/quranApi";
+import { ayahHizbsOf } from "@/lib/corpus/mushaf";
+import { useMushafIndex } from "@/lib/hooks/useMushafIndex";
+import {
+  revelationPlacesOf,
+  type RevelationPlace,
+  type SubCorpusContext,
+  type SubCorpusDefinition,
+} from "@/lib/search/subCorpus";
+
+/**
+ * Surah revelation places and ayah hizbs for filtering tokens by a sub-corpus
+ * on the main thread. Each map is loaded the first time the definition needs it.
+ */
+export function useSubCorpusContext(definition: SubCorpusDefinition): SubCorpusContext {
+  const needsRevelationPlaces = Boolean(definition.revelationPlace);
+  const { index: mushafIndex } = useMushafIndex(Boolean(definition.hizb));
+  const [revelationPlaces, setRevelationPlaces] = useState<Map<number, RevelationPlace> | undefined>(undefined);
+
+  useEffect(() => {
+    if (!needsRevelationPlaces || revelationPlaces) return;
+
+    let cancelled = false;
+    quranApi
+      .getChapters()
+      .then((chapters) => {
+        if (!cancelled) setRevelationPlaces(revelationPlacesOf(chapters));
+      })
+      .catch((err) => console.warn("[SubCorpus] Failed to load chapter metadata", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [needsRevelationPlaces, revelationPlaces]);
+
+  const ayahHizbs = useMemo(() => (mushafIndex ? ayahHizbsOf(mushafIndex) : undefined), [mushafIndex]);
+  return useMemo(() => ({ revelationPlaces, ayahHizbs }), [revelationPlaces, ayahHizbs]);
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { getTokenFeatureKeys, normalizeFeatureValue, resolveFeatureTerm } from "@/lib/schema/morphFeatures";
+import type { CorpusToken } from "@/lib/schema/types";
+
+function features(pos: CorpusToken["pos"], map: Record<string, string>) {
+  return { pos, morphology: { features: map, gloss: null, stem: null } };
+}
+
+describe("morphological feature facets", () => {
+  it("derives facets from raw corpus tags", () => {
+    const keys = getTokenFeatureKeys(features("V", { IMPF: "true", PASS: "true", "(X)": "true", "3MP": "true", MOOD: "SUBJ" }));
+    expect(keys.sort()).toEqual(
+      ["aspect:impf", "form:x", "gender:m", "mood:subj", "number:p", "person:3", "voice:pass"].sort()
+    );
+  });
+
+  it("fills unmarked verb defaults", () => {
+    const keys = getTokenFeatureKeys(features("V", { IMPF: "true", "2MS": "true" }));
+    expect(keys).toEqual(expect.arrayContaining(["voice:act", "mood:ind", "form:i"]));
+    expect(getTokenFeatureKeys(features("N", { M: "true", NOM: "true" })).sort()).toEqual(["case:nom", "gender:m"]);
+  });
+
+  it("reads named feature keys from sample and database rows", () => {
+    expect(getTokenFeatureKeys(features("PRON", { person: "2", gender: "m", number: "sg" })).sort()).toEqual(
+      ["gender:m", "number:s", "person:2"]
+    );
+  });
+
+  it("normalizes user-entered values and resolves bare terms", () => {
+    expect(normalizeFeatureValue("form", "10")).toBe("x");
+    expect(normalizeFeatureValue("form", "(IV)")).toBe("iv");
+    expect(normalizeFeatureValue("voice", "xyz")).toBeNull();
+    expect(resolveFeatureTerm("voice:passive")).toEqual(["voice:pass"]);
+    expect(resolveFeatureTerm("voice:xyz")).toEqual([]);
+    expect(resolveFeatureTerm("pass")).toEqual(["PASS", "voice:pass"]);
+  });
+});
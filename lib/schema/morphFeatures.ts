@@ -0,0 +1,167 @@
+import type { CorpusToken } from "./types";
+
+/**
+ * Named morphological feature dimensions derived from `Morphology.features`.
+ * Corpus feature maps keep raw QAC tags (`PERF`, `PASS`, `3MP`, `(IV)`,
+ * `MOOD:SUBJ`); sample and database rows use named keys (`person: "2"`,
+ * `number: "sg"`). Both are normalized to lowercase `dimension:value` pairs.
+ */
+export type FeatureDimension =
+  | "person"
+  | "gender"
+  | "number"
+  | "aspect"
+  | "mood"
+  | "voice"
+  | "form"
+  | "case"
+  | "state";
+
+export const FEATURE_DIMENSIONS: FeatureDimension[] = [
+  "aspect",
+  "voice",
+  "mood",
+  "form",
+  "person",
+  "gender",
+  "number",
+  "case",
+  "state",
+];
+
+export const FEATURE_VALUES: Record<FeatureDimension, string[]> = {
+  person: ["1", "2", "3"],
+  gender: ["m", "f"],
+  number: ["s", "d", "p"],
+  aspect: ["perf", "impf", "impv"],
+  mood: ["ind", "subj", "jus"],
+  voice: ["act", "pass"],
+  form: ["i", "ii", "iii", "iv", "v", "vi", "vii", "viii", "ix", "x", "xi", "xii"],
+  case: ["nom", "acc", "gen"],
+  state: ["def", "indef"],
+};
+
+const ROMAN_NUMERALS = FEATURE_VALUES.form;
+
+const RAW_TAG_FACETS: Record<string, [FeatureDimension, string]> = {
+  PERF: ["aspect", "perf"],
+  IMPF: ["aspect", "impf"],
+  IMPV: ["aspect", "impv"],
+  PASS: ["voice", "pass"],
+  ACT: ["voice", "act"],
+  NOM: ["case", "nom"],
+  ACC: ["case", "acc"],
+  GEN: ["case", "gen"],
+  DEF: ["state", "def"],
+  INDEF: ["state", "indef"],
+};
+
+const VALUE_ALIASES: Partial<Record<FeatureDimension, Record<string, string>>> = {
+  number: { sg: "s", sing: "s", singular: "s", du: "d", dual: "d", pl: "p", plural: "p" },
+  gender: { masc: "m", fem: "f" },
+  aspect: { imp: "impv" },
+  mood: { jussive: "jus", subjunctive: "subj", indicative: "ind" },
+  voice: { active: "act", passive: "pass" },
+};
+
+// Person/gender/number bundles such as 3MP, 2FS, MS or F.
+const PGN_PATTERN = /^([123])?([MF])?([SDP])?$/;
+
+export function formatFeatureKey(dimension: FeatureDimension, value: string): string {
+  return `${dimension}:${value}`;
+}
+
+export function isFeatureDimension(value: string): value is FeatureDimension {
+  return Object.prototype.hasOwnProperty.call(FEATURE_VALUES, value);
+}
+
+/**
+ * Normalizes a user-entered value for one dimension ("X" and "10" for form,
+ * "pl" for number, "passive" for voice). Returns null for unknown values.
+ */
+export function normalizeFeatureValue(dimension: FeatureDimension, raw: string): string | null {
+  let value = raw.trim().toLowerCase().replace(/^\(|\)$/g, "");
+  value = VALUE_ALIASES[dimension]?.[value] ?? value;
+  if (dimension === "form" && /^\d+$/.test(value)) {
+    value = ROMAN_NUMERALS[Number(value) - 1] ?? value;
+  }
+  return FEATURE_VALUES[dimension].includes(value) ? value : null;
+}
+
+/**
+ * Returns the `dimension:value` facets of a token. Verbs without an explicit
+ * voice are active, and imperfect verbs without a mood are indicative, as in
+ * the corpus annotation.
+ */
+export function getTokenFeatureKeys(token: Pick<CorpusToken, "pos" | "morphology">): string[] {
+  const facets = new Set<string>();
+  const add = (dimension: FeatureDimension, raw: string) => {
+    const value = normalizeFeatureValue(dimension, raw);
+    if (value) facets.add(formatFeatureKey(dimension, value));
+  };
+
+  for (const [key, rawValue] of Object.entries(token.morphology?.features ?? {})) {
+    const value = String(rawValue);
+    const lowerKey = key.toLowerCase();
+
+    if (isFeatureDimension(lowerKey)) {
+      add(lowerKey, value);
+      continue;
+    }
+    if (value !== "true") {
+      if (key.toUpperCase() === "MOOD") add("mood", value);
+      continue;
+    }
+
+    const upperKey = key.toUpperCase();
+    const facet = RAW_TAG_FACETS[upperKey];
+    if (facet) {
+      facets.add(formatFeatureKey(...facet));
+      continue;
+    }
+    if (/^\([IVX]+\)$/.test(upperKey)) {
+      add("form", upperKey);
+      continue;
+    }
+    const pgn = upperKey.match(PGN_PATTERN);
+    if (pgn && upperKey) {
+      if (pgn[1]) add("person", pgn[1]);
+      if (pgn[2]) add("gender", pgn[2]);
+      if (pgn[3]) add("number", pgn[3]);
+    }
+  }
+
+  if (token.pos === "V") {
+    if (!facets.has("voice:pass")) facets.add("voice:act");
+    if (facets.has("aspect:impf") && ![...facets].some((facet) => facet.startsWith("mood:"))) {
+      facets.add("mood:ind");
+    }
+    // Form I is unmarked in the corpus; derived forms carry "(II)" ... "(XII)".
+    if (![...facets].some((facet) => facet.startsWith("form:"))) facets.add("form:i");
+  }
+
+  return [...facets];
+}
+
+/**
+ * Resolves a search term to feature index keys. `dimension:value` terms map to
+ * one facet (none when the value is unknown); bare terms match that value in
+ * any dimension plus the raw corpus flag, so `pass` and `PCPL` both work.
+ */
+export function resolveFeatureTerm(term: string): string[] {
+  const idx = term.indexOf(":");
+  if (idx > 0) {
+    const dimension = term.slice(0, idx).toLowerCase();
+    if (isFeatureDimension(dimension)) {
+      const value = normalizeFeatureValue(dimension, term.slice(idx + 1));
+      return value ? [formatFeatureKey(dimension, value)] : [];
+    }
+  }
+
+  const keys = new Set<string>([term.toUpperCase()]);
+  for (const dimension of FEATURE_DIMENSIONS) {
+    const value = normalizeFeatureValue(dimension, term);
+    if (value) keys.add(formatFeatureKey(dimension, value));
+  }
+  return [...keys];
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { getPosFamily, isDetailedPosTag, toCoarsePos } from "@/lib/schema/posTagset";
+import { CATEGORY_COLORS, getNodeColor } from "@/lib/schema/visualizationTypes";
+
+describe("POS tag hierarchy", () => {
+  it("maps detailed tags to the coarse five-way class", () => {
+    expect(toCoarsePos("PN")).toBe("N");
+    expect(toCoarsePos("DEM")).toBe("PRON");
+    expect(toCoarsePos("COND")).toBe("P");
+    expect(toCoarsePos("EMPH")).toBe("P");
+    expect(toCoarsePos("V")).toBe("V");
+  });
+
+  it("does not mistake vocative particles for verbs", () => {
+    expect(toCoarsePos("VOC")).toBe("P");
+    expect(getPosFamily("VOC")).toBe("PART");
+  });
+
+  it("separates conjunctions and particles from prepositions", () => {
+    expect(getPosFamily("CONJ")).toBe("CONJ");
+    expect(getPosFamily("SUB")).toBe("CONJ");
+    expect(getPosFamily("P")).toBe("P");
+    expect(getPosFamily("NEG")).toBe("PART");
+    expect(isDetailedPosTag("neg")).toBe(true);
+    expect(isDetailedPosTag("XYZ")).toBe(false);
+  });
+
+  it("colours detailed tags by family", () => {
+    expect(getNodeColor("CONJ")).toBe(CATEGORY_COLORS.conjunction);
+    expect(getNodeColor("COND")).toBe(CATEGORY_COLORS.particle);
+    expect(getNodeColor("PN")).toBe(CATEGORY_COLORS.noun);
+    expect(getNodeColor("XYZ")).toBe(CATEGORY_COLORS.other);
+  });
+});
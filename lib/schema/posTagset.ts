@@ -0,0 +1,90 @@
+import type { PartOfSpeech } from "./types";
+
+/**
+ * Part-of-speech tagset of the Quranic Arabic Corpus, kept alongside the coarse
+ * five-way `PartOfSpeech`. Each detailed tag maps to its coarse class and to a
+ * colour family used by the visualizations.
+ */
+export type PosFamily = "N" | "V" | "ADJ" | "PRON" | "P" | "CONJ" | "PART";
+
+export interface PosTagInfo {
+  coarse: PartOfSpeech;
+  family: PosFamily;
+}
+
+export const POS_TAG_HIERARCHY: Record<string, PosTagInfo> = {
+  // Nominals
+  N: { coarse: "N", family: "N" },
+  PN: { coarse: "N", family: "N" },
+  IMPN: { coarse: "N", family: "N" },
+  LOC: { coarse: "N", family: "N" },
+  ADJ: { coarse: "ADJ", family: "ADJ" },
+  // Pronouns
+  PRON: { coarse: "PRON", family: "PRON" },
+  DEM: { coarse: "PRON", family: "PRON" },
+  REL: { coarse: "PRON", family: "PRON" },
+  // Verbs
+  V: { coarse: "V", family: "V" },
+  // Prepositions
+  P: { coarse: "P", family: "P" },
+  // Conjunctions
+  CONJ: { coarse: "P", family: "CONJ" },
+  SUB: { coarse: "P", family: "CONJ" },
+  // Particles
+  T: { coarse: "P", family: "PART" },
+  DET: { coarse: "P", family: "PART" },
+  EMPH: { coarse: "P", family: "PART" },
+  IMPV: { coarse: "P", family: "PART" },
+  PRP: { coarse: "P", family: "PART" },
+  ACC: { coarse: "P", family: "PART" },
+  AMD: { coarse: "P", family: "PART" },
+  ANS: { coarse: "P", family: "PART" },
+  AVR: { coarse: "P", family: "PART" },
+  CAUS: { coarse: "P", family: "PART" },
+  CERT: { coarse: "P", family: "PART" },
+  CIRC: { coarse: "P", family: "PART" },
+  COM: { coarse: "P", family: "PART" },
+  COND: { coarse: "P", family: "PART" },
+  EQ: { coarse: "P", family: "PART" },
+  EXH: { coarse: "P", family: "PART" },
+  EXL: { coarse: "P", family: "PART" },
+  EXP: { coarse: "P", family: "PART" },
+  FUT: { coarse: "P", family: "PART" },
+  INC: { coarse: "P", family: "PART" },
+  INT: { coarse: "P", family: "PART" },
+  INTG: { coarse: "P", family: "PART" },
+  NEG: { coarse: "P", family: "PART" },
+  PREV: { coarse: "P", family: "PART" },
+  PRO: { coarse: "P", family: "PART" },
+  REM: { coarse: "P", family: "PART" },
+  RES: { coarse: "P", family: "PART" },
+  RET: { coarse: "P", family: "PART" },
+  RSLT: { coarse: "P", family: "PART" },
+  SUP: { coarse: "P", family: "PART" },
+  SUR: { coarse: "P", family: "PART" },
+  VOC: { coarse: "P", family: "PART" },
+  INL: { coarse: "P", family: "PART" },
+};
+
+export const POS_FAMILIES: PosFamily[] = ["N", "V", "ADJ", "PRON", "P", "CONJ", "PART"];
+
+export function isDetailedPosTag(tag: string): boolean {
+  return Object.prototype.hasOwnProperty.call(POS_TAG_HIERARCHY, tag.toUpperCase());
+}
+
+function lookupTag(tag: string): PosTagInfo | null {
+  const upper = tag.toUpperCase();
+  const info = POS_TAG_HIERARCHY[upper];
+  if (info) return info;
+  // Verb tags occasionally carry a suffix in older exports (e.g. "V-PERF").
+  if (upper.startsWith("V")) return POS_TAG_HIERARCHY.V;
+  return null;
+}
+
+export function toCoarsePos(tag: string): PartOfSpeech {
+  return lookupTag(tag)?.coarse ?? "N";
+}
+
+export function getPosFamily(tag: string): PosFamily {
+  return lookupTag(tag)?.family ?? "N";
+}
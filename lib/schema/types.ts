@@ -6,6 +6,24 @@ export interface Morphology {
   stem: string | null;
 }
 
+export type SegmentRole = "prefix" | "stem" | "suffix";
+
+/**
+ * One morphological segment of a word, e.g. the conjunction prefix, the stem
+ * and an attached pronoun suffix in وَقَالُوا. `tag` is the Quranic Arabic Corpus
+ * tag (CONJ, DET, P, PRON, N, V, ...) and `pos` its coarse class.
+ */
+export interface CorpusSegment {
+  index: number;
+  role: SegmentRole;
+  form: string;
+  tag: string;
+  pos: PartOfSpeech;
+  features: Record<string, string>;
+  root?: string;
+  lemma?: string;
+}
+
 export interface CorpusToken {
   id: string;
   sura: number;
@@ -15,7 +33,14 @@ export interface CorpusToken {
   root: string;
   lemma: string;
   pos: PartOfSpeech;
+  // Full Quranic Arabic Corpus tag (see lib/schema/posTagset.ts); `pos` is its coarse class.
+  posDetailed?: string;
   morphology: Morphology;
+  // Absent for tokens loaded without segment-level morphology (e.g. Supabase rows).
+  segments?: CorpusSegment[];
+  // Word-by-word glosses keyed by language code, merged in from the translations
+  // layer (see lib/corpus/translations.ts); `morphology.gloss` stays the English default.
+  glosses?: Record<string, string>;
 }
 
 export interface RootWordFlow {
@@ -25,6 +50,24 @@ export interface RootWordFlow {
   tokenIds: string[];
 }
 
+/** Mushaf divisions an ayah belongs to besides its surah. */
+export type MushafDivision = "juz" | "hizb" | "rub" | "manzil" | "ruku" | "page";
+
+/**
+ * Where an ayah sits in the Madani mushaf, as reported by Quran.com. `rub` is
+ * the rub' al-hizb (quarter-hizb) number; `sajdah` is the prostration number
+ * for the 15 sajdah ayahs and null elsewhere.
+ */
+export interface MushafPosition {
+  juz: number;
+  hizb: number;
+  rub: number;
+  manzil: number;
+  ruku: number;
+  page: number;
+  sajdah: number | null;
+}
+
 export interface AyahRecord {
   id: string;
   suraId: number;
@@ -32,6 +75,21 @@ export interface AyahRecord {
   textUthmani: string;
   textSimple?: string;
   tokenIds: string[];
+  // Absent on records cached before mushaf divisions were stored.
+  mushaf?: MushafPosition;
+}
+
+/**
+ * Word-by-word translations of one ayah from one source, keyed by token id.
+ * Stored in the corpus cache under `${sourceId}:${ayahId}`.
+ */
+export interface TranslationRecord {
+  id: string;
+  sourceId: string;
+  language: string;
+  ayahId: string;
+  suraId: number;
+  words: Record<string, string>;
 }
 
 export interface DependencyEdge {
@@ -42,8 +100,27 @@ export interface DependencyEdge {
   relation: string;
 }
 
+/**
+ * Non-word node in a treebank graph. Hidden nodes stand for elided words (e.g. an
+ * implied subject pronoun); phrase nodes group a span of words under one head.
+ * Edges reference these by `id` in place of a token id.
+ */
+export interface DependencyNode {
+  id: string;
+  ayahId: string;
+  kind: "hidden" | "phrase";
+  tag: string;
+  label: string;
+  // Hidden nodes: the word they attach next to. Phrase nodes: the spanned words.
+  tokenIds: string[];
+}
+
+export type DependencySource = "treebank" | "heuristic";
+
 export interface AyahDependencyData {
   ayah: AyahRecord;
   tokens: CorpusToken[];
   dependencies: DependencyEdge[];
+  nodes?: DependencyNode[];
+  source: DependencySource;
 }
@@ -3,6 +3,7 @@
  */
 
 import type { CorpusToken } from "./types";
+import { getPosFamily, isDetailedPosTag, type PosFamily } from "./posTagset";
 
 // ============================================================================
 // Visualization Mode Types
@@ -18,7 +19,8 @@ export type VisualizationMode =
   | "corpus-architecture" // Global corpus hierarchy map
   | "knowledge-graph"  // Neural network of tracked roots
   | "collocation-network" // Network map for root collocations and PMI
-  | "heatmap";         // Frequency heatmap grid
+  | "heatmap"          // Frequency heatmap grid
+  | "formulaic-sequences"; // Recurring phrases (n-grams) with their locations
 
 export interface VisualizationConfig {
   mode: VisualizationMode;
@@ -347,7 +349,23 @@ export function getNodeColor(pos: string): string {
     PART: CATEGORY_COLORS.particle,
     CONJ: CATEGORY_COLORS.conjunction,
   };
-  return posMap[pos] ?? CATEGORY_COLORS.other;
+  // Detailed corpus tags (PN, DEM, COND, ...) fall back to their colour family.
+  return posMap[pos] ?? (isDetailedPosTag(pos) ? posMap[getPosFamily(pos)] : undefined) ?? CATEGORY_COLORS.other;
+}
+
+// Message keys under `Visualizations.Shared` for POS colour legends.
+export const POS_FAMILY_LABEL_KEYS: Record<PosFamily, string> = {
+  N: "noun",
+  V: "verb",
+  ADJ: "adjective",
+  PRON: "pronoun",
+  P: "preposition",
+  CONJ: "conjunction",
+  PART: "particle",
+};
+
+export function getTokenColor(token: Pick<CorpusToken, "pos" | "posDetailed">): string {
+  return getNodeColor(token.posDetailed ?? token.pos);
 }
 
 export function interpolateColor(color1: string, color2: string, t: number): string {
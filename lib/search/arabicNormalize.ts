@@ -30,6 +30,11 @@ export function normalizeArabicForSearch(value: string): string {
     .replace(/\s+/g, " ");
 }
 
+/** Case- and diacritic-folded gloss text, for glosses in any script. */
+export function normalizeGlossForSearch(value: string): string {
+  return normalizeArabicForSearch(value.toLowerCase());
+}
+
 export function normalizeRootFamily(value: string): string {
   const normalized = normalizeArabicForSearch(value);
   if (!normalized) return normalized;
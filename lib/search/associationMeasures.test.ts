@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { associationStrength, computeAssociationScores, isAssociationMeasure } from "./associationMeasures";
+
+// Reference values from a direct evaluation of each formula (Fisher via exact binomial sums).
+describe("computeAssociationScores", () => {
+  it("matches reference values for an attracted pair", () => {
+    const scores = computeAssociationScores({ cooccurrence: 10, targetFreq: 20, collocateFreq: 30, totalWindows: 1000 });
+
+    expect(scores.pmi).toBeCloseTo(4.0589, 4);
+    expect(scores.logLikelihood).toBeCloseTo(46.4966, 4);
+    expect(scores.tScore).toBeCloseTo(2.9725, 4);
+    expect(scores.dice).toBeCloseTo(0.4, 6);
+    expect(scores.logDice).toBeCloseTo(12.6781, 4);
+    expect(scores.mi3).toBeCloseTo(10.7027, 4);
+    expect(scores.chiSquare).toBeCloseTo(154.9197, 3);
+    expect(scores.fisher / 1.7496691774714537e-11).toBeCloseTo(1, 6);
+  });
+
+  it("signs G² and chi-square negative for repelled pairs", () => {
+    const scores = computeAssociationScores({ cooccurrence: 1, targetFreq: 100, collocateFreq: 100, totalWindows: 1000 });
+
+    expect(scores.logLikelihood).toBeCloseTo(-15.238, 3);
+    expect(scores.chiSquare).toBeCloseTo(-10, 6);
+    expect(scores.tScore).toBeCloseTo(-9, 6);
+    expect(scores.fisher).toBeCloseTo(0.99999, 4);
+  });
+
+  it("clamps inconsistent counts into a valid table", () => {
+    const scores = computeAssociationScores({ cooccurrence: 5, targetFreq: 3, collocateFreq: 4, totalWindows: 10 });
+    expect(scores.dice).toBeCloseTo((2 * 3) / 7, 6);
+  });
+});
+
+describe("associationStrength", () => {
+  it("ranks Fisher p-values by -log10(p), even when p underflows", () => {
+    const strong = { cooccurrence: 400, targetFreq: 400, collocateFreq: 400, totalWindows: 60000 };
+    const scores = computeAssociationScores(strong);
+
+    expect(scores.fisher).toBe(0);
+    expect(associationStrength("fisher", scores, strong)).toBeGreaterThan(300);
+  });
+
+  it("returns the measure itself for other measures", () => {
+    const counts = { cooccurrence: 10, targetFreq: 20, collocateFreq: 30, totalWindows: 1000 };
+    const scores = computeAssociationScores(counts);
+    expect(associationStrength("logDice", scores, counts)).toBe(scores.logDice);
+  });
+});
+
+describe("isAssociationMeasure", () => {
+  it("accepts known measure ids only", () => {
+    expect(isAssociationMeasure("logLikelihood")).toBe(true);
+    expect(isAssociationMeasure("zscore")).toBe(false);
+  });
+});
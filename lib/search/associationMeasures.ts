@@ -0,0 +1,137 @@
+/**
+ * Association measures over a 2×2 contingency table of window counts:
+ *
+ *                  collocate   ¬collocate
+ *     target         O11          O12        = targetFreq
+ *     ¬target        O21          O22
+ *                = collocateFreq              N = totalWindows
+ *
+ * PMI favours rare pairs; G², t-score and the Fisher exact test weigh the
+ * evidence behind an association, while Dice and logDice are frequency-stable
+ * for comparing collocates across corpora of different sizes.
+ */
+export type AssociationMeasure =
+  | "pmi"
+  | "logLikelihood"
+  | "tScore"
+  | "dice"
+  | "logDice"
+  | "mi3"
+  | "chiSquare"
+  | "fisher";
+
+export const ASSOCIATION_MEASURES: AssociationMeasure[] = [
+  "pmi",
+  "logLikelihood",
+  "tScore",
+  "dice",
+  "logDice",
+  "mi3",
+  "chiSquare",
+  "fisher",
+];
+
+export interface ContingencyCounts {
+  cooccurrence: number;
+  targetFreq: number;
+  collocateFreq: number;
+  totalWindows: number;
+}
+
+/** `fisher` is the one-sided (attraction) p-value; every other measure grows with association. */
+export type AssociationScores = Record<AssociationMeasure, number>;
+
+export function isAssociationMeasure(value: string): value is AssociationMeasure {
+  return (ASSOCIATION_MEASURES as string[]).includes(value);
+}
+
+const logFactorials: number[] = [0];
+
+function logFactorial(n: number): number {
+  for (let i = logFactorials.length; i <= n; i++) {
+    logFactorials.push(logFactorials[i - 1] + Math.log(i));
+  }
+  return logFactorials[n];
+}
+
+function logChoose(n: number, k: number): number {
+  return logFactorial(n) - logFactorial(k) - logFactorial(n - k);
+}
+
+/** Natural log of P(X ≥ o11) under the hypergeometric null of independence. */
+function fisherLogPValue(o11: number, targetFreq: number, collocateFreq: number, total: number): number {
+  const upper = Math.min(targetFreq, collocateFreq);
+  const logDenominator = logChoose(total, collocateFreq);
+  const logTerms: number[] = [];
+  for (let k = o11; k <= upper; k++) {
+    if (collocateFreq - k > total - targetFreq) continue;
+    logTerms.push(logChoose(targetFreq, k) + logChoose(total - targetFreq, collocateFreq - k) - logDenominator);
+  }
+  if (logTerms.length === 0) return 0;
+  // log-sum-exp keeps p-values far below Number.MIN_VALUE comparable.
+  const max = logTerms.reduce((acc, term) => Math.max(acc, term), -Infinity);
+  const sum = logTerms.reduce((acc, term) => acc + Math.exp(term - max), 0);
+  return Math.min(0, max + Math.log(sum));
+}
+
+function xLogXOverE(observed: number, expected: number): number {
+  return observed > 0 && expected > 0 ? observed * Math.log(observed / expected) : 0;
+}
+
+// Rounds to whole counts and clamps them into a consistent table.
+function normalizeCounts(counts: ContingencyCounts) {
+  const n = Math.max(1, Math.round(counts.totalWindows));
+  const f1 = Math.min(n, Math.max(0, Math.round(counts.targetFreq)));
+  const f2 = Math.min(n, Math.max(0, Math.round(counts.collocateFreq)));
+  const o11 = Math.min(f1, f2, Math.max(0, Math.round(counts.cooccurrence)));
+  return { n, f1, f2, o11 };
+}
+
+/**
+ * Computes every measure for one pair. G² and χ² are signed: negative when the
+ * pair co-occurs less often than expected under independence.
+ */
+export function computeAssociationScores(counts: ContingencyCounts): AssociationScores {
+  const { n, f1, f2, o11 } = normalizeCounts(counts);
+  const o12 = f1 - o11;
+  const o21 = f2 - o11;
+  const o22 = Math.max(0, n - f1 - f2 + o11);
+
+  const e11 = (f1 * f2) / n;
+  const e12 = (f1 * (n - f2)) / n;
+  const e21 = ((n - f1) * f2) / n;
+  const e22 = ((n - f1) * (n - f2)) / n;
+  const direction = o11 >= e11 ? 1 : -1;
+
+  const g2 = 2 * (xLogXOverE(o11, e11) + xLogXOverE(o12, e12) + xLogXOverE(o21, e21) + xLogXOverE(o22, e22));
+  const chiDenominator = f1 * f2 * (n - f1) * (n - f2);
+  const chiSquare = chiDenominator > 0 ? (n * (o11 * o22 - o12 * o21) ** 2) / chiDenominator : 0;
+  const dice = f1 + f2 > 0 ? (2 * o11) / (f1 + f2) : 0;
+
+  return {
+    pmi: o11 > 0 && e11 > 0 ? Math.log2(o11 / e11) : -Infinity,
+    logLikelihood: direction * Math.max(0, g2),
+    tScore: o11 > 0 ? (o11 - e11) / Math.sqrt(o11) : 0,
+    dice,
+    logDice: dice > 0 ? 14 + Math.log2(dice) : -Infinity,
+    mi3: o11 > 0 && e11 > 0 ? Math.log2(o11 ** 3 / e11) : -Infinity,
+    chiSquare: direction * chiSquare,
+    fisher: o11 > 0 ? Math.exp(fisherLogPValue(o11, f1, f2, n)) : 1,
+  };
+}
+
+/**
+ * Ranking key for a measure, higher meaning stronger association. Fisher
+ * p-values rank by -log10(p), recomputed in log space so that pairs whose
+ * p-value underflows to 0 still order correctly.
+ */
+export function associationStrength(
+  measure: AssociationMeasure,
+  scores: AssociationScores,
+  counts: ContingencyCounts
+): number {
+  if (measure !== "fisher") return scores[measure];
+  if (scores.fisher > 0) return -Math.log10(scores.fisher);
+  const { n, f1, f2, o11 } = normalizeCounts(counts);
+  return -fisherLogPValue(o11, f1, f2, n) / Math.LN10;
+}
@@ -78,6 +78,22 @@ describe("collocation search", () => {
         expect(r2!.count).toBe(2);
     });
 
+    it("returns every association measure and ranks by the selected one", () => {
+        const data = calculateRootFrequencies(mockTokens);
+        const byPmi = getCollocations("R-1", mockTokens, data, { windowType: "ayah" });
+        expect(byPmi.every((c) => c.score === c.pmi)).toBe(true);
+
+        const byDice = getCollocations("R-1", mockTokens, data, { windowType: "ayah", measure: "dice" });
+        const diceScores = byDice.map((c) => c.measures.dice);
+        expect(diceScores).toEqual([...diceScores].sort((a, b) => b - a));
+        expect(byDice.every((c) => c.score === c.measures.dice)).toBe(true);
+
+        const r2 = byDice.find(c => c.root === "R-2")!;
+        expect(r2.measures.pmi).toBeCloseTo(r2.pmi, 10);
+        expect(r2.measures.fisher).toBeGreaterThan(0);
+        expect(r2.measures.fisher).toBeLessThanOrEqual(1);
+    });
+
     it("finds collocations within a distance window correctly", () => {
         const data = calculateRootFrequencies(mockTokens);
         // distance = 1 (+/- 1 token)
@@ -103,6 +119,51 @@ describe("collocation search", () => {
         expect(r3!.count).toBe(2);
     });
 
+    it("supports directional spans", () => {
+        const data = calculateRootFrequencies(mockTokens);
+
+        // L1–R0: only the word before each R-1.
+        const leftOnly = getCollocations("R-1", mockTokens, data, { windowType: "distance", span: { left: 1, right: 0 } });
+        expect(leftOnly.map(c => c.root).sort()).toEqual(["R-3", "R-5"]);
+
+        // L0–R1: only the word after each R-1.
+        const rightOnly = getCollocations("R-1", mockTokens, data, { windowType: "distance", span: { left: 0, right: 1 } });
+        expect(rightOnly.find(c => c.root === "R-2")?.count).toBe(2);
+        expect(rightOnly.find(c => c.root === "R-3")?.count).toBe(1);
+        expect(rightOnly.find(c => c.root === "R-5")).toBeUndefined();
+    });
+
+    it("can stop distance windows at ayah boundaries", () => {
+        const data = calculateRootFrequencies(mockTokens);
+        const collocations = getCollocations("R-1", mockTokens, data, {
+            windowType: "distance",
+            span: { left: 0, right: 1 },
+            stopAtAyahBoundary: true,
+        });
+
+        // The R-1 that ends 1:1 no longer reaches the R-2 opening 1:2.
+        expect(collocations.find(c => c.root === "R-2")?.count).toBe(1);
+    });
+
+    it("reports per-offset collocate distributions for distance windows", () => {
+        const data = calculateRootFrequencies(mockTokens);
+        const collocations = getCollocations("R-1", mockTokens, data, { windowType: "distance", distance: 1 });
+
+        expect(collocations.find(c => c.root === "R-2")?.offsets).toEqual({ 1: 2 });
+        expect(collocations.find(c => c.root === "R-3")?.offsets).toEqual({ "-1": 1, 1: 1 });
+
+        const pair = getPairCooccurrence(
+            { kind: "root", value: "R-1" },
+            { kind: "root", value: "R-3" },
+            mockTokens,
+            { windowType: "distance", distance: 1 }
+        );
+        expect(pair.offsets).toEqual({ "-1": 1, 1: 1 });
+
+        const ayahWindows = getCollocations("R-1", mockTokens, data, { windowType: "ayah" });
+        expect(ayahWindows[0].offsets).toBeUndefined();
+    });
+
     it("finds collocations within a surah window correctly", () => {
         const data = calculateRootFrequencies(mockTokens);
         const collocations = getCollocations("R-1", mockTokens, data, { windowType: "surah" });
@@ -1,4 +1,10 @@
 import type { CorpusToken, PartOfSpeech } from "@/lib/schema/types";
+import {
+  associationStrength,
+  computeAssociationScores,
+  type AssociationMeasure,
+  type AssociationScores,
+} from "@/lib/search/associationMeasures";
 
 export type CollocationTermKind = "root" | "lemma";
 
@@ -13,13 +19,25 @@ export interface CollocateFilter {
   root?: string;
 }
 
+/**
+ * Directional distance window in reading order: `left` counts preceding tokens,
+ * `right` following ones. { left: 3, right: 0 } is the L3–R0 span.
+ */
+export interface CollocationSpan {
+  left: number;
+  right: number;
+}
+
 export interface CollocationOptions {
   windowType: "ayah" | "distance" | "surah";
   distance?: number; // e.g., 3 means +/- 3 tokens
+  span?: CollocationSpan; // Overrides `distance` with separate left/right extents
+  stopAtAyahBoundary?: boolean; // Keep distance windows inside the target's ayah
   minFrequency?: number; // Minimum number of times the collocate must appear with the target
   groupBy?: CollocationTermKind;
   filter?: CollocateFilter;
   pairTerm?: CollocationTerm | null;
+  measure?: AssociationMeasure; // Ranking measure; defaults to PMI
 }
 
 export interface CollocationResult {
@@ -29,10 +47,14 @@ export interface CollocationResult {
   groupBy: CollocationTermKind;
   count: number; // Co-occurrence count
   pmi: number; // Pointwise Mutual Information
+  measures: AssociationScores;
+  score: number; // Strength under the ranking measure; higher is stronger (-log10 p for Fisher)
   // Include lemma data for display purposes
   sampleLemmas: string[];
   // Sample windows where the collocation appears (e.g. "2:255" or "2:255:7")
   sampleWindows: string[];
+  // Distance windows only: collocate occurrences per offset from the target (-2, -1, 1, ...)
+  offsets?: Record<number, number>;
 }
 
 export interface RootFrequencyData {
@@ -56,6 +78,8 @@ export interface PairCooccurrenceResult {
   countA: number;
   countB: number;
   cooccurrenceCount: number;
+  // Distance windows only: occurrences of B per offset from A
+  offsets?: Record<number, number>;
 }
 
 const ARABIC_DIACRITICS_REGEX = /[\u064B-\u065F\u0670\u06D6-\u06ED]/g;
@@ -109,7 +133,7 @@ function lemmaCandidates(value: string): Set<string> {
 }
 
 /**
- * Pre-calculate frequencies for the entire corpus to speed up PMI calculations.
+ * Pre-calculate frequencies for the entire corpus to speed up association measures.
  */
 export function calculateRootFrequencies(tokens: CorpusToken[]): RootFrequencyData {
   const rootFrequencies = new Map<string, number>();
@@ -197,6 +221,60 @@ export function calculateRootFrequencies(tokens: CorpusToken[]): RootFrequencyDa
   };
 }
 
+/** The distance window's extents; `span` wins over the symmetric `distance`. */
+export function resolveCollocationSpan(options: Pick<CollocationOptions, "distance" | "span">): CollocationSpan {
+  if (options.span) {
+    return { left: Math.max(0, options.span.left), right: Math.max(0, options.span.right) };
+  }
+  const distance = Math.max(0, options.distance ?? 3);
+  return { left: distance, right: distance };
+}
+
+/** Compact span label such as "L3–R0". */
+export function formatCollocationSpan(span: CollocationSpan): string {
+  return `L${span.left}–R${span.right}`;
+}
+
+// False across a gap in the text, e.g. between non-adjacent surahs of a sub-corpus.
+function isContiguous(prev: CorpusToken, next: CorpusToken): boolean {
+  if (prev.sura === next.sura) return next.ayah - prev.ayah <= 1;
+  return next.sura === prev.sura + 1 && next.ayah === 1;
+}
+
+function distanceWindowBounds(
+  tokens: CorpusToken[],
+  index: number,
+  span: CollocationSpan,
+  stopAtAyahBoundary: boolean
+): [number, number] {
+  const { sura, ayah } = tokens[index];
+  const allowed = (token: CorpusToken) => !stopAtAyahBoundary || (token.sura === sura && token.ayah === ayah);
+
+  let start = index;
+  while (
+    start > 0 &&
+    index - start < span.left &&
+    allowed(tokens[start - 1]) &&
+    isContiguous(tokens[start - 1], tokens[start])
+  ) {
+    start--;
+  }
+  let end = index;
+  while (
+    end < tokens.length - 1 &&
+    end - index < span.right &&
+    allowed(tokens[end + 1]) &&
+    isContiguous(tokens[end], tokens[end + 1])
+  ) {
+    end++;
+  }
+  return [start, end];
+}
+
+function incrementOffset(offsets: Map<number, number>, offset: number) {
+  offsets.set(offset, (offsets.get(offset) || 0) + 1);
+}
+
 function normalizeTerm(term: string | CollocationTerm): CollocationTerm {
   if (typeof term === "string") {
     return { kind: "root", value: term };
@@ -339,17 +417,20 @@ export function getCollocations(
 ): CollocationResult[] {
   const {
     windowType,
-    distance = 3,
+    stopAtAyahBoundary = false,
     minFrequency = 1,
     groupBy = "root",
     filter,
     pairTerm = null,
+    measure = "pmi",
   } = options;
   const targetTerm = normalizeTerm(targetRoot);
   
   const cooccurrences = new Map<string, number>();
   const collocateLemmas = new Map<string, Set<string>>();
   const collocateWindows = new Map<string, Set<string>>();
+  const collocateOffsets = new Map<string, Map<number, number>>();
+  const span = resolveCollocationSpan(options);
 
   // Find all indices of the target term
   const targetIndices: number[] = [];
@@ -428,8 +509,7 @@ export function getCollocations(
       }
     } else if (windowType === "distance") {
       // Distance-based window
-      const start = Math.max(0, i - distance);
-      const end = Math.min(tokens.length - 1, i + distance);
+      const [start, end] = distanceWindowBounds(tokens, i, span, stopAtAyahBoundary);
       // We use 'i' as the windowId to tie it to this specific instance of the target root
       const windowId = `idx:${i}`;
       const windowLabel = `${targetToken.sura}:${targetToken.ayah}:${targetToken.position}`;
@@ -443,6 +523,13 @@ export function getCollocations(
         if (pairTerm && !tokenMatchesTerm(collocate, pairTerm)) continue;
         if (!tokenMatchesFilter(collocate, filter)) continue;
         countGroupValue(groupValue, collocate.lemma, windowId, windowLabel, windowTracker);
+
+        let offsets = collocateOffsets.get(groupValue);
+        if (!offsets) {
+          offsets = new Map<number, number>();
+          collocateOffsets.set(groupValue, offsets);
+        }
+        incrementOffset(offsets, j - i);
       }
     } else {
       // Surah-based window
@@ -497,6 +584,8 @@ export function getCollocations(
     // P(y) = collocateFreq / N
     // => PMI = log2( (count * N) / (targetFreq * collocateFreq) )
     const pmi = Math.log2((count * N) / (targetFreq * collocateFreq));
+    const counts = { cooccurrence: count, targetFreq, collocateFreq, totalWindows: N };
+    const measures = computeAssociationScores(counts);
 
     results.push({
       root: collocateValue,
@@ -504,13 +593,16 @@ export function getCollocations(
       groupBy,
       count,
       pmi,
+      measures,
+      score: measure === "pmi" ? pmi : associationStrength(measure, measures, counts),
       sampleLemmas: Array.from(collocateLemmas.get(collocateValue) || []).slice(0, 8),
       sampleWindows: Array.from(collocateWindows.get(collocateValue) || []).slice(0, 8),
+      offsets: windowType === "distance" ? Object.fromEntries(collocateOffsets.get(collocateValue) ?? []) : undefined,
     });
   }
 
-  // Sort by PMI descending, then by raw count
-  return results.sort((a, b) => b.pmi - a.pmi || b.count - a.count);
+  // Sort by the ranking measure descending, then by raw count
+  return results.sort((a, b) => b.score - a.score || b.count - a.count);
 }
 
 /**
@@ -521,11 +613,13 @@ export function getPairCooccurrence(
   termAInput: CollocationTerm,
   termBInput: CollocationTerm,
   tokens: CorpusToken[],
-  options: Pick<CollocationOptions, "windowType" | "distance">
+  options: Pick<CollocationOptions, "windowType" | "distance" | "span" | "stopAtAyahBoundary">
 ): PairCooccurrenceResult {
   const termA = normalizeTerm(termAInput);
   const termB = normalizeTerm(termBInput);
-  const { windowType, distance = 3 } = options;
+  const { windowType, stopAtAyahBoundary = false } = options;
+  const span = resolveCollocationSpan(options);
+  const offsets = new Map<number, number>();
 
   const windowsA = new Set<string>();
   const windowsB = new Set<string>();
@@ -556,13 +650,12 @@ export function getPairCooccurrence(
       const labelA = `${tokenA.sura}:${tokenA.ayah}:${tokenA.position}`;
       windowsA.add(labelA);
 
-      const start = Math.max(0, i - distance);
-      const end = Math.min(tokens.length - 1, i + distance);
+      const [start, end] = distanceWindowBounds(tokens, i, span, stopAtAyahBoundary);
       for (let j = start; j <= end; j++) {
         if (j === i) continue;
         if (tokenMatchesTerm(tokens[j], termB)) {
           shared.add(labelA);
-          break;
+          incrementOffset(offsets, j - i);
         }
       }
     }
@@ -594,5 +687,6 @@ export function getPairCooccurrence(
     countA: windowsA.size,
     countB: windowsB.size,
     cooccurrenceCount: shared.size,
+    offsets: windowType === "distance" ? Object.fromEntries(offsets) : undefined,
   };
 }
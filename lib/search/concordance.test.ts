@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildConcordanceLines,
+  concordanceToDelimited,
+  groupTokensByAyah,
+  sortConcordanceLines,
+} from "@/lib/search/concordance";
+import type { CorpusToken } from "@/lib/schema/types";
+
+function makeToken(sura: number, ayah: number, position: number, text: string): CorpusToken {
+  return {
+    id: `${sura}:${ayah}:${position}`,
+    sura,
+    ayah,
+    position,
+    text,
+    root: "",
+    lemma: text,
+    pos: "N",
+    morphology: { features: {}, gloss: null, stem: null },
+  };
+}
+
+const TOKENS = [
+  makeToken(1, 1, 1, "بِسْمِ"),
+  makeToken(1, 1, 2, "ٱللَّهِ"),
+  makeToken(1, 1, 3, "ٱلرَّحْمَٰنِ"),
+  makeToken(1, 2, 1, "ٱلْحَمْدُ"),
+  makeToken(1, 2, 2, "لِلَّهِ"),
+  makeToken(1, 2, 3, "رَبِّ"),
+];
+
+describe("concordance", () => {
+  const byAyah = groupTokensByAyah(TOKENS);
+
+  it("takes context from the node's ayah only", () => {
+    const [first, second] = buildConcordanceLines([TOKENS[1], TOKENS[3]], byAyah, 5);
+
+    expect(first.before.map((token) => token.id)).toEqual(["1:1:1"]);
+    expect(first.after.map((token) => token.id)).toEqual(["1:1:3"]);
+    expect(second.before).toEqual([]);
+    expect(second.after.map((token) => token.id)).toEqual(["1:2:2", "1:2:3"]);
+    expect(buildConcordanceLines([TOKENS[3]], byAyah, 1)[0].after.map((token) => token.id)).toEqual(["1:2:2"]);
+  });
+
+  it("sorts by neighbouring words and keeps empty context last", () => {
+    const lines = buildConcordanceLines([TOKENS[1], TOKENS[3], TOKENS[4]], byAyah, 2);
+
+    expect(sortConcordanceLines(lines, "before").map((line) => line.tokenId)).toEqual(["1:2:2", "1:1:2", "1:2:1"]);
+    expect(sortConcordanceLines(lines, "after").map((line) => line.tokenId)).toEqual(["1:1:2", "1:2:2", "1:2:1"]);
+    expect(sortConcordanceLines(lines, "corpus")).toEqual(lines);
+  });
+
+  it("exports CSV and TSV with context columns", () => {
+    const lines = buildConcordanceLines([TOKENS[1]], byAyah, 2);
+    const csv = concordanceToDelimited(lines, "csv").split("\n");
+    expect(csv[0]).toBe("reference,token_id,before,node,after,root,lemma,pos");
+    expect(csv[1]).toBe("1:1,1:1:2,بِسْمِ,ٱللَّهِ,ٱلرَّحْمَٰنِ,,ٱللَّهِ,N");
+    expect(concordanceToDelimited(lines, "tsv").split("\n")[1].split("\t")).toHaveLength(8);
+  });
+});
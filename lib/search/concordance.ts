@@ -0,0 +1,95 @@
+import type { CorpusToken } from "@/lib/schema/types";
+import { normalizeArabicForSearch } from "@/lib/search/arabicNormalize";
+import { formatDelimited, type DelimitedFormat } from "@/lib/export/tableExport";
+
+/**
+ * One keyword-in-context line. `before` and `after` are in reading order, so
+ * in right-to-left display `before` sits to the right of the node word.
+ * Context stays within the node's ayah.
+ */
+export interface ConcordanceLine {
+  tokenId: string;
+  reference: string;
+  before: CorpusToken[];
+  node: CorpusToken;
+  after: CorpusToken[];
+}
+
+export type ConcordanceSort = "corpus" | "before" | "after" | "node";
+
+export function groupTokensByAyah(tokens: CorpusToken[]): Map<string, CorpusToken[]> {
+  const byAyah = new Map<string, CorpusToken[]>();
+  for (const token of tokens) {
+    const key = `${token.sura}:${token.ayah}`;
+    const bucket = byAyah.get(key);
+    if (bucket) bucket.push(token);
+    else byAyah.set(key, [token]);
+  }
+  for (const bucket of byAyah.values()) bucket.sort((a, b) => a.position - b.position);
+  return byAyah;
+}
+
+export function buildConcordanceLines(
+  hits: CorpusToken[],
+  byAyah: Map<string, CorpusToken[]>,
+  contextSize: number
+): ConcordanceLine[] {
+  return hits.map((node) => {
+    const reference = `${node.sura}:${node.ayah}`;
+    const ayahTokens = byAyah.get(reference) ?? [node];
+    const idx = ayahTokens.findIndex((token) => token.id === node.id);
+    return {
+      tokenId: node.id,
+      reference,
+      before: idx < 0 ? [] : ayahTokens.slice(Math.max(0, idx - contextSize), idx),
+      node,
+      after: idx < 0 ? [] : ayahTokens.slice(idx + 1, idx + 1 + contextSize),
+    };
+  });
+}
+
+const collator = new Intl.Collator("ar");
+
+function sortKey(tokens: CorpusToken[]): string {
+  return tokens.map((token) => normalizeArabicForSearch(token.text)).join(" ");
+}
+
+/**
+ * Sorts lines by the nearest neighbours of the node: `before` compares the
+ * preceding words outward from the node, `after` the following words. Ties and
+ * `corpus` keep corpus order.
+ */
+export function sortConcordanceLines(lines: ConcordanceLine[], sort: ConcordanceSort): ConcordanceLine[] {
+  if (sort === "corpus") return lines.slice();
+
+  const keyOf = (line: ConcordanceLine): string => {
+    if (sort === "before") return sortKey([...line.before].reverse());
+    if (sort === "after") return sortKey(line.after);
+    return normalizeArabicForSearch(line.node.text);
+  };
+
+  return lines
+    .map((line, index) => ({ line, index, key: keyOf(line) }))
+    .sort((a, b) => {
+      // Lines without context on the sorted side go last.
+      if (!a.key !== !b.key) return a.key ? -1 : 1;
+      return collator.compare(a.key, b.key) || a.index - b.index;
+    })
+    .map(({ line }) => line);
+}
+
+/** Serializes lines with reference, context, node and morphology columns. */
+export function concordanceToDelimited(lines: ConcordanceLine[], format: DelimitedFormat): string {
+  const header = ["reference", "token_id", "before", "node", "after", "root", "lemma", "pos"];
+  const rows = lines.map((line) => [
+    line.reference,
+    line.tokenId,
+    line.before.map((token) => token.text).join(" "),
+    line.node.text,
+    line.after.map((token) => token.text).join(" "),
+    line.node.root,
+    line.node.lemma,
+    line.node.posDetailed ?? line.node.pos,
+  ]);
+  return formatDelimited(header, rows, format);
+}
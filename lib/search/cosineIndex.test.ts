@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { buildCosineIndex, searchCosineIndex } from "@/lib/search/cosineIndex";
+
+const index = buildCosineIndex([
+  { id: "east", vector: [2, 0] },
+  { id: "north", vector: [0, 1] },
+  { id: "north-east", vector: [1, 1] },
+  { id: "empty", vector: [0, 0] },
+]);
+
+describe("cosine index", () => {
+  it("normalises vectors and skips zero vectors", () => {
+    expect(index.ids).toEqual(["east", "north", "north-east"]);
+    expect(index.vectors[0]).toBe(1);
+  });
+
+  it("ranks entries by cosine similarity to the query", () => {
+    const matches = searchCosineIndex(index, [5, 1]);
+    expect(matches.map((m) => m.id)).toEqual(["east", "north-east", "north"]);
+    expect(matches[0].similarity).toBeCloseTo(5 / Math.sqrt(26), 6);
+  });
+
+  it("applies limit, threshold and exclusions", () => {
+    expect(searchCosineIndex(index, [1, 0], { limit: 1 }).map((m) => m.id)).toEqual(["east"]);
+    expect(searchCosineIndex(index, [1, 0]).map((m) => m.id)).toEqual(["east", "north-east"]);
+    expect(searchCosineIndex(index, [1, 0], { minSimilarity: 0.9 }).map((m) => m.id)).toEqual(["east"]);
+    expect(searchCosineIndex(index, [1, 0], { exclude: new Set(["east"]) }).map((m) => m.id)).toEqual(["north-east"]);
+    expect(searchCosineIndex(index, [0, 0])).toEqual([]);
+  });
+
+  it("rejects vectors of mixed dimensions", () => {
+    expect(() => buildCosineIndex([{ id: "a", vector: [1] }, { id: "b", vector: [1, 2] }])).toThrow(/dimensions/);
+  });
+});
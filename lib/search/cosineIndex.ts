@@ -0,0 +1,73 @@
+/**
+ * In-memory nearest-neighbour index over dense vectors. Vectors are
+ * normalised once at build time, so a search is one dot product per entry;
+ * this is plenty for the few thousand roots of the corpus.
+ */
+export interface CosineIndex {
+  ids: string[];
+  dimensions: number;
+  // Unit vectors, `dimensions` values per id, in `ids` order.
+  vectors: Float32Array;
+}
+
+export interface CosineMatch {
+  id: string;
+  similarity: number;
+}
+
+export interface CosineSearchOptions {
+  // Maximum results (default 10).
+  limit?: number;
+  // Matches at or below this similarity are dropped (default 0).
+  minSimilarity?: number;
+  exclude?: ReadonlySet<string>;
+}
+
+function vectorNorm(vector: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i++) sum += vector[i] * vector[i];
+  return Math.sqrt(sum);
+}
+
+/** Zero vectors are skipped: they have no direction to compare. */
+export function buildCosineIndex(entries: Array<{ id: string; vector: ArrayLike<number> }>): CosineIndex {
+  const dimensions = entries[0]?.vector.length ?? 0;
+  const kept = entries.filter((entry) => {
+    if (entry.vector.length !== dimensions) {
+      throw new Error(`Vector for "${entry.id}" has ${entry.vector.length} dimensions, expected ${dimensions}`);
+    }
+    return vectorNorm(entry.vector) > 0;
+  });
+
+  const vectors = new Float32Array(kept.length * dimensions);
+  kept.forEach((entry, row) => {
+    const norm = vectorNorm(entry.vector);
+    for (let i = 0; i < dimensions; i++) vectors[row * dimensions + i] = entry.vector[i] / norm;
+  });
+  return { ids: kept.map((entry) => entry.id), dimensions, vectors };
+}
+
+export function searchCosineIndex(
+  index: CosineIndex,
+  query: ArrayLike<number>,
+  options: CosineSearchOptions = {}
+): CosineMatch[] {
+  const norm = vectorNorm(query);
+  if (norm === 0 || query.length !== index.dimensions) return [];
+
+  const minSimilarity = options.minSimilarity ?? 0;
+  const matches: CosineMatch[] = [];
+  for (let row = 0; row < index.ids.length; row++) {
+    const id = index.ids[row];
+    if (options.exclude?.has(id)) continue;
+    let dot = 0;
+    const offset = row * index.dimensions;
+    for (let i = 0; i < index.dimensions; i++) dot += index.vectors[offset + i] * query[i];
+    const similarity = dot / norm;
+    if (similarity > minSimilarity) matches.push({ id, similarity });
+  }
+
+  return matches
+    .sort((a, b) => b.similarity - a.similarity || a.id.localeCompare(b.id))
+    .slice(0, options.limit ?? 10);
+}
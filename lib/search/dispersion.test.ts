@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import type { CorpusToken } from "@/lib/schema/types";
+import { calculateDispersion, compareTermsBy } from "@/lib/search/dispersion";
+
+const tokensFor = (sura: number, roots: string[]): CorpusToken[] =>
+  roots.map((root, i) => ({
+    id: `${sura}:1:${i + 1}`,
+    sura,
+    ayah: 1,
+    position: i + 1,
+    text: root,
+    root,
+    lemma: `${root}-lemma`,
+    pos: "N",
+    morphology: { features: {}, gloss: null, stem: null },
+  }));
+
+// Two surahs of ten tokens each.
+const tokens = [
+  ...tokensFor(1, ["x", "x", "x", "x", "x", "y", "y", "y", "y", "z"]),
+  ...tokensFor(2, ["x", "x", "x", "x", "x", "w", "w", "w", "w", "w"]),
+];
+
+describe("dispersion", () => {
+  it("scores an even spread as DP 0 and D 1", () => {
+    const x = calculateDispersion(tokens, "root").get("x")!;
+    expect(x).toMatchObject({ frequency: 10, range: 2, parts: 2, dp: 0, cv: 0, juillandD: 1 });
+  });
+
+  it("scores a term confined to one surah as maximally uneven", () => {
+    const y = calculateDispersion(tokens, "root").get("y")!;
+    expect(y.range).toBe(1);
+    expect(y.dp).toBeCloseTo(0.5, 10);
+    expect(y.dpNorm).toBeCloseTo(1, 10);
+    expect(y.cv).toBeCloseTo(1, 10);
+    expect(y.juillandD).toBeCloseTo(0, 10);
+  });
+
+  it("accounts for unequal surah sizes", () => {
+    const unequal = [...tokensFor(1, ["a", "b", "b", "b"]), ...tokensFor(2, ["a", "a", "a", "a", "a", "a", "a", "b", "b", "b", "b", "b"])];
+    const stats = calculateDispersion(unequal, "lemma");
+    // 1 of 4 tokens in surah 1 and 7 of 12 in surah 2: the rates differ, so "a" is not evenly spread.
+    expect(stats.get("a-lemma")!.dp).toBeGreaterThan(0);
+    expect(stats.get("b-lemma")!.dp).toBeGreaterThan(0);
+    // Shares of the corpus are 0.25/0.75; "a" has 1/8 and 7/8.
+    expect(stats.get("a-lemma")!.dp).toBeCloseTo(0.125, 10);
+  });
+
+  it("sorts terms by frequency, evenness or clustering", () => {
+    const dispersion = calculateDispersion(tokens, "root");
+    const terms = [
+      { term: "y", count: 4 },
+      { term: "x", count: 10 },
+      { term: "w", count: 5 },
+    ];
+    const sortBy = (key: "frequency" | "even" | "clustered") =>
+      [...terms].sort((a, b) => compareTermsBy(key, dispersion, a, b)).map((entry) => entry.term);
+
+    expect(sortBy("frequency")).toEqual(["x", "w", "y"]);
+    expect(sortBy("even")).toEqual(["x", "w", "y"]);
+    expect(sortBy("clustered")).toEqual(["w", "y", "x"]);
+  });
+});
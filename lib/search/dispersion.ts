@@ -0,0 +1,113 @@
+import type { CorpusToken } from "@/lib/schema/types";
+
+/**
+ * How evenly a root or lemma is spread across the surahs. Raw frequency and
+ * surah range cannot tell a term used a little everywhere from one used
+ * heavily in a few places; these measures can. Surahs differ greatly in size,
+ * so every measure works on shares of the corpus rather than raw counts.
+ */
+export type DispersionFeature = "root" | "lemma";
+
+export interface DispersionStats {
+  frequency: number;
+  // Surahs containing the term, out of `parts` surahs in the corpus.
+  range: number;
+  parts: number;
+  // Gries' deviation of proportions: 0 when the term follows surah sizes exactly, near 1 when concentrated.
+  dp: number;
+  // DP rescaled to 0–1 by its maximum for this corpus (Lijffijt & Gries 2012).
+  dpNorm: number;
+  // Juilland's D: 1 for a perfectly even spread, 0 for the most uneven.
+  juillandD: number;
+  // Coefficient of variation of the per-surah relative frequencies.
+  cv: number;
+}
+
+export type DispersionSortKey = "frequency" | "even" | "clustered";
+
+export const DISPERSION_SORT_KEYS: DispersionSortKey[] = ["frequency", "even", "clustered"];
+
+function featureValue(token: CorpusToken, feature: DispersionFeature): string {
+  return feature === "root" ? token.root : token.lemma;
+}
+
+export function calculateDispersion(
+  tokens: CorpusToken[],
+  feature: DispersionFeature
+): Map<string, DispersionStats> {
+  const partSizes = new Map<number, number>();
+  const termParts = new Map<string, Map<number, number>>();
+  for (const token of tokens) {
+    partSizes.set(token.sura, (partSizes.get(token.sura) ?? 0) + 1);
+    const term = featureValue(token, feature);
+    if (!term) continue;
+    let counts = termParts.get(term);
+    if (!counts) {
+      counts = new Map();
+      termParts.set(term, counts);
+    }
+    counts.set(token.sura, (counts.get(token.sura) ?? 0) + 1);
+  }
+
+  const total = tokens.length;
+  const parts = partSizes.size;
+  const minShare = parts > 0 ? Math.min(...partSizes.values()) / total : 0;
+  const result = new Map<string, DispersionStats>();
+
+  for (const [term, counts] of termParts) {
+    let frequency = 0;
+    for (const count of counts.values()) frequency += count;
+
+    // Parts without the term contribute their whole share to DP and 0 to the rates.
+    let deviation = 0;
+    let coveredShare = 0;
+    let rateSum = 0;
+    let rateSquareSum = 0;
+    for (const [surah, count] of counts) {
+      const share = partSizes.get(surah)! / total;
+      coveredShare += share;
+      deviation += Math.abs(count / frequency - share);
+      const rate = count / partSizes.get(surah)!;
+      rateSum += rate;
+      rateSquareSum += rate * rate;
+    }
+    deviation += 1 - coveredShare;
+
+    const dp = Math.min(1, Math.max(0, deviation / 2));
+    const mean = rateSum / parts;
+    const variance = Math.max(0, rateSquareSum / parts - mean * mean);
+    const cv = mean > 0 ? Math.sqrt(variance) / mean : 0;
+
+    result.set(term, {
+      frequency,
+      range: counts.size,
+      parts,
+      dp,
+      dpNorm: minShare < 1 ? Math.min(1, dp / (1 - minShare)) : 0,
+      juillandD: parts > 1 ? Math.min(1, Math.max(0, 1 - cv / Math.sqrt(parts - 1))) : 1,
+      cv,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Orders terms by frequency, or by DP (`even` first or `clustered` first) with
+ * frequency breaking ties. Terms without dispersion data sort by frequency.
+ */
+export function compareTermsBy(
+  key: DispersionSortKey,
+  dispersion: Map<string, DispersionStats> | null | undefined,
+  a: { term: string; count: number },
+  b: { term: string; count: number }
+): number {
+  if (key !== "frequency" && dispersion) {
+    const dpA = dispersion.get(a.term)?.dp;
+    const dpB = dispersion.get(b.term)?.dp;
+    if (dpA !== undefined && dpB !== undefined && dpA !== dpB) {
+      return key === "even" ? dpA - dpB : dpB - dpA;
+    }
+  }
+  return b.count - a.count;
+}
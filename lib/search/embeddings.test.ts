@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from "vitest";
+import type { CorpusToken } from "@/lib/schema/types";
+import { buildCosineIndex, searchCosineIndex } from "@/lib/search/cosineIndex";
+import { createLocalEmbeddingProvider, createOpenAIEmbeddingProvider } from "@/lib/search/embeddings";
+
+// Each word is "lemma/root/gloss".
+const ayah = (sura: number, ayahNumber: number, words: string[]): CorpusToken[] =>
+  words.map((word, i) => {
+    const [lemma, root, gloss] = word.split("/");
+    return {
+      id: `${sura}:${ayahNumber}:${i + 1}`,
+      sura,
+      ayah: ayahNumber,
+      position: i + 1,
+      text: lemma,
+      root,
+      lemma,
+      pos: "N",
+      morphology: { features: {}, gloss, stem: null },
+    };
+  });
+
+const tokens = [
+  ...ayah(1, 1, ["رحمن/رحم/the Most Gracious", "رحيم/رحم/the Most Merciful", "غفور/غفر/Oft-Forgiving"]),
+  ...ayah(1, 2, ["غفور/غفر/forgiving", "رحيم/رحم/merciful"]),
+  ...ayah(2, 1, ["كتاب/كتب/the Book", "قرأ/قرأ/recite"]),
+  ...ayah(2, 2, ["كتب/كتب/prescribed", "قرآن/قرأ/the Quran"]),
+];
+
+const provider = createLocalEmbeddingProvider(tokens);
+const index = buildCosineIndex(provider.roots.map((root, i) => ({ id: root, vector: provider.embedSync(provider.roots)[i] })));
+const nearest = (text: string) => searchCosineIndex(index, provider.embedSync([text])[0]).map((m) => m.id);
+
+describe("local embedding provider", () => {
+  it("embeds every corpus root with a fixed number of dimensions", () => {
+    expect(createLocalEmbeddingProvider(tokens, { dimensions: 32 }).embedSync(["رحم"])[0]).toHaveLength(32);
+    expect(provider.roots).toEqual(["رحم", "غفر", "قرأ", "كتب"]);
+    expect(provider.id).toBe("local-gloss-cooccurrence-256");
+    expect(provider.embedSync(provider.roots).every((vector) => vector.length === 256)).toBe(true);
+  });
+
+  it("places English queries near the roots whose glosses use the word", () => {
+    expect(nearest("merciful")[0]).toBe("رحم");
+    expect(nearest("recite the book").slice(0, 2).sort()).toEqual(["قرأ", "كتب"]);
+    expect(nearest("unrelated words")).toEqual([]);
+  });
+
+  it("resolves roots and lemmas and places roots near their co-occurring roots", () => {
+    expect(nearest("رحم").slice(0, 2)).toEqual(["رحم", "غفر"]);
+    expect(nearest("قرآن")[0]).toBe("قرأ");
+  });
+
+  it("is deterministic and matches the async interface", async () => {
+    const again = createLocalEmbeddingProvider(tokens);
+    expect(await again.embed(["mercy", "كتب"])).toEqual(provider.embedSync(["mercy", "كتب"]));
+  });
+});
+
+describe("OpenAI embedding provider", () => {
+  it("posts the texts and returns the embeddings", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ data: [{ embedding: [0.1, 0.2] }] })));
+    const openai = createOpenAIEmbeddingProvider({ apiKey: "key", dimensions: 2, fetch: fetchMock });
+    await expect(openai.embed(["mercy"])).resolves.toEqual([[0.1, 0.2]]);
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(init.body as string)).toEqual({ model: "text-embedding-3-small", input: ["mercy"], dimensions: 2 });
+    expect((init.headers as Record<string, string>).Authorization).toBe("Bearer key");
+  });
+
+  it("throws on an error response", async () => {
+    const fetchMock = vi.fn(async () => new Response("quota exceeded", { status: 429 }));
+    const openai = createOpenAIEmbeddingProvider({ apiKey: "key", fetch: fetchMock });
+    await expect(openai.embed(["mercy"])).rejects.toThrow(/quota exceeded/);
+  });
+});
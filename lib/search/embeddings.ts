@@ -0,0 +1,211 @@
+import type { CorpusToken } from "@/lib/schema/types";
+import { normalizeArabicForSearch } from "@/lib/search/arabicNormalize";
+
+/**
+ * Source of dense text embeddings for semantic search. The OpenAI provider
+ * needs a key and the network; the local provider derives vectors from the
+ * loaded corpus alone, so semantic search also works offline and in tests.
+ */
+export interface EmbeddingProvider {
+  // Stored alongside embeddings so vectors from different providers are never mixed.
+  id: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface LocalEmbeddingProvider extends EmbeddingProvider {
+  // Synchronous variant for the corpus worker, which answers queries synchronously.
+  embedSync(texts: string[]): number[][];
+  // Every root in the corpus, in a stable order.
+  roots: string[];
+}
+
+export interface LocalEmbeddingOptions {
+  dimensions?: number;
+  // Weight of a co-occurring root relative to a gloss word (default 0.5).
+  cooccurrenceWeight?: number;
+}
+
+export const LOCAL_EMBEDDING_DIMENSIONS = 256;
+
+const GLOSS_STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "he", "her", "his", "i", "in", "is", "it",
+  "its", "me", "my", "not", "of", "on", "or", "our", "she", "that", "the", "their", "them", "these", "they",
+  "this", "those", "to", "us", "was", "we", "were", "which", "who", "with", "you", "your",
+]);
+
+const ARABIC_LETTER = /[؀-ۿ]/;
+
+function glossWords(gloss: string | null | undefined): string[] {
+  if (!gloss) return [];
+  return gloss
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter((word) => word.length > 1 && !GLOSS_STOPWORDS.has(word));
+}
+
+const rootKey = (value: string) => normalizeArabicForSearch(value.replace(/\s+/g, ""));
+
+// FNV-1a; the low bit picks the sign so that colliding features tend to cancel.
+function hashFeature(feature: string, dimensions: number): { slot: number; sign: number } {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash >>>= 0;
+  return { slot: (hash >>> 1) % dimensions, sign: hash & 1 ? -1 : 1 };
+}
+
+function addInto(target: Map<string, number>, source: Map<string, number>, scale = 1) {
+  for (const [feature, weight] of source) target.set(feature, (target.get(feature) ?? 0) + weight * scale);
+}
+
+/**
+ * Root vectors built from the corpus itself. Each root is described by the
+ * words of its English glosses (`g:`), itself and the roots it shares ayahs
+ * with (`r:`); features are TF-IDF weighted across roots and hashed into a
+ * fixed number of dimensions. A text is embedded from the roots it names
+ * (directly or through a lemma) plus its English words, so "mercy" lands
+ * near رحم and a root lands near the roots it keeps company with.
+ */
+export function createLocalEmbeddingProvider(
+  tokens: CorpusToken[],
+  options: LocalEmbeddingOptions = {}
+): LocalEmbeddingProvider {
+  const dimensions = options.dimensions ?? LOCAL_EMBEDDING_DIMENSIONS;
+  const cooccurrenceWeight = options.cooccurrenceWeight ?? 0.5;
+
+  const rootFeatures = new Map<string, Map<string, number>>();
+  const rootByKey = new Map<string, string>();
+  const rootByLemma = new Map<string, string>();
+  const ayahRoots = new Map<string, Set<string>>();
+
+  for (const token of tokens) {
+    if (!token.root) continue;
+    let features = rootFeatures.get(token.root);
+    if (!features) {
+      features = new Map([[`r:${token.root}`, 1]]);
+      rootFeatures.set(token.root, features);
+      rootByKey.set(rootKey(token.root), token.root);
+    }
+    for (const word of glossWords(token.morphology?.gloss)) {
+      features.set(`g:${word}`, (features.get(`g:${word}`) ?? 0) + 1);
+    }
+    if (token.lemma && !rootByLemma.has(normalizeArabicForSearch(token.lemma))) {
+      rootByLemma.set(normalizeArabicForSearch(token.lemma), token.root);
+    }
+    const ayah = `${token.sura}:${token.ayah}`;
+    const roots = ayahRoots.get(ayah);
+    if (roots) roots.add(token.root);
+    else ayahRoots.set(ayah, new Set([token.root]));
+  }
+
+  for (const roots of ayahRoots.values()) {
+    for (const root of roots) {
+      const features = rootFeatures.get(root)!;
+      for (const other of roots) {
+        if (other !== root) features.set(`r:${other}`, (features.get(`r:${other}`) ?? 0) + cooccurrenceWeight);
+      }
+    }
+  }
+
+  // Sublinear term frequency times inverse root frequency, normalised per root.
+  const documentFrequency = new Map<string, number>();
+  for (const features of rootFeatures.values()) {
+    for (const feature of features.keys()) documentFrequency.set(feature, (documentFrequency.get(feature) ?? 0) + 1);
+  }
+  const idf = (feature: string) => Math.log(1 + rootFeatures.size / (documentFrequency.get(feature) ?? rootFeatures.size));
+  const weightedByRoot = new Map<string, Map<string, number>>();
+  for (const [root, features] of rootFeatures) {
+    const weighted = new Map<string, number>();
+    let sum = 0;
+    for (const [feature, count] of features) {
+      const weight = (1 + Math.log(count)) * idf(feature);
+      weighted.set(feature, weight);
+      sum += weight * weight;
+    }
+    const norm = Math.sqrt(sum) || 1;
+    for (const [feature, weight] of weighted) weighted.set(feature, weight / norm);
+    weightedByRoot.set(root, weighted);
+  }
+
+  const slots = new Map<string, { slot: number; sign: number }>();
+  const toDense = (features: Map<string, number>): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    for (const [feature, weight] of features) {
+      let hashed = slots.get(feature);
+      if (!hashed) {
+        hashed = hashFeature(feature, dimensions);
+        slots.set(feature, hashed);
+      }
+      vector[hashed.slot] += hashed.sign * weight;
+    }
+    return vector;
+  };
+
+  const resolveRoot = (word: string): string | undefined =>
+    rootFeatures.has(word) ? word : rootByKey.get(rootKey(word)) ?? rootByLemma.get(normalizeArabicForSearch(word));
+
+  const embedText = (text: string): number[] => {
+    const features = new Map<string, number>();
+    const wholeRoot = resolveRoot(text.trim());
+    const words = wholeRoot ? [text.trim()] : text.trim().split(/\s+/);
+    for (const word of words) {
+      if (ARABIC_LETTER.test(word)) {
+        const root = resolveRoot(word);
+        if (root) addInto(features, weightedByRoot.get(root)!);
+        continue;
+      }
+      for (const gloss of glossWords(word)) {
+        const feature = `g:${gloss}`;
+        if (documentFrequency.has(feature)) features.set(feature, (features.get(feature) ?? 0) + idf(feature));
+      }
+    }
+    return toDense(features);
+  };
+
+  const embedSync = (texts: string[]) => texts.map(embedText);
+
+  return {
+    id: `local-gloss-cooccurrence-${dimensions}`,
+    dimensions,
+    roots: [...rootFeatures.keys()].sort(),
+    embedSync,
+    embed: async (texts) => embedSync(texts),
+  };
+}
+
+export interface OpenAIEmbeddingOptions {
+  apiKey: string;
+  model?: string;
+  dimensions?: number;
+  fetch?: typeof fetch;
+}
+
+/** OpenAI `text-embedding-3-small` at 768 dimensions, matching the `root_embeddings` table. */
+export function createOpenAIEmbeddingProvider(options: OpenAIEmbeddingOptions): EmbeddingProvider {
+  const model = options.model ?? "text-embedding-3-small";
+  const dimensions = options.dimensions ?? 768;
+  const fetchImpl = options.fetch ?? fetch;
+
+  return {
+    id: model,
+    dimensions,
+    async embed(texts) {
+      const res = await fetchImpl("https://api.openai.com/v1/embeddings", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${options.apiKey}`,
+        },
+        body: JSON.stringify({ model, input: texts, dimensions }),
+      });
+      if (!res.ok) {
+        throw new Error(`OpenAI error: ${await res.text()}`);
+      }
+      const data = (await res.json()) as { data: Array<{ embedding: number[] }> };
+      return data.data.map((entry) => entry.embedding);
+    },
+  };
+}
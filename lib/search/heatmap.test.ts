@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { buildFrequencyHeatmap } from "@/lib/search/heatmap";
+import type { CorpusToken, PartOfSpeech } from "@/lib/schema/types";
+
+function makeToken(id: string, root: string, lemma: string, pos: PartOfSpeech = "N"): CorpusToken {
+  const [sura, ayah, position] = id.split(":").map(Number);
+  return {
+    id,
+    sura,
+    ayah,
+    position,
+    text: lemma,
+    root,
+    lemma,
+    pos,
+    morphology: { features: {}, gloss: null, stem: null },
+  };
+}
+
+const tokens: CorpusToken[] = [
+  makeToken("1:1:1", "R-1", "L-1"),
+  makeToken("1:1:2", "R-1", "L-1b", "V"),
+  makeToken("1:2:1", "R-2", "L-2"),
+  makeToken("1:2:2", "R-1", "L-1"),
+  makeToken("2:1:1", "R-2", "L-2"),
+  makeToken("2:1:2", "R-3", "L-3", "V"),
+  makeToken("2:1:3", "R-1", "L-1"),
+  makeToken("2:1:4", "R-3", "L-3"),
+  makeToken("2:1:5", "R-3", "L-3"),
+];
+
+describe("buildFrequencyHeatmap", () => {
+  it("builds a root × surah matrix with raw counts", () => {
+    const matrix = buildFrequencyHeatmap(tokens, { layout: "root-surah" });
+
+    expect(matrix.rows.map((row) => row.key)).toEqual(["R-1", "R-3", "R-2"]);
+    expect(matrix.columns.map((column) => column.surahId)).toEqual([1, 2]);
+    expect(matrix.cells[0].map((cell) => cell.count)).toEqual([3, 1]);
+    expect(matrix.cells[1].map((cell) => cell.count)).toEqual([0, 3]);
+    expect(matrix.cells[0][0].tokenId).toBe("1:1:1");
+    expect(matrix.maxValue).toBe(3);
+  });
+
+  it("normalizes counts per 1000 tokens of each column", () => {
+    const matrix = buildFrequencyHeatmap(tokens, { layout: "root-surah", normalization: "per-1000" });
+    expect(matrix.cells[0][0].value).toBe(750);
+    expect(matrix.cells[0][1].value).toBe(200);
+  });
+
+  it("counts rootless tokens towards the column size", () => {
+    const mixed = [...tokens, makeToken("2:1:6", "", "L-4", "P"), makeToken("2:1:7", "", "L-4", "P")];
+    const matrix = buildFrequencyHeatmap(mixed, { layout: "root-surah", normalization: "per-1000" });
+
+    expect(matrix.columns.map((column) => column.tokenCount)).toEqual([4, 7]);
+    expect(matrix.rows.map((row) => row.key)).toEqual(["R-1", "R-3", "R-2"]);
+    expect(matrix.cells[0][1].value).toBeCloseTo(1000 / 7);
+  });
+
+  it("down-weights rows spread across every column with TF-IDF", () => {
+    const matrix = buildFrequencyHeatmap(tokens, { layout: "root-surah", normalization: "tfidf" });
+    const r1 = matrix.rows.findIndex((row) => row.key === "R-1");
+    const r3 = matrix.rows.findIndex((row) => row.key === "R-3");
+
+    // R-1 occurs in every surah, so its IDF weight collapses to the smoothing floor.
+    expect(matrix.cells[r1][1].value).toBeCloseTo(0.2);
+    expect(matrix.cells[r3][1].value).toBeGreaterThan(matrix.cells[r1][1].value);
+  });
+
+  it("supports lemma rows and carries the dominant root", () => {
+    const matrix = buildFrequencyHeatmap(tokens, { layout: "lemma-surah", maxRows: 2 });
+    expect(matrix.rows).toHaveLength(2);
+    expect(matrix.rows[0]).toMatchObject({ key: "L-1", total: 3, root: "R-1" });
+  });
+
+  it("builds POS × ayah for a single surah", () => {
+    const matrix = buildFrequencyHeatmap(tokens, { layout: "pos-ayah", surahId: 2 });
+    expect(matrix.columns.map((column) => column.key)).toEqual(["2:1"]);
+    expect(matrix.rows.map((row) => row.key)).toEqual(["N", "V"]);
+    expect(matrix.cells.map((row) => row[0].count)).toEqual([4, 1]);
+  });
+
+  it("sorts rows and columns on request", () => {
+    const alphabetical = buildFrequencyHeatmap(tokens, {
+      layout: "root-surah",
+      rowSort: "alphabetical",
+      columnSort: "weight",
+    });
+    expect(alphabetical.rows.map((row) => row.key)).toEqual(["R-1", "R-2", "R-3"]);
+    expect(alphabetical.columns.map((column) => column.surahId)).toEqual([2, 1]);
+    expect(alphabetical.cells[2].map((cell) => cell.count)).toEqual([3, 0]);
+
+    const peak = buildFrequencyHeatmap(tokens, { layout: "root-surah", rowSort: "peak" });
+    expect(peak.rows[0].key).toBe("R-1");
+    expect(peak.rows[1].key).toBe("R-3");
+  });
+});
@@ -0,0 +1,248 @@
+import type { CorpusToken } from "@/lib/schema/types";
+import { calculateRootFrequencies, type RootFrequencyData } from "@/lib/search/collocation";
+
+export type HeatmapLayout = "root-surah" | "lemma-surah" | "pos-ayah";
+export type HeatmapNormalization = "raw" | "per-1000" | "tfidf";
+export type HeatmapRowSort = "frequency" | "alphabetical" | "peak";
+export type HeatmapColumnSort = "canonical" | "size" | "weight";
+
+export interface HeatmapOptions {
+  layout: HeatmapLayout;
+  normalization?: HeatmapNormalization;
+  rowSort?: HeatmapRowSort;
+  columnSort?: HeatmapColumnSort;
+  maxRows?: number;
+  // Required for the "pos-ayah" layout; ignored otherwise.
+  surahId?: number;
+}
+
+export interface HeatmapRow {
+  key: string;
+  label: string;
+  total: number;
+  // Most frequent root for the row (equals `key` for root rows).
+  root: string | null;
+}
+
+export interface HeatmapColumn {
+  key: string;
+  label: string;
+  surahId: number;
+  ayah?: number;
+  tokenCount: number;
+}
+
+export interface HeatmapCell {
+  count: number;
+  value: number;
+  // First matching token, used for click-through focus.
+  tokenId: string | null;
+}
+
+export interface HeatmapMatrix {
+  layout: HeatmapLayout;
+  normalization: HeatmapNormalization;
+  rows: HeatmapRow[];
+  columns: HeatmapColumn[];
+  cells: HeatmapCell[][]; // cells[rowIndex][columnIndex]
+  maxValue: number;
+}
+
+const DEFAULT_MAX_ROWS = 40;
+
+function getRowKey(token: CorpusToken, layout: HeatmapLayout): string {
+  if (layout === "root-surah") return token.root;
+  if (layout === "lemma-surah") return token.lemma;
+  return token.posDetailed ?? token.pos;
+}
+
+function getRowTotals(
+  layout: HeatmapLayout,
+  freqData: RootFrequencyData,
+  scopedTokens: CorpusToken[]
+): Map<string, number> {
+  if (layout === "root-surah") return freqData.rootFrequencies;
+  if (layout === "lemma-surah") return freqData.lemmaFrequencies;
+
+  const totals = new Map<string, number>();
+  for (const token of scopedTokens) {
+    const key = getRowKey(token, layout);
+    totals.set(key, (totals.get(key) ?? 0) + 1);
+  }
+  return totals;
+}
+
+function normalizeCount(
+  count: number,
+  columnTokens: number,
+  documentFrequency: number,
+  documentCount: number,
+  normalization: HeatmapNormalization
+): number {
+  if (count === 0) return 0;
+  if (normalization === "raw") return count;
+  const termFrequency = columnTokens > 0 ? count / columnTokens : 0;
+  if (normalization === "per-1000") return termFrequency * 1000;
+  // Smoothed IDF so that rows present in every column keep a small non-zero weight.
+  const idf = Math.log((1 + documentCount) / (1 + documentFrequency)) + 1;
+  return termFrequency * idf;
+}
+
+/**
+ * Builds a row × column frequency matrix (root × surah, lemma × surah or POS × ayah)
+ * using the reference frequencies from `calculateRootFrequencies`.
+ */
+export function buildFrequencyHeatmap(
+  tokens: CorpusToken[],
+  options: HeatmapOptions,
+  freqData: RootFrequencyData = calculateRootFrequencies(tokens)
+): HeatmapMatrix {
+  const {
+    layout,
+    normalization = "raw",
+    rowSort = "frequency",
+    columnSort = "canonical",
+    maxRows = DEFAULT_MAX_ROWS,
+    surahId,
+  } = options;
+
+  const scopedTokens = layout === "pos-ayah"
+    ? tokens.filter((token) => token.sura === surahId)
+    : tokens;
+
+  const columnsByKey = new Map<string, HeatmapColumn>();
+  const countsByRow = new Map<string, Map<string, number>>();
+  const firstTokenByCell = new Map<string, string>();
+  const rootCountsByRow = new Map<string, Map<string, number>>();
+
+  for (const token of scopedTokens) {
+    const columnKey = layout === "pos-ayah" ? `${token.sura}:${token.ayah}` : `${token.sura}`;
+    let column = columnsByKey.get(columnKey);
+    if (!column) {
+      column = layout === "pos-ayah"
+        ? { key: columnKey, label: `${token.ayah}`, surahId: token.sura, ayah: token.ayah, tokenCount: 0 }
+        : { key: columnKey, label: `${token.sura}`, surahId: token.sura, tokenCount: 0 };
+      columnsByKey.set(columnKey, column);
+    }
+    // Every token counts towards the per-1000 normalization, also those without a row
+    column.tokenCount++;
+
+    const rowKey = getRowKey(token, layout);
+    if (!rowKey) continue;
+
+    let rowCounts = countsByRow.get(rowKey);
+    if (!rowCounts) {
+      rowCounts = new Map<string, number>();
+      countsByRow.set(rowKey, rowCounts);
+    }
+    rowCounts.set(columnKey, (rowCounts.get(columnKey) ?? 0) + 1);
+
+    const cellKey = `${rowKey}::${columnKey}`;
+    if (!firstTokenByCell.has(cellKey)) firstTokenByCell.set(cellKey, token.id);
+
+    if (token.root) {
+      let rootCounts = rootCountsByRow.get(rowKey);
+      if (!rootCounts) {
+        rootCounts = new Map<string, number>();
+        rootCountsByRow.set(rowKey, rootCounts);
+      }
+      rootCounts.set(token.root, (rootCounts.get(token.root) ?? 0) + 1);
+    }
+  }
+
+  const rowTotals = getRowTotals(layout, freqData, scopedTokens);
+  const rows: HeatmapRow[] = [...countsByRow.keys()]
+    .map((key) => {
+      let dominantRoot: string | null = null;
+      let dominantCount = 0;
+      rootCountsByRow.get(key)?.forEach((count, root) => {
+        if (count > dominantCount) {
+          dominantCount = count;
+          dominantRoot = root;
+        }
+      });
+      return {
+        key,
+        label: key,
+        total: rowTotals.get(key) ?? 0,
+        root: dominantRoot,
+      };
+    })
+    .sort((a, b) => b.total - a.total || a.key.localeCompare(b.key))
+    .slice(0, Math.max(1, maxRows));
+
+  let columns = [...columnsByKey.values()].sort(
+    (a, b) => a.surahId - b.surahId || (a.ayah ?? 0) - (b.ayah ?? 0)
+  );
+
+  // Document frequency = number of columns a row occurs in. Root/lemma layouts
+  // use the corpus-wide surah frequencies; POS × ayah counts within the surah.
+  const documentCount = layout === "pos-ayah" ? columns.length : freqData.totalSurahs;
+  const documentFrequencies = layout === "root-surah"
+    ? freqData.rootSurahFrequencies
+    : layout === "lemma-surah"
+      ? freqData.lemmaSurahFrequencies
+      : new Map([...countsByRow.entries()].map(([key, counts]) => [key, counts.size]));
+
+  const buildCells = (orderedRows: HeatmapRow[], orderedColumns: HeatmapColumn[]): HeatmapCell[][] =>
+    orderedRows.map((row) => {
+      const rowCounts = countsByRow.get(row.key);
+      const documentFrequency = documentFrequencies.get(row.key) ?? rowCounts?.size ?? 0;
+      return orderedColumns.map((column) => {
+        const count = rowCounts?.get(column.key) ?? 0;
+        return {
+          count,
+          value: normalizeCount(count, column.tokenCount, documentFrequency, documentCount, normalization),
+          tokenId: firstTokenByCell.get(`${row.key}::${column.key}`) ?? null,
+        };
+      });
+    });
+
+  let orderedRows = rows;
+  let cells = buildCells(orderedRows, columns);
+
+  if (rowSort !== "frequency") {
+    const peakByRow = new Map(
+      orderedRows.map((row, rowIndex) => [row.key, Math.max(0, ...cells[rowIndex].map((cell) => cell.value))])
+    );
+    orderedRows = [...orderedRows].sort((a, b) =>
+      rowSort === "alphabetical"
+        ? a.label.localeCompare(b.label)
+        : (peakByRow.get(b.key) ?? 0) - (peakByRow.get(a.key) ?? 0) || b.total - a.total
+    );
+  }
+
+  if (columnSort !== "canonical") {
+    const weightByColumn = new Map(
+      columns.map((column, columnIndex) => [
+        column.key,
+        cells.reduce((sum, rowCells) => sum + rowCells[columnIndex].value, 0),
+      ])
+    );
+    columns = [...columns].sort((a, b) =>
+      columnSort === "size"
+        ? b.tokenCount - a.tokenCount || a.surahId - b.surahId
+        : (weightByColumn.get(b.key) ?? 0) - (weightByColumn.get(a.key) ?? 0) || a.surahId - b.surahId
+    );
+  }
+
+  if (orderedRows !== rows || columnSort !== "canonical") {
+    cells = buildCells(orderedRows, columns);
+  }
+
+  let maxValue = 0;
+  for (const rowCells of cells) {
+    for (const cell of rowCells) {
+      if (cell.value > maxValue) maxValue = cell.value;
+    }
+  }
+
+  return {
+    layout,
+    normalization,
+    rows: orderedRows,
+    columns,
+    cells,
+    maxValue,
+  };
+}
@@ -100,6 +100,64 @@ describe("queryPhaseOne", () => {
     expect(result).toEqual(new Set(["1:2:1"]));
   });
 
+  it("filters by detailed corpus tag", () => {
+    const detailed = buildPhaseOneIndexes([
+      makeToken({ id: "3:1:1", pos: "N", posDetailed: "PN" }),
+      makeToken({ id: "3:1:2", pos: "N", posDetailed: "N" }),
+    ]);
+    expect(queryPhaseOne(detailed, { posDetailed: "pn" })).toEqual(new Set(["3:1:1"]));
+    expect(queryPhaseOne(detailed, { pos: "N" })).toEqual(new Set(["3:1:1", "3:1:2"]));
+  });
+
+  it("filters by segment tag with an optional role qualifier", () => {
+    const segmented = buildPhaseOneIndexes([
+      makeToken({
+        id: "2:2:1",
+        segments: [
+          { index: 1, role: "prefix", form: "وَ", tag: "CONJ", pos: "P", features: {} },
+          { index: 2, role: "stem", form: "قَالُ", tag: "V", pos: "V", features: {} },
+          { index: 3, role: "suffix", form: "وا", tag: "PRON", pos: "PRON", features: { PRON: "3MP" } },
+        ],
+      }),
+      makeToken({ id: "2:2:2", segments: [{ index: 1, role: "stem", form: "هُمْ", tag: "PRON", pos: "PRON", features: {} }] }),
+    ]);
+
+    expect(queryPhaseOne(segmented, { segment: "conj" })).toEqual(new Set(["2:2:1"]));
+    expect(queryPhaseOne(segmented, { segment: "PRON" })).toEqual(new Set(["2:2:1", "2:2:2"]));
+    expect(queryPhaseOne(segmented, { segment: "suffix:pron" })).toEqual(new Set(["2:2:1"]));
+  });
+
+  it("intersects range scopes with other filters", () => {
+    const scoped = buildPhaseOneIndexes(
+      [
+        makeToken({ id: "2:141:1", sura: 2, ayah: 141, root: "كسب" }),
+        makeToken({ id: "2:142:1", sura: 2, ayah: 142, root: "كسب" }),
+        makeToken({ id: "3:1:1", sura: 3, ayah: 1, root: "كسب" }),
+      ],
+      { ayahPages: new Map([["2:141", 21], ["2:142", 22], ["3:1", 50]]) }
+    );
+
+    expect(queryPhaseOne(scoped, { root: "كسب", scopes: [{ kind: "juz", from: 2, to: 2 }] })).toEqual(
+      new Set(["2:142:1"])
+    );
+    expect(queryPhaseOne(scoped, { scopes: [{ kind: "surah", from: 2, to: 2 }, { kind: "page", from: 22, to: 60 }] })).toEqual(
+      new Set(["2:142:1"])
+    );
+  });
+
+  it("filters by morphological features", () => {
+    const featured = buildPhaseOneIndexes([
+      makeToken({ id: "2:1:1", pos: "V", morphology: { features: { IMPF: "true", PASS: "true", "(X)": "true" }, gloss: null, stem: null } }),
+      makeToken({ id: "2:1:2", pos: "V", morphology: { features: { IMPF: "true", "(X)": "true" }, gloss: null, stem: null } }),
+      makeToken({ id: "2:1:3", pos: "N", morphology: { features: { PASS: "true", PCPL: "true" }, gloss: null, stem: null } }),
+    ]);
+
+    expect(queryPhaseOne(featured, { pos: "V", features: ["voice:pass", "form:X", "aspect:impf"] })).toEqual(new Set(["2:1:1"]));
+    expect(queryPhaseOne(featured, { features: ["voice:act"] })).toEqual(new Set(["2:1:2"]));
+    expect(queryPhaseOne(featured, { features: ["pcpl"] })).toEqual(new Set(["2:1:3"]));
+    expect(queryPhaseOne(featured, { features: ["mood:xyz"] }).size).toBe(0);
+  });
+
   it("returns empty set for non-matching query", () => {
     const result = queryPhaseOne(index, { root: "nonexistent" });
     expect(result.size).toBe(0);
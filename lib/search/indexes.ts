@@ -4,6 +4,8 @@ import {
   normalizeArabicForSearch,
   normalizeRootFamily,
 } from "@/lib/search/arabicNormalize";
+import { ayahInScope, type SearchScope } from "@/lib/search/searchScope";
+import { getTokenFeatureKeys, resolveFeatureTerm } from "@/lib/schema/morphFeatures";
 
 export interface PhaseOneIndexes {
   root: Map<string, string[]>;
@@ -14,7 +16,18 @@ export interface PhaseOneIndexes {
   lemmaLooseNormalized: Map<string, string[]>;
   textNormalized: Map<string, string[]>;
   pos: Map<string, string[]>;
+  posDetailed: Map<string, string[]>;
+  // Keyed by segment tag ("DET") and by role-qualified tag ("prefix:DET").
+  segment: Map<string, string[]>;
+  // Keyed by named facet ("voice:pass", "form:x") and by raw corpus flag ("PCPL").
+  feature: Map<string, string[]>;
   ayah: Map<string, string[]>;
+  // Mushaf page per ayah id, when page metadata is available; used by page: scopes.
+  ayahPages: Map<string, number>;
+}
+
+export interface PhaseOneIndexOptions {
+  ayahPages?: Map<string, number>;
 }
 
 function pushIndex(map: Map<string, string[]>, key: string, tokenId: string): void {
@@ -27,7 +40,13 @@ function pushIndex(map: Map<string, string[]>, key: string, tokenId: string): vo
   map.set(key, [tokenId]);
 }
 
-export function buildPhaseOneIndexes(tokens: CorpusToken[]): PhaseOneIndexes {
+function segmentKey(raw: string): string {
+  const idx = raw.indexOf(":");
+  if (idx < 0) return raw.toUpperCase();
+  return `${raw.slice(0, idx).toLowerCase()}:${raw.slice(idx + 1).toUpperCase()}`;
+}
+
+export function buildPhaseOneIndexes(tokens: CorpusToken[], options: PhaseOneIndexOptions = {}): PhaseOneIndexes {
   const index: PhaseOneIndexes = {
     root: new Map<string, string[]>(),
     rootNormalized: new Map<string, string[]>(),
@@ -37,7 +56,11 @@ export function buildPhaseOneIndexes(tokens: CorpusToken[]): PhaseOneIndexes {
     lemmaLooseNormalized: new Map<string, string[]>(),
     textNormalized: new Map<string, string[]>(),
     pos: new Map<string, string[]>(),
+    posDetailed: new Map<string, string[]>(),
+    segment: new Map<string, string[]>(),
+    feature: new Map<string, string[]>(),
     ayah: new Map<string, string[]>(),
+    ayahPages: options.ayahPages ?? new Map<string, number>(),
   };
 
   for (const token of tokens) {
@@ -57,6 +80,21 @@ export function buildPhaseOneIndexes(tokens: CorpusToken[]): PhaseOneIndexes {
 
     pushIndex(index.textNormalized, normalizeArabicForSearch(token.text), token.id);
     pushIndex(index.pos, token.pos, token.id);
+    if (token.posDetailed) pushIndex(index.posDetailed, token.posDetailed, token.id);
+
+    const segmentKeys = new Set<string>();
+    for (const segment of token.segments ?? []) {
+      if (!segment.tag) continue;
+      segmentKeys.add(segmentKey(segment.tag));
+      segmentKeys.add(segmentKey(`${segment.role}:${segment.tag}`));
+    }
+    for (const key of segmentKeys) pushIndex(index.segment, key, token.id);
+
+    const featureKeys = new Set(getTokenFeatureKeys(token));
+    for (const [key, value] of Object.entries(token.morphology?.features ?? {})) {
+      if (value === "true") featureKeys.add(key.toUpperCase());
+    }
+    for (const key of featureKeys) pushIndex(index.feature, key, token.id);
     pushIndex(index.ayah, ayahId, token.id);
   }
 
@@ -71,15 +109,27 @@ function unionBuckets(...buckets: string[][]): string[] {
   return [...out];
 }
 
-export function queryPhaseOne(
-  index: PhaseOneIndexes,
-  query: {
-    root?: string;
-    lemma?: string;
-    pos?: string;
-    ayah?: string;
+function resolveScope(index: PhaseOneIndexes, scope: SearchScope): string[] {
+  const out: string[] = [];
+  for (const [ayahId, tokenIds] of index.ayah) {
+    const [surah, ayah] = ayahId.split(":").map(Number);
+    if (ayahInScope(scope, surah, ayah, index.ayahPages)) out.push(...tokenIds);
   }
-): Set<string> {
+  return out;
+}
+
+export interface PhaseOneQuery {
+  root?: string;
+  lemma?: string;
+  pos?: string;
+  posDetailed?: string;
+  segment?: string;
+  features?: string[];
+  ayah?: string;
+  scopes?: SearchScope[];
+}
+
+export function queryPhaseOne(index: PhaseOneIndexes, query: PhaseOneQuery): Set<string> {
   const buckets: string[][] = [];
   if (query.root) {
     const normalizedRoot = normalizeArabicForSearch(query.root);
@@ -111,7 +161,13 @@ export function queryPhaseOne(
     );
   }
   if (query.pos) buckets.push(index.pos.get(query.pos) ?? []);
+  if (query.posDetailed) buckets.push(index.posDetailed.get(query.posDetailed.toUpperCase()) ?? []);
+  if (query.segment) buckets.push(index.segment.get(segmentKey(query.segment)) ?? []);
+  for (const term of query.features ?? []) {
+    buckets.push(unionBuckets(...resolveFeatureTerm(term).map((key) => index.feature.get(key) ?? [])));
+  }
   if (query.ayah) buckets.push(index.ayah.get(query.ayah) ?? []);
+  for (const scope of query.scopes ?? []) buckets.push(resolveScope(index, scope));
 
   if (buckets.length === 0) return new Set<string>();
 
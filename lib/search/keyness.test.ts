@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { CorpusToken, PartOfSpeech } from "@/lib/schema/types";
+import {
+  calculateKeyness,
+  keynessLogLikelihood,
+  keynessLogRatio,
+  splitTargetReference,
+} from "@/lib/search/keyness";
+
+const token = (sura: number, index: number, root: string, pos: PartOfSpeech = "N"): CorpusToken => ({
+  id: `${sura}:1:${index}`,
+  sura,
+  ayah: 1,
+  position: index,
+  text: root,
+  root,
+  lemma: `${root}-lemma`,
+  pos,
+  morphology: { features: {}, gloss: null, stem: null },
+});
+
+const repeat = (sura: number, root: string, count: number, pos?: PartOfSpeech) =>
+  Array.from({ length: count }, (_, i) => token(sura, i + 1, root, pos));
+
+describe("keyness", () => {
+  it("computes signed log-likelihood and log ratio", () => {
+    expect(keynessLogLikelihood(10, 10, 100, 1000)).toBeCloseTo(22.14, 2);
+    expect(keynessLogLikelihood(1, 100, 100, 1000)).toBeLessThan(0);
+    expect(keynessLogRatio(10, 10, 100, 1000)).toBeCloseTo(Math.log2(10), 6);
+    // Zero reference frequency is corrected to 0.5 rather than dividing by zero.
+    expect(keynessLogRatio(4, 0, 100, 1000)).toBeCloseTo(Math.log2(0.04 / 0.0005), 6);
+  });
+
+  it("ranks over- and under-represented terms of a target against a reference", () => {
+    const tokens = [
+      ...repeat(12, "يوسف", 20),
+      ...repeat(12, "قول", 10),
+      ...repeat(2, "قول", 200),
+      ...repeat(2, "كتب", 100),
+      ...repeat(2, "يوسف", 1),
+    ];
+    const { target, reference } = splitTargetReference(tokens, (t) => t.sura === 12);
+    const report = calculateKeyness(target, reference);
+
+    expect(report.targetSize).toBe(30);
+    expect(report.referenceSize).toBe(301);
+    expect(report.overRepresented.map((r) => r.term)).toEqual(["يوسف"]);
+    expect(report.overRepresented[0].logRatio).toBeGreaterThan(0);
+    expect(report.underRepresented.map((r) => r.term)).toEqual(["كتب", "قول"]);
+    expect(report.underRepresented[0].logLikelihood).toBeLessThan(0);
+  });
+
+  it("compares lemmas and parts of speech and honours thresholds", () => {
+    const tokens = [...repeat(1, "a", 5, "V"), ...repeat(2, "b", 5, "N"), ...repeat(2, "a", 5, "V")];
+    const { target, reference } = splitTargetReference(tokens, (t) => t.sura === 1);
+
+    const byPos = calculateKeyness(target, reference, { feature: "pos", minLogLikelihood: 0 });
+    expect(byPos.overRepresented.map((r) => r.term)).toEqual(["V"]);
+    expect(byPos.underRepresented.map((r) => r.term)).toEqual(["N"]);
+
+    const byLemma = calculateKeyness(target, reference, { feature: "lemma", minFrequency: 20, minLogLikelihood: 0 });
+    expect(byLemma.overRepresented).toEqual([]);
+    expect(byLemma.underRepresented).toEqual([]);
+  });
+});
@@ -0,0 +1,160 @@
+import type { CorpusToken } from "@/lib/schema/types";
+
+/**
+ * Keyness compares how often each term occurs in a target token set (a surah
+ * or passage) against a reference set (usually the rest of the Quran). Terms
+ * are ranked by signed log-likelihood (G²), the evidence that the difference
+ * is not chance, and reported with log ratio, the size of the difference:
+ * log2 of the ratio of relative frequencies, so +1 means twice as frequent.
+ */
+export type KeynessFeature = "root" | "lemma" | "pos";
+
+export const KEYNESS_FEATURES: KeynessFeature[] = ["root", "lemma", "pos"];
+
+export interface KeynessOptions {
+  feature?: KeynessFeature;
+  // Minimum combined frequency in target and reference (default 2).
+  minFrequency?: number;
+  // Minimum |G²| to report; 3.84 is p < 0.05 with one degree of freedom (the default).
+  minLogLikelihood?: number;
+  // Maximum results per direction (default 50).
+  limit?: number;
+}
+
+export interface KeynessResult {
+  term: string;
+  targetFreq: number;
+  referenceFreq: number;
+  // Occurrences per 10,000 tokens of each set.
+  targetPer10k: number;
+  referencePer10k: number;
+  // Negative for terms the target uses less than the reference.
+  logLikelihood: number;
+  logRatio: number;
+}
+
+export interface KeynessReport {
+  feature: KeynessFeature;
+  targetSize: number;
+  referenceSize: number;
+  overRepresented: KeynessResult[];
+  underRepresented: KeynessResult[];
+}
+
+// Critical G² values for one degree of freedom.
+export const LOG_LIKELIHOOD_CRITICAL = {
+  p05: 3.84,
+  p01: 6.63,
+  p001: 10.83,
+  p0001: 15.13,
+} as const;
+
+// Added to zero frequencies so that log ratio stays finite.
+const ZERO_FREQUENCY_CORRECTION = 0.5;
+
+function featureValue(token: CorpusToken, feature: KeynessFeature): string {
+  switch (feature) {
+    case "root":
+      return token.root;
+    case "lemma":
+      return token.lemma;
+    case "pos":
+      return token.pos;
+  }
+}
+
+function countFeature(tokens: CorpusToken[], feature: KeynessFeature): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    const value = featureValue(token, feature);
+    if (!value) continue;
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function xLogXOverE(observed: number, expected: number): number {
+  return observed > 0 && expected > 0 ? observed * Math.log(observed / expected) : 0;
+}
+
+/**
+ * Signed log-likelihood for a term seen `a` times in a target of `c` tokens and
+ * `b` times in a reference of `d` tokens (Rayson & Garside 2000).
+ */
+export function keynessLogLikelihood(a: number, b: number, c: number, d: number): number {
+  if (c <= 0 || d <= 0) return 0;
+  const expectedTarget = (c * (a + b)) / (c + d);
+  const expectedReference = (d * (a + b)) / (c + d);
+  const g2 = 2 * (xLogXOverE(a, expectedTarget) + xLogXOverE(b, expectedReference));
+  return a / c >= b / d ? g2 : -g2;
+}
+
+/** Log ratio effect size (Hardie 2014), with zero frequencies corrected to 0.5. */
+export function keynessLogRatio(a: number, b: number, c: number, d: number): number {
+  if (c <= 0 || d <= 0) return 0;
+  const targetRate = Math.max(a, ZERO_FREQUENCY_CORRECTION) / c;
+  const referenceRate = Math.max(b, ZERO_FREQUENCY_CORRECTION) / d;
+  return Math.log2(targetRate / referenceRate);
+}
+
+export function calculateKeyness(
+  target: CorpusToken[],
+  reference: CorpusToken[],
+  options: KeynessOptions = {}
+): KeynessReport {
+  const feature = options.feature ?? "root";
+  const minFrequency = options.minFrequency ?? 2;
+  const minLogLikelihood = options.minLogLikelihood ?? LOG_LIKELIHOOD_CRITICAL.p05;
+  const limit = options.limit ?? 50;
+
+  const targetCounts = countFeature(target, feature);
+  const referenceCounts = countFeature(reference, feature);
+  const c = target.length;
+  const d = reference.length;
+
+  const overRepresented: KeynessResult[] = [];
+  const underRepresented: KeynessResult[] = [];
+  for (const term of new Set([...targetCounts.keys(), ...referenceCounts.keys()])) {
+    const a = targetCounts.get(term) ?? 0;
+    const b = referenceCounts.get(term) ?? 0;
+    if (a + b < minFrequency) continue;
+
+    const logLikelihood = keynessLogLikelihood(a, b, c, d);
+    if (Math.abs(logLikelihood) < minLogLikelihood) continue;
+
+    const result: KeynessResult = {
+      term,
+      targetFreq: a,
+      referenceFreq: b,
+      targetPer10k: c > 0 ? (a / c) * 10_000 : 0,
+      referencePer10k: d > 0 ? (b / d) * 10_000 : 0,
+      logLikelihood,
+      logRatio: keynessLogRatio(a, b, c, d),
+    };
+    (logLikelihood > 0 ? overRepresented : underRepresented).push(result);
+  }
+
+  overRepresented.sort((x, y) => y.logLikelihood - x.logLikelihood || y.logRatio - x.logRatio);
+  underRepresented.sort((x, y) => x.logLikelihood - y.logLikelihood || x.logRatio - y.logRatio);
+
+  return {
+    feature,
+    targetSize: c,
+    referenceSize: d,
+    overRepresented: overRepresented.slice(0, limit),
+    underRepresented: underRepresented.slice(0, limit),
+  };
+}
+
+/** Splits tokens into those matching `inTarget` and the rest, the usual reference. */
+export function splitTargetReference(
+  tokens: CorpusToken[],
+  inTarget: (token: CorpusToken) => boolean
+): { target: CorpusToken[]; reference: CorpusToken[] } {
+  const target: CorpusToken[] = [];
+  const reference: CorpusToken[] = [];
+  for (const token of tokens) {
+    (inTarget(token) ? target : reference).push(token);
+  }
+  return { target, reference };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { CorpusToken } from "@/lib/schema/types";
+import { extractNgrams } from "@/lib/search/ngrams";
+
+// Each word is "text/lemma/root"; an empty root marks a particle.
+const ayah = (sura: number, ayahNumber: number, words: string[]): CorpusToken[] =>
+  words.map((word, i) => {
+    const [text, lemma, root] = word.split("/");
+    return {
+      id: `${sura}:${ayahNumber}:${i + 1}`,
+      sura,
+      ayah: ayahNumber,
+      position: i + 1,
+      text,
+      root,
+      lemma,
+      pos: "N",
+      morphology: { features: {}, gloss: null, stem: null },
+    };
+  });
+
+const tokens = [
+  ...ayah(2, 1, ["قَالَ/قال/قول", "إِنَّ/إن/", "اللَّهَ/الله/أله", "عَلِيمٌ/عليم/علم", "حَكِيمٌ/حكيم/حكم"]),
+  ...ayah(2, 2, ["وَاللَّهُ/الله/أله", "عَلِيمٌ/عليم/علم", "حَكِيمٌ/حكيم/حكم"]),
+  ...ayah(4, 1, ["إِنَّ/إن/", "اللَّهَ/الله/أله", "كَانَ/كان/كون", "عَلِيمًا/عليم/علم", "حَكِيمًا/حكيم/حكم"]),
+];
+
+describe("extractNgrams", () => {
+  it("counts surface bigrams ignoring diacritics, with locations and range", () => {
+    const results = extractNgrams(tokens, { layer: "text" });
+    const formula = results.find((r) => r.key === "عليم حكيم")!;
+    expect(formula.frequency).toBe(2);
+    expect(formula.range).toBe(1);
+    expect(formula.text).toBe("عَلِيمٌ حَكِيمٌ");
+    expect(formula.locations.map((l) => `${l.surah}:${l.ayah}`)).toEqual(["2:1", "2:2"]);
+    expect(formula.locations[0].tokenIds).toEqual(["2:1:4", "2:1:5"]);
+
+    const particle = results.find((r) => r.key === "ان الله")!;
+    expect(particle.frequency).toBe(2);
+    expect(particle.range).toBe(2);
+    // The accusative عَلِيمًا keeps its alif, so it is a different surface form.
+    const accusative = extractNgrams(tokens, { layer: "text", minFrequency: 1 }).find((r) => r.key === "عليما حكيما");
+    expect(accusative?.frequency).toBe(1);
+  });
+
+  it("never crosses ayahs and breaks root sequences at rootless words", () => {
+    const roots = extractNgrams(tokens, { layer: "root", minFrequency: 1 });
+    expect(roots.some((r) => r.key === "حكم أله")).toBe(false);
+    expect(roots.some((r) => r.terms.includes(""))).toBe(false);
+    expect(roots.find((r) => r.key === "أله علم")?.frequency).toBe(2);
+  });
+
+  it("filters by frequency, range and ayah position", () => {
+    const lemmaTrigrams = extractNgrams(tokens, { layer: "lemma", minN: 3, maxN: 3 });
+    expect(lemmaTrigrams.map((r) => r.key)).toEqual(["الله عليم حكيم"]);
+
+    expect(extractNgrams(tokens, { layer: "lemma", minRange: 2 }).map((r) => r.key)).toEqual([
+      "عليم حكيم",
+      "إن الله",
+    ]);
+    expect(extractNgrams(tokens, { layer: "lemma", maxRange: 1 }).map((r) => r.key)).toEqual(["الله عليم"]);
+
+    const endings = extractNgrams(tokens, { layer: "lemma", position: "ayahEnd", minN: 2, maxN: 3 });
+    expect(endings.map((r) => r.key)).toEqual(["عليم حكيم", "الله عليم حكيم"]);
+  });
+
+  it("collapses n-grams subsumed by an equally frequent longer one", () => {
+    const all = extractNgrams(tokens, { layer: "lemma", minN: 2, maxN: 3 });
+    expect(all.map((r) => r.key)).toContain("الله عليم");
+
+    const collapsed = extractNgrams(tokens, { layer: "lemma", minN: 2, maxN: 3, collapseSubsumed: true });
+    expect(collapsed.map((r) => r.key)).toEqual(["عليم حكيم", "الله عليم حكيم", "إن الله"]);
+  });
+});
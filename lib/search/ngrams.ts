@@ -0,0 +1,153 @@
+import type { CorpusToken } from "@/lib/schema/types";
+import { normalizeArabicForSearch } from "@/lib/search/arabicNormalize";
+
+/**
+ * Contiguous word sequences (n-grams) over the surface text, lemma or root
+ * layer. Sequences never cross an ayah boundary. Surface text is compared
+ * without diacritics, so case endings do not split a recurring phrase; on the
+ * root layer, words without a root (particles, pronouns) break the sequence.
+ */
+export type NgramLayer = "text" | "lemma" | "root";
+
+export const NGRAM_LAYERS: NgramLayer[] = ["text", "lemma", "root"];
+
+export const MIN_NGRAM_LENGTH = 2;
+export const MAX_NGRAM_LENGTH = 6;
+
+// Where in the ayah an occurrence must sit; "ayahEnd" finds recurring ayah endings.
+export type NgramPosition = "any" | "ayahStart" | "ayahEnd";
+
+export interface NgramOptions {
+  layer?: NgramLayer;
+  minN?: number;
+  maxN?: number;
+  // Minimum occurrences (default 2).
+  minFrequency?: number;
+  // Minimum and maximum number of distinct surahs with an occurrence.
+  minRange?: number;
+  maxRange?: number;
+  position?: NgramPosition;
+  // Drops an n-gram when a longer one containing it occurs just as often.
+  collapseSubsumed?: boolean;
+  // Maximum results (default 200).
+  limit?: number;
+}
+
+export interface NgramLocation {
+  surah: number;
+  ayah: number;
+  tokenIds: string[];
+}
+
+export interface NgramResult {
+  key: string;
+  terms: string[];
+  n: number;
+  frequency: number;
+  // Distinct surahs and ayahs with an occurrence.
+  range: number;
+  ayahCount: number;
+  // Surface text of the first occurrence.
+  text: string;
+  locations: NgramLocation[];
+}
+
+const clampLength = (value: number) => Math.min(MAX_NGRAM_LENGTH, Math.max(MIN_NGRAM_LENGTH, Math.round(value)));
+
+function layerValue(token: CorpusToken, layer: NgramLayer): string {
+  switch (layer) {
+    case "text":
+      return normalizeArabicForSearch(token.text);
+    case "lemma":
+      return token.lemma;
+    case "root":
+      return token.root;
+  }
+}
+
+function groupAyahs(tokens: CorpusToken[]): CorpusToken[][] {
+  const ayahs: CorpusToken[][] = [];
+  let current: CorpusToken[] = [];
+  for (const token of tokens) {
+    const previous = current[current.length - 1];
+    if (previous && (previous.sura !== token.sura || previous.ayah !== token.ayah)) {
+      ayahs.push(current);
+      current = [];
+    }
+    current.push(token);
+  }
+  if (current.length > 0) ayahs.push(current);
+  return ayahs.map((ayah) => [...ayah].sort((a, b) => a.position - b.position));
+}
+
+function compareResults(a: NgramResult, b: NgramResult): number {
+  return b.frequency - a.frequency || b.n - a.n || b.range - a.range || a.key.localeCompare(b.key);
+}
+
+/** Tokens are expected in corpus order, as loaded. */
+export function extractNgrams(tokens: CorpusToken[], options: NgramOptions = {}): NgramResult[] {
+  const layer = options.layer ?? "text";
+  const minN = clampLength(options.minN ?? MIN_NGRAM_LENGTH);
+  const maxN = Math.max(minN, clampLength(options.maxN ?? minN));
+  const minFrequency = Math.max(1, options.minFrequency ?? 2);
+  const position = options.position ?? "any";
+
+  const grams = new Map<string, { terms: string[]; locations: NgramLocation[] }>();
+  for (const ayah of groupAyahs(tokens)) {
+    const values = ayah.map((token) => layerValue(token, layer));
+    for (let n = minN; n <= maxN; n++) {
+      for (let start = 0; start + n <= ayah.length; start++) {
+        if (position === "ayahStart" && start !== 0) break;
+        if (position === "ayahEnd" && start + n !== ayah.length) continue;
+        const terms = values.slice(start, start + n);
+        if (terms.some((term) => !term)) continue;
+
+        const key = terms.join(" ");
+        let gram = grams.get(key);
+        if (!gram) {
+          gram = { terms, locations: [] };
+          grams.set(key, gram);
+        }
+        gram.locations.push({
+          surah: ayah[start].sura,
+          ayah: ayah[start].ayah,
+          tokenIds: ayah.slice(start, start + n).map((token) => token.id),
+        });
+      }
+    }
+  }
+
+  const tokenById = new Map(tokens.map((token) => [token.id, token]));
+  let results: NgramResult[] = [];
+  for (const [key, { terms, locations }] of grams) {
+    if (locations.length < minFrequency) continue;
+    const range = new Set(locations.map((location) => location.surah)).size;
+    if (options.minRange !== undefined && range < options.minRange) continue;
+    if (options.maxRange !== undefined && range > options.maxRange) continue;
+    results.push({
+      key,
+      terms,
+      n: terms.length,
+      frequency: locations.length,
+      range,
+      ayahCount: new Set(locations.map((location) => `${location.surah}:${location.ayah}`)).size,
+      text: locations[0].tokenIds.map((id) => tokenById.get(id)?.text ?? "").join(" "),
+      locations,
+    });
+  }
+
+  if (options.collapseSubsumed) {
+    const frequencyByKey = new Map(results.map((result) => [result.key, result.frequency]));
+    const subsumed = new Set<string>();
+    for (const result of results) {
+      if (result.n <= minN) continue;
+      for (const part of [result.terms.slice(1), result.terms.slice(0, -1)]) {
+        const key = part.join(" ");
+        if (frequencyByKey.get(key) === result.frequency) subsumed.add(key);
+      }
+    }
+    results = results.filter((result) => !subsumed.has(result.key));
+  }
+
+  return results.sort(compareResults).slice(0, options.limit ?? 200);
+}
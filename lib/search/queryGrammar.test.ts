@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { buildPhaseOneIndexes } from "@/lib/search/indexes";
+import { evaluateBooleanQuery, hasQueryOperators, parseBooleanQuery } from "@/lib/search/queryGrammar";
+import type { CorpusToken, PartOfSpeech } from "@/lib/schema/types";
+
+function makeToken(id: string, root: string, lemma: string, pos: PartOfSpeech = "N", gloss: string | null = null): CorpusToken {
+  const [sura, ayah, position] = id.split(":").map(Number);
+  return {
+    id,
+    sura,
+    ayah,
+    position,
+    text: lemma,
+    root,
+    lemma,
+    pos,
+    morphology: { features: {}, gloss, stem: null },
+  };
+}
+
+const tokens: CorpusToken[] = [
+  makeToken("1:1:1", "رحم", "رحمة"),
+  makeToken("1:1:2", "كتب", "كتاب"),
+  makeToken("1:1:3", "غفر", "غفور", "ADJ", "forgiving"),
+  makeToken("1:2:1", "رحم", "رحيم", "ADJ"),
+  makeToken("1:2:2", "علم", "علم"),
+  makeToken("1:2:3", "قول", "قال", "V"),
+  makeToken("1:2:4", "سمع", "سمع", "V"),
+  makeToken("1:2:5", "غفر", "غفر", "V"),
+  makeToken("2:1:1", "قول", "قال", "V"),
+  makeToken("2:1:2", "غفر", "غفور", "ADJ"),
+];
+const index = buildPhaseOneIndexes(tokens);
+const byId = new Map(tokens.map((token) => [token.id, token]));
+
+function run(query: string): string[] {
+  const { node, error } = parseBooleanQuery(query);
+  expect(error).toBeNull();
+  return evaluateBooleanQuery(node!, index, byId);
+}
+
+describe("parseBooleanQuery", () => {
+  it("detects operator syntax", () => {
+    expect(hasQueryOperators("root:رحم pos:N")).toBe(false);
+    expect(hasQueryOperators("root:رحم NEAR/3 root:غفر")).toBe(true);
+    expect(hasQueryOperators('"بسم الله"')).toBe(true);
+    expect(hasQueryOperators("root:رحم OR root:غفر")).toBe(true);
+  });
+
+  it("binds NOT tighter than NEAR, NEAR tighter than AND, AND tighter than OR", () => {
+    const { node } = parseBooleanQuery("root:a OR root:b AND NOT root:c NEAR/2 root:d");
+    expect(node).toEqual({
+      type: "or",
+      children: [
+        { type: "pattern", terms: ["root:a"] },
+        {
+          type: "and",
+          children: [
+            { type: "pattern", terms: ["root:b"] },
+            {
+              type: "near",
+              left: { type: "not", child: { type: "pattern", terms: ["root:c"] } },
+              right: { type: "pattern", terms: ["root:d"] },
+              distance: 2,
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("reports syntax errors instead of throwing", () => {
+    expect(parseBooleanQuery("(root:a OR root:b").error).toBe("Missing closing parenthesis");
+    expect(parseBooleanQuery('"root:a').error).toBe("Unclosed quote");
+    expect(parseBooleanQuery("root:a OR").error).toBe("Query ends unexpectedly");
+  });
+});
+
+describe("evaluateBooleanQuery", () => {
+  it("keeps same-token constraints inside a pattern", () => {
+    expect(run("(root:رحم pos:ADJ)")).toEqual(["1:2:1"]);
+  });
+
+  it("combines patterns at ayah scope with AND, OR and NOT", () => {
+    expect(run("root:رحم AND root:غفر")).toEqual(["1:1:1", "1:1:3", "1:2:1", "1:2:5"]);
+    expect(run("root:كتب OR root:قول")).toEqual(["1:1:2", "1:2:3", "2:1:1"]);
+    expect(run("root:غفر AND NOT root:رحم")).toEqual(["2:1:2"]);
+  });
+
+  it("matches terms within a word distance using NEAR/n", () => {
+    expect(run("root:رحم NEAR/2 root:غفر")).toEqual(["1:1:1", "1:1:3"]);
+    expect(run("root:رحم NEAR/4 root:غفر")).toEqual(["1:1:1", "1:1:3", "1:2:1", "1:2:5"]);
+  });
+
+  it("matches quoted phrases on consecutive words", () => {
+    expect(run('"root:قول root:غفر"')).toEqual(["2:1:1", "2:1:2"]);
+    expect(run('"root:قول root:سمع" OR "رحمة كتاب"')).toEqual(["1:1:1", "1:1:2", "1:2:3", "1:2:4"]);
+  });
+
+  it("supports gloss terms when tokens are available", () => {
+    expect(run("(gloss:forgiving) OR root:كتب")).toEqual(["1:1:2", "1:1:3"]);
+  });
+
+  it("restricts gloss@lang: terms to one language", () => {
+    const glossed = new Map(byId).set("1:2:1", { ...byId.get("1:2:1")!, glosses: { tr: "merhametli" } });
+    const evaluate = (query: string) => evaluateBooleanQuery(parseBooleanQuery(query).node!, index, glossed);
+
+    expect(evaluate("(gloss@tr:merhamet) OR root:كتب")).toEqual(["1:1:2", "1:2:1"]);
+    expect(evaluate("(gloss:merhamet)")).toEqual(["1:2:1"]);
+    expect(evaluate("(gloss@en:merhamet)")).toEqual([]);
+    expect(evaluate("(gloss@ar:غفور) AND pos:ADJ")).toEqual(["1:1:3", "2:1:2"]);
+  });
+});
@@ -0,0 +1,398 @@
+import type { CorpusToken } from "@/lib/schema/types";
+import { queryPhaseOne, type PhaseOneIndexes } from "@/lib/search/indexes";
+import { parseSearchQuery } from "@/lib/search/queryParser";
+import { normalizeGlossForSearch } from "@/lib/search/arabicNormalize";
+import { searchableGlosses } from "@/lib/corpus/translations";
+
+/**
+ * Boolean / proximity query language layered over the field syntax of
+ * `parseSearchQuery`:
+ *
+ *   root:رحم NEAR/3 root:غفر
+ *   (lemma:موسى OR lemma:هارون) AND NOT pos:V
+ *   "بسم الله" OR root:سمو pos:N
+ *
+ * Adjacent terms without an operator form one token pattern (every constraint
+ * applies to the same token, as in the plain field syntax). AND, OR and NOT
+ * combine patterns at ayah scope; NEAR/n matches two patterns at most n word
+ * positions apart within an ayah; quoted phrases match consecutive words.
+ * Precedence, tightest first: NOT, NEAR, AND (explicit or implicit), OR.
+ */
+export type QueryNode =
+  | { type: "pattern"; terms: string[] }
+  | { type: "phrase"; patterns: string[][] }
+  | { type: "not"; child: QueryNode }
+  | { type: "near"; left: QueryNode; right: QueryNode; distance: number }
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] };
+
+export interface QueryParseResult {
+  node: QueryNode | null;
+  error: string | null;
+}
+
+type LexToken =
+  | { kind: "word"; value: string }
+  | { kind: "phrase"; value: string }
+  | { kind: "lparen" | "rparen" | "and" | "or" | "not" }
+  | { kind: "near"; distance: number };
+
+const OPERATOR_PATTERN = /(^|\s)(AND|OR|NOT|&&|\|\||NEAR\/\d+)(?=\s|$)|[()"]/;
+const NEAR_PATTERN = /^NEAR\/(\d+)$/;
+
+/** True when the query uses boolean, proximity, grouping or phrase syntax. */
+export function hasQueryOperators(rawInput: string): boolean {
+  return OPERATOR_PATTERN.test(rawInput);
+}
+
+function lex(input: string): LexToken[] {
+  const tokens: LexToken[] = [];
+  let idx = 0;
+
+  while (idx < input.length) {
+    const ch = input[idx];
+    if (/\s/.test(ch)) {
+      idx++;
+      continue;
+    }
+    if (ch === "(" || ch === ")") {
+      tokens.push({ kind: ch === "(" ? "lparen" : "rparen" });
+      idx++;
+      continue;
+    }
+    if (ch === '"') {
+      const end = input.indexOf('"', idx + 1);
+      if (end < 0) throw new Error("Unclosed quote");
+      tokens.push({ kind: "phrase", value: input.slice(idx + 1, end).trim() });
+      idx = end + 1;
+      continue;
+    }
+
+    let end = idx;
+    while (end < input.length && !/[\s()"]/.test(input[end])) end++;
+    const word = input.slice(idx, end);
+    idx = end;
+
+    const near = word.match(NEAR_PATTERN);
+    if (word === "AND" || word === "&&") tokens.push({ kind: "and" });
+    else if (word === "OR" || word === "||") tokens.push({ kind: "or" });
+    else if (word === "NOT") tokens.push({ kind: "not" });
+    else if (near) tokens.push({ kind: "near", distance: Number(near[1]) });
+    else tokens.push({ kind: "word", value: word });
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private idx = 0;
+
+  constructor(private readonly tokens: LexToken[]) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    if (this.idx < this.tokens.length) {
+      throw new Error(`Unexpected "${this.describe(this.tokens[this.idx])}"`);
+    }
+    return node;
+  }
+
+  private peek(): LexToken | undefined {
+    return this.tokens[this.idx];
+  }
+
+  private describe(token: LexToken): string {
+    if (token.kind === "word" || token.kind === "phrase") return token.value;
+    if (token.kind === "near") return `NEAR/${token.distance}`;
+    if (token.kind === "lparen") return "(";
+    if (token.kind === "rparen") return ")";
+    return token.kind.toUpperCase();
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.kind === "or") {
+      this.idx++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseNear()];
+    for (;;) {
+      const next = this.peek();
+      if (next?.kind === "and") {
+        this.idx++;
+        children.push(this.parseNear());
+        continue;
+      }
+      // Adjacent operands without an operator are ANDed, e.g. `"بسم الله" (root:رحم OR root:غفر)`.
+      if (next && (next.kind === "lparen" || next.kind === "phrase" || next.kind === "not" || next.kind === "word")) {
+        children.push(this.parseNear());
+        continue;
+      }
+      break;
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  private parseNear(): QueryNode {
+    let left = this.parseUnary();
+    for (;;) {
+      const next = this.peek();
+      if (next?.kind !== "near") break;
+      this.idx++;
+      left = { type: "near", left, right: this.parseUnary(), distance: next.distance };
+    }
+    return left;
+  }
+
+  private parseUnary(): QueryNode {
+    if (this.peek()?.kind === "not") {
+      this.idx++;
+      return { type: "not", child: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+    if (!token) throw new Error("Query ends unexpectedly");
+
+    if (token.kind === "lparen") {
+      this.idx++;
+      const node = this.parseOr();
+      if (this.peek()?.kind !== "rparen") throw new Error("Missing closing parenthesis");
+      this.idx++;
+      return node;
+    }
+
+    if (token.kind === "phrase") {
+      this.idx++;
+      const words = token.value.split(/\s+/).filter(Boolean);
+      if (words.length === 0) throw new Error("Empty phrase");
+      return { type: "phrase", patterns: words.map((word) => [word]) };
+    }
+
+    if (token.kind === "word") {
+      const terms: string[] = [];
+      while (this.peek()?.kind === "word") {
+        terms.push((this.tokens[this.idx] as { value: string }).value);
+        this.idx++;
+      }
+      return { type: "pattern", terms };
+    }
+
+    throw new Error(`Unexpected "${this.describe(token)}"`);
+  }
+}
+
+export function parseBooleanQuery(rawInput: string): QueryParseResult {
+  const raw = rawInput.trim();
+  if (!raw) return { node: null, error: null };
+
+  try {
+    return { node: new Parser(lex(raw)).parse(), error: null };
+  } catch (error) {
+    return { node: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// ── Evaluation ───────────────────────────────────────────────────────────────
+
+// Matches per ayah: ayahId → token ids that satisfied the query inside it.
+type AyahHits = Map<string, Set<string>>;
+
+interface TokenLocation {
+  ayahId: string;
+  position: number;
+}
+
+const TOKEN_ID_PATTERN = /^(\d+):(\d+):(\d+)$/;
+
+function locate(tokenId: string): TokenLocation | null {
+  const match = tokenId.match(TOKEN_ID_PATTERN);
+  if (!match) return null;
+  return { ayahId: `${match[1]}:${match[2]}`, position: Number(match[3]) };
+}
+
+function intersect(a: Set<string>, b: Set<string>): Set<string> {
+  const out = new Set<string>();
+  for (const id of a) if (b.has(id)) out.add(id);
+  return out;
+}
+
+function groupByAyah(tokenIds: Iterable<string>): AyahHits {
+  const hits: AyahHits = new Map();
+  for (const tokenId of tokenIds) {
+    const location = locate(tokenId);
+    if (!location) continue;
+    const bucket = hits.get(location.ayahId);
+    if (bucket) bucket.add(tokenId);
+    else hits.set(location.ayahId, new Set([tokenId]));
+  }
+  return hits;
+}
+
+function evaluatePattern(
+  terms: string[],
+  index: PhaseOneIndexes,
+  byId?: Map<string, CorpusToken>
+): Set<string> {
+  const parsed = parseSearchQuery(terms.join(" "));
+  const constraints: Set<string>[] = [];
+
+  if (parsed.invalidScopes?.length) return new Set<string>();
+
+  if (
+    parsed.root || parsed.lemma || parsed.pos || parsed.posDetailed || parsed.segment || parsed.ayah ||
+    parsed.features?.length || parsed.scopes?.length
+  ) {
+    constraints.push(
+      queryPhaseOne(index, {
+        root: parsed.root,
+        lemma: parsed.lemma,
+        pos: parsed.pos,
+        posDetailed: parsed.posDetailed,
+        segment: parsed.segment,
+        features: parsed.features,
+        ayah: parsed.ayah,
+        scopes: parsed.scopes,
+      })
+    );
+  }
+
+  // Bare words and text: match a root, lemma or surface form.
+  const words = [...(parsed.freeText ? parsed.freeText.split(/\s+/) : []), ...(parsed.text ? [parsed.text] : [])];
+  for (const word of words) {
+    constraints.push(
+      new Set([...queryPhaseOne(index, { root: word }), ...queryPhaseOne(index, { lemma: word })])
+    );
+  }
+
+  if (parsed.gloss && byId) {
+    const needle = normalizeGlossForSearch(parsed.gloss);
+    const matches = new Set<string>();
+    for (const [id, token] of byId) {
+      if (searchableGlosses(token, parsed.glossLanguage).some((gloss) => normalizeGlossForSearch(gloss).includes(needle))) {
+        matches.add(id);
+      }
+    }
+    constraints.push(matches);
+  }
+
+  if (constraints.length === 0) return new Set();
+  return constraints.reduce((acc, next) => intersect(acc, next));
+}
+
+function evaluateNode(node: QueryNode, index: PhaseOneIndexes, byId?: Map<string, CorpusToken>): AyahHits {
+  switch (node.type) {
+    case "pattern":
+      return groupByAyah(evaluatePattern(node.terms, index, byId));
+
+    case "phrase": {
+      const positionSets = node.patterns.map((terms) => evaluatePattern(terms, index, byId));
+      const hits: AyahHits = new Map();
+      for (const startId of positionSets[0]) {
+        const start = locate(startId);
+        if (!start) continue;
+        const sequence = [startId];
+        for (let offset = 1; offset < positionSets.length; offset++) {
+          const nextId = `${start.ayahId}:${start.position + offset}`;
+          if (!positionSets[offset].has(nextId)) break;
+          sequence.push(nextId);
+        }
+        if (sequence.length !== positionSets.length) continue;
+        const bucket = hits.get(start.ayahId) ?? new Set<string>();
+        sequence.forEach((id) => bucket.add(id));
+        hits.set(start.ayahId, bucket);
+      }
+      return hits;
+    }
+
+    case "not": {
+      const excluded = evaluateNode(node.child, index, byId);
+      const hits: AyahHits = new Map();
+      for (const ayahId of index.ayah.keys()) {
+        if (!excluded.has(ayahId)) hits.set(ayahId, new Set());
+      }
+      return hits;
+    }
+
+    case "near": {
+      const left = evaluateNode(node.left, index, byId);
+      const right = evaluateNode(node.right, index, byId);
+      const hits: AyahHits = new Map();
+      for (const [ayahId, leftIds] of left) {
+        const rightIds = right.get(ayahId);
+        if (!rightIds) continue;
+        const bucket = new Set<string>();
+        for (const leftId of leftIds) {
+          const leftPos = locate(leftId)?.position ?? 0;
+          for (const rightId of rightIds) {
+            if (rightId === leftId) continue;
+            const rightPos = locate(rightId)?.position ?? 0;
+            if (Math.abs(rightPos - leftPos) <= node.distance) {
+              bucket.add(leftId);
+              bucket.add(rightId);
+            }
+          }
+        }
+        if (bucket.size > 0) hits.set(ayahId, bucket);
+      }
+      return hits;
+    }
+
+    case "and": {
+      const [first, ...rest] = node.children.map((child) => evaluateNode(child, index, byId));
+      const hits: AyahHits = new Map();
+      for (const [ayahId, ids] of first) {
+        if (!rest.every((other) => other.has(ayahId))) continue;
+        const bucket = new Set(ids);
+        rest.forEach((other) => other.get(ayahId)!.forEach((id) => bucket.add(id)));
+        hits.set(ayahId, bucket);
+      }
+      return hits;
+    }
+
+    case "or": {
+      const hits: AyahHits = new Map();
+      for (const child of node.children) {
+        for (const [ayahId, ids] of evaluateNode(child, index, byId)) {
+          const bucket = hits.get(ayahId) ?? new Set<string>();
+          ids.forEach((id) => bucket.add(id));
+          hits.set(ayahId, bucket);
+        }
+      }
+      return hits;
+    }
+  }
+}
+
+/**
+ * Evaluates a parsed query and returns matching token ids in corpus order.
+ * Ayahs matched only through NOT contribute their first token.
+ * Pass `byId` to enable `gloss:` and `gloss@lang:` terms.
+ */
+export function evaluateBooleanQuery(
+  node: QueryNode,
+  index: PhaseOneIndexes,
+  byId?: Map<string, CorpusToken>
+): string[] {
+  const hits = evaluateNode(node, index, byId);
+  const tokenIds: string[] = [];
+
+  for (const [ayahId, ids] of hits) {
+    if (ids.size > 0) tokenIds.push(...ids);
+    else {
+      const first = index.ayah.get(ayahId)?.[0];
+      if (first) tokenIds.push(first);
+    }
+  }
+
+  return tokenIds
+    .map((id) => ({ id, parts: id.split(":").map(Number) }))
+    .sort((a, b) => a.parts[0] - b.parts[0] || a.parts[1] - b.parts[1] || a.parts[2] - b.parts[2])
+    .map((entry) => entry.id);
+}
@@ -21,5 +21,49 @@ describe("queryParser", () => {
     expect(parsed.lemma).toBe("تسعى");
     expect(parsed.pos).toBe("V");
   });
-});
 
+  it("keeps detailed corpus tags from pos: when they are not coarse aliases", () => {
+    expect(parseSearchQuery("pos:PN").posDetailed).toBe("PN");
+    expect(parseSearchQuery("pos:cond").posDetailed).toBe("COND");
+    expect(parseSearchQuery("pos:pron").pos).toBe("PRON");
+    expect(parseSearchQuery("pos:pron").posDetailed).toBeUndefined();
+    expect(parseSearchQuery("pos:unknown").posDetailed).toBeUndefined();
+  });
+
+  it("parses role-qualified segment filters", () => {
+    const parsed = parseSearchQuery("seg:prefix:CONJ root:قول");
+    expect(parsed.segment).toBe("prefix:CONJ");
+    expect(parsed.root).toBe("قول");
+  });
+
+  it("parses range scopes and keeps single ayah references exact", () => {
+    const parsed = parseSearchQuery("root:رحم ayah:2:1-20 surah:2-9 juz:30 page:1-10");
+    expect(parsed.root).toBe("رحم");
+    expect(parsed.ayah).toBeUndefined();
+    expect(parsed.scopes).toEqual([
+      { kind: "ayah", from: { surah: 2, ayah: 1 }, to: { surah: 2, ayah: 20 } },
+      { kind: "surah", from: 2, to: 9 },
+      { kind: "juz", from: 30, to: 30 },
+      { kind: "page", from: 1, to: 10 },
+    ]);
+    expect(parseSearchQuery("ayah:2:255").ayah).toBe("2:255");
+  });
+
+  it("records out-of-range scopes as invalid", () => {
+    const parsed = parseSearchQuery("juz:31 surah:9-2");
+    expect(parsed.scopes).toBeUndefined();
+    expect(parsed.invalidScopes).toEqual(["juz:31", "surah:9-2"]);
+  });
+
+  it("collects feat: terms and named feature shortcuts", () => {
+    const parsed = parseSearchQuery("pos:v voice:pass form:X gen:f feat:PCPL");
+    expect(parsed.pos).toBe("V");
+    expect(parsed.features).toEqual(["voice:pass", "form:X", "gender:f", "PCPL"]);
+  });
+
+  it("reads the language of gloss@lang: terms", () => {
+    expect(parseSearchQuery("gloss@UR:رحمت root:رحم")).toMatchObject({ gloss: "رحمت", glossLanguage: "ur", root: "رحم" });
+    expect(parseSearchQuery("g:mercy").glossLanguage).toBeUndefined();
+    expect(parseSearchQuery("root@ur:رحم").freeText).toBe("root@ur:رحم");
+  });
+});
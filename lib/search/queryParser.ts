@@ -1,4 +1,7 @@
 import type { PartOfSpeech } from "@/lib/schema/types";
+import { isDetailedPosTag } from "@/lib/schema/posTagset";
+import { parseScopeValue, type SearchScope, type SearchScopeKind } from "@/lib/search/searchScope";
+import type { FeatureDimension } from "@/lib/schema/morphFeatures";
 
 export interface ParsedSearchQuery {
   raw: string;
@@ -6,9 +9,22 @@ export interface ParsedSearchQuery {
   root?: string;
   lemma?: string;
   pos?: PartOfSpeech;
+  // Fine-grained corpus tag from `pos:` when it is not a coarse alias (e.g. pos:PN, pos:COND).
+  posDetailed?: string;
+  // Segment tag, optionally role-qualified: "DET", "prefix:CONJ", "suffix:PRON".
+  segment?: string;
+  // Morphological feature terms from feat: and the named shortcuts, e.g.
+  // "voice:pass", "form:X", "gender:f", or a bare flag such as "PCPL".
+  features?: string[];
   ayah?: string;
   text?: string;
   gloss?: string;
+  // Language of the gloss term from `gloss@ur:`; a bare `gloss:` searches every loaded language.
+  glossLanguage?: string;
+  // Passage ranges from ayah:2:1-20, surah:2-9, juz:30, page:1-10; all must hold.
+  scopes?: SearchScope[];
+  // Range chunks that failed to parse (e.g. juz:31); such a query matches nothing.
+  invalidScopes?: string[];
 }
 
 const POS_ALIASES: Record<string, PartOfSpeech> = {
@@ -24,13 +40,45 @@ const POS_ALIASES: Record<string, PartOfSpeech> = {
   pronoun: "PRON",
 };
 
-const FIELD_ALIASES: Record<string, keyof Omit<ParsedSearchQuery, "raw" | "freeText">> = {
+const SCOPE_ALIASES: Record<string, Exclude<SearchScopeKind, "ayah">> = {
+  surah: "surah",
+  sura: "surah",
+  s: "surah",
+  juz: "juz",
+  j: "juz",
+  page: "page",
+};
+
+const FEATURE_ALIASES: Record<string, FeatureDimension> = {
+  person: "person",
+  per: "person",
+  gender: "gender",
+  gen: "gender",
+  number: "number",
+  num: "number",
+  aspect: "aspect",
+  asp: "aspect",
+  mood: "mood",
+  voice: "voice",
+  form: "form",
+  case: "case",
+  state: "state",
+};
+
+type ParsedField = keyof Omit<
+  ParsedSearchQuery,
+  "raw" | "freeText" | "posDetailed" | "glossLanguage" | "features" | "scopes" | "invalidScopes"
+>;
+
+const FIELD_ALIASES: Record<string, ParsedField> = {
   root: "root",
   r: "root",
   lemma: "lemma",
   l: "lemma",
   pos: "pos",
   p: "pos",
+  segment: "segment",
+  seg: "segment",
   ayah: "ayah",
   a: "ayah",
   text: "text",
@@ -39,6 +87,14 @@ const FIELD_ALIASES: Record<string, keyof Omit<ParsedSearchQuery, "raw" | "freeT
   g: "gloss",
 };
 
+/** True for a range chunk such as "surah:2-9" or "ayah:2:1-20". */
+export function isScopeTerm(chunk: string): boolean {
+  const idx = chunk.indexOf(":");
+  if (idx <= 0) return false;
+  const fieldRaw = chunk.slice(0, idx).toLowerCase();
+  return Boolean(SCOPE_ALIASES[fieldRaw]) || (FIELD_ALIASES[fieldRaw] === "ayah" && chunk.includes("-"));
+}
+
 export function parseSearchQuery(rawInput: string): ParsedSearchQuery {
   const raw = rawInput.trim();
   const out: ParsedSearchQuery = { raw, freeText: "" };
@@ -57,11 +113,38 @@ export function parseSearchQuery(rawInput: string): ParsedSearchQuery {
       leftover.push(chunk);
       continue;
     }
-    const fieldRaw = chunk.slice(0, idx).toLowerCase();
     const value = chunk.slice(idx + 1).trim();
     if (!value) continue;
 
+    const [fieldRaw, language] = chunk.slice(0, idx).toLowerCase().split("@", 2);
+    if (language !== undefined) {
+      if (FIELD_ALIASES[fieldRaw] === "gloss" && /^[a-z]{2,3}$/.test(language)) {
+        out.gloss = value;
+        out.glossLanguage = language;
+      } else {
+        leftover.push(chunk);
+      }
+      continue;
+    }
+
+    const scopeKind = SCOPE_ALIASES[fieldRaw];
     const field = FIELD_ALIASES[fieldRaw];
+    if (scopeKind || (field === "ayah" && value.includes("-"))) {
+      const scope = parseScopeValue(scopeKind ?? "ayah", value);
+      if (scope) (out.scopes ??= []).push(scope);
+      else (out.invalidScopes ??= []).push(chunk);
+      continue;
+    }
+
+    if (fieldRaw === "feat" || fieldRaw === "feature") {
+      (out.features ??= []).push(value);
+      continue;
+    }
+    if (FEATURE_ALIASES[fieldRaw]) {
+      (out.features ??= []).push(`${FEATURE_ALIASES[fieldRaw]}:${value}`);
+      continue;
+    }
+
     if (!field) {
       leftover.push(chunk);
       continue;
@@ -70,6 +153,7 @@ export function parseSearchQuery(rawInput: string): ParsedSearchQuery {
     if (field === "pos") {
       const mapped = POS_ALIASES[value.toLowerCase()];
       if (mapped) out.pos = mapped;
+      else if (isDetailedPosTag(value)) out.posDetailed = value.toUpperCase();
       continue;
     }
 
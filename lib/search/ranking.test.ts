@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { gradeMatch, paginateResults, rarityBoost, scoreMatch } from "@/lib/search/ranking";
+import { normalizeArabicForSearch, normalizeRootFamily } from "@/lib/search/arabicNormalize";
+import type { SearchResultItem } from "@/lib/search/searchTypes";
+
+const rootOptions = { normalize: normalizeArabicForSearch, family: normalizeRootFamily };
+
+function item(id: string): SearchResultItem {
+  return { id, kind: "token", title: id, actionTarget: { routeMode: "explore" } };
+}
+
+describe("ranking", () => {
+  it("grades exact, normalized and partial matches", () => {
+    expect(gradeMatch("رحم", "رحم", rootOptions)).toBe("exact");
+    expect(gradeMatch("الحمد", "ٱلْحَمْدُ", rootOptions)).toBe("normalized");
+    expect(gradeMatch("حمد", "ٱلْحَمْدُ", rootOptions)).toBe("partial");
+    expect(gradeMatch("ربب", "رحم", rootOptions)).toBeNull();
+  });
+
+  it("boosts rare items and weights match quality above rarity", () => {
+    expect(rarityBoost(1, 1000)).toBeCloseTo(1.5);
+    expect(rarityBoost(1000, 1000)).toBe(1);
+    expect(scoreMatch("root", "exact", 900, 1000)).toBeGreaterThan(scoreMatch("root", "partial", 1, 1000));
+    expect(scoreMatch("root", "exact", 2, 1000)).toBeGreaterThan(scoreMatch("root", "exact", 900, 1000));
+  });
+
+  it("pages through ranked results with opaque cursors", () => {
+    const ranked = Array.from({ length: 5 }, (_, idx) => item(`r${idx}`));
+    const first = paginateResults(ranked, null, 2);
+    expect(first.items.map((entry) => entry.id)).toEqual(["r0", "r1"]);
+    expect(first.total).toBe(5);
+
+    const last = paginateResults(ranked, paginateResults(ranked, first.nextCursor, 2).nextCursor, 2);
+    expect(last.items.map((entry) => entry.id)).toEqual(["r4"]);
+    expect(last.nextCursor).toBeNull();
+  });
+});
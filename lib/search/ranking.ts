@@ -0,0 +1,113 @@
+import type { SearchResultItem, SearchResultKind } from "@/lib/search/searchTypes";
+
+/**
+ * Relevance model shared by `searchCorpus` and the search benchmark:
+ *
+ *   score = quality weight × field weight × rarity boost
+ *
+ * Quality grades how the value matched (verbatim, after Arabic normalization,
+ * via the root family, or as a substring). The rarity boost is a normalized
+ * IDF over token counts, so a rare root outranks a frequent one with the same
+ * match quality instead of being buried under it.
+ */
+export type MatchQuality = "exact" | "normalized" | "family" | "partial";
+
+export const MATCH_QUALITY_WEIGHTS: Record<MatchQuality, number> = {
+  exact: 1,
+  normalized: 0.85,
+  family: 0.65,
+  partial: 0.4,
+};
+
+export const FIELD_WEIGHTS: Record<SearchResultKind, number> = {
+  ayah: 1.2,
+  root: 1,
+  lemma: 1,
+  token: 0.9,
+  gloss: 0.7,
+  semantic: 0.5,
+};
+
+const RARITY_WEIGHT = 0.5;
+
+export const DEFAULT_PAGE_SIZE = 24;
+
+export interface MatchQualityOptions {
+  normalize: (value: string) => string;
+  family?: (value: string) => string;
+}
+
+/** Grades a candidate value against the query; null when it does not match. */
+export function gradeMatch(query: string, value: string, options: MatchQualityOptions): MatchQuality | null {
+  if (!query || !value) return null;
+  if (value === query) return "exact";
+
+  const normalizedQuery = options.normalize(query);
+  const normalizedValue = options.normalize(value);
+  if (normalizedQuery && normalizedValue === normalizedQuery) return "normalized";
+  if (options.family && options.family(value) === options.family(query)) return "family";
+  if (value.includes(query) || (normalizedQuery && normalizedValue.includes(normalizedQuery))) return "partial";
+  return null;
+}
+
+export function bestQuality(...qualities: Array<MatchQuality | null>): MatchQuality | null {
+  let best: MatchQuality | null = null;
+  for (const quality of qualities) {
+    if (quality && (!best || MATCH_QUALITY_WEIGHTS[quality] > MATCH_QUALITY_WEIGHTS[best])) best = quality;
+  }
+  return best;
+}
+
+/** 1 for the most frequent item, up to 1 + RARITY_WEIGHT for a hapax. */
+export function rarityBoost(documentFrequency: number, corpusSize: number): number {
+  if (corpusSize <= 1 || documentFrequency <= 0) return 1;
+  const idf = Math.log(corpusSize / Math.min(documentFrequency, corpusSize)) / Math.log(corpusSize);
+  return 1 + RARITY_WEIGHT * idf;
+}
+
+export function scoreMatch(
+  kind: SearchResultKind,
+  quality: MatchQuality,
+  documentFrequency: number,
+  corpusSize: number
+): number {
+  return MATCH_QUALITY_WEIGHTS[quality] * FIELD_WEIGHTS[kind] * rarityBoost(documentFrequency, corpusSize);
+}
+
+/** Highest score first; ties fall back to corpus order. */
+export function compareRankedResults(a: SearchResultItem, b: SearchResultItem): number {
+  const scoreDelta = (b.score ?? 0) - (a.score ?? 0);
+  if (scoreDelta !== 0) return scoreDelta;
+  const aLoc = a.location;
+  const bLoc = b.location;
+  if (!aLoc || !bLoc) return 0;
+  return aLoc.surah - bLoc.surah || (aLoc.ayah ?? 0) - (bLoc.ayah ?? 0);
+}
+
+export interface SearchResultPage {
+  items: SearchResultItem[];
+  // Pass back to fetch the following page; null on the last page.
+  nextCursor: string | null;
+  total: number;
+}
+
+function decodeCursor(cursor: string | null | undefined): number {
+  if (!cursor) return 0;
+  const offset = Number.parseInt(cursor, 36);
+  return Number.isFinite(offset) && offset > 0 ? offset : 0;
+}
+
+/** Cursors encode the offset into a ranked list; they are only valid for the same query. */
+export function paginateResults(
+  ranked: SearchResultItem[],
+  cursor?: string | null,
+  limit = DEFAULT_PAGE_SIZE
+): SearchResultPage {
+  const offset = decodeCursor(cursor);
+  const end = offset + limit;
+  return {
+    items: ranked.slice(offset, end),
+    nextCursor: end < ranked.length ? end.toString(36) : null,
+    total: ranked.length,
+  };
+}
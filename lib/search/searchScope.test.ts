@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { ayahInScope, formatScopeRange, parseScopeValue } from "@/lib/search/searchScope";
+
+describe("searchScope", () => {
+  it("parses ayah ranges within and across surahs", () => {
+    expect(parseScopeValue("ayah", "2:250-3:10")).toEqual({
+      kind: "ayah",
+      from: { surah: 2, ayah: 250 },
+      to: { surah: 3, ayah: 10 },
+    });
+    expect(parseScopeValue("ayah", "2:20-1")).toBeNull();
+    expect(parseScopeValue("page", "605")).toBeNull();
+  });
+
+  it("tests ayahs against surah, ayah and juz scopes", () => {
+    const crossSurah = parseScopeValue("ayah", "2:250-3:10")!;
+    expect(ayahInScope(crossSurah, 2, 286)).toBe(true);
+    expect(ayahInScope(crossSurah, 3, 11)).toBe(false);
+
+    const juz = parseScopeValue("juz", "2")!;
+    expect(ayahInScope(juz, 2, 141)).toBe(false);
+    expect(ayahInScope(juz, 2, 142)).toBe(true);
+    expect(ayahInScope(juz, 2, 253)).toBe(false);
+    expect(ayahInScope(parseScopeValue("juz", "30")!, 114, 6)).toBe(true);
+  });
+
+  it("matches page scopes only when page metadata is available", () => {
+    const scope = parseScopeValue("page", "1-2")!;
+    expect(ayahInScope(scope, 1, 1)).toBe(false);
+    expect(ayahInScope(scope, 1, 1, new Map([["1:1", 1]]))).toBe(true);
+  });
+
+  it("formats compact range labels", () => {
+    expect(formatScopeRange(parseScopeValue("ayah", "2:1-20")!)).toBe("2:1–20");
+    expect(formatScopeRange(parseScopeValue("surah", "2-9")!)).toBe("2–9");
+    expect(formatScopeRange(parseScopeValue("juz", "30")!)).toBe("30");
+  });
+});
@@ -0,0 +1,88 @@
+import { JUZ_COUNT, getJuzForAyah } from "@/lib/data/juzData";
+
+/**
+ * Passage restriction parsed from `ayah:`, `surah:`, `juz:` or `page:` range
+ * values. Bounds are inclusive; ayah scopes may cross surahs (ayah:2:250-3:10).
+ */
+export type SearchScope =
+  | { kind: "ayah"; from: { surah: number; ayah: number }; to: { surah: number; ayah: number } }
+  | { kind: "surah" | "juz" | "page"; from: number; to: number };
+
+export type SearchScopeKind = SearchScope["kind"];
+
+const SURAH_COUNT = 114;
+const PAGE_COUNT = 604;
+
+const UPPER_BOUNDS: Record<Exclude<SearchScopeKind, "ayah">, number> = {
+  surah: SURAH_COUNT,
+  juz: JUZ_COUNT,
+  page: PAGE_COUNT,
+};
+
+function parseNumberRange(value: string, max: number): { from: number; to: number } | null {
+  const match = value.match(/^(\d+)(?:-(\d+))?$/);
+  if (!match) return null;
+  const from = Number(match[1]);
+  const to = match[2] ? Number(match[2]) : from;
+  if (from < 1 || to < from || to > max) return null;
+  return { from, to };
+}
+
+/**
+ * Parses a scope value for the given field. Returns null for malformed or
+ * out-of-range values. For `ayah`, only ranges are scopes; a single `S:A`
+ * stays an exact reference handled by the ayah index.
+ */
+export function parseScopeValue(kind: SearchScopeKind, value: string): SearchScope | null {
+  if (kind !== "ayah") {
+    const range = parseNumberRange(value, UPPER_BOUNDS[kind]);
+    return range ? { kind, ...range } : null;
+  }
+
+  const match = value.match(/^(\d+):(\d+)-(?:(\d+):)?(\d+)$/);
+  if (!match) return null;
+  const from = { surah: Number(match[1]), ayah: Number(match[2]) };
+  const to = { surah: match[3] ? Number(match[3]) : from.surah, ayah: Number(match[4]) };
+  if (from.surah < 1 || to.surah > SURAH_COUNT || from.ayah < 1 || to.ayah < 1) return null;
+  if (to.surah < from.surah || (to.surah === from.surah && to.ayah < from.ayah)) return null;
+  return { kind, from, to };
+}
+
+/**
+ * Tests one ayah against a scope. Page scopes need `ayahPages` (ayah id →
+ * mushaf page); without it they match nothing.
+ */
+export function ayahInScope(
+  scope: SearchScope,
+  surah: number,
+  ayah: number,
+  ayahPages?: Map<string, number>
+): boolean {
+  switch (scope.kind) {
+    case "ayah": {
+      const afterStart = surah > scope.from.surah || (surah === scope.from.surah && ayah >= scope.from.ayah);
+      const beforeEnd = surah < scope.to.surah || (surah === scope.to.surah && ayah <= scope.to.ayah);
+      return afterStart && beforeEnd;
+    }
+    case "surah":
+      return surah >= scope.from && surah <= scope.to;
+    case "juz": {
+      const juz = getJuzForAyah(surah, ayah);
+      return juz >= scope.from && juz <= scope.to;
+    }
+    case "page": {
+      const page = ayahPages?.get(`${surah}:${ayah}`);
+      return page !== undefined && page >= scope.from && page <= scope.to;
+    }
+  }
+}
+
+/** Compact range label without the field name, e.g. "2:1–20", "2–9", "30". */
+export function formatScopeRange(scope: SearchScope): string {
+  if (scope.kind === "ayah") {
+    const start = `${scope.from.surah}:${scope.from.ayah}`;
+    const end = scope.to.surah === scope.from.surah ? `${scope.to.ayah}` : `${scope.to.surah}:${scope.to.ayah}`;
+    return start === `${scope.to.surah}:${scope.to.ayah}` ? start : `${start}–${end}`;
+  }
+  return scope.from === scope.to ? `${scope.from}` : `${scope.from}–${scope.to}`;
+}
@@ -1,5 +1,16 @@
 import { describe, expect, it } from "vitest";
-import { buildSearchCatalog, groupSearchResults, searchCorpus } from "@/lib/search/searchService";
+import {
+  buildSearchCatalog,
+  buildSemanticSearchIndex,
+  collectSearchHits,
+  groupSearchResults,
+  rankSearchHits,
+  rankSearchResults,
+  searchCorpus,
+  searchCorpusPage,
+  searchSemantic,
+} from "@/lib/search/searchService";
+import { createLocalEmbeddingProvider } from "@/lib/search/embeddings";
 import type { CorpusToken } from "@/lib/schema/types";
 
 const TOKENS: CorpusToken[] = [
@@ -49,10 +60,80 @@ describe("searchService", () => {
     expect(results.some((entry) => entry.kind === "ayah")).toBe(true);
   });
 
+  it("returns one result per ayah for boolean queries", () => {
+    const results = searchCorpus(TOKENS, catalog, "root:حمد OR root:ربب");
+    expect(results.map((entry) => entry.location?.tokenId)).toEqual(["1:1:1", "1:2:1"]);
+    expect(results[0]?.subtitle).toBe("1:1 · 1 match");
+    expect(searchCorpus(TOKENS, catalog, "root:حمد AND root:ربب")).toEqual([]);
+  });
+
+  it("restricts matches to range scopes", () => {
+    expect(searchCorpus(TOKENS, catalog, "root:ربب ayah:1:2-7").map((entry) => entry.location?.tokenId)).toEqual(["1:2:1"]);
+    expect(searchCorpus(TOKENS, catalog, "root:ربب ayah:1:3-7")).toEqual([]);
+    expect(searchCorpus(TOKENS, catalog, "surah:1").map((entry) => entry.subtitle)).toEqual(["1:1", "1:2"]);
+    expect(searchCorpus(TOKENS, catalog, "juz:31")).toEqual([]);
+  });
+
+  it("collects every hit in corpus order for concordances", () => {
+    expect(collectSearchHits(TOKENS, catalog, "surah:1").map((token) => token.id)).toEqual(["1:1:1", "1:2:1"]);
+    expect(collectSearchHits(TOKENS, catalog, "lord").map((token) => token.id)).toEqual(["1:2:1"]);
+    expect(collectSearchHits(TOKENS, catalog, "root:حمد OR root:ربب")).toHaveLength(2);
+  });
+
+  it("ranks by match quality before rarity and pages past the first 24", () => {
+    const many: CorpusToken[] = Array.from({ length: 30 }, (_, idx) => ({
+      ...TOKENS[1],
+      id: `2:${idx + 1}:1`,
+      sura: 2,
+      ayah: idx + 1,
+    }));
+    const rare = { ...TOKENS[0], id: "3:1:1", sura: 3, ayah: 1, root: "ربح", lemma: "ربح", text: "رَبِحَتْ" };
+    const corpus = [...many, rare];
+    const manyCatalog = buildSearchCatalog(corpus);
+
+    const ranked = rankSearchResults(corpus, manyCatalog, "رب");
+    expect(ranked[0]).toMatchObject({ kind: "lemma", relevanceLabel: "exact" });
+    expect(ranked.findIndex((entry) => entry.matchedRoot === "ربح")).toBeGreaterThan(0);
+    expect(rankSearchHits(corpus, manyCatalog, "رب")[0]?.id).toBe("2:1:1");
+
+    const first = searchCorpusPage(corpus, manyCatalog, "pos:n");
+    expect(first.items).toHaveLength(24);
+    expect(first.total).toBe(31);
+    const second = searchCorpusPage(corpus, manyCatalog, "pos:n", { cursor: first.nextCursor });
+    expect(second.items).toHaveLength(7);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("searches glosses per language with gloss@lang:", () => {
+    const glossed = TOKENS.map((token) =>
+      token.id === "1:2:1" ? { ...token, glosses: { ur: "رب", tr: "Rabbi" } } : token
+    );
+    const glossCatalog = buildSearchCatalog(glossed);
+
+    const results = rankSearchResults(glossed, glossCatalog, "gloss@tr:rabbi");
+    expect(results.map((result) => [result.kind, result.subtitle, result.relevanceLabel])).toEqual([
+      ["gloss", "Rabbi", "exact"],
+    ]);
+    expect(rankSearchResults(glossed, glossCatalog, "gloss@ur:rabbi")).toEqual([]);
+    expect(collectSearchHits(glossed, glossCatalog, "gloss:rabbi").map((token) => token.id)).toEqual(["1:2:1"]);
+    expect(collectSearchHits(glossed, glossCatalog, "gloss:praise").map((token) => token.id)).toEqual(["1:1:1"]);
+    expect(rankSearchHits(glossed, glossCatalog, "gloss@en:lord").map((token) => token.id)).toEqual(["1:2:1"]);
+  });
+
   it("groups results by result kind", () => {
     const results = searchCorpus(TOKENS, catalog, "رب");
     const groups = groupSearchResults(results);
     expect(groups[0]?.kind).toBeDefined();
     expect(groups.flatMap((group) => group.items).length).toBe(results.length);
   });
+
+  it("answers free text with semantic root matches from local embeddings", () => {
+    const semantic = buildSemanticSearchIndex(createLocalEmbeddingProvider(TOKENS));
+    const results = searchSemantic(catalog, semantic, "praise");
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ kind: "semantic", matchedRoot: "حمد", location: { tokenId: "1:1:1" } });
+    expect(results[0].score).toBeGreaterThan(0);
+    expect(searchSemantic(catalog, semantic, "root:حمد")).toEqual([]);
+    expect(searchSemantic(catalog, semantic, "1:2")).toEqual([]);
+  });
 });
@@ -1,8 +1,22 @@
 import type { CorpusToken } from "@/lib/schema/types";
-import { buildPhaseOneIndexes, queryPhaseOne } from "@/lib/search/indexes";
-import { normalizeArabicForSearch } from "@/lib/search/arabicNormalize";
-import { parseSearchQuery } from "@/lib/search/queryParser";
+import { buildPhaseOneIndexes, queryPhaseOne, type PhaseOneIndexOptions } from "@/lib/search/indexes";
+import { normalizeArabicForSearch, normalizeGlossForSearch, normalizeRootFamily } from "@/lib/search/arabicNormalize";
+import { searchableGlosses, tokenGloss } from "@/lib/corpus/translations";
+import { parseSearchQuery, type ParsedSearchQuery } from "@/lib/search/queryParser";
+import {
+  bestQuality,
+  compareRankedResults,
+  FIELD_WEIGHTS,
+  gradeMatch,
+  paginateResults,
+  scoreMatch,
+  type MatchQuality,
+  type SearchResultPage,
+} from "@/lib/search/ranking";
+import { evaluateBooleanQuery, hasQueryOperators, parseBooleanQuery } from "@/lib/search/queryGrammar";
 import type { SearchResultItem, SearchResultKind } from "@/lib/search/searchTypes";
+import { buildCosineIndex, searchCosineIndex, type CosineIndex } from "@/lib/search/cosineIndex";
+import type { LocalEmbeddingProvider } from "@/lib/search/embeddings";
 
 export interface SearchCatalog {
   byId: Map<string, CorpusToken>;
@@ -20,7 +34,7 @@ function pushBucket(map: Map<string, CorpusToken[]>, key: string, token: CorpusT
   map.set(key, [token]);
 }
 
-export function buildSearchCatalog(tokens: CorpusToken[]): SearchCatalog {
+export function buildSearchCatalog(tokens: CorpusToken[], options: PhaseOneIndexOptions = {}): SearchCatalog {
   const byId = new Map<string, CorpusToken>();
   const byRoot = new Map<string, CorpusToken[]>();
   const byLemma = new Map<string, CorpusToken[]>();
@@ -35,7 +49,7 @@ export function buildSearchCatalog(tokens: CorpusToken[]): SearchCatalog {
     byId,
     byRoot,
     byLemma,
-    phaseOne: buildPhaseOneIndexes(tokens),
+    phaseOne: buildPhaseOneIndexes(tokens, options),
   };
 }
 
@@ -69,100 +83,234 @@ function buildItem(token: CorpusToken, kind: SearchResultKind, subtitle: string,
   };
 }
 
+function withScore(item: SearchResultItem, score: number, quality?: MatchQuality): SearchResultItem {
+  return { ...item, score, ...(quality ? { relevanceLabel: quality } : {}) };
+}
+
 function pushUnique(items: SearchResultItem[], seen: Set<string>, item: SearchResultItem) {
   if (seen.has(item.id)) return;
   seen.add(item.id);
   items.push(item);
 }
 
-export function searchCorpus(tokens: CorpusToken[], catalog: SearchCatalog, rawQuery: string): SearchResultItem[] {
+const normalizeOptions = { normalize: normalizeArabicForSearch };
+const rootOptions = { normalize: normalizeArabicForSearch, family: normalizeRootFamily };
+
+function rootFrequency(catalog: SearchCatalog, root: string): number {
+  return catalog.byRoot.get(root)?.length ?? 0;
+}
+
+function lemmaFrequency(catalog: SearchCatalog, lemma: string): number {
+  return catalog.byLemma.get(lemma)?.length ?? 0;
+}
+
+/**
+ * Scores one hit of a field query. Root, lemma and gloss filters grade the
+ * token's value against the filter; the other fields (pos, segment, features,
+ * ayah) are exact by construction. Rarity follows the token's root, then lemma.
+ */
+function scoreFieldHit(
+  token: CorpusToken,
+  parsed: ParsedSearchQuery,
+  kind: SearchResultKind,
+  catalog: SearchCatalog
+): { score: number; quality: MatchQuality } {
+  const quality =
+    bestQuality(
+      parsed.root ? gradeMatch(parsed.root, token.root, rootOptions) : null,
+      parsed.lemma ? gradeMatch(parsed.lemma, token.lemma, normalizeOptions) : null,
+      parsed.gloss ? glossFieldQuality(token, parsed) : null
+    ) ?? (parsed.root || parsed.lemma || parsed.gloss ? "partial" : "exact");
+  const frequency = parsed.lemma && !parsed.root
+    ? lemmaFrequency(catalog, token.lemma)
+    : rootFrequency(catalog, token.root) || lemmaFrequency(catalog, token.lemma);
+  return { score: scoreMatch(kind, quality, frequency, catalog.byId.size), quality };
+}
+
+function glossQuality(gloss: string, needle: string): MatchQuality | null {
+  if (!gloss || !needle || !gloss.includes(needle)) return null;
+  if (gloss === needle) return "exact";
+  return gloss.split(/[^\p{L}\p{M}'-]+/u).includes(needle) ? "normalized" : "partial";
+}
+
+/**
+ * Best match of `query` among the token's glosses in `language`, or in every
+ * loaded language when none is given.
+ */
+function matchGloss(token: CorpusToken, query: string, language?: string): { gloss: string; quality: MatchQuality } | null {
+  const needle = normalizeGlossForSearch(query);
+  let best: { gloss: string; quality: MatchQuality } | null = null;
+  for (const gloss of searchableGlosses(token, language)) {
+    const quality = glossQuality(normalizeGlossForSearch(gloss), needle);
+    if (quality && (!best || bestQuality(best.quality, quality) !== best.quality)) best = { gloss, quality };
+  }
+  return best;
+}
+
+function glossFieldQuality(token: CorpusToken, parsed: ParsedSearchQuery): MatchQuality | null {
+  return parsed.gloss ? matchGloss(token, parsed.gloss, parsed.glossLanguage)?.quality ?? null : null;
+}
+
+function scoreFreeTextHit(token: CorpusToken, freeText: string, catalog: SearchCatalog): number {
+  const corpusSize = catalog.byId.size;
+  const candidates: number[] = [0];
+  const rootQuality = gradeMatch(freeText, token.root, rootOptions);
+  if (rootQuality) candidates.push(scoreMatch("root", rootQuality, rootFrequency(catalog, token.root), corpusSize));
+  const lemmaQuality = gradeMatch(freeText, token.lemma, normalizeOptions);
+  if (lemmaQuality) candidates.push(scoreMatch("lemma", lemmaQuality, lemmaFrequency(catalog, token.lemma), corpusSize));
+  const textQuality = gradeMatch(freeText, token.text, normalizeOptions);
+  if (textQuality) {
+    const frequency = catalog.phaseOne.textNormalized.get(normalizeArabicForSearch(token.text))?.length ?? 1;
+    candidates.push(scoreMatch("token", textQuality, frequency, corpusSize));
+  }
+  const glossMatch = matchGloss(token, freeText);
+  if (glossMatch) candidates.push(scoreMatch("gloss", glossMatch.quality, lemmaFrequency(catalog, token.lemma), corpusSize));
+  return Math.max(...candidates);
+}
+
+/**
+ * Every result for a query, ranked by relevance (see ranking.ts). Free-text
+ * queries yield one entry per matching root and lemma plus token, ayah and
+ * gloss matches; field queries yield one entry per matching token.
+ */
+export function rankSearchResults(tokens: CorpusToken[], catalog: SearchCatalog, rawQuery: string): SearchResultItem[] {
   const query = rawQuery.trim();
   if (query.length < 2) return [];
 
+  if (hasQueryOperators(query)) {
+    return searchBooleanQuery(catalog, query);
+  }
+
   const parsed = parseSearchQuery(query);
+  if (parsed.invalidScopes?.length) return [];
+
+  // Range fields (surah:2-9, juz:30, ...) restrict every kind of match below.
+  const scopeIds = parsed.scopes?.length ? queryPhaseOne(catalog.phaseOne, { scopes: parsed.scopes }) : null;
+  const inScope = (token: CorpusToken) => !scopeIds || scopeIds.has(token.id);
+  const hasIndexFilters = Boolean(
+    parsed.root || parsed.lemma || parsed.pos || parsed.posDetailed || parsed.segment || parsed.ayah ||
+    parsed.features?.length
+  );
+  const hasFieldFilters = hasIndexFilters || Boolean(parsed.gloss);
+
+  if (scopeIds && !hasFieldFilters && !parsed.freeText) {
+    return searchScopedPassage(catalog, scopeIds);
+  }
+
   const freeText = parsed.freeText || parsed.raw;
-  const normalizedQuery = normalizeArabicForSearch(freeText);
-  const lowercaseQuery = freeText.toLowerCase();
+  const corpusSize = catalog.byId.size;
 
   const results: SearchResultItem[] = [];
   const seen = new Set<string>();
 
-  if (parsed.root || parsed.lemma || parsed.pos || parsed.ayah) {
-    const ids = queryPhaseOne(catalog.phaseOne, {
-      root: parsed.root,
-      lemma: parsed.lemma,
-      pos: parsed.pos,
-      ayah: parsed.ayah,
-    });
+  if (hasFieldFilters) {
+    // Glosses are not indexed; a gloss-only query scans the scope or the whole corpus.
+    const ids = hasIndexFilters
+      ? queryPhaseOne(catalog.phaseOne, {
+          root: parsed.root,
+          lemma: parsed.lemma,
+          pos: parsed.pos,
+          posDetailed: parsed.posDetailed,
+          segment: parsed.segment,
+          features: parsed.features,
+          ayah: parsed.ayah,
+          scopes: parsed.scopes,
+        })
+      : scopeIds ?? catalog.byId.keys();
 
     for (const id of ids) {
       const token = catalog.byId.get(id);
       if (!token) continue;
+      if (parsed.gloss && !glossFieldQuality(token, parsed)) continue;
       const kind: SearchResultKind =
         parsed.ayah ? "ayah" :
         parsed.root ? "root" :
         parsed.lemma ? "lemma" :
         parsed.gloss ? "gloss" :
         "token";
+      const { score, quality } = scoreFieldHit(token, parsed, kind, catalog);
 
       pushUnique(
         results,
         seen,
-        buildItem(
-          token,
-          kind,
-          parsed.ayah ? `${token.sura}:${token.ayah}` : token.morphology?.gloss ?? token.lemma,
-          parsed.ayah
-            ? "Matched exact ayah reference"
-            : parsed.root
-            ? "Matched root family"
-            : parsed.lemma
-            ? "Matched lemma"
-            : "Matched structured search"
+        withScore(
+          buildItem(
+            token,
+            kind,
+            parsed.ayah
+              ? `${token.sura}:${token.ayah}`
+              : tokenGloss(token, parsed.glossLanguage) ?? token.morphology?.gloss ?? token.lemma,
+            parsed.ayah
+              ? "Matched exact ayah reference"
+              : parsed.gloss && !parsed.root && !parsed.lemma
+              ? "Matched gloss"
+              : parsed.root
+              ? "Matched root family"
+              : parsed.lemma
+              ? "Matched lemma"
+              : parsed.segment
+              ? "Matched morphological segment"
+              : parsed.features
+              ? "Matched morphological features"
+              : "Matched structured search"
+          ),
+          score,
+          quality
         )
       );
     }
   }
 
   if (!freeText) {
-    return results.slice(0, 24);
+    return results.sort(compareRankedResults);
   }
 
   for (const [root, rootTokens] of catalog.byRoot) {
-    const normalizedRoot = normalizeArabicForSearch(root);
-    if (
-      root.includes(freeText) ||
-      root.replace(/ /g, "").includes(freeText.replace(/ /g, "")) ||
-      normalizedRoot.includes(normalizedQuery)
-    ) {
-      const token = rootTokens[0];
-      pushUnique(
-        results,
-        seen,
-        buildItem(token, "root", `Root: ${root} (${rootTokens.length})`, "Matched root neighborhood")
-      );
-    }
+    const quality = gradeMatch(freeText, root, rootOptions) ??
+      (root.replace(/ /g, "").includes(freeText.replace(/ /g, "")) ? "partial" : null);
+    if (!quality) continue;
+    const token = rootTokens.find(inScope);
+    if (!token) continue;
+    pushUnique(
+      results,
+      seen,
+      withScore(
+        buildItem(token, "root", `Root: ${root} (${rootTokens.length})`, "Matched root neighborhood"),
+        scoreMatch("root", quality, rootTokens.length, corpusSize),
+        quality
+      )
+    );
   }
 
   for (const [lemma, lemmaTokens] of catalog.byLemma) {
-    const normalizedLemma = normalizeArabicForSearch(lemma);
-    if (lemma.includes(freeText) || normalizedLemma.includes(normalizedQuery)) {
-      const token = lemmaTokens[0];
-      pushUnique(
-        results,
-        seen,
-        buildItem(token, "lemma", `Lemma: ${lemma}`, "Matched lemma and lexical form")
-      );
-    }
+    const quality = gradeMatch(freeText, lemma, normalizeOptions);
+    if (!quality) continue;
+    const token = lemmaTokens.find(inScope);
+    if (!token) continue;
+    pushUnique(
+      results,
+      seen,
+      withScore(
+        buildItem(token, "lemma", `Lemma: ${lemma}`, "Matched lemma and lexical form"),
+        scoreMatch("lemma", quality, lemmaTokens.length, corpusSize),
+        quality
+      )
+    );
   }
 
   for (const token of tokens) {
-    const normalizedText = normalizeArabicForSearch(token.text);
-    if ((token.text.includes(freeText) || normalizedText.includes(normalizedQuery)) && token.text.trim()) {
+    if (!inScope(token)) continue;
+    const textQuality = token.text.trim() ? gradeMatch(freeText, token.text, normalizeOptions) : null;
+    if (textQuality) {
+      const frequency = catalog.phaseOne.textNormalized.get(normalizeArabicForSearch(token.text))?.length ?? 1;
       pushUnique(
         results,
         seen,
-        buildItem(token, "token", token.text, "Matched Arabic token text")
+        withScore(
+          buildItem(token, "token", token.text, "Matched Arabic token text"),
+          scoreMatch("token", textQuality, frequency, corpusSize),
+          textQuality
+        )
       );
     }
 
@@ -171,39 +319,236 @@ export function searchCorpus(tokens: CorpusToken[], catalog: SearchCatalog, rawQ
       pushUnique(
         results,
         seen,
-        buildItem(token, "ayah", ayahRef, "Matched exact ayah reference")
+        withScore(
+          buildItem(token, "ayah", ayahRef, "Matched exact ayah reference"),
+          scoreMatch("ayah", "exact", 1, corpusSize),
+          "exact"
+        )
       );
     }
 
-    const gloss = token.morphology?.gloss?.toLowerCase() ?? "";
-    if (gloss.includes(lowercaseQuery)) {
+    const glossMatch = matchGloss(token, freeText);
+    if (glossMatch) {
       pushUnique(
         results,
         seen,
-        buildItem(token, "gloss", token.morphology?.gloss ?? "", "Matched gloss and lemma")
+        withScore(
+          buildItem(token, "gloss", glossMatch.gloss, "Matched gloss and lemma"),
+          scoreMatch("gloss", glossMatch.quality, lemmaFrequency(catalog, token.lemma), corpusSize),
+          glossMatch.quality
+        )
       );
     }
   }
 
-  const priority: Record<SearchResultKind, number> = {
-    ayah: 0,
-    root: 1,
-    lemma: 2,
-    token: 3,
-    gloss: 4,
-    semantic: 5,
+  return results.sort(compareRankedResults);
+}
+
+/** One page of ranked results; pass `nextCursor` back to continue. */
+export function searchCorpusPage(
+  tokens: CorpusToken[],
+  catalog: SearchCatalog,
+  rawQuery: string,
+  options: { cursor?: string | null; limit?: number } = {}
+): SearchResultPage {
+  return paginateResults(rankSearchResults(tokens, catalog, rawQuery), options.cursor, options.limit);
+}
+
+/** First page of ranked results. */
+export function searchCorpus(tokens: CorpusToken[], catalog: SearchCatalog, rawQuery: string): SearchResultItem[] {
+  return searchCorpusPage(tokens, catalog, rawQuery).items;
+}
+
+/**
+ * Boolean/proximity queries (see queryGrammar.ts) return one result per
+ * matching ayah, anchored on its first hit. Ayahs with more hits rank higher.
+ */
+function searchBooleanQuery(catalog: SearchCatalog, query: string): SearchResultItem[] {
+  const { node } = parseBooleanQuery(query);
+  if (!node) return [];
+
+  const hitsByAyah = new Map<string, string[]>();
+  for (const tokenId of evaluateBooleanQuery(node, catalog.phaseOne, catalog.byId)) {
+    const token = catalog.byId.get(tokenId);
+    if (!token) continue;
+    const ayahRef = `${token.sura}:${token.ayah}`;
+    const bucket = hitsByAyah.get(ayahRef);
+    if (bucket) bucket.push(tokenId);
+    else hitsByAyah.set(ayahRef, [tokenId]);
+  }
+
+  const results: SearchResultItem[] = [];
+  for (const [ayahRef, tokenIds] of hitsByAyah) {
+    const token = catalog.byId.get(tokenIds[0])!;
+    results.push(
+      withScore(
+        buildItem(
+          token,
+          "token",
+          `${ayahRef} · ${tokenIds.length} ${tokenIds.length === 1 ? "match" : "matches"}`,
+          "Matched query expression"
+        ),
+        tokenIds.length
+      )
+    );
+  }
+  return results.sort(compareRankedResults);
+}
+
+/** Scope-only queries list the first word of each ayah in the passage. */
+function searchScopedPassage(catalog: SearchCatalog, scopeIds: Set<string>): SearchResultItem[] {
+  const results: SearchResultItem[] = [];
+  const seenAyahs = new Set<string>();
+  for (const tokenId of scopeIds) {
+    const token = catalog.byId.get(tokenId);
+    if (!token) continue;
+    const ayahRef = `${token.sura}:${token.ayah}`;
+    if (seenAyahs.has(ayahRef)) continue;
+    seenAyahs.add(ayahRef);
+    results.push(withScore(buildItem(token, "ayah", ayahRef, "Matched passage scope"), 1, "exact"));
+  }
+  return results.sort(compareRankedResults);
+}
+
+export interface SemanticSearchIndex {
+  embed: (text: string) => number[];
+  roots: CosineIndex;
+}
+
+export function buildSemanticSearchIndex(provider: LocalEmbeddingProvider): SemanticSearchIndex {
+  const vectors = provider.embedSync(provider.roots);
+  return {
+    embed: (text) => provider.embedSync([text])[0],
+    roots: buildCosineIndex(provider.roots.map((root, i) => ({ id: root, vector: vectors[i] }))),
   };
+}
+
+/**
+ * Roots closest in meaning to a free-text query, one result per root anchored
+ * on its first occurrence. Scores are cosine similarity times the semantic
+ * field weight, so they rank below direct matches of similar quality.
+ * Field, range, ayah-reference and boolean queries return nothing.
+ */
+export function searchSemantic(
+  catalog: SearchCatalog,
+  semantic: SemanticSearchIndex,
+  rawQuery: string,
+  limit = 10
+): SearchResultItem[] {
+  const query = rawQuery.trim();
+  if (query.length < 2 || query.includes(":") || hasQueryOperators(query)) return [];
+
+  const results: SearchResultItem[] = [];
+  for (const { id: root, similarity } of searchCosineIndex(semantic.roots, semantic.embed(query), { limit })) {
+    const rootTokens = catalog.byRoot.get(root);
+    if (!rootTokens?.length) continue;
+    results.push(
+      withScore(
+        buildItem(rootTokens[0], "semantic", `Root: ${root} (${rootTokens.length})`, "Related in meaning"),
+        FIELD_WEIGHTS.semantic * similarity
+      )
+    );
+  }
+  return results;
+}
+
+function compareTokens(a: CorpusToken, b: CorpusToken): number {
+  return a.sura - b.sura || a.ayah - b.ayah || a.position - b.position;
+}
+
+/**
+ * Every token matched by a query, in corpus order and without the result cap
+ * of `searchCorpus`. Field, range and boolean syntax resolve through the
+ * phase-one indexes; free text matches surface forms, roots, lemmas and glosses.
+ */
+export function collectSearchHits(tokens: CorpusToken[], catalog: SearchCatalog, rawQuery: string): CorpusToken[] {
+  const query = rawQuery.trim();
+  if (query.length < 2) return [];
+
+  let ids: Iterable<string>;
+  if (hasQueryOperators(query)) {
+    const { node } = parseBooleanQuery(query);
+    if (!node) return [];
+    ids = evaluateBooleanQuery(node, catalog.phaseOne, catalog.byId);
+  } else {
+    const parsed = parseSearchQuery(query);
+    if (parsed.invalidScopes?.length) return [];
+    const scopeIds = parsed.scopes?.length ? queryPhaseOne(catalog.phaseOne, { scopes: parsed.scopes }) : null;
+    const indexIds =
+      parsed.root || parsed.lemma || parsed.pos || parsed.posDetailed || parsed.segment || parsed.ayah ||
+      parsed.features?.length
+        ? queryPhaseOne(catalog.phaseOne, {
+            root: parsed.root,
+            lemma: parsed.lemma,
+            pos: parsed.pos,
+            posDetailed: parsed.posDetailed,
+            segment: parsed.segment,
+            features: parsed.features,
+            ayah: parsed.ayah,
+            scopes: parsed.scopes,
+          })
+        : null;
+    const fieldIds = parsed.gloss
+      ? new Set(
+          [...(indexIds ?? scopeIds ?? catalog.byId.keys())].filter((id) => {
+            const token = catalog.byId.get(id);
+            return Boolean(token && glossFieldQuality(token, parsed));
+          })
+        )
+      : indexIds;
+
+    const freeText = parsed.freeText;
+    if (!freeText) {
+      ids = fieldIds ?? scopeIds ?? [];
+    } else {
+      const normalizedQuery = normalizeArabicForSearch(freeText);
+      const glossQuery = normalizeGlossForSearch(freeText);
+      const matches: string[] = [];
+      for (const token of tokens) {
+        if (fieldIds ? !fieldIds.has(token.id) : scopeIds && !scopeIds.has(token.id)) continue;
+        if (
+          (normalizedQuery && normalizeArabicForSearch(token.text).includes(normalizedQuery)) ||
+          (normalizedQuery && normalizeArabicForSearch(token.root) === normalizedQuery) ||
+          (normalizedQuery && normalizeArabicForSearch(token.lemma) === normalizedQuery) ||
+          searchableGlosses(token).some((gloss) => normalizeGlossForSearch(gloss).includes(glossQuery))
+        ) {
+          matches.push(token.id);
+        }
+      }
+      ids = matches;
+    }
+  }
+
+  const hits: CorpusToken[] = [];
+  for (const id of ids) {
+    const token = catalog.byId.get(id);
+    if (token) hits.push(token);
+  }
+  return hits.sort(compareTokens);
+}
+
+/**
+ * Token-level ranking of `collectSearchHits` with the same relevance model as
+ * `rankSearchResults`; used by the search benchmark. Boolean queries keep
+ * corpus order.
+ */
+export function rankSearchHits(tokens: CorpusToken[], catalog: SearchCatalog, rawQuery: string): CorpusToken[] {
+  const hits = collectSearchHits(tokens, catalog, rawQuery);
+  if (hasQueryOperators(rawQuery.trim())) return hits;
 
-  return results
-    .sort((a, b) => {
-      const kindDelta = priority[a.kind] - priority[b.kind];
-      if (kindDelta !== 0) return kindDelta;
-      const aLoc = a.location;
-      const bLoc = b.location;
-      if (!aLoc || !bLoc) return 0;
-      return aLoc.surah - bLoc.surah || (aLoc.ayah ?? 0) - (bLoc.ayah ?? 0);
-    })
-    .slice(0, 24);
+  const parsed = parseSearchQuery(rawQuery);
+  const hasFieldFilters = Boolean(parsed.root || parsed.lemma || parsed.gloss);
+  const fieldKind: SearchResultKind = parsed.root ? "root" : parsed.lemma ? "lemma" : "gloss";
+  return hits
+    .map((token, index) => ({
+      token,
+      index,
+      score:
+        (hasFieldFilters ? scoreFieldHit(token, parsed, fieldKind, catalog).score : 0) +
+        (parsed.freeText ? scoreFreeTextHit(token, parsed.freeText, catalog) : 0),
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ token }) => token);
 }
 
 export function groupSearchResults(results: SearchResultItem[]): Array<{
@@ -22,6 +22,8 @@ export interface SearchResultItem {
     tokenId?: string;
   };
   relevanceLabel?: string;
+  // Relevance from lib/search/ranking.ts; higher ranks first.
+  score?: number;
   explanation?: string;
   matchedRoot?: string;
   matchedLemma?: string;
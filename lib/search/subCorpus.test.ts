@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import type { CorpusToken } from "@/lib/schema/types";
+import type { CollocationResult } from "@/lib/search/collocation";
+import {
+  ayahInSubCorpus,
+  buildSubCorpus,
+  compareCollocations,
+  isFullCorpus,
+  parseSurahList,
+  revelationPlacesOf,
+  subCorpusKey,
+} from "@/lib/search/subCorpus";
+
+const token = (id: string, root: string): CorpusToken => {
+  const [sura, ayah, position] = id.split(":").map(Number);
+  return {
+    id,
+    sura,
+    ayah,
+    position,
+    text: root,
+    root,
+    lemma: root,
+    pos: "N",
+    morphology: { features: {}, gloss: null, stem: null },
+  };
+};
+
+const result = (label: string, score: number): CollocationResult => ({
+  root: label,
+  label,
+  groupBy: "root",
+  count: 2,
+  pmi: score,
+  measures: {
+    pmi: score,
+    logLikelihood: 0,
+    tScore: 0,
+    dice: 0,
+    logDice: 0,
+    mi3: 0,
+    chiSquare: 0,
+    fisher: 1,
+  },
+  score,
+  sampleLemmas: [],
+  sampleWindows: [],
+});
+
+describe("subCorpus", () => {
+  it("matches ayahs by surah list, revelation place, juz and hizb", () => {
+    expect(isFullCorpus({})).toBe(true);
+    expect(ayahInSubCorpus({ surahs: [2, 3] }, 2, 5)).toBe(true);
+    expect(ayahInSubCorpus({ surahs: [2, 3] }, 4, 1)).toBe(false);
+
+    const revelationPlaces = revelationPlacesOf([
+      { id: 2, revelation_place: "madinah" },
+      { id: 96, revelation_place: "makkah" },
+    ]);
+    expect(ayahInSubCorpus({ revelationPlace: "makkah" }, 96, 1, { revelationPlaces })).toBe(true);
+    expect(ayahInSubCorpus({ revelationPlace: "madinah" }, 96, 1, { revelationPlaces })).toBe(false);
+    expect(ayahInSubCorpus({ revelationPlace: "makkah" }, 96, 1)).toBe(false);
+
+    expect(ayahInSubCorpus({ juz: { from: 2, to: 3 } }, 2, 142)).toBe(true);
+    expect(ayahInSubCorpus({ juz: { from: 2, to: 3 } }, 2, 141)).toBe(false);
+
+    const ayahHizbs = new Map([["2:30", 1]]);
+    expect(ayahInSubCorpus({ hizb: { from: 1, to: 1 } }, 2, 30, { ayahHizbs })).toBe(true);
+    expect(ayahInSubCorpus({ hizb: { from: 1, to: 1 } }, 2, 30)).toBe(false);
+  });
+
+  it("computes reference frequencies over the sub-corpus only", () => {
+    const tokens = [token("1:1:1", "كتب"), token("2:1:1", "كتب"), token("2:1:2", "علم")];
+    const full = buildSubCorpus(tokens, {});
+    expect(full.tokens).toBe(tokens);
+
+    const surahTwo = buildSubCorpus(tokens, { surahs: [2] });
+    expect(surahTwo.tokens.map((t) => t.id)).toEqual(["2:1:1", "2:1:2"]);
+    expect(surahTwo.freqData.totalTokens).toBe(2);
+  });
+
+  it("parses surah lists and builds order-independent keys", () => {
+    expect(parseSurahList("2, 3, 18-20")).toEqual([2, 3, 18, 19, 20]);
+    expect(parseSurahList("3 2 2")).toEqual([2, 3]);
+    expect(parseSurahList("0")).toBeNull();
+    expect(parseSurahList("115")).toBeNull();
+    expect(parseSurahList("5-2")).toBeNull();
+    expect(parseSurahList("")).toBeNull();
+    expect(subCorpusKey({ surahs: [3, 2] })).toBe(subCorpusKey({ surahs: [2, 3] }));
+    expect(subCorpusKey({ juz: { from: 1, to: 2 } })).not.toBe(subCorpusKey({ hizb: { from: 1, to: 2 } }));
+  });
+
+  it("reports collocates gained, lost and shared between two sub-corpora", () => {
+    const comparison = compareCollocations(
+      [result("علم", 3), result("قول", 2), result("رحم", 1)],
+      [result("علم", 1), result("قول", 2.5), result("نور", 4)]
+    );
+    expect(comparison.gained.map((r) => r.label)).toEqual(["نور"]);
+    expect(comparison.lost.map((r) => r.label)).toEqual(["رحم"]);
+    expect(comparison.shared.map((s) => [s.label, s.delta])).toEqual([
+      ["علم", -2],
+      ["قول", 0.5],
+    ]);
+  });
+});
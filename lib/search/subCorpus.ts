@@ -0,0 +1,130 @@
+import type { QuranChapter } from "@/lib/api/quranApi";
+import type { CorpusToken } from "@/lib/schema/types";
+import { getJuzForAyah } from "@/lib/data/juzData";
+import { calculateRootFrequencies, type CollocationResult, type RootFrequencyData } from "@/lib/search/collocation";
+
+export type RevelationPlace = QuranChapter["revelation_place"];
+
+/**
+ * A slice of the corpus that collocation statistics are computed over. All
+ * given criteria must hold; an empty definition is the whole corpus. A
+ * revelation place needs `SubCorpusContext.revelationPlaces` (surah → place,
+ * from the chapter metadata) and hizb ranges need `SubCorpusContext.ayahHizbs`
+ * (ayah id → hizb); either matches nothing without its map.
+ */
+export interface SubCorpusDefinition {
+  surahs?: number[];
+  revelationPlace?: RevelationPlace;
+  juz?: { from: number; to: number };
+  hizb?: { from: number; to: number };
+}
+
+export interface SubCorpusContext {
+  revelationPlaces?: Map<number, RevelationPlace>;
+  ayahHizbs?: Map<string, number>;
+}
+
+export interface SubCorpus {
+  tokens: CorpusToken[];
+  freqData: RootFrequencyData;
+}
+
+export function isFullCorpus(definition: SubCorpusDefinition): boolean {
+  return !definition.surahs?.length && !definition.revelationPlace && !definition.juz && !definition.hizb;
+}
+
+export function ayahInSubCorpus(
+  definition: SubCorpusDefinition,
+  surah: number,
+  ayah: number,
+  context: SubCorpusContext = {}
+): boolean {
+  if (definition.surahs?.length && !definition.surahs.includes(surah)) return false;
+  if (definition.revelationPlace && context.revelationPlaces?.get(surah) !== definition.revelationPlace) return false;
+  if (definition.juz) {
+    const juz = getJuzForAyah(surah, ayah);
+    if (juz < definition.juz.from || juz > definition.juz.to) return false;
+  }
+  if (definition.hizb) {
+    const hizb = context.ayahHizbs?.get(`${surah}:${ayah}`);
+    if (hizb === undefined || hizb < definition.hizb.from || hizb > definition.hizb.to) return false;
+  }
+  return true;
+}
+
+/**
+ * Tokens of the sub-corpus with reference frequencies computed over them, so
+ * both the co-occurrence windows and the expected counts stay inside it.
+ */
+export function buildSubCorpus(
+  tokens: CorpusToken[],
+  definition: SubCorpusDefinition,
+  context: SubCorpusContext = {}
+): SubCorpus {
+  const scoped = isFullCorpus(definition)
+    ? tokens
+    : tokens.filter((token) => ayahInSubCorpus(definition, token.sura, token.ayah, context));
+  return { tokens: scoped, freqData: calculateRootFrequencies(scoped) };
+}
+
+/** Revelation place per surah number, as used by `SubCorpusContext.revelationPlaces`. */
+export function revelationPlacesOf(chapters: Array<Pick<QuranChapter, "id" | "revelation_place">>): Map<number, RevelationPlace> {
+  return new Map(chapters.map((chapter) => [chapter.id, chapter.revelation_place]));
+}
+
+/** Stable cache key; equal definitions give equal keys. */
+export function subCorpusKey(definition: SubCorpusDefinition): string {
+  return JSON.stringify([
+    [...(definition.surahs ?? [])].sort((a, b) => a - b),
+    definition.revelationPlace ?? null,
+    definition.juz ? [definition.juz.from, definition.juz.to] : null,
+    definition.hizb ? [definition.hizb.from, definition.hizb.to] : null,
+  ]);
+}
+
+/** Parses a surah list such as "2, 3, 18-20"; null when malformed or out of range. */
+export function parseSurahList(value: string): number[] | null {
+  const surahs = new Set<number>();
+  for (const part of value.split(/[,،\s]+/).filter(Boolean)) {
+    const match = part.match(/^(\d+)(?:-(\d+))?$/);
+    if (!match) return null;
+    const from = Number(match[1]);
+    const to = match[2] ? Number(match[2]) : from;
+    if (from < 1 || to < from || to > 114) return null;
+    for (let surah = from; surah <= to; surah++) surahs.add(surah);
+  }
+  return surahs.size > 0 ? [...surahs].sort((a, b) => a - b) : null;
+}
+
+export interface SharedCollocate {
+  label: string;
+  before: CollocationResult;
+  after: CollocationResult;
+  // Change in ranking score from the first sub-corpus to the second.
+  delta: number;
+}
+
+export interface CollocationComparison {
+  // Collocates of the second sub-corpus that the first lacks, and vice versa.
+  gained: CollocationResult[];
+  lost: CollocationResult[];
+  shared: SharedCollocate[];
+}
+
+/** Compares two collocate lists (ranked by the same measure) by label. */
+export function compareCollocations(before: CollocationResult[], after: CollocationResult[]): CollocationComparison {
+  const beforeByLabel = new Map(before.map((result) => [result.label, result]));
+  const afterByLabel = new Map(after.map((result) => [result.label, result]));
+
+  const shared: SharedCollocate[] = [];
+  for (const result of after) {
+    const previous = beforeByLabel.get(result.label);
+    if (previous) shared.push({ label: result.label, before: previous, after: result, delta: result.score - previous.score });
+  }
+
+  return {
+    gained: after.filter((result) => !beforeByLabel.has(result.label)),
+    lost: before.filter((result) => !afterByLabel.has(result.label)),
+    shared: shared.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta)),
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import type { CorpusToken } from "@/lib/schema/types";
+import {
+  buildVerseSimilarityIndex,
+  cosineSimilarity,
+  findSimilarAyahs,
+  jaccardSimilarity,
+  longestCommonSubsequence,
+} from "@/lib/search/verseSimilarity";
+
+// Each word is "lemma/root"; an empty root marks a particle.
+const ayah = (sura: number, ayahNumber: number, words: string[]): CorpusToken[] =>
+  words.map((word, i) => {
+    const [lemma, root] = word.split("/");
+    return {
+      id: `${sura}:${ayahNumber}:${i + 1}`,
+      sura,
+      ayah: ayahNumber,
+      position: i + 1,
+      text: lemma,
+      root,
+      lemma,
+      pos: "N",
+      morphology: { features: {}, gloss: null, stem: null },
+    };
+  });
+
+const tokens = [
+  ...ayah(2, 1, ["إن/", "الله/أله", "غفور/غفر", "رحيم/رحم"]),
+  ...ayah(2, 2, ["قال/قول", "الله/أله", "كتاب/كتب"]),
+  ...ayah(4, 1, ["إن/", "الله/أله", "كان/كون", "غفور/غفر", "رحيم/رحم"]),
+  ...ayah(4, 2, ["رحيم/رحم", "غفور/غفر", "الله/أله"]),
+  ...ayah(5, 1, ["يوم/يوم", "آخر/أخر"]),
+];
+
+describe("similarity measures", () => {
+  it("computes Jaccard, weighted cosine and longest common subsequence", () => {
+    const a = new Map([["x", 1], ["y", 2]]);
+    const b = new Map([["y", 1], ["z", 1]]);
+    expect(jaccardSimilarity(a, b)).toBeCloseTo(1 / 3, 10);
+    expect(cosineSimilarity(a, b)).toBeCloseTo(2 / (Math.sqrt(5) * Math.sqrt(2)), 10);
+    expect(cosineSimilarity(a, b, new Map([["y", 0]]))).toBe(0);
+    expect(longestCommonSubsequence(["a", "b", "c", "d"], ["b", "x", "d"])).toBe(2);
+    expect(longestCommonSubsequence([], ["a"])).toBe(0);
+  });
+});
+
+describe("findSimilarAyahs", () => {
+  const index = buildVerseSimilarityIndex(tokens);
+
+  it("ranks the parallel passage first and skips ayahs with nothing in common", () => {
+    const similar = findSimilarAyahs(index, 2, 1);
+    expect(similar.map((r) => `${r.surah}:${r.ayah}`)).toEqual(["4:2", "4:1", "2:2"]);
+    expect(similar.some((r) => r.surah === 5)).toBe(false);
+    expect(similar[1]).toMatchObject({ firstTokenId: "4:1:1", jaccard: 3 / 4, lcs: 4 });
+    expect(similar[1].lcsRatio).toBeCloseTo(8 / 9, 10);
+    expect(similar[1].sharedTerms.sort()).toEqual(["أله", "رحم", "غفر"]);
+  });
+
+  it("matches the cosine helper with IDF weights", () => {
+    const [top] = findSimilarAyahs(index, 2, 1, { feature: "lemma" });
+    const source = index.ayahs.get("2:1")!.terms.lemma;
+    const target = index.ayahs.get(`${top.surah}:${top.ayah}`)!.terms.lemma;
+    expect(top.cosine).toBeCloseTo(cosineSimilarity(source, target, index.idf.lemma), 10);
+  });
+
+  it("orders by word order with the LCS measure and honours filters", () => {
+    const byOrder = findSimilarAyahs(index, 2, 1, { measure: "lcs" });
+    expect(byOrder[0]).toMatchObject({ surah: 4, ayah: 1 });
+
+    expect(findSimilarAyahs(index, 2, 1, { excludeSameSurah: true }).every((r) => r.surah !== 2)).toBe(true);
+    expect(findSimilarAyahs(index, 2, 1, { measure: "jaccard", minScore: 0.5 }).map((r) => r.ayah)).toEqual([2, 1]);
+    expect(findSimilarAyahs(index, 2, 1, { limit: 1 })).toHaveLength(1);
+    expect(findSimilarAyahs(index, 9, 9)).toEqual([]);
+  });
+});
@@ -0,0 +1,219 @@
+import type { CorpusToken } from "@/lib/schema/types";
+
+/**
+ * Finds ayahs that share vocabulary with a given ayah, for spotting parallel
+ * passages (mutashabihat). Each ayah becomes a bag of roots and a bag of
+ * lemmas; candidates are the ayahs sharing at least one term, scored by
+ * Jaccard overlap, IDF-weighted cosine, and the longest common subsequence of
+ * their lemmas, which rewards shared wording in the same order.
+ */
+export type SimilarityFeature = "root" | "lemma";
+
+export type SimilarityMeasure = "cosine" | "jaccard" | "lcs";
+
+export const SIMILARITY_FEATURES: SimilarityFeature[] = ["root", "lemma"];
+export const SIMILARITY_MEASURES: SimilarityMeasure[] = ["cosine", "jaccard", "lcs"];
+
+export interface AyahVector {
+  surah: number;
+  ayah: number;
+  firstTokenId: string;
+  terms: Record<SimilarityFeature, Map<string, number>>;
+  lemmaSequence: string[];
+}
+
+export interface VerseSimilarityIndex {
+  // Keyed by "surah:ayah".
+  ayahs: Map<string, AyahVector>;
+  // Ayah keys containing each term.
+  postings: Record<SimilarityFeature, Map<string, string[]>>;
+  idf: Record<SimilarityFeature, Map<string, number>>;
+  // Length of each ayah's IDF-weighted vector.
+  norms: Record<SimilarityFeature, Map<string, number>>;
+}
+
+export interface SimilarAyahOptions {
+  feature?: SimilarityFeature;
+  measure?: SimilarityMeasure;
+  // Maximum results (default 10).
+  limit?: number;
+  // Results scoring below this on `measure` are dropped.
+  minScore?: number;
+  excludeSameSurah?: boolean;
+}
+
+export interface SimilarAyah {
+  surah: number;
+  ayah: number;
+  firstTokenId: string;
+  // Value of the requested measure.
+  score: number;
+  jaccard: number;
+  cosine: number;
+  // Longest common lemma subsequence, in words and as 2·lcs / (|a| + |b|).
+  lcs: number;
+  lcsRatio: number;
+  sharedTerms: string[];
+}
+
+const ayahKey = (surah: number, ayah: number) => `${surah}:${ayah}`;
+
+function featureValue(token: CorpusToken, feature: SimilarityFeature): string {
+  return feature === "root" ? token.root : token.lemma;
+}
+
+export function buildVerseSimilarityIndex(tokens: CorpusToken[]): VerseSimilarityIndex {
+  const ayahs = new Map<string, AyahVector>();
+  for (const token of tokens) {
+    const key = ayahKey(token.sura, token.ayah);
+    let vector = ayahs.get(key);
+    if (!vector) {
+      vector = {
+        surah: token.sura,
+        ayah: token.ayah,
+        firstTokenId: token.id,
+        terms: { root: new Map(), lemma: new Map() },
+        lemmaSequence: [],
+      };
+      ayahs.set(key, vector);
+    }
+    for (const feature of SIMILARITY_FEATURES) {
+      const term = featureValue(token, feature);
+      if (term) vector.terms[feature].set(term, (vector.terms[feature].get(term) ?? 0) + 1);
+    }
+    if (token.lemma) vector.lemmaSequence.push(token.lemma);
+  }
+
+  const index: VerseSimilarityIndex = {
+    ayahs,
+    postings: { root: new Map(), lemma: new Map() },
+    idf: { root: new Map(), lemma: new Map() },
+    norms: { root: new Map(), lemma: new Map() },
+  };
+
+  for (const feature of SIMILARITY_FEATURES) {
+    const postings = index.postings[feature];
+    for (const [key, vector] of ayahs) {
+      for (const term of vector.terms[feature].keys()) {
+        const list = postings.get(term);
+        if (list) list.push(key);
+        else postings.set(term, [key]);
+      }
+    }
+    // Terms found in every ayah carry no weight; the +1 keeps rarer terms positive.
+    for (const [term, list] of postings) {
+      index.idf[feature].set(term, Math.log((ayahs.size + 1) / list.length));
+    }
+    for (const [key, vector] of ayahs) {
+      let sum = 0;
+      for (const [term, count] of vector.terms[feature]) {
+        const weight = count * index.idf[feature].get(term)!;
+        sum += weight * weight;
+      }
+      index.norms[feature].set(key, Math.sqrt(sum));
+    }
+  }
+
+  return index;
+}
+
+export function jaccardSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let shared = 0;
+  for (const term of a.keys()) if (b.has(term)) shared++;
+  const union = a.size + b.size - shared;
+  return union > 0 ? shared / union : 0;
+}
+
+/** Cosine of two term-count vectors, each count multiplied by its term's weight. */
+export function cosineSimilarity(
+  a: Map<string, number>,
+  b: Map<string, number>,
+  weights?: Map<string, number>
+): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [term, count] of a) {
+    const weight = weights?.get(term) ?? 1;
+    normA += (count * weight) ** 2;
+    const other = b.get(term);
+    if (other !== undefined) dot += count * other * weight * weight;
+  }
+  for (const [term, count] of b) normB += (count * (weights?.get(term) ?? 1)) ** 2;
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export function longestCommonSubsequence(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  let previous = new Array<number>(b.length + 1).fill(0);
+  let current = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+    }
+    [previous, current] = [current, previous];
+  }
+  return previous[b.length];
+}
+
+export function findSimilarAyahs(
+  index: VerseSimilarityIndex,
+  surah: number,
+  ayah: number,
+  options: SimilarAyahOptions = {}
+): SimilarAyah[] {
+  const feature = options.feature ?? "root";
+  const measure = options.measure ?? "cosine";
+  const minScore = options.minScore ?? 0;
+  const sourceKey = ayahKey(surah, ayah);
+  const source = index.ayahs.get(sourceKey);
+  if (!source) return [];
+
+  const sourceTerms = source.terms[feature];
+  const idf = index.idf[feature];
+  const sourceNorm = index.norms[feature].get(sourceKey)!;
+
+  // Weighted dot products and shared terms, accumulated over the postings of the source's terms.
+  const candidates = new Map<string, { dot: number; shared: string[] }>();
+  for (const [term, count] of sourceTerms) {
+    const weight = idf.get(term)!;
+    for (const key of index.postings[feature].get(term)!) {
+      if (key === sourceKey) continue;
+      const vector = index.ayahs.get(key)!;
+      if (options.excludeSameSurah && vector.surah === surah) continue;
+      let candidate = candidates.get(key);
+      if (!candidate) {
+        candidate = { dot: 0, shared: [] };
+        candidates.set(key, candidate);
+      }
+      candidate.dot += count * vector.terms[feature].get(term)! * weight * weight;
+      candidate.shared.push(term);
+    }
+  }
+
+  const results: SimilarAyah[] = [];
+  for (const [key, { dot, shared }] of candidates) {
+    const vector = index.ayahs.get(key)!;
+    const candidateTerms = vector.terms[feature];
+    const norm = index.norms[feature].get(key)!;
+    const lcs = longestCommonSubsequence(source.lemmaSequence, vector.lemmaSequence);
+    const lengths = source.lemmaSequence.length + vector.lemmaSequence.length;
+    const result: SimilarAyah = {
+      surah: vector.surah,
+      ayah: vector.ayah,
+      firstTokenId: vector.firstTokenId,
+      score: 0,
+      jaccard: shared.length / (sourceTerms.size + candidateTerms.size - shared.length),
+      cosine: sourceNorm > 0 && norm > 0 ? dot / (sourceNorm * norm) : 0,
+      lcs,
+      lcsRatio: lengths > 0 ? (2 * lcs) / lengths : 0,
+      sharedTerms: shared,
+    };
+    result.score = measure === "jaccard" ? result.jaccard : measure === "lcs" ? result.lcsRatio : result.cosine;
+    if (result.score > 0 && result.score >= minScore) results.push(result);
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.surah - b.surah || a.ayah - b.ayah)
+    .slice(0, options.limit ?? 10);
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { CorpusToken, PartOfSpeech } from "@/lib/schema/types";
+import { buildQuizIndex, generateQuiz, quizAccuracy, recordQuizAnswer } from "@/lib/study/quiz";
+
+function token(
+  id: string,
+  text: string,
+  root: string,
+  lemma: string,
+  pos: PartOfSpeech,
+  features: Record<string, string> = {}
+): CorpusToken {
+  const [sura, ayah, position] = id.split(":").map(Number);
+  return { id, sura, ayah, position, text, root, lemma, pos, morphology: { features, gloss: null, stem: null } };
+}
+
+const tokens = [
+  token("2:1:1", "قَالَ", "قول", "قالَ", "V", { PERF: "true" }),
+  token("2:1:2", "رَبُّكَ", "ربب", "رَبّ", "N"),
+  token("2:2:1", "قَالُوا۟", "قول", "قالَ", "V", { PERF: "true" }),
+  token("2:2:2", "ٱلْقَوْلُ", "قول", "قَوْل", "N"),
+  token("2:3:1", "كَتَبَ", "كتب", "كَتَبَ", "V", { PERF: "true" }),
+  token("2:3:2", "ٱلْكِتَٰبُ", "كتب", "كِتَٰب", "N"),
+  token("2:3:3", "كَتَبْنَا", "كتب", "كَتَبَ", "V", { PERF: "true" }),
+  token("2:4:1", "عَلِمَ", "علم", "عَلِمَ", "V", { PERF: "true" }),
+  token("2:4:2", "عَلِمُوا۟", "علم", "عَلِمَ", "V", { PERF: "true" }),
+  token("2:5:1", "أَنزَلَ", "نزل", "أَنزَلَ", "V", { PERF: "true", "(IV)": "true" }),
+  token("2:5:2", "رَسُولًا", "رسل", "رَسُول", "N"),
+  token("2:6:1", "ٱلسَّمَآءِ", "سمو", "سَمَآء", "N"),
+  token("2:6:2", "ٱلْأَرْضِ", "أرض", "أَرْض", "N"),
+];
+
+describe("generateQuiz", () => {
+  const index = buildQuizIndex(tokens);
+
+  it("builds each kind of question with the answer among the choices", () => {
+    const questions = generateQuiz(index, ["قول"], { questionsPerRoot: 4, seed: 7 });
+    const byKind = new Map(questions.map((question) => [question.kind, question]));
+
+    expect([...byKind.keys()].sort()).toEqual(["cloze", "lemma-of-root", "root-in-context", "word-form"]);
+    for (const question of questions) {
+      expect(question.root).toBe("قول");
+      expect(new Set(question.choices).size).toBe(question.choices.length);
+      expect(question.answerIndex).toBeGreaterThanOrEqual(0);
+    }
+
+    const lemma = byKind.get("lemma-of-root")!;
+    expect(["قالَ", "قَوْل"]).toContain(lemma.choices[lemma.answerIndex]);
+    expect(byKind.get("root-in-context")!.choices[byKind.get("root-in-context")!.answerIndex]).toBe("قول");
+
+    const cloze = byKind.get("cloze")!;
+    const target = cloze.context!.words.find((word) => word.isTarget)!;
+    expect(cloze.choices[cloze.answerIndex]).toBe(target.text);
+  });
+
+  it("draws distractor roots from the same pattern first", () => {
+    // قول is mostly a Form I verb, and so are only علم and كتب; نزل is Form IV
+    for (const seed of [1, 2, 3]) {
+      const [question] = generateQuiz(index, ["قول"], { kinds: ["root-in-context"], questionsPerRoot: 1, seed });
+
+      expect(question.choices).toHaveLength(4);
+      expect(question.choices).toEqual(expect.arrayContaining(["قول", "علم", "كتب"]));
+    }
+  });
+
+  it("is reproducible for a seed and skips roots missing from the corpus", () => {
+    const first = generateQuiz(index, ["قول", "كتب", "غيب"], { seed: 42 });
+    const second = generateQuiz(index, ["قول", "كتب", "غيب"], { seed: 42 });
+
+    expect(second).toEqual(first);
+    expect(first.every((question) => question.root !== "غيب")).toBe(true);
+    expect(first).toHaveLength(4);
+  });
+});
+
+describe("recordQuizAnswer", () => {
+  it("accumulates attempts and accuracy", () => {
+    const score = recordQuizAnswer(recordQuizAnswer(undefined, true, 1), false, 2);
+
+    expect(score).toEqual({ attempts: 2, correct: 1, lastAttemptAt: 2 });
+    expect(quizAccuracy(score)).toBe(0.5);
+    expect(quizAccuracy(undefined)).toBeNull();
+  });
+});
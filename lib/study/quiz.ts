@@ -0,0 +1,294 @@
+import { FEATURE_VALUES, getTokenFeatureKeys } from "@/lib/schema/morphFeatures";
+import type { CorpusToken, PartOfSpeech } from "@/lib/schema/types";
+
+/**
+ * Quiz exercises generated from the loaded corpus for tracked roots. Wrong
+ * choices come from roots with the same dominant word shape (part of speech
+ * and verb form) and a similar frequency, so they cannot be ruled out just
+ * by looking unlike the answer.
+ */
+
+export type QuizKind = "lemma-of-root" | "root-in-context" | "word-form" | "cloze";
+
+export const QUIZ_KINDS: readonly QuizKind[] = ["lemma-of-root", "root-in-context", "word-form", "cloze"];
+
+// How choices are displayed: Arabic text, a coarse POS tag or a verb form numeral.
+export type QuizChoiceType = "arabic" | "pos" | "form";
+
+export interface QuizContextWord {
+  id: string;
+  text: string;
+  isTarget: boolean;
+}
+
+export interface QuizQuestion {
+  id: string;
+  kind: QuizKind;
+  root: string;
+  // The root for lemma questions, otherwise the word being asked about.
+  target: string;
+  context: { ayahId: string; words: QuizContextWord[] } | null;
+  choiceType: QuizChoiceType;
+  choices: string[];
+  answerIndex: number;
+}
+
+export interface QuizScore {
+  attempts: number;
+  correct: number;
+  lastAttemptAt: number; // epoch ms
+}
+
+interface RootProfile {
+  root: string;
+  count: number;
+  // Most common token shape of the root, e.g. "V:iv" or "N".
+  pattern: string;
+  lemmas: string[]; // most frequent first
+  tokens: CorpusToken[];
+}
+
+export interface QuizIndex {
+  roots: Map<string, RootProfile>;
+  ayahs: Map<string, CorpusToken[]>;
+}
+
+export interface QuizOptions {
+  kinds?: readonly QuizKind[];
+  questionsPerRoot?: number;
+  choiceCount?: number;
+  seed?: number;
+}
+
+const POS_CHOICES: PartOfSpeech[] = ["N", "V", "ADJ", "P", "PRON"];
+// Form IX, XI and XII barely occur in the Quran and would be giveaway distractors.
+const VERB_FORM_CHOICES = FEATURE_VALUES.form.filter((form) => !["ix", "xi", "xii"].includes(form));
+
+type Random = () => number;
+
+function mulberry32(seed: number): Random {
+  let t = seed;
+  return () => {
+    t += 0x6d2b79f5;
+    let x = Math.imul(t ^ (t >>> 15), 1 | t);
+    x ^= x + Math.imul(x ^ (x >>> 7), 61 | x);
+    return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: Random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function pick<T>(items: T[], random: Random): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function ayahIdOf(token: CorpusToken): string {
+  return `${token.sura}:${token.ayah}`;
+}
+
+function verbForm(token: CorpusToken): string {
+  const facet = getTokenFeatureKeys(token).find((key) => key.startsWith("form:"));
+  return facet ? facet.slice("form:".length) : "i";
+}
+
+function tokenPattern(token: CorpusToken): string {
+  return token.pos === "V" ? `V:${verbForm(token)}` : token.pos;
+}
+
+function mostFrequent(counts: Map<string, number>): string[] {
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([value]) => value);
+}
+
+export function buildQuizIndex(tokens: CorpusToken[]): QuizIndex {
+  const tokensByRoot = new Map<string, CorpusToken[]>();
+  const ayahs = new Map<string, CorpusToken[]>();
+
+  for (const token of tokens) {
+    const ayahId = ayahIdOf(token);
+    const words = ayahs.get(ayahId) ?? [];
+    words.push(token);
+    ayahs.set(ayahId, words);
+    if (!token.root) continue;
+    const rootTokens = tokensByRoot.get(token.root) ?? [];
+    rootTokens.push(token);
+    tokensByRoot.set(token.root, rootTokens);
+  }
+  for (const words of ayahs.values()) words.sort((a, b) => a.position - b.position);
+
+  const roots = new Map<string, RootProfile>();
+  for (const [root, rootTokens] of tokensByRoot) {
+    const patterns = new Map<string, number>();
+    const lemmas = new Map<string, number>();
+    for (const token of rootTokens) {
+      const pattern = tokenPattern(token);
+      patterns.set(pattern, (patterns.get(pattern) ?? 0) + 1);
+      if (token.lemma) lemmas.set(token.lemma, (lemmas.get(token.lemma) ?? 0) + 1);
+    }
+    roots.set(root, {
+      root,
+      count: rootTokens.length,
+      pattern: mostFrequent(patterns)[0],
+      lemmas: mostFrequent(lemmas),
+      tokens: rootTokens,
+    });
+  }
+
+  return { roots, ayahs };
+}
+
+/**
+ * Picks roots to draw wrong answers from: same-pattern roots closest in
+ * frequency first, then any root closest in frequency. A few nearest
+ * candidates are shuffled so repeated quizzes do not always show the same ones.
+ */
+function pickDistractorRoots(
+  index: QuizIndex,
+  profile: RootProfile,
+  count: number,
+  random: Random,
+  accept: (candidate: RootProfile) => boolean = () => true
+): RootProfile[] {
+  const distance = (candidate: RootProfile) => Math.abs(Math.log(candidate.count) - Math.log(profile.count));
+  const candidates = [...index.roots.values()]
+    .filter((candidate) => candidate.root !== profile.root && accept(candidate))
+    .sort((a, b) => distance(a) - distance(b) || a.root.localeCompare(b.root));
+
+  const samePattern = candidates.filter((candidate) => candidate.pattern === profile.pattern);
+  const chosen = shuffle(samePattern.slice(0, count * 3), random).slice(0, count);
+  if (chosen.length < count) {
+    const others = candidates.filter((candidate) => !chosen.includes(candidate));
+    chosen.push(...shuffle(others.slice(0, count * 3), random).slice(0, count - chosen.length));
+  }
+  return chosen;
+}
+
+function contextOf(index: QuizIndex, token: CorpusToken): QuizQuestion["context"] {
+  const ayahId = ayahIdOf(token);
+  return {
+    ayahId,
+    words: (index.ayahs.get(ayahId) ?? []).map((word) => ({
+      id: word.id,
+      text: word.text,
+      isTarget: word.id === token.id,
+    })),
+  };
+}
+
+function uniqueDistractors(answer: string, values: string[], count: number): string[] {
+  return [...new Set(values.filter((value) => value && value !== answer))].slice(0, count);
+}
+
+type QuestionBody = Omit<QuizQuestion, "choices" | "answerIndex">;
+
+function withChoices(body: QuestionBody, answer: string, distractors: string[], random: Random): QuizQuestion | null {
+  // A single wrong choice makes a coin toss, not a question
+  if (distractors.length < 2) return null;
+  const choices = shuffle([answer, ...distractors], random);
+  return { ...body, choices, answerIndex: choices.indexOf(answer) };
+}
+
+function buildQuestion(
+  kind: QuizKind,
+  index: QuizIndex,
+  profile: RootProfile,
+  choiceCount: number,
+  random: Random
+): QuizQuestion | null {
+  const wrong = choiceCount - 1;
+  const { root } = profile;
+
+  if (kind === "lemma-of-root") {
+    if (profile.lemmas.length === 0) return null;
+    const answer = pick(profile.lemmas.slice(0, 3), random);
+    const own = new Set(profile.lemmas);
+    const distractors = pickDistractorRoots(index, profile, wrong * 2, random, (candidate) => candidate.lemmas.length > 0)
+      .map((candidate) => candidate.lemmas[0])
+      .filter((lemma) => !own.has(lemma));
+    return withChoices(
+      { id: `${kind}:${root}:${answer}`, kind, root, target: root, context: null, choiceType: "arabic" },
+      answer,
+      uniqueDistractors(answer, distractors, wrong),
+      random
+    );
+  }
+
+  const token = pick(profile.tokens, random);
+  const body = { id: `${kind}:${token.id}`, kind, root, target: token.text, context: contextOf(index, token) };
+
+  if (kind === "root-in-context") {
+    const distractors = pickDistractorRoots(index, profile, wrong, random).map((candidate) => candidate.root);
+    return withChoices({ ...body, choiceType: "arabic" }, root, distractors, random);
+  }
+
+  if (kind === "word-form") {
+    if (token.pos === "V") {
+      const answer = verbForm(token);
+      const distractors = shuffle(VERB_FORM_CHOICES.filter((form) => form !== answer), random).slice(0, wrong);
+      return withChoices({ ...body, choiceType: "form" }, answer, distractors, random);
+    }
+    const distractors = shuffle(POS_CHOICES.filter((pos) => pos !== token.pos), random).slice(0, wrong);
+    return withChoices({ ...body, choiceType: "pos" }, token.pos, distractors, random);
+  }
+
+  // Cloze: another root's word of the same shape stands in for the blank
+  const pattern = tokenPattern(token);
+  const samePattern = (candidate: RootProfile) => candidate.tokens.some((word) => tokenPattern(word) === pattern);
+  const distractors = pickDistractorRoots(index, profile, wrong * 2, random, samePattern).map(
+    (candidate) => candidate.tokens.find((word) => tokenPattern(word) === pattern)!.text
+  );
+  return withChoices(
+    { ...body, choiceType: "arabic" },
+    token.text,
+    uniqueDistractors(token.text, distractors, wrong),
+    random
+  );
+}
+
+/**
+ * Generates a shuffled quiz over the given roots, rotating through the kinds
+ * so each root is asked about in different ways. Roots that do not occur in
+ * the corpus, or kinds that cannot get enough distractors, are skipped.
+ */
+export function generateQuiz(index: QuizIndex, roots: string[], options: QuizOptions = {}): QuizQuestion[] {
+  const { kinds = QUIZ_KINDS, questionsPerRoot = 2, choiceCount = 4, seed = Date.now() } = options;
+  const random = mulberry32(seed);
+  const questions: QuizQuestion[] = [];
+
+  roots.forEach((root, rootIndex) => {
+    const profile = index.roots.get(root);
+    if (!profile) return;
+    const asked = new Set<QuizKind>();
+    for (let attempt = 0; attempt < kinds.length && asked.size < questionsPerRoot; attempt++) {
+      const kind = kinds[(rootIndex + attempt) % kinds.length];
+      if (asked.has(kind)) continue;
+      const question = buildQuestion(kind, index, profile, choiceCount, random);
+      if (!question) continue;
+      asked.add(kind);
+      questions.push(question);
+    }
+  });
+
+  return shuffle(questions, random);
+}
+
+export function recordQuizAnswer(score: QuizScore | undefined, correct: boolean, now: number = Date.now()): QuizScore {
+  return {
+    attempts: (score?.attempts ?? 0) + 1,
+    correct: (score?.correct ?? 0) + (correct ? 1 : 0),
+    lastAttemptAt: now,
+  };
+}
+
+/** Share of correct answers, or null before the first attempt. */
+export function quizAccuracy(score: QuizScore | undefined): number | null {
+  return score && score.attempts > 0 ? score.correct / score.attempts : null;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import type { CorpusToken } from "@/lib/schema/types";
+import { buildRootReviewCard } from "@/lib/study/reviewCard";
+
+function token(id: string, text: string, root: string, lemma: string, gloss: string | null): CorpusToken {
+  const [sura, ayah, position] = id.split(":").map(Number);
+  return { id, sura, ayah, position, text, root, lemma, pos: "N", morphology: { features: {}, gloss, stem: null } };
+}
+
+const tokens = [
+  token("1:1:2", "ٱللَّهِ", "اله", "اللَّه", "(of) Allah"),
+  token("1:1:3", "ٱلرَّحْمَٰنِ", "رحم", "رَّحْمَٰن", "the Most Gracious"),
+  token("1:1:4", "ٱلرَّحِيمِ", "رحم", "رَّحِيم", "the Most Merciful"),
+  token("1:3:1", "ٱلرَّحْمَٰنِ", "رحم", "رَّحْمَٰن", "the Most Gracious"),
+  token("1:3:2", "ٱلرَّحِيمِ", "رحم", "رَّحِيم", "the Most Merciful"),
+  token("2:37:8", "ٱلرَّحِيمُ", "رحم", "رَّحِيم", "the Most Merciful"),
+  token("2:37:7", "ٱلتَّوَّابُ", "توب", "تَوَّاب", "(is) the Oft-returning"),
+];
+
+describe("buildRootReviewCard", () => {
+  it("collects glosses and derived lemmas by frequency", () => {
+    const card = buildRootReviewCard("رحم", tokens);
+
+    expect(card.occurrences).toBe(5);
+    expect(card.glosses[0]).toBe("the Most Merciful");
+    expect(card.lemmas).toEqual([
+      { lemma: "رَّحِيم", count: 3, gloss: "the Most Merciful" },
+      { lemma: "رَّحْمَٰن", count: 2, gloss: "the Most Gracious" },
+    ]);
+  });
+
+  it("spreads example ayahs over the occurrences and marks the root's words", () => {
+    const card = buildRootReviewCard("رحم", tokens, { maxExamples: 2 });
+
+    expect(card.examples.map((example) => example.ayahId)).toEqual(["1:1", "1:3"]);
+    expect(card.examples[0].words.map((word) => word.isMatch)).toEqual([false, true, true]);
+
+    const spread = buildRootReviewCard("رحم", tokens, { maxExamples: 3 });
+    expect(spread.examples.map((example) => example.ayahId)).toEqual(["1:1", "1:3", "2:37"]);
+    expect(spread.examples[2].words.map((word) => word.id)).toEqual(["2:37:7", "2:37:8"]);
+  });
+});
@@ -0,0 +1,104 @@
+import type { CorpusToken } from "@/lib/schema/types";
+
+export interface ReviewCardLemma {
+  lemma: string;
+  count: number;
+  gloss: string | null;
+}
+
+export interface ReviewCardExample {
+  ayahId: string;
+  words: Array<{ id: string; text: string; isMatch: boolean }>;
+}
+
+/** Answer side of a root review: what it means, what derives from it, where it occurs. */
+export interface RootReviewCard {
+  root: string;
+  occurrences: number;
+  glosses: string[];
+  lemmas: ReviewCardLemma[];
+  examples: ReviewCardExample[];
+}
+
+export interface RootReviewCardOptions {
+  maxGlosses?: number;
+  maxLemmas?: number;
+  maxExamples?: number;
+}
+
+function topByCount(counts: Map<string, number>, limit: number): string[] {
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([value]) => value);
+}
+
+/**
+ * Builds a review card for a root from the loaded corpus. Example ayahs are
+ * spread evenly over the root's occurrences so they do not all come from the
+ * first surah that uses it.
+ */
+export function buildRootReviewCard(
+  root: string,
+  tokens: CorpusToken[],
+  options: RootReviewCardOptions = {}
+): RootReviewCard {
+  const { maxGlosses = 3, maxLemmas = 6, maxExamples = 3 } = options;
+
+  const glossCounts = new Map<string, number>();
+  const lemmaCounts = new Map<string, number>();
+  const lemmaGlosses = new Map<string, Map<string, number>>();
+  const ayahIds: string[] = [];
+  let occurrences = 0;
+
+  for (const token of tokens) {
+    if (token.root !== root) continue;
+    occurrences++;
+    const gloss = token.morphology?.gloss?.trim();
+    if (gloss) glossCounts.set(gloss, (glossCounts.get(gloss) ?? 0) + 1);
+    if (token.lemma) {
+      lemmaCounts.set(token.lemma, (lemmaCounts.get(token.lemma) ?? 0) + 1);
+      if (gloss) {
+        const counts = lemmaGlosses.get(token.lemma) ?? new Map<string, number>();
+        counts.set(gloss, (counts.get(gloss) ?? 0) + 1);
+        lemmaGlosses.set(token.lemma, counts);
+      }
+    }
+    const ayahId = `${token.sura}:${token.ayah}`;
+    if (ayahIds[ayahIds.length - 1] !== ayahId) ayahIds.push(ayahId);
+  }
+
+  const exampleCount = Math.min(maxExamples, ayahIds.length);
+  const exampleIds = new Set<string>();
+  for (let i = 0; i < exampleCount; i++) {
+    exampleIds.add(ayahIds[Math.floor((i * ayahIds.length) / exampleCount)]);
+  }
+
+  const wordsByAyah = new Map<string, CorpusToken[]>();
+  if (exampleIds.size > 0) {
+    for (const token of tokens) {
+      const ayahId = `${token.sura}:${token.ayah}`;
+      if (!exampleIds.has(ayahId)) continue;
+      const words = wordsByAyah.get(ayahId) ?? [];
+      words.push(token);
+      wordsByAyah.set(ayahId, words);
+    }
+  }
+
+  return {
+    root,
+    occurrences,
+    glosses: topByCount(glossCounts, maxGlosses),
+    lemmas: topByCount(lemmaCounts, maxLemmas).map((lemma) => ({
+      lemma,
+      count: lemmaCounts.get(lemma)!,
+      gloss: topByCount(lemmaGlosses.get(lemma) ?? new Map(), 1)[0] ?? null,
+    })),
+    examples: [...exampleIds].map((ayahId) => ({
+      ayahId,
+      words: (wordsByAyah.get(ayahId) ?? [])
+        .sort((a, b) => a.position - b.position)
+        .map((token) => ({ id: token.id, text: token.text, isMatch: token.root === root })),
+    })),
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_EASE,
+  MIN_EASE,
+  dueToday,
+  isDueToday,
+  newReviewSchedule,
+  previewIntervals,
+  scheduleReview,
+} from "@/lib/study/scheduler";
+
+const NOW = new Date(2026, 0, 10, 9, 0).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("scheduleReview", () => {
+  it("grows the interval through the SM-2 steps on good answers", () => {
+    let schedule = newReviewSchedule(NOW);
+    const intervals: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      schedule = scheduleReview(schedule, "good", NOW);
+      intervals.push(schedule.intervalDays);
+    }
+
+    expect(intervals).toEqual([1, 3, 8, 20]);
+    expect(schedule.ease).toBe(DEFAULT_EASE);
+    expect(schedule.reps).toBe(4);
+    expect(schedule.dueAt).toBe(NOW + 20 * DAY);
+  });
+
+  it("counts a lapse and relearns soon when a reviewed card is forgotten", () => {
+    const reviewed = scheduleReview(scheduleReview(newReviewSchedule(NOW), "good", NOW), "good", NOW);
+    const forgotten = scheduleReview(reviewed, "again", NOW);
+
+    expect(forgotten).toMatchObject({ intervalDays: 0, reps: 0, lapses: 1, ease: DEFAULT_EASE - 0.2 });
+    expect(forgotten.dueAt - NOW).toBe(10 * 60 * 1000);
+  });
+
+  it("keeps the ease of a new card answered again before its first success", () => {
+    const failed = scheduleReview(scheduleReview(newReviewSchedule(NOW), "again", NOW), "again", NOW);
+
+    expect(failed).toMatchObject({ ease: DEFAULT_EASE, lapses: 0, reps: 0, intervalDays: 0 });
+    expect(scheduleReview(failed, "good", NOW)).toMatchObject({ ease: DEFAULT_EASE, intervalDays: 1 });
+  });
+
+  it("never lets the ease drop below the SM-2 minimum", () => {
+    let schedule = newReviewSchedule(NOW);
+    for (let i = 0; i < 10; i++) schedule = scheduleReview(schedule, "hard", NOW);
+
+    expect(schedule.ease).toBe(MIN_EASE);
+  });
+
+  it("previews a longer wait for easier grades", () => {
+    const preview = previewIntervals(scheduleReview(newReviewSchedule(NOW), "good", NOW), NOW);
+
+    expect(preview.again).toBeLessThan(preview.hard);
+    expect(preview.hard).toBeLessThan(preview.good);
+    expect(preview.good).toBeLessThan(preview.easy);
+  });
+});
+
+describe("dueToday", () => {
+  it("keeps cards due before midnight, overdue first and new cards last", () => {
+    const items = [
+      { id: "new", addedAt: 1 },
+      { id: "tonight", addedAt: 2, schedule: { ...newReviewSchedule(NOW), dueAt: NOW + 10 * 60 * 60 * 1000 } },
+      { id: "tomorrow", addedAt: 3, schedule: { ...newReviewSchedule(NOW), dueAt: NOW + DAY } },
+      { id: "overdue", addedAt: 4, schedule: { ...newReviewSchedule(NOW), dueAt: NOW - DAY } },
+    ];
+
+    expect(dueToday(items, NOW).map((item) => item.id)).toEqual(["overdue", "tonight", "new"]);
+    expect(isDueToday(undefined, NOW)).toBe(true);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * SM-2 style review scheduler for tracked roots, with Anki's four answer
+ * buttons. Intervals are in days; "again" brings a card back after a short
+ * relearning step instead of a whole day.
+ */
+
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+export const REVIEW_GRADES: readonly ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+export interface ReviewSchedule {
+  // Interval multiplier for successful reviews (SM-2 E-factor).
+  ease: number;
+  intervalDays: number;
+  dueAt: number; // epoch ms
+  // Times a learned card was forgotten ("again" after at least one success).
+  lapses: number;
+  // Successful reviews in a row.
+  reps: number;
+}
+
+export const DEFAULT_EASE = 2.5;
+export const MIN_EASE = 1.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+/** Schedule of a root that has never been reviewed: due immediately. */
+export function newReviewSchedule(now: number = Date.now()): ReviewSchedule {
+  return { ease: DEFAULT_EASE, intervalDays: 0, dueAt: now, lapses: 0, reps: 0 };
+}
+
+function nextInterval(schedule: ReviewSchedule, grade: Exclude<ReviewGrade, "again">, ease: number): number {
+  const { reps, intervalDays } = schedule;
+  if (grade === "hard") return reps === 0 ? 1 : Math.max(intervalDays + 1, Math.round(intervalDays * 1.2));
+  const good = reps === 0 ? 1 : reps === 1 ? 3 : Math.max(intervalDays + 1, Math.round(intervalDays * ease));
+  if (grade === "good") return good;
+  // Easy always waits longer than good would have
+  return reps === 0 ? 4 : Math.max(good + 1, Math.round(intervalDays * ease * 1.3));
+}
+
+export function scheduleReview(schedule: ReviewSchedule, grade: ReviewGrade, now: number = Date.now()): ReviewSchedule {
+  if (grade === "again") {
+    // Only forgetting a learned card costs ease; a card still being learned keeps it
+    const lapsed = schedule.reps > 0;
+    return {
+      ease: lapsed ? Math.max(MIN_EASE, schedule.ease - 0.2) : schedule.ease,
+      intervalDays: 0,
+      dueAt: now + RELEARN_DELAY_MS,
+      lapses: lapsed ? schedule.lapses + 1 : schedule.lapses,
+      reps: 0,
+    };
+  }
+
+  const easeDelta = grade === "hard" ? -0.15 : grade === "easy" ? 0.15 : 0;
+  const ease = Math.max(MIN_EASE, schedule.ease + easeDelta);
+  const intervalDays = nextInterval(schedule, grade, ease);
+  return { ease, intervalDays, dueAt: now + intervalDays * DAY_MS, lapses: schedule.lapses, reps: schedule.reps + 1 };
+}
+
+/** Time until the card would be due again for each grade, for labelling the answer buttons. */
+export function previewIntervals(schedule: ReviewSchedule, now: number = Date.now()): Record<ReviewGrade, number> {
+  const preview = {} as Record<ReviewGrade, number>;
+  for (const grade of REVIEW_GRADES) preview[grade] = scheduleReview(schedule, grade, now).dueAt - now;
+  return preview;
+}
+
+function endOfDay(now: number): number {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+}
+
+/** Whether a card is due by the end of the local day; unscheduled cards always are. */
+export function isDueToday(schedule: ReviewSchedule | undefined, now: number = Date.now()): boolean {
+  return !schedule || schedule.dueAt <= endOfDay(now);
+}
+
+/** Items due by the end of today, most overdue first and never-reviewed ones after. */
+export function dueToday<T extends { schedule?: ReviewSchedule; addedAt: number }>(items: Iterable<T>, now: number = Date.now()): T[] {
+  return [...items]
+    .filter((item) => isDueToday(item.schedule, now))
+    .sort((a, b) => {
+      if (a.schedule && b.schedule) return a.schedule.dueAt - b.schedule.dueAt;
+      if (a.schedule || b.schedule) return a.schedule ? -1 : 1;
+      return a.addedAt - b.addedAt;
+    });
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { CorpusToken } from "@/lib/schema/types";
+import {
+  createStudyItem,
+  parseCollections,
+  parseStudyItemRef,
+  studyItemCoversToken,
+  studyItemId,
+  summarizeCollections,
+} from "@/lib/study/studyItems";
+
+describe("parseStudyItemRef", () => {
+  it("parses ayah and passage references", () => {
+    expect(parseStudyItemRef("ayah", " 2:255 ")).toEqual({ kind: "ayah", sura: 2, ayah: 255 });
+    expect(parseStudyItemRef("passage", "2:1-5")).toEqual({ kind: "passage", sura: 2, fromAyah: 1, toAyah: 5 });
+    expect(parseStudyItemRef("passage", "18:9 – 18:26")).toEqual({ kind: "passage", sura: 18, fromAyah: 9, toAyah: 26 });
+  });
+
+  it("rejects malformed or cross-surah references", () => {
+    expect(parseStudyItemRef("ayah", "115:1")).toBeNull();
+    expect(parseStudyItemRef("ayah", "2")).toBeNull();
+    expect(parseStudyItemRef("passage", "2:5-3")).toBeNull();
+    expect(parseStudyItemRef("passage", "2:5-3:1")).toBeNull();
+    expect(parseStudyItemRef("search", "   ")).toBeNull();
+  });
+
+  it("keeps free text for roots, lemmas and searches", () => {
+    expect(parseStudyItemRef("search", "root:رحم  AND pos:V")).toEqual({ kind: "search", query: "root:رحم AND pos:V" });
+    expect(studyItemId(parseStudyItemRef("lemma", "كِتَٰب")!)).toBe("lemma:كِتَٰب");
+  });
+});
+
+describe("collections", () => {
+  it("normalizes names and counts items per collection", () => {
+    expect(parseCollections("Mercy, mercy ,  Juz  30،Mercy")).toEqual(["Mercy", "mercy", "Juz 30"]);
+
+    const items = [
+      createStudyItem({ kind: "root", root: "رحم" }, { collections: ["Mercy", "Juz 30"] }, 1),
+      createStudyItem({ kind: "ayah", sura: 1, ayah: 1 }, { collections: ["Mercy"] }, 2),
+      createStudyItem({ kind: "search", query: "pos:V" }, {}, 3),
+    ];
+
+    expect(summarizeCollections(items)).toEqual([
+      { name: "Mercy", count: 2 },
+      { name: "Juz 30", count: 1 },
+    ]);
+  });
+});
+
+describe("studyItemCoversToken", () => {
+  const token = { sura: 2, ayah: 3, root: "غيب", lemma: "غَيْب" } as CorpusToken;
+
+  it("matches tokens by reference kind", () => {
+    expect(studyItemCoversToken({ kind: "passage", sura: 2, fromAyah: 1, toAyah: 5 }, token)).toBe(true);
+    expect(studyItemCoversToken({ kind: "ayah", sura: 2, ayah: 4 }, token)).toBe(false);
+    expect(studyItemCoversToken({ kind: "lemma", lemma: "غَيْب" }, token)).toBe(true);
+    expect(studyItemCoversToken({ kind: "search", query: "غيب" }, token)).toBe(false);
+  });
+});
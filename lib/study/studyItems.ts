@@ -0,0 +1,156 @@
+import type { CorpusToken } from "@/lib/schema/types";
+import type { FieldClocks } from "@/lib/sync/lww";
+
+/**
+ * Study items generalize tracked roots to anything worth coming back to: a
+ * lemma, an ayah, a passage, or a saved search query. Items carry free-form
+ * notes and belong to any number of user-defined collections.
+ */
+
+export type StudyItemKind = "root" | "lemma" | "ayah" | "passage" | "search";
+
+export const STUDY_ITEM_KINDS: readonly StudyItemKind[] = ["root", "lemma", "ayah", "passage", "search"];
+
+export type StudyItemRef =
+  | { kind: "root"; root: string }
+  | { kind: "lemma"; lemma: string }
+  | { kind: "ayah"; sura: number; ayah: number }
+  | { kind: "passage"; sura: number; fromAyah: number; toAyah: number }
+  | { kind: "search"; query: string };
+
+export interface StudyItem {
+  id: string; // studyItemId(ref), so the same reference is never saved twice
+  ref: StudyItemRef;
+  label: string;
+  notes: string;
+  collections: string[];
+  addedAt: number; // epoch ms
+  updatedAt: number; // epoch ms
+  fieldClocks?: FieldClocks; // set once the item has been edited through sync
+}
+
+export type StudyItemPatch = Partial<Pick<StudyItem, "label" | "notes" | "collections">>;
+
+export interface CollectionSummary {
+  name: string;
+  count: number;
+}
+
+const AYAH_REF_PATTERN = /^(\d{1,3}):(\d{1,3})$/;
+const PASSAGE_REF_PATTERN = /^(\d{1,3}):(\d{1,3})\s*[-–]\s*(?:(\d{1,3}):)?(\d{1,3})$/;
+
+export function studyItemId(ref: StudyItemRef): string {
+  switch (ref.kind) {
+    case "root":
+      return `root:${ref.root}`;
+    case "lemma":
+      return `lemma:${ref.lemma}`;
+    case "ayah":
+      return `ayah:${ref.sura}:${ref.ayah}`;
+    case "passage":
+      return `passage:${ref.sura}:${ref.fromAyah}-${ref.toAyah}`;
+    case "search":
+      return `search:${ref.query}`;
+  }
+}
+
+/** Display text for an item without a custom label, e.g. "2:255" or "2:1–5". */
+export function describeStudyItemRef(ref: StudyItemRef): string {
+  switch (ref.kind) {
+    case "root":
+      return ref.root;
+    case "lemma":
+      return ref.lemma;
+    case "ayah":
+      return `${ref.sura}:${ref.ayah}`;
+    case "passage":
+      return `${ref.sura}:${ref.fromAyah}–${ref.toAyah}`;
+    case "search":
+      return ref.query;
+  }
+}
+
+/**
+ * Parses what a user typed for a given kind: "2:255" for an ayah, "2:1-5" (or
+ * "2:1-2:5") for a passage within one surah, the text itself otherwise.
+ * Returns null when the input does not describe an item of that kind.
+ */
+export function parseStudyItemRef(kind: StudyItemKind, input: string): StudyItemRef | null {
+  const value = input.trim().replace(/\s+/g, " ");
+  if (!value) return null;
+
+  if (kind === "ayah") {
+    const match = value.match(AYAH_REF_PATTERN);
+    if (!match) return null;
+    const [sura, ayah] = [Number(match[1]), Number(match[2])];
+    return sura >= 1 && sura <= 114 && ayah >= 1 ? { kind, sura, ayah } : null;
+  }
+
+  if (kind === "passage") {
+    const match = value.match(PASSAGE_REF_PATTERN);
+    if (!match) return null;
+    const sura = Number(match[1]);
+    const fromAyah = Number(match[2]);
+    const toAyah = Number(match[4]);
+    // A passage spanning surahs would need a different reference shape
+    if (match[3] && Number(match[3]) !== sura) return null;
+    if (sura < 1 || sura > 114 || fromAyah < 1 || toAyah <= fromAyah) return null;
+    return { kind, sura, fromAyah, toAyah };
+  }
+
+  if (kind === "root") return { kind, root: value };
+  if (kind === "lemma") return { kind, lemma: value };
+  return { kind, query: value };
+}
+
+export function normalizeCollectionName(name: string): string {
+  return name.trim().replace(/\s+/g, " ");
+}
+
+/** Splits a comma-separated collections field into distinct names. */
+export function parseCollections(input: string): string[] {
+  return [...new Set(input.split(/[,،]/).map(normalizeCollectionName).filter(Boolean))];
+}
+
+export function createStudyItem(
+  ref: StudyItemRef,
+  fields: StudyItemPatch = {},
+  now: number = Date.now()
+): StudyItem {
+  return {
+    id: studyItemId(ref),
+    ref,
+    label: fields.label ?? "",
+    notes: fields.notes ?? "",
+    collections: [...new Set((fields.collections ?? []).map(normalizeCollectionName).filter(Boolean))],
+    addedAt: now,
+    updatedAt: now,
+  };
+}
+
+/** Collections in use with their item counts, largest first. */
+export function summarizeCollections(items: Iterable<StudyItem>): CollectionSummary[] {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    for (const name of item.collections) counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/** Whether a corpus token falls under the item; saved searches match nothing directly. */
+export function studyItemCoversToken(ref: StudyItemRef, token: CorpusToken): boolean {
+  switch (ref.kind) {
+    case "root":
+      return token.root === ref.root;
+    case "lemma":
+      return token.lemma === ref.lemma;
+    case "ayah":
+      return token.sura === ref.sura && token.ayah === ref.ayah;
+    case "passage":
+      return token.sura === ref.sura && token.ayah >= ref.fromAyah && token.ayah <= ref.toAyah;
+    case "search":
+      return false;
+  }
+}
@@ -10,10 +10,8 @@ vi.mock("@/lib/supabase/client", () => ({
 
 import {
     getTrackedRoots,
-    upsertRoot,
-    updateRoot,
-    removeRoot,
-    batchUpsertRoots,
+    getRootSyncState,
+    putRootSyncState,
 } from "./knowledgeService";
 
 // ── Helpers ────────────────────────────────────────────────────────────────────
@@ -60,6 +58,25 @@ describe("knowledgeService", () => {
             expect(roots[1].state).toBe("learned");
         });
 
+        it("maps review schedule columns once the root has a due date", async () => {
+            mockFrom.mockReturnValue({
+                select: vi.fn().mockReturnValue({
+                    order: vi.fn().mockResolvedValue({
+                        data: [
+                            { ...makeRow("ك-ت-ب"), ease: 2.36, interval_days: 3, due_at: AT, lapses: 1, reps: 2 },
+                            { ...makeRow("ع-ل-م"), ease: 2.5, interval_days: 0, due_at: null, lapses: 0, reps: 0 },
+                        ],
+                        error: null,
+                    }),
+                }),
+            });
+
+            const [reviewed, unreviewed] = await getTrackedRoots();
+
+            expect(reviewed.schedule).toEqual({ ease: 2.36, intervalDays: 3, dueAt: AT_MS, lapses: 1, reps: 2 });
+            expect(unreviewed.schedule).toBeUndefined();
+        });
+
         it("returns empty array when data is null", async () => {
             mockFrom.mockReturnValue({
                 select: vi.fn().mockReturnValue({
@@ -81,159 +98,111 @@ describe("knowledgeService", () => {
         });
     });
 
-    // ── upsertRoot ───────────────────────────────────────────────────────────
-    describe("upsertRoot", () => {
-        it("returns a TrackedRoot on success", async () => {
+    // ── Sync state ───────────────────────────────────────────────────────────
+    describe("getTrackedRoots with tombstones", () => {
+        it("leaves out deleted rows and reads field clocks", async () => {
             mockFrom.mockReturnValue({
-                upsert: vi.fn().mockReturnValue({
-                    select: vi.fn().mockReturnValue({
-                        single: vi.fn().mockResolvedValue({ data: makeRow("ع-ل-م", "learned"), error: null }),
+                select: vi.fn().mockReturnValue({
+                    order: vi.fn().mockResolvedValue({
+                        data: [
+                            { ...makeRow("ك-ت-ب"), field_clocks: { notes: AT_MS }, deleted_at: null },
+                            { ...makeRow("ع-ل-م"), field_clocks: {}, deleted_at: AT },
+                        ],
+                        error: null,
                     }),
                 }),
             });
 
-            const result = await upsertRoot("uid", "ع-ل-م", "learned");
+            const roots = await getTrackedRoots();
 
-            expect(result.root).toBe("ع-ل-م");
-            expect(result.state).toBe("learned");
-            expect(result.addedAt).toBe(AT_MS);
+            expect(roots).toEqual([{ ...makeTrackedRoot("ك-ت-ب"), fieldClocks: { notes: AT_MS } }]);
         });
+    });
 
-        it("defaults state to learning", async () => {
-            const upsertMock = vi.fn().mockReturnValue({
-                select: vi.fn().mockReturnValue({
-                    single: vi.fn().mockResolvedValue({ data: makeRow("ر-ح-م"), error: null }),
-                }),
+    describe("getRootSyncState", () => {
+        const mockSelectRow = (data: unknown) => {
+            const eqMock = vi.fn().mockReturnValue({
+                maybeSingle: vi.fn().mockResolvedValue({ data, error: null }),
             });
-            mockFrom.mockReturnValue({ upsert: upsertMock });
+            mockFrom.mockReturnValue({ select: vi.fn().mockReturnValue({ eq: eqMock }) });
+            return eqMock;
+        };
 
-            await upsertRoot("uid", "ر-ح-م");
+        it("returns the live record", async () => {
+            const eqMock = mockSelectRow(makeRow("ك-ت-ب", "learned"));
 
-            expect(upsertMock).toHaveBeenCalledWith(
-                expect.objectContaining({ state: "learning" }),
-                expect.any(Object)
-            );
+            const state = await getRootSyncState("ك-ت-ب");
+
+            expect(eqMock).toHaveBeenCalledWith("root", "ك-ت-ب");
+            expect(state).toEqual({ record: makeTrackedRoot("ك-ت-ب", "learned"), deletedAt: null });
         });
 
-        it("throws on error", async () => {
-            mockFrom.mockReturnValue({
-                upsert: vi.fn().mockReturnValue({
-                    select: vi.fn().mockReturnValue({
-                        single: vi.fn().mockResolvedValue({ data: null, error: { message: "unique conflict" } }),
-                    }),
-                }),
-            });
+        it("returns the tombstone time for a deleted row", async () => {
+            mockSelectRow({ ...makeRow("ك-ت-ب"), deleted_at: AT });
 
-            await expect(upsertRoot("uid", "root", "learning")).rejects.toThrow("unique conflict");
+            expect(await getRootSyncState("ك-ت-ب")).toEqual({ record: null, deletedAt: AT_MS });
         });
     });
 
-    // ── updateRoot ───────────────────────────────────────────────────────────
-    describe("updateRoot", () => {
-        it("includes patch fields and last_reviewed_at in update", async () => {
-            const updateMock = vi.fn().mockReturnValue({
-                eq: vi.fn().mockReturnValue({
-                    select: vi.fn().mockReturnValue({
-                        single: vi.fn().mockResolvedValue({ data: makeRow("ف-ع-ل", "learned"), error: null }),
-                    }),
-                }),
-            });
-            mockFrom.mockReturnValue({ update: updateMock });
+    describe("putRootSyncState", () => {
+        it("upserts a live record with its clocks and clears the tombstone", async () => {
+            const upsertMock = vi.fn().mockResolvedValue({ error: null });
+            mockFrom.mockReturnValue({ upsert: upsertMock });
+            const record = { ...makeTrackedRoot("ك-ت-ب"), fieldClocks: { state: AT_MS } };
 
-            const result = await updateRoot("ف-ع-ل", { state: "learned" });
+            await putRootSyncState("uid", "ك-ت-ب", { record, deletedAt: null });
 
-            expect(updateMock).toHaveBeenCalledWith(
-                expect.objectContaining({ state: "learned", last_reviewed_at: expect.any(String) })
+            expect(upsertMock).toHaveBeenCalledWith(
+                expect.objectContaining({ user_id: "uid", field_clocks: { state: AT_MS }, deleted_at: null }),
+                { onConflict: "user_id,root", ignoreDuplicates: false }
             );
-            expect(result.state).toBe("learned");
         });
 
-        it("throws on error", async () => {
-            mockFrom.mockReturnValue({
-                update: vi.fn().mockReturnValue({
-                    eq: vi.fn().mockReturnValue({
-                        select: vi.fn().mockReturnValue({
-                            single: vi.fn().mockResolvedValue({ data: null, error: { message: "row not found" } }),
-                        }),
-                    }),
-                }),
-            });
-
-            await expect(updateRoot("x", { notes: "test" })).rejects.toThrow("row not found");
-        });
-    });
-
-    // ── removeRoot ───────────────────────────────────────────────────────────
-    describe("removeRoot", () => {
-        it("calls delete with the correct root value", async () => {
+        it("marks the row deleted instead of removing it", async () => {
             const eqMock = vi.fn().mockResolvedValue({ error: null });
-            mockFrom.mockReturnValue({ delete: vi.fn().mockReturnValue({ eq: eqMock }) });
-
-            await removeRoot("ع-ل-م");
-
-            expect(eqMock).toHaveBeenCalledWith("root", "ع-ل-م");
-        });
-
-        it("throws on error", async () => {
-            mockFrom.mockReturnValue({
-                delete: vi.fn().mockReturnValue({
-                    eq: vi.fn().mockResolvedValue({ error: { message: "delete failed" } }),
-                }),
-            });
-
-            await expect(removeRoot("x")).rejects.toThrow("delete failed");
-        });
-    });
+            const updateMock = vi.fn().mockReturnValue({ eq: eqMock });
+            mockFrom.mockReturnValue({ update: updateMock });
 
-    // ── batchUpsertRoots ─────────────────────────────────────────────────────
-    describe("batchUpsertRoots", () => {
-        it("returns 0 and skips Supabase for empty input", async () => {
-            const result = await batchUpsertRoots("uid", []);
+            await putRootSyncState("uid", "ك-ت-ب", { record: null, deletedAt: AT_MS });
 
-            expect(result).toBe(0);
-            expect(mockFrom).not.toHaveBeenCalled();
+            expect(updateMock).toHaveBeenCalledWith({ deleted_at: AT });
+            expect(eqMock).toHaveBeenCalledWith("root", "ك-ت-ب");
         });
 
-        it("upserts correctly shaped rows and returns count", async () => {
+        it("writes the review schedule and quiz score as their own columns", async () => {
             const upsertMock = vi.fn().mockResolvedValue({ error: null });
             mockFrom.mockReturnValue({ upsert: upsertMock });
-
-            const roots: TrackedRoot[] = [
-                makeTrackedRoot("ك-ت-ب"),
-                makeTrackedRoot("ع-ل-م", "learned"),
-            ];
-
-            const count = await batchUpsertRoots("uid", roots);
-
-            expect(count).toBe(2);
-            expect(upsertMock).toHaveBeenCalledWith(
-                expect.arrayContaining([
-                    expect.objectContaining({ user_id: "uid", root: "ك-ت-ب", state: "learning" }),
-                    expect.objectContaining({ user_id: "uid", root: "ع-ل-م", state: "learned" }),
-                ]),
-                expect.any(Object)
-            );
+            const record: TrackedRoot = {
+                ...makeTrackedRoot("ف-ع-ل"),
+                schedule: { ease: 2.5, intervalDays: 1, dueAt: AT_MS, lapses: 0, reps: 1 },
+                quiz: { attempts: 3, correct: 2, lastAttemptAt: AT_MS },
+            };
+
+            await putRootSyncState("uid", "ف-ع-ل", { record, deletedAt: null });
+
+            const [[row]] = upsertMock.mock.calls;
+            expect(row).toMatchObject({
+                ease: 2.5, interval_days: 1, due_at: AT, lapses: 0, reps: 1,
+                quiz_attempts: 3, quiz_correct: 2, last_quiz_at: AT,
+            });
+            expect(row).not.toHaveProperty("schedule");
+            expect(row).not.toHaveProperty("quiz");
         });
 
-        it("includes addedAt and lastReviewedAt as ISO strings", async () => {
+        it("resets the schedule and quiz columns when a deleted root is tracked again", async () => {
+            const eqMock = vi.fn().mockResolvedValue({ error: null });
+            const updateMock = vi.fn().mockReturnValue({ eq: eqMock });
             const upsertMock = vi.fn().mockResolvedValue({ error: null });
-            mockFrom.mockReturnValue({ upsert: upsertMock });
+            mockFrom.mockReturnValue({ update: updateMock, upsert: upsertMock });
 
-            await batchUpsertRoots("uid", [makeTrackedRoot("ك-ت-ب")]);
-
-            const [[rows]] = upsertMock.mock.calls;
-            expect(rows[0].added_at).toBe(new Date(AT_MS).toISOString());
-            expect(rows[0].last_reviewed_at).toBe(new Date(AT_MS).toISOString());
-        });
+            await putRootSyncState("uid", "ف-ع-ل", { record: null, deletedAt: AT_MS });
+            await putRootSyncState("uid", "ف-ع-ل", { record: makeTrackedRoot("ف-ع-ل"), deletedAt: null });
 
-        it("throws when Supabase returns an error", async () => {
-            mockFrom.mockReturnValue({
-                upsert: vi.fn().mockResolvedValue({ error: { message: "bulk insert failed" } }),
+            const [[row]] = upsertMock.mock.calls;
+            expect(row).toMatchObject({
+                ease: 2.5, interval_days: 0, due_at: null, lapses: 0, reps: 0,
+                quiz_attempts: 0, quiz_correct: 0, last_quiz_at: null, deleted_at: null,
             });
-
-            await expect(
-                batchUpsertRoots("uid", [makeTrackedRoot("ك-ت-ب")])
-            ).rejects.toThrow("bulk insert failed");
         });
     });
 });
@@ -1,10 +1,15 @@
 /**
- * Supabase knowledge service – server-side CRUD for tracked_roots.
+ * Supabase knowledge service – reads tracked_roots and stores sync merges.
  * Uses the browser Supabase client; RLS enforces user_id isolation.
  */
 
 import { createClient } from "@/lib/supabase/client";
 import type { TrackedRoot, KnowledgeState } from "@/lib/cache/knowledgeCache";
+import type { QuizScore } from "@/lib/study/quiz";
+import { DEFAULT_EASE, type ReviewSchedule } from "@/lib/study/scheduler";
+import type { FieldClocks, SyncState } from "@/lib/sync/lww";
+
+const ROOT_COLUMNS = "root, state, notes, added_at, last_reviewed_at, ease, interval_days, due_at, lapses, reps, quiz_attempts, quiz_correct, last_quiz_at, field_clocks, deleted_at";
 
 function supabaseRowToTrackedRoot(row: {
     root: string;
@@ -12,109 +17,131 @@ function supabaseRowToTrackedRoot(row: {
     notes: string;
     added_at: string;
     last_reviewed_at: string;
+    ease?: number;
+    interval_days?: number;
+    due_at?: string | null;
+    lapses?: number;
+    reps?: number;
+    quiz_attempts?: number;
+    quiz_correct?: number;
+    last_quiz_at?: string | null;
+    field_clocks?: unknown;
+    deleted_at?: string | null;
 }): TrackedRoot {
-    return {
+    const entry: TrackedRoot = {
         root: row.root,
         state: row.state as KnowledgeState,
         notes: row.notes,
         addedAt: new Date(row.added_at).getTime(),
         lastReviewedAt: new Date(row.last_reviewed_at).getTime(),
     };
+    // due_at is NULL until the first review
+    if (row.due_at) {
+        entry.schedule = {
+            ease: row.ease ?? DEFAULT_EASE,
+            intervalDays: row.interval_days ?? 0,
+            dueAt: new Date(row.due_at).getTime(),
+            lapses: row.lapses ?? 0,
+            reps: row.reps ?? 0,
+        };
+    }
+    // last_quiz_at is NULL until the first quiz answer
+    if (row.last_quiz_at) {
+        entry.quiz = {
+            attempts: row.quiz_attempts ?? 0,
+            correct: row.quiz_correct ?? 0,
+            lastAttemptAt: new Date(row.last_quiz_at).getTime(),
+        };
+    }
+    // field_clocks is empty until the root is first written through sync
+    if (row.field_clocks && Object.keys(row.field_clocks).length > 0) {
+        entry.fieldClocks = row.field_clocks as FieldClocks;
+    }
+    return entry;
 }
 
-/** Fetch all tracked roots for the signed-in user. */
-export async function getTrackedRoots(): Promise<TrackedRoot[]> {
-    const supabase = createClient();
-    const { data, error } = await supabase
-        .from("tracked_roots")
-        .select("root, state, notes, added_at, last_reviewed_at")
-        .order("added_at", { ascending: false });
-
-    if (error) throw new Error(error.message);
-    return (data ?? []).map(supabaseRowToTrackedRoot);
+function trackedRootToRow(userId: string, r: TrackedRoot) {
+    return {
+        user_id: userId,
+        root: r.root,
+        state: r.state,
+        notes: r.notes,
+        added_at: new Date(r.addedAt).toISOString(),
+        last_reviewed_at: new Date(r.lastReviewedAt).toISOString(),
+        // Columns of a root without a schedule or quiz score go back to their
+        // defaults, so re-tracking a deleted root starts it afresh
+        ...(r.schedule ? scheduleToColumns(r.schedule) : UNSCHEDULED_COLUMNS),
+        ...(r.quiz ? quizToColumns(r.quiz) : UNQUIZZED_COLUMNS),
+        field_clocks: r.fieldClocks ?? {},
+        deleted_at: null,
+    };
 }
 
-/** Insert or update a root for the signed-in user. */
-export async function upsertRoot(
-    userId: string,
-    root: string,
-    state: KnowledgeState = "learning",
-    notes = ""
-): Promise<TrackedRoot> {
-    const supabase = createClient();
-    const now = new Date().toISOString();
+const UNSCHEDULED_COLUMNS = { ease: DEFAULT_EASE, interval_days: 0, due_at: null, lapses: 0, reps: 0 };
+const UNQUIZZED_COLUMNS = { quiz_attempts: 0, quiz_correct: 0, last_quiz_at: null };
 
-    const { data, error } = await supabase
-        .from("tracked_roots")
-        .upsert(
-            {
-                user_id: userId,
-                root,
-                state,
-                notes,
-                added_at: now,
-                last_reviewed_at: now,
-            },
-            { onConflict: "user_id,root", ignoreDuplicates: false }
-        )
-        .select("root, state, notes, added_at, last_reviewed_at")
-        .single();
+function scheduleToColumns(schedule: ReviewSchedule) {
+    return {
+        ease: schedule.ease,
+        interval_days: schedule.intervalDays,
+        due_at: new Date(schedule.dueAt).toISOString(),
+        lapses: schedule.lapses,
+        reps: schedule.reps,
+    };
+}
 
-    if (error) throw new Error(error.message);
-    return supabaseRowToTrackedRoot(data);
+function quizToColumns(quiz: QuizScore) {
+    return {
+        quiz_attempts: quiz.attempts,
+        quiz_correct: quiz.correct,
+        last_quiz_at: new Date(quiz.lastAttemptAt).toISOString(),
+    };
 }
 
-/** Partial update (state and/or notes) for an already-tracked root. */
-export async function updateRoot(
-    root: string,
-    patch: Partial<Pick<TrackedRoot, "state" | "notes">>
-): Promise<TrackedRoot> {
+/** Fetch all tracked roots for the signed-in user. */
+export async function getTrackedRoots(): Promise<TrackedRoot[]> {
     const supabase = createClient();
-    const now = new Date().toISOString();
-
     const { data, error } = await supabase
         .from("tracked_roots")
-        .update({ ...patch, last_reviewed_at: now })
-        .eq("root", root)
-        .select("root, state, notes, added_at, last_reviewed_at")
-        .single();
+        .select(ROOT_COLUMNS)
+        .order("added_at", { ascending: false });
 
     if (error) throw new Error(error.message);
-    return supabaseRowToTrackedRoot(data);
+    // Tombstoned rows only exist for sync
+    return (data ?? []).filter((row) => !row.deleted_at).map(supabaseRowToTrackedRoot);
 }
 
-/** Remove a tracked root for the signed-in user. */
-export async function removeRoot(root: string): Promise<void> {
+/** Cloud state of one root for the sync engine, including its tombstone. */
+export async function getRootSyncState(root: string): Promise<SyncState<TrackedRoot>> {
     const supabase = createClient();
-    const { error } = await supabase
+    const { data, error } = await supabase
         .from("tracked_roots")
-        .delete()
-        .eq("root", root);
+        .select(ROOT_COLUMNS)
+        .eq("root", root)
+        .maybeSingle();
 
     if (error) throw new Error(error.message);
+    const row = data;
+    if (!row) return { record: null, deletedAt: null };
+    if (row.deleted_at) return { record: null, deletedAt: new Date(row.deleted_at).getTime() };
+    return { record: supabaseRowToTrackedRoot(row), deletedAt: null };
 }
 
-/** Bulk upsert – used for migrating roots from IndexedDB on first sign-in. */
-export async function batchUpsertRoots(
+/** Stores a merged root, or marks it deleted when the merge left a tombstone. */
+export async function putRootSyncState(
     userId: string,
-    roots: TrackedRoot[]
-): Promise<number> {
-    if (roots.length === 0) return 0;
+    root: string,
+    state: SyncState<TrackedRoot>
+): Promise<void> {
     const supabase = createClient();
-
-    const rows = roots.map((r) => ({
-        user_id: userId,
-        root: r.root,
-        state: r.state,
-        notes: r.notes,
-        added_at: new Date(r.addedAt).toISOString(),
-        last_reviewed_at: new Date(r.lastReviewedAt).toISOString(),
-    }));
-
-    const { error } = await supabase
-        .from("tracked_roots")
-        .upsert(rows, { onConflict: "user_id,root", ignoreDuplicates: false });
+    const { error } = state.record
+        ? await supabase
+            .from("tracked_roots")
+            .upsert(trackedRootToRow(userId, state.record), { onConflict: "user_id,root", ignoreDuplicates: false })
+        : await supabase
+            .from("tracked_roots")
+            .update({ deleted_at: new Date(state.deletedAt ?? Date.now()).toISOString() })
+            .eq("root", root);
 
     if (error) throw new Error(error.message);
-    return rows.length;
 }
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createStudyItem } from "@/lib/study/studyItems";
+
+// ── Supabase client mock ───────────────────────────────────────────────────────
+const mockFrom = vi.fn();
+
+vi.mock("@/lib/supabase/client", () => ({
+    createClient: vi.fn(() => ({ from: mockFrom })),
+}));
+
+import {
+    getStudyItems,
+    getItemSyncState,
+    putItemSyncState,
+} from "./studyItemService";
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+const AT = "2024-01-01T00:00:00.000Z";
+const AT_MS = new Date(AT).getTime();
+
+const passage = createStudyItem(
+    { kind: "passage", sura: 18, fromAyah: 9, toAyah: 26 },
+    { label: "People of the Cave", collections: ["Stories"] },
+    AT_MS
+);
+
+const makeRow = () => ({
+    item_key: passage.id,
+    ref: passage.ref,
+    label: passage.label,
+    notes: "",
+    collections: ["Stories"],
+    added_at: AT,
+    updated_at: AT,
+});
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+describe("studyItemService", () => {
+    beforeEach(() => {
+        mockFrom.mockReset();
+    });
+
+    describe("getStudyItems", () => {
+        it("maps rows to StudyItem objects", async () => {
+            mockFrom.mockReturnValue({
+                select: vi.fn().mockReturnValue({
+                    order: vi.fn().mockResolvedValue({ data: [{ ...makeRow(), collections: null }], error: null }),
+                }),
+            });
+
+            const [item] = await getStudyItems();
+
+            expect(item).toEqual({ ...passage, collections: [] });
+        });
+
+        it("throws when Supabase returns an error", async () => {
+            mockFrom.mockReturnValue({
+                select: vi.fn().mockReturnValue({
+                    order: vi.fn().mockResolvedValue({ data: null, error: { message: "connection refused" } }),
+                }),
+            });
+
+            await expect(getStudyItems()).rejects.toThrow("connection refused");
+        });
+    });
+
+    describe("getItemSyncState", () => {
+        it("returns the tombstone time for a deleted item", async () => {
+            const eqMock = vi.fn().mockReturnValue({
+                maybeSingle: vi.fn().mockResolvedValue({ data: { ...makeRow(), deleted_at: AT }, error: null }),
+            });
+            mockFrom.mockReturnValue({ select: vi.fn().mockReturnValue({ eq: eqMock }) });
+
+            expect(await getItemSyncState(passage.id)).toEqual({ record: null, deletedAt: AT_MS });
+            expect(eqMock).toHaveBeenCalledWith("item_key", passage.id);
+        });
+    });
+
+    describe("putItemSyncState", () => {
+        it("writes the item id as item_key and its kind alongside the ref", async () => {
+            const upsertMock = vi.fn().mockResolvedValue({ error: null });
+            mockFrom.mockReturnValue({ upsert: upsertMock });
+
+            await putItemSyncState("uid", passage.id, { record: passage, deletedAt: null });
+
+            expect(upsertMock).toHaveBeenCalledWith(
+                expect.objectContaining({ user_id: "uid", item_key: "passage:18:9-26", kind: "passage", added_at: AT, deleted_at: null }),
+                { onConflict: "user_id,item_key", ignoreDuplicates: false }
+            );
+        });
+    });
+});
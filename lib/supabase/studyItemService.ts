@@ -0,0 +1,96 @@
+/**
+ * Supabase study item service – reads study_items and stores sync merges.
+ * Uses the browser Supabase client; RLS enforces user_id isolation.
+ */
+
+import { createClient } from "@/lib/supabase/client";
+import type { StudyItem, StudyItemRef } from "@/lib/study/studyItems";
+import type { FieldClocks, SyncState } from "@/lib/sync/lww";
+
+const ITEM_COLUMNS = "item_key, ref, label, notes, collections, added_at, updated_at, field_clocks, deleted_at";
+
+function supabaseRowToStudyItem(row: {
+    item_key: string;
+    ref: unknown;
+    label: string;
+    notes: string;
+    collections: string[] | null;
+    added_at: string;
+    updated_at: string;
+    field_clocks?: unknown;
+    deleted_at?: string | null;
+}): StudyItem {
+    const item: StudyItem = {
+        id: row.item_key,
+        ref: row.ref as StudyItemRef,
+        label: row.label,
+        notes: row.notes,
+        collections: row.collections ?? [],
+        addedAt: new Date(row.added_at).getTime(),
+        updatedAt: new Date(row.updated_at).getTime(),
+    };
+    if (row.field_clocks && Object.keys(row.field_clocks).length > 0) {
+        item.fieldClocks = row.field_clocks as FieldClocks;
+    }
+    return item;
+}
+
+function studyItemToRow(userId: string, item: StudyItem) {
+    return {
+        user_id: userId,
+        item_key: item.id,
+        kind: item.ref.kind,
+        ref: item.ref,
+        label: item.label,
+        notes: item.notes,
+        collections: item.collections,
+        added_at: new Date(item.addedAt).toISOString(),
+        updated_at: new Date(item.updatedAt).toISOString(),
+        field_clocks: item.fieldClocks ?? {},
+        deleted_at: null,
+    };
+}
+
+/** Fetch all study items for the signed-in user. */
+export async function getStudyItems(): Promise<StudyItem[]> {
+    const supabase = createClient();
+    const { data, error } = await supabase
+        .from("study_items")
+        .select(ITEM_COLUMNS)
+        .order("added_at", { ascending: false });
+
+    if (error) throw new Error(error.message);
+    // Tombstoned rows only exist for sync
+    return (data ?? []).filter((row) => !row.deleted_at).map(supabaseRowToStudyItem);
+}
+
+/** Cloud state of one item for the sync engine, including its tombstone. */
+export async function getItemSyncState(id: string): Promise<SyncState<StudyItem>> {
+    const supabase = createClient();
+    const { data, error } = await supabase
+        .from("study_items")
+        .select(ITEM_COLUMNS)
+        .eq("item_key", id)
+        .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    const row = data;
+    if (!row) return { record: null, deletedAt: null };
+    if (row.deleted_at) return { record: null, deletedAt: new Date(row.deleted_at).getTime() };
+    return { record: supabaseRowToStudyItem(row), deletedAt: null };
+}
+
+/** Stores a merged item, or marks it deleted when the merge left a tombstone. */
+export async function putItemSyncState(userId: string, id: string, state: SyncState<StudyItem>): Promise<void> {
+    const supabase = createClient();
+    const { error } = state.record
+        ? await supabase
+            .from("study_items")
+            .upsert(studyItemToRow(userId, state.record), { onConflict: "user_id,item_key", ignoreDuplicates: false })
+        : await supabase
+            .from("study_items")
+            .update({ deleted_at: new Date(state.deletedAt ?? Date.now()).toISOString() })
+            .eq("item_key", id);
+
+    if (error) throw new Error(error.message);
+}
@@ -25,6 +25,16 @@ export interface Database {
                     notes: string;
                     added_at: string;
                     last_reviewed_at: string;
+                    ease: number;
+                    interval_days: number;
+                    due_at: string | null;
+                    lapses: number;
+                    reps: number;
+                    quiz_attempts: number;
+                    quiz_correct: number;
+                    last_quiz_at: string | null;
+                    field_clocks: Json;
+                    deleted_at: string | null;
                 };
                 Insert: {
                     id?: string;
@@ -34,11 +44,70 @@ export interface Database {
                     notes?: string;
                     added_at?: string;
                     last_reviewed_at?: string;
+                    ease?: number;
+                    interval_days?: number;
+                    due_at?: string | null;
+                    lapses?: number;
+                    reps?: number;
+                    quiz_attempts?: number;
+                    quiz_correct?: number;
+                    last_quiz_at?: string | null;
+                    field_clocks?: Json;
+                    deleted_at?: string | null;
                 };
                 Update: {
                     state?: "learning" | "learned";
                     notes?: string;
                     last_reviewed_at?: string;
+                    ease?: number;
+                    interval_days?: number;
+                    due_at?: string | null;
+                    lapses?: number;
+                    reps?: number;
+                    quiz_attempts?: number;
+                    quiz_correct?: number;
+                    last_quiz_at?: string | null;
+                    field_clocks?: Json;
+                    deleted_at?: string | null;
+                };
+                Relationships: [];
+            };
+            study_items: {
+                Row: {
+                    id: string;
+                    user_id: string;
+                    item_key: string;
+                    kind: "root" | "lemma" | "ayah" | "passage" | "search";
+                    ref: Json;
+                    label: string;
+                    notes: string;
+                    collections: string[];
+                    added_at: string;
+                    updated_at: string;
+                    field_clocks: Json;
+                    deleted_at: string | null;
+                };
+                Insert: {
+                    id?: string;
+                    user_id: string;
+                    item_key: string;
+                    kind: "root" | "lemma" | "ayah" | "passage" | "search";
+                    ref: Json;
+                    label?: string;
+                    notes?: string;
+                    collections?: string[];
+                    added_at?: string;
+                    updated_at?: string;
+                    field_clocks?: Json;
+                    deleted_at?: string | null;
+                };
+                Update: {
+                    label?: string;
+                    notes?: string;
+                    collections?: string[];
+                    updated_at?: string;
+                    field_clocks?: Json;
+                    deleted_at?: string | null;
                 };
                 Relationships: [];
             };
@@ -134,6 +203,21 @@ export interface Database {
                 };
                 Relationships: [];
             };
+            root_window_counts: {
+                Row: {
+                    root: string;
+                    window_type: string;
+                    window_count: number;
+                };
+                Relationships: [];
+            };
+            collocation_window_totals: {
+                Row: {
+                    window_type: string;
+                    total_windows: number;
+                };
+                Relationships: [];
+            };
         };
         Functions: {
             search_roots_semantic: {
@@ -152,6 +236,17 @@ export interface Database {
                 Args: { target_root: string; window_type: string; min_pmi: number; limit_n: number };
                 Returns: Array<{ root: string; co_count: number; pmi: number; surah_count: number }>;
             };
+            get_collocate_counts: {
+                Args: { target_root: string; window_type: string; min_count: number };
+                Returns: Array<{
+                    root: string;
+                    co_count: number;
+                    target_count: number;
+                    collocate_count: number;
+                    total_windows: number;
+                    surah_count: number;
+                }>;
+            };
             cross_reference_roots: {
                 Args: { root_a: string; root_b: string };
                 Returns: Array<{ sura: number; ayah: number; roots: string[] }>;
@@ -0,0 +1,65 @@
+/**
+ * Sync wiring for the knowledge tracker: the IndexedDB operation log, the
+ * Supabase services and how tracked roots and study items merge.
+ */
+
+import { knowledgeCache, type TrackedRoot } from "@/lib/cache/knowledgeCache";
+import { createStudyItem, type StudyItem, type StudyItemRef } from "@/lib/study/studyItems";
+import * as knowledgeService from "@/lib/supabase/knowledgeService";
+import * as studyItemService from "@/lib/supabase/studyItemService";
+import { isSupabaseFetchError } from "@/lib/supabase/errors";
+import type { SyncOp, SyncRecordType } from "@/lib/sync/lww";
+import { SyncEngine, type SyncAdapter } from "@/lib/sync/syncEngine";
+
+export const ROOT_SYNC_TYPE: SyncRecordType<TrackedRoot> = {
+  create: (root, op) => ({ root, state: "learning", notes: "", addedAt: op.at, lastReviewedAt: op.at }),
+  updatedAt: (entry) => entry.lastReviewedAt,
+};
+
+// A put that creates an item always carries its `ref`
+export const ITEM_SYNC_TYPE: SyncRecordType<StudyItem> = {
+  create: (_id, op) => createStudyItem(op.fields.ref as StudyItemRef, {}, op.at),
+  updatedAt: (item) => item.updatedAt,
+};
+
+/**
+ * A put that writes every field of a whole root, e.g. one imported or migrated
+ * from the device, stamped with `at` like any other edit.
+ */
+export function rootPutOp(userId: string, entry: TrackedRoot, at: number): SyncOp {
+  const fields: Record<string, unknown> = { ...entry };
+  delete fields.root;
+  delete fields.fieldClocks;
+  return { userId, entity: "root", key: entry.root, type: "put", fields, at };
+}
+
+/** Same as `rootPutOp` for a whole study item. */
+export function itemPutOp(userId: string, item: StudyItem, at: number): SyncOp {
+  const fields: Record<string, unknown> = { ...item };
+  delete fields.id;
+  delete fields.fieldClocks;
+  return { userId, entity: "item", key: item.id, type: "put", fields, at };
+}
+
+const rootAdapter: SyncAdapter<TrackedRoot> = {
+  ...ROOT_SYNC_TYPE,
+  read: (root) => knowledgeService.getRootSyncState(root),
+  write: (userId, root, state) => knowledgeService.putRootSyncState(userId, root, state),
+};
+
+const itemAdapter: SyncAdapter<StudyItem> = {
+  ...ITEM_SYNC_TYPE,
+  read: (id) => studyItemService.getItemSyncState(id),
+  write: (userId, id, state) => studyItemService.putItemSyncState(userId, id, state),
+};
+
+export const knowledgeSync = new SyncEngine({
+  queue: {
+    add: (op) => knowledgeCache.addSyncOp(op),
+    list: (userId) => knowledgeCache.getSyncOps(userId),
+    remove: (id) => knowledgeCache.removeSyncOp(id),
+  },
+  adapters: { root: rootAdapter, item: itemAdapter },
+  isOfflineError: (error) =>
+    isSupabaseFetchError(error) || (error instanceof TypeError && /fetch|network/i.test(error.message)),
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { applySyncOp, replaySyncOps, type SyncOp, type SyncRecordType } from "@/lib/sync/lww";
+
+interface Note {
+  key: string;
+  title: string;
+  body: string;
+  updatedAt: number;
+  fieldClocks?: Record<string, number>;
+}
+
+const noteType: SyncRecordType<Note> = {
+  create: (key, op) => ({ key, title: "", body: "", updatedAt: op.at }),
+  updatedAt: (note) => note.updatedAt,
+};
+
+function put(at: number, fields: Record<string, unknown>, key = "a"): SyncOp {
+  return { userId: "u", entity: "root", key, type: "put", fields, at };
+}
+
+function remove(at: number, key = "a"): SyncOp {
+  return { userId: "u", entity: "root", key, type: "delete", fields: {}, at };
+}
+
+describe("applySyncOp", () => {
+  const cloud: Note = { key: "a", title: "old", body: "old", updatedAt: 100, fieldClocks: { title: 300 } };
+
+  it("decides each field by its own clock", () => {
+    const result = applySyncOp({ record: cloud, deletedAt: null }, put(200, { title: "mine", body: "mine" }), noteType);
+
+    expect(result.changed).toBe(true);
+    // title was written at 300 elsewhere; body only has the record's clock (100)
+    expect(result.record).toMatchObject({ title: "old", body: "mine", fieldClocks: { title: 300, body: 200 } });
+  });
+
+  it("reports no change when every field lost", () => {
+    const result = applySyncOp({ record: cloud, deletedAt: null }, put(250, { title: "stale" }), noteType);
+
+    expect(result).toEqual({ record: cloud, deletedAt: null, changed: false });
+  });
+
+  it("leaves a tombstone unless the record was edited after the delete", () => {
+    expect(applySyncOp({ record: cloud, deletedAt: null }, remove(400), noteType)).toEqual({
+      record: null,
+      deletedAt: 400,
+      changed: true,
+    });
+    expect(applySyncOp({ record: cloud, deletedAt: null }, remove(200), noteType).changed).toBe(false);
+  });
+
+  it("only resurrects a deleted record with a newer write", () => {
+    const deleted = { record: null, deletedAt: 500 };
+
+    expect(applySyncOp(deleted, put(450, { title: "late" }), noteType).changed).toBe(false);
+    expect(applySyncOp(deleted, put(600, { title: "new" }), noteType)).toMatchObject({
+      record: { key: "a", title: "new", fieldClocks: { title: 600 } },
+      deletedAt: null,
+      changed: true,
+    });
+  });
+});
+
+describe("replaySyncOps", () => {
+  it("applies pending operations for one entity in order", () => {
+    const records = new Map<string, Note>([["a", { key: "a", title: "t", body: "b", updatedAt: 10 }]]);
+    const ops = [
+      put(20, { body: "edited" }),
+      put(30, { title: "new" }, "b"),
+      remove(40, "a"),
+      { ...put(50, { title: "item" }, "c"), entity: "item" as const },
+    ];
+
+    const next = replaySyncOps(records, ops, "root", noteType);
+
+    expect([...next.keys()]).toEqual(["b"]);
+    expect(next.get("b")).toMatchObject({ title: "new", updatedAt: 30 });
+  });
+});
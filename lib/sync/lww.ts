@@ -0,0 +1,102 @@
+/**
+ * Last-writer-wins merge for the knowledge sync log. Every synced record keeps
+ * a timestamp per field (`fieldClocks`), so edits to different fields on two
+ * devices both survive and only the same field is decided by time. Deletions
+ * leave a tombstone time that a later edit can override.
+ */
+
+export type SyncEntity = "root" | "item";
+
+export type FieldClocks = Record<string, number>;
+
+export interface SyncOp {
+  id?: number; // assigned by the IndexedDB queue, in enqueue order
+  userId: string;
+  entity: SyncEntity;
+  key: string; // root, or study item id
+  type: "put" | "delete";
+  // Fields written by a put, with their new values.
+  fields: Record<string, unknown>;
+  at: number; // epoch ms
+}
+
+export interface Clocked {
+  fieldClocks?: FieldClocks;
+}
+
+export interface SyncState<T> {
+  record: T | null;
+  deletedAt: number | null; // tombstone, epoch ms
+}
+
+export interface SyncRecordType<T extends Clocked> {
+  // A new record for a key that only exists through a put.
+  create(key: string, op: SyncOp): T;
+  // Clock for fields that predate per-field clocks.
+  updatedAt(record: T): number;
+}
+
+function fieldClock<T extends Clocked>(record: T, field: string, type: SyncRecordType<T>): number {
+  return record.fieldClocks?.[field] ?? type.updatedAt(record);
+}
+
+function latestClock<T extends Clocked>(record: T, type: SyncRecordType<T>): number {
+  return Math.max(type.updatedAt(record), ...Object.values(record.fieldClocks ?? {}));
+}
+
+/**
+ * Applies one logged operation on top of a record's state. `changed` is false
+ * when every field of the operation lost to a newer write, so nothing needs
+ * to be stored.
+ */
+export function applySyncOp<T extends Clocked>(
+  state: SyncState<T>,
+  op: SyncOp,
+  type: SyncRecordType<T>
+): SyncState<T> & { changed: boolean } {
+  const { record, deletedAt } = state;
+
+  if (op.type === "delete") {
+    if (!record) {
+      const changed = deletedAt === null || deletedAt < op.at;
+      return { record: null, deletedAt: changed ? op.at : deletedAt, changed };
+    }
+    // An edit made after the delete keeps the record alive
+    if (latestClock(record, type) > op.at) return { ...state, changed: false };
+    return { record: null, deletedAt: op.at, changed: true };
+  }
+
+  if (!record && deletedAt !== null && deletedAt >= op.at) return { ...state, changed: false };
+
+  const base = record ?? type.create(op.key, op);
+  const written: Record<string, unknown> = {};
+  const fieldClocks: FieldClocks = { ...base.fieldClocks };
+  let changed = !record;
+  for (const [field, value] of Object.entries(op.fields)) {
+    if (record && fieldClock(record, field, type) > op.at) continue;
+    written[field] = value;
+    fieldClocks[field] = op.at;
+    changed = true;
+  }
+
+  if (!changed) return { ...state, changed: false };
+  return { record: { ...base, ...written, fieldClocks } as T, deletedAt: null, changed };
+}
+
+/** Replays not-yet-synced operations for one entity over records keyed by id. */
+export function replaySyncOps<T extends Clocked>(
+  records: Map<string, T>,
+  ops: SyncOp[],
+  entity: SyncEntity,
+  type: SyncRecordType<T>
+): Map<string, T> {
+  const next = new Map(records);
+  for (const op of ops) {
+    if (op.entity !== entity) continue;
+    const { record, changed } = applySyncOp({ record: next.get(op.key) ?? null, deletedAt: null }, op, type);
+    if (!changed) continue;
+    if (record) next.set(op.key, record);
+    else next.delete(op.key);
+  }
+  return next;
+}
@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { SyncOp, SyncState } from "@/lib/sync/lww";
+import { SyncEngine, type SyncAdapter, type SyncQueue, type SyncStatus } from "@/lib/sync/syncEngine";
+
+interface Note {
+  key: string;
+  title: string;
+  updatedAt: number;
+  fieldClocks?: Record<string, number>;
+}
+
+function memoryQueue(): SyncQueue & { ops: SyncOp[] } {
+  let nextId = 1;
+  const ops: SyncOp[] = [];
+  return {
+    ops,
+    add: async (op) => {
+      const stored = { ...op, id: nextId++ };
+      ops.push(stored);
+      return stored;
+    },
+    list: async (userId) => ops.filter((op) => op.userId === userId),
+    remove: async (id) => {
+      ops.splice(ops.findIndex((op) => op.id === id), 1);
+    },
+  };
+}
+
+function memoryCloud() {
+  const rows = new Map<string, SyncState<Note>>();
+  const adapter: SyncAdapter<Note> = {
+    create: (key, op) => ({ key, title: "", updatedAt: op.at }),
+    updatedAt: (note) => note.updatedAt,
+    read: vi.fn(async (key: string) => rows.get(key) ?? { record: null, deletedAt: null }),
+    write: vi.fn(async (_userId: string, key: string, state: SyncState<Note>) => {
+      rows.set(key, { record: state.record, deletedAt: state.deletedAt });
+    }),
+  };
+  return { rows, adapter };
+}
+
+const put = (at: number, title: string, key = "a"): SyncOp =>
+  ({ userId: "u", entity: "root", key, type: "put", fields: { title }, at });
+
+function offlineError() {
+  return new Error("fetch failed");
+}
+
+describe("SyncEngine", () => {
+  const engines: SyncEngine[] = [];
+
+  afterEach(() => {
+    for (const engine of engines.splice(0)) engine.stop();
+    vi.useRealTimers();
+  });
+
+  function setup() {
+    const queue = memoryQueue();
+    const cloud = memoryCloud();
+    const engine = new SyncEngine({
+      queue,
+      adapters: { root: cloud.adapter, item: cloud.adapter },
+      isOfflineError: (error) => error instanceof Error && error.message === "fetch failed",
+      retryDelayMs: () => 1_000,
+    });
+    engines.push(engine);
+    const statuses: SyncStatus[] = [];
+    engine.subscribe((status) => statuses.push(status));
+    return { queue, cloud, engine, statuses };
+  }
+
+  it("pushes enqueued operations and drops them from the log", async () => {
+    const { queue, cloud, engine } = setup();
+    engine.start("u", async () => {});
+
+    await engine.enqueue(put(10, "first"));
+    await engine.enqueue(put(20, "second"));
+    await engine.flush();
+
+    expect(queue.ops).toEqual([]);
+    expect(cloud.rows.get("a")?.record).toMatchObject({ title: "second" });
+    expect(engine.getStatus()).toMatchObject({ phase: "synced", pending: 0 });
+  });
+
+  it("does not write when the cloud already has a newer value", async () => {
+    const { cloud, engine } = setup();
+    cloud.rows.set("a", { record: { key: "a", title: "remote", updatedAt: 50 }, deletedAt: null });
+    engine.start("u", async () => {});
+
+    await engine.enqueue(put(20, "stale"));
+    await engine.flush();
+
+    expect(cloud.adapter.write).not.toHaveBeenCalled();
+    expect(cloud.rows.get("a")?.record?.title).toBe("remote");
+  });
+
+  it("keeps the log while offline and retries, then pulls", async () => {
+    vi.useFakeTimers();
+    const { queue, cloud, engine } = setup();
+    const pull = vi.fn(async () => {});
+    // Still unreachable when the explicit flush below retries
+    vi.mocked(cloud.adapter.read).mockRejectedValueOnce(offlineError()).mockRejectedValueOnce(offlineError());
+    engine.start("u", pull);
+    await engine.flush();
+
+    await engine.enqueue(put(10, "offline edit"));
+    await engine.flush();
+
+    expect(engine.getStatus()).toMatchObject({ phase: "offline", pending: 1 });
+    expect(queue.ops).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(queue.ops).toEqual([]);
+    expect(cloud.rows.get("a")?.record?.title).toBe("offline edit");
+    expect(pull).toHaveBeenCalledTimes(1);
+    expect(engine.getStatus().phase).toBe("synced");
+  });
+
+  it("syncs as soon as the browser is back online", async () => {
+    vi.useFakeTimers();
+    const { cloud, engine, statuses } = setup();
+    const pull = vi.fn(async () => {});
+    // Still unreachable when the explicit flush below retries
+    vi.mocked(cloud.adapter.read).mockRejectedValueOnce(offlineError()).mockRejectedValueOnce(offlineError());
+    engine.start("u", pull);
+    await engine.flush();
+    await engine.enqueue(put(10, "edit"));
+    await engine.flush();
+
+    window.dispatchEvent(new Event("online"));
+    await vi.waitFor(() => expect(pull).toHaveBeenCalled());
+
+    expect(statuses.map((status) => status.phase)).toContain("offline");
+    expect(engine.getStatus().phase).toBe("synced");
+  });
+
+  it("only pushes the signed-in user's operations", async () => {
+    const { queue, cloud, engine } = setup();
+    await queue.add({ ...put(10, "other"), userId: "someone-else" });
+    engine.start("u", async () => {});
+
+    await engine.flush();
+
+    expect(cloud.adapter.read).not.toHaveBeenCalled();
+    expect(queue.ops).toHaveLength(1);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Offline-first push loop for the knowledge sync log. Operations are already
+ * applied locally when they are enqueued; the engine replays them against the
+ * cloud in order, merging each with `applySyncOp`, and only drops an operation
+ * from the log once the merged state is stored. Failures keep the log intact
+ * and are retried with backoff, or as soon as the browser reports it is back
+ * online.
+ */
+
+import { applySyncOp, type Clocked, type SyncEntity, type SyncOp, type SyncRecordType, type SyncState } from "@/lib/sync/lww";
+
+export type SyncPhase = "synced" | "syncing" | "pending" | "offline" | "error";
+
+export interface SyncStatus {
+  phase: SyncPhase;
+  pending: number; // operations not yet stored in the cloud
+  lastSyncedAt: number | null; // epoch ms
+}
+
+export interface SyncQueue {
+  add(op: SyncOp): Promise<SyncOp>;
+  list(userId: string): Promise<SyncOp[]>; // oldest first
+  remove(id: number): Promise<void>;
+}
+
+export interface SyncAdapter<T extends Clocked> extends SyncRecordType<T> {
+  read(key: string): Promise<SyncState<T>>;
+  write(userId: string, key: string, state: SyncState<T>): Promise<void>;
+}
+
+export interface SyncEngineOptions {
+  queue: SyncQueue;
+  adapters: Record<SyncEntity, SyncAdapter<Clocked>>;
+  isOfflineError: (error: unknown) => boolean;
+  retryDelayMs?: (attempt: number) => number;
+}
+
+const INITIAL_STATUS: SyncStatus = { phase: "synced", pending: 0, lastSyncedAt: null };
+
+export function defaultRetryDelayMs(attempt: number): number {
+  return Math.min(60_000, 2_000 * 2 ** attempt);
+}
+
+export class SyncEngine {
+  private userId: string | null = null;
+  private pull: (() => Promise<void>) | null = null;
+  private status: SyncStatus = INITIAL_STATUS;
+  private listeners = new Set<(status: SyncStatus) => void>();
+  private running: Promise<void> = Promise.resolve();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempt = 0;
+  // Set after a failed push: other devices may have written in the meantime
+  private needsPull = false;
+
+  constructor(private readonly options: SyncEngineOptions) {}
+
+  /**
+   * Starts pushing the log of `userId`. `pull` reloads cloud state into the
+   * app and runs after the log drains following an outage or `syncNow`.
+   */
+  start(userId: string, pull: () => Promise<void>): void {
+    this.stop();
+    this.userId = userId;
+    this.pull = pull;
+    if (typeof window !== "undefined") window.addEventListener("online", this.handleOnline);
+    void this.flush();
+  }
+
+  stop(): void {
+    if (typeof window !== "undefined") window.removeEventListener("online", this.handleOnline);
+    this.clearRetry();
+    this.userId = null;
+    this.pull = null;
+    this.attempt = 0;
+    this.needsPull = false;
+    this.setStatus(INITIAL_STATUS);
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Appends an operation that was already applied locally. Resolves once it
+   * is in the log; the push runs in the background unless a retry is already
+   * waiting.
+   */
+  async enqueue(op: SyncOp): Promise<void> {
+    await this.options.queue.add(op);
+    const waiting = this.retryTimer !== null;
+    this.setStatus({ ...this.status, phase: waiting ? this.status.phase : "pending", pending: this.status.pending + 1 });
+    if (!waiting) void this.flush();
+  }
+
+  /** Pushes the log, then reloads cloud state. */
+  async syncNow(): Promise<void> {
+    this.needsPull = true;
+    this.clearRetry();
+    this.attempt = 0;
+    await this.flush();
+  }
+
+  /** Pushes pending operations; calls are serialized. */
+  flush(): Promise<void> {
+    this.running = this.running.then(() => this.drain());
+    return this.running;
+  }
+
+  private handleOnline = () => {
+    void this.syncNow();
+  };
+
+  private async drain(): Promise<void> {
+    const userId = this.userId;
+    if (!userId) return;
+    const { queue, adapters, isOfflineError } = this.options;
+
+    try {
+      const ops = await queue.list(userId);
+      this.setStatus({ ...this.status, phase: ops.length > 0 ? "syncing" : this.status.phase, pending: ops.length });
+
+      for (const [index, op] of ops.entries()) {
+        const adapter = adapters[op.entity];
+        const merged = applySyncOp(await adapter.read(op.key), op, adapter);
+        if (merged.changed) await adapter.write(userId, op.key, merged);
+        if (op.id !== undefined) await queue.remove(op.id);
+        if (this.userId !== userId) return;
+        this.setStatus({ ...this.status, pending: ops.length - index - 1 });
+      }
+
+      if (this.needsPull && this.pull) {
+        this.needsPull = false;
+        await this.pull();
+      }
+      if (this.userId !== userId) return;
+      this.attempt = 0;
+      this.setStatus({ phase: "synced", pending: 0, lastSyncedAt: Date.now() });
+    } catch (error) {
+      if (this.userId !== userId) return;
+      const offline = isOfflineError(error) || (typeof navigator !== "undefined" && navigator.onLine === false);
+      if (!offline) console.error("[SyncEngine] push failed", error);
+      this.needsPull = true;
+      this.setStatus({ ...this.status, phase: offline ? "offline" : "error" });
+      this.scheduleRetry();
+    }
+  }
+
+  private scheduleRetry() {
+    this.clearRetry();
+    const delay = (this.options.retryDelayMs ?? defaultRetryDelayMs)(this.attempt);
+    this.attempt += 1;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.flush();
+    }, delay);
+  }
+
+  private clearRetry() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private setStatus(status: SyncStatus) {
+    this.status = status;
+    for (const listener of this.listeners) listener(status);
+  }
+}
@@ -0,0 +1,15 @@
+import {
+  createCorpusWorkerHandler,
+  type CorpusWorkerRequest,
+  type CorpusWorkerResponse,
+} from "@/lib/workers/corpusWorkerProtocol";
+
+// The DOM lib types `self` as a window; only these two members are used here.
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<CorpusWorkerRequest>) => void) | null;
+  postMessage: (response: CorpusWorkerResponse) => void;
+};
+
+const handle = createCorpusWorkerHandler((response) => scope.postMessage(response));
+
+scope.onmessage = (event) => handle(event.data);
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from "vitest";
+import type { CorpusToken } from "@/lib/schema/types";
+import { buildMushafIndex } from "@/lib/corpus/mushaf";
+import { getCorpusWorker, isAbortError } from "./corpusWorkerClient";
+
+const { loadMushafIndex, quranApi } = vi.hoisted(() => ({
+  loadMushafIndex: vi.fn(),
+  quranApi: { getChapters: vi.fn() },
+}));
+vi.mock("@/lib/corpus/mushafLoader", () => ({ loadMushafIndex }));
+vi.mock("@/lib/api/quranApi", () => ({ quranApi }));
+
+const tokens: CorpusToken[] = [
+  {
+    id: "1:1:1",
+    sura: 1,
+    ayah: 1,
+    position: 1,
+    text: "بِسْمِ",
+    root: "سمو",
+    lemma: "اسْم",
+    pos: "N",
+    morphology: { features: {}, gloss: "name", stem: null },
+  },
+];
+
+// jsdom has no Worker, so these exercise the main-thread fallback.
+describe("corpus worker client", () => {
+  it("shares one client per token array", () => {
+    expect(getCorpusWorker(tokens)).toBe(getCorpusWorker(tokens));
+  });
+
+  it("resolves queries asynchronously", async () => {
+    const ids = await getCorpusWorker(tokens).run({ type: "phaseOne", query: { root: "سمو" } });
+    expect(ids).toEqual(["1:1:1"]);
+  });
+
+  it("loads mushaf pages before running a page-scoped query", async () => {
+    const mushaf = { juz: 1, hizb: 1, rub: 1, manzil: 1, ruku: 1, page: 1, sajdah: null };
+    loadMushafIndex.mockResolvedValue(buildMushafIndex([{ id: "1:1", suraId: 1, ayahNumber: 1, mushaf }]));
+
+    expect(await getCorpusWorker(tokens).run({ type: "phaseOne", query: { scopes: [{ kind: "page", from: 1, to: 1 }] } })).toEqual([
+      "1:1:1",
+    ]);
+    await getCorpusWorker(tokens).run({ type: "search", query: "page:2" });
+    expect(loadMushafIndex).toHaveBeenCalledTimes(1);
+  });
+
+  it("loads the surahs' revelation places before running a Makki sub-corpus query", async () => {
+    quranApi.getChapters.mockResolvedValue([{ id: 1, revelation_place: "makkah" }]);
+    const target = { kind: "root" as const, value: "سمو" };
+    const options = { windowType: "ayah" as const, minFrequency: 1 };
+
+    const pair = await getCorpusWorker(tokens).run({
+      type: "pair",
+      termA: target,
+      termB: target,
+      options,
+      subCorpus: { revelationPlace: "makkah" },
+    });
+
+    expect(quranApi.getChapters).toHaveBeenCalledTimes(1);
+    expect(pair.countA).toBe(1);
+  });
+
+  it("rejects aborted queries with an AbortError", async () => {
+    const controller = new AbortController();
+    const pending = getCorpusWorker(tokens).run({ type: "search", query: "name" }, controller.signal);
+    controller.abort();
+
+    const error = await pending.catch((reason: unknown) => reason);
+    expect(isAbortError(error)).toBe(true);
+  });
+
+  it("rejects queries already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(getCorpusWorker(tokens).run({ type: "search", query: "name" }, controller.signal)).rejects.toSatisfy(
+      isAbortError
+    );
+  });
+});
@@ -0,0 +1,175 @@
+import { quranApi } from "@/lib/api/quranApi";
+import type { CorpusToken } from "@/lib/schema/types";
+import { ayahHizbsOf, ayahPagesOf } from "@/lib/corpus/mushaf";
+import { loadMushafIndex } from "@/lib/corpus/mushafLoader";
+import { revelationPlacesOf } from "@/lib/search/subCorpus";
+import {
+  applyMushaf,
+  applyRevelationPlaces,
+  createCorpusWorkerState,
+  queryUsesMushaf,
+  queryUsesRevelationPlaces,
+  runCorpusQuery,
+  type CorpusQueryOf,
+  type CorpusQueryResults,
+  type CorpusQueryType,
+  type CorpusWorkerRequest,
+  type CorpusWorkerResponse,
+  type CorpusWorkerState,
+} from "@/lib/workers/corpusWorkerProtocol";
+
+interface PendingQuery {
+  resolve: (result: CorpusQueryResults[CorpusQueryType]) => void;
+  reject: (error: Error) => void;
+}
+
+function abortError(): Error {
+  return new DOMException("Corpus query was cancelled", "AbortError");
+}
+
+export function isAbortError(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { name?: unknown }).name === "AbortError";
+}
+
+/**
+ * Promise API over the corpus worker for one token array. Where workers are
+ * unavailable (server rendering, tests) queries run on the main thread on a
+ * later task, with the same cancellation behaviour. Queries with a `page:`
+ * scope or a hizb sub-corpus first load the mushaf positions, and Makki or
+ * Madani sub-corpora the chapter metadata, and hand them to the worker.
+ */
+class CorpusWorkerClient {
+  private worker: Worker | null = null;
+  private fallback: CorpusWorkerState | null = null;
+  private pending = new Map<number, PendingQuery>();
+  private nextId = 1;
+  private mushafLoaded: Promise<void> | null = null;
+  private chaptersLoaded: Promise<void> | null = null;
+
+  constructor(tokens: CorpusToken[]) {
+    if (typeof Worker === "undefined") {
+      this.fallback = createCorpusWorkerState(tokens);
+      return;
+    }
+    this.worker = new Worker(new URL("./corpus.worker.ts", import.meta.url), { type: "module" });
+    this.worker.onmessage = (event: MessageEvent<CorpusWorkerResponse>) => this.handleResponse(event.data);
+    this.worker.onerror = (event) => {
+      console.error("[CorpusWorker] Worker failed:", event.message);
+      this.failAll(new Error(event.message || "Corpus worker failed"));
+    };
+    this.post({ type: "init", tokens });
+  }
+
+  run<K extends CorpusQueryType>(query: CorpusQueryOf<K>, signal?: AbortSignal): Promise<CorpusQueryResults[K]> {
+    if (signal?.aborted) return Promise.reject(abortError());
+    const loads = [
+      ...(queryUsesMushaf(query) ? [this.loadMushaf()] : []),
+      ...(queryUsesRevelationPlaces(query) ? [this.loadChapters()] : []),
+    ];
+    if (loads.length === 0) return this.send(query, signal);
+    return Promise.all(loads).then(() => this.send(query, signal));
+  }
+
+  terminate() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.failAll(abortError());
+  }
+
+  private loadMushaf(): Promise<void> {
+    this.mushafLoaded ??= loadMushafIndex().then((index) => {
+      const mushaf = { ayahPages: ayahPagesOf(index), ayahHizbs: ayahHizbsOf(index) };
+      if (this.fallback) applyMushaf(this.fallback, mushaf);
+      else this.post({ type: "mushaf", ...mushaf });
+    });
+    this.mushafLoaded.catch(() => {
+      // Allow a later retry after a failed load.
+      this.mushafLoaded = null;
+    });
+    return this.mushafLoaded;
+  }
+
+  private loadChapters(): Promise<void> {
+    this.chaptersLoaded ??= quranApi.getChapters().then((chapters) => {
+      const revelationPlaces = revelationPlacesOf(chapters);
+      if (this.fallback) applyRevelationPlaces(this.fallback, revelationPlaces);
+      else this.post({ type: "chapters", revelationPlaces });
+    });
+    this.chaptersLoaded.catch(() => {
+      this.chaptersLoaded = null;
+    });
+    return this.chaptersLoaded;
+  }
+
+  private send<K extends CorpusQueryType>(query: CorpusQueryOf<K>, signal?: AbortSignal): Promise<CorpusQueryResults[K]> {
+    if (signal?.aborted) return Promise.reject(abortError());
+
+    const id = this.nextId++;
+    return new Promise<CorpusQueryResults[K]>((resolve, reject) => {
+      const onAbort = () => {
+        this.pending.delete(id);
+        this.post({ type: "cancel", id });
+        reject(abortError());
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve: (result) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(result as CorpusQueryResults[K]);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      });
+
+      if (this.worker) {
+        this.post({ type: "query", id, query });
+      } else {
+        setTimeout(() => this.runFallback(id, query), 0);
+      }
+    });
+  }
+
+  private post(request: CorpusWorkerRequest) {
+    this.worker?.postMessage(request);
+  }
+
+  private runFallback<K extends CorpusQueryType>(id: number, query: CorpusQueryOf<K>) {
+    if (!this.fallback || !this.pending.has(id)) return;
+    try {
+      this.handleResponse({ type: "result", id, result: runCorpusQuery(this.fallback, query) });
+    } catch (error) {
+      this.handleResponse({ type: "error", id, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private handleResponse(response: CorpusWorkerResponse) {
+    const entry = this.pending.get(response.id);
+    if (!entry) return;
+    this.pending.delete(response.id);
+    if (response.type === "result") entry.resolve(response.result);
+    else entry.reject(new Error(response.message));
+  }
+
+  private failAll(error: Error) {
+    const entries = [...this.pending.values()];
+    this.pending.clear();
+    for (const entry of entries) entry.reject(error);
+  }
+}
+
+let shared: { tokens: CorpusToken[]; client: CorpusWorkerClient } | null = null;
+
+/**
+ * Shared client for the current token array. A new array (e.g. the full corpus
+ * replacing the sample) terminates the previous worker.
+ */
+export function getCorpusWorker(tokens: CorpusToken[]): CorpusWorkerClient {
+  if (shared?.tokens !== tokens) {
+    shared?.client.terminate();
+    shared = { tokens, client: new CorpusWorkerClient(tokens) };
+  }
+  return shared.client;
+}
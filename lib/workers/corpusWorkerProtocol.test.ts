@@ -0,0 +1,220 @@
+import { describe, expect, it } from "vitest";
+import type { CorpusToken } from "@/lib/schema/types";
+import { calculateRootFrequencies, getCollocations } from "@/lib/search/collocation";
+import { buildSearchCatalog, searchCorpusPage } from "@/lib/search/searchService";
+import { calculateKeyness } from "@/lib/search/keyness";
+import { calculateDispersion } from "@/lib/search/dispersion";
+import { extractNgrams } from "@/lib/search/ngrams";
+import { buildVerseSimilarityIndex, findSimilarAyahs } from "@/lib/search/verseSimilarity";
+import {
+  applyMushaf,
+  applyRevelationPlaces,
+  createCorpusWorkerHandler,
+  createCorpusWorkerState,
+  queryUsesMushaf,
+  queryUsesRevelationPlaces,
+  runCorpusQuery,
+  type CorpusWorkerResponse,
+} from "./corpusWorkerProtocol";
+
+const token = (id: string, root: string, lemma: string): CorpusToken => {
+  const [sura, ayah, position] = id.split(":").map(Number);
+  return {
+    id,
+    sura,
+    ayah,
+    position,
+    text: lemma,
+    root,
+    lemma,
+    pos: "N",
+    morphology: { features: {}, gloss: null, stem: null },
+  };
+};
+
+const tokens: CorpusToken[] = [
+  token("1:1:1", "كتب", "كِتَاب"),
+  token("1:1:2", "علم", "عِلْم"),
+  token("1:2:1", "كتب", "كَتَبَ"),
+  token("1:2:2", "قول", "قَالَ"),
+  token("2:1:1", "علم", "عَلِيم"),
+  token("2:1:2", "كتب", "كِتَاب"),
+];
+
+describe("runCorpusQuery", () => {
+  it("answers search queries like searchCorpusPage", () => {
+    const state = createCorpusWorkerState(tokens);
+    const expected = searchCorpusPage(tokens, buildSearchCatalog(tokens), "root:كتب");
+    expect(runCorpusQuery(state, { type: "search", query: "root:كتب" })).toEqual(expected);
+  });
+
+  it("builds the semantic index on first use", () => {
+    const state = createCorpusWorkerState(tokens);
+    expect(runCorpusQuery(state, { type: "semantic", query: "كتب" })[0]).toMatchObject({ kind: "semantic", matchedRoot: "كتب" });
+    const semantic = state.semantic;
+    runCorpusQuery(state, { type: "semantic", query: "علم", limit: 1 });
+    expect(state.semantic).toBe(semantic);
+  });
+
+  it("returns phase-one matches as token ids", () => {
+    const state = createCorpusWorkerState(tokens);
+    const ids = runCorpusQuery(state, {
+      type: "phaseOne",
+      query: { root: "كتب", scopes: [{ kind: "surah", from: 1, to: 1 }] },
+    });
+    expect(ids.sort()).toEqual(["1:1:1", "1:2:1"]);
+  });
+
+  it("builds frequency data once and reuses it for collocations", () => {
+    const state = createCorpusWorkerState(tokens);
+    const options = { windowType: "ayah" as const, minFrequency: 1 };
+    const result = runCorpusQuery(state, { type: "collocations", target: { kind: "root", value: "كتب" }, options });
+    const freqData = state.freqData;
+    expect(result).toEqual(getCollocations({ kind: "root", value: "كتب" }, tokens, calculateRootFrequencies(tokens), options));
+
+    runCorpusQuery(state, { type: "collocations", target: { kind: "root", value: "علم" }, options });
+    expect(state.freqData).toBe(freqData);
+  });
+
+  it("scopes collocations to a sub-corpus and caches it", () => {
+    const state = createCorpusWorkerState(tokens);
+    const options = { windowType: "ayah" as const, minFrequency: 1 };
+    const target = { kind: "root" as const, value: "كتب" };
+    const result = runCorpusQuery(state, { type: "collocations", target, options, subCorpus: { surahs: [1] } });
+    const surahOne = tokens.filter((t) => t.sura === 1);
+    expect(result).toEqual(getCollocations(target, surahOne, calculateRootFrequencies(surahOne), options));
+
+    runCorpusQuery(state, { type: "collocations", target, options, subCorpus: { surahs: [1] } });
+    expect(state.subCorpora.size).toBe(1);
+  });
+
+  it("compares the tokens in a scope against the rest for keyness", () => {
+    const state = createCorpusWorkerState(tokens);
+    const options = { minFrequency: 1, minLogLikelihood: 0 };
+    const report = runCorpusQuery(state, { type: "keyness", scope: { kind: "surah", from: 2, to: 2 }, options });
+    expect(report).toEqual(calculateKeyness(tokens.slice(4), tokens.slice(0, 4), options));
+  });
+
+  it("resolves page scopes from the supplied mushaf pages, also after the catalog is built", () => {
+    const state = createCorpusWorkerState(tokens);
+    const pageTwo = { kind: "page" as const, from: 2, to: 2 };
+    expect(runCorpusQuery(state, { type: "phaseOne", query: { scopes: [pageTwo] } })).toEqual([]);
+
+    applyMushaf(state, { ayahPages: new Map([["1:1", 1], ["1:2", 2], ["2:1", 2]]), ayahHizbs: new Map() });
+
+    expect(runCorpusQuery(state, { type: "phaseOne", query: { root: "كتب", scopes: [pageTwo] } }).sort()).toEqual([
+      "1:2:1",
+      "2:1:2",
+    ]);
+    const options = { minFrequency: 1, minLogLikelihood: 0 };
+    expect(runCorpusQuery(state, { type: "keyness", scope: pageTwo, options })).toEqual(
+      calculateKeyness(tokens.slice(2), tokens.slice(0, 2), options)
+    );
+  });
+
+  it("scopes collocations to hizb and Makki sub-corpora once their maps arrive", () => {
+    const state = createCorpusWorkerState(tokens);
+    const options = { windowType: "ayah" as const, minFrequency: 1 };
+    const target = { kind: "root" as const, value: "كتب" };
+    const hizbOne = { type: "collocations" as const, target, options, subCorpus: { hizb: { from: 1, to: 1 } } };
+    const makki = { type: "collocations" as const, target, options, subCorpus: { revelationPlace: "makkah" as const } };
+    expect(runCorpusQuery(state, hizbOne)).toEqual([]);
+
+    applyMushaf(state, { ayahPages: new Map(), ayahHizbs: new Map([["1:1", 1], ["1:2", 1], ["2:1", 2]]) });
+    applyRevelationPlaces(state, new Map([[1, "makkah"], [2, "madinah"]]));
+
+    const surahOne = tokens.filter((t) => t.sura === 1);
+    const expected = getCollocations(target, surahOne, calculateRootFrequencies(surahOne), options);
+    expect(runCorpusQuery(state, hizbOne)).toEqual(expected);
+    expect(runCorpusQuery(state, makki)).toEqual(expected);
+  });
+
+  it("detects queries that need mushaf positions or chapter metadata", () => {
+    expect(queryUsesMushaf({ type: "search", query: "root:كتب page:1-3" })).toBe(true);
+    expect(queryUsesMushaf({ type: "search", query: "root:كتب surah:2" })).toBe(false);
+    expect(queryUsesMushaf({ type: "keyness", scope: { kind: "page", from: 4, to: 4 } })).toBe(true);
+    expect(queryUsesMushaf({ type: "ngrams", options: {} })).toBe(false);
+
+    const target = { kind: "root" as const, value: "كتب" };
+    const options = { windowType: "ayah" as const };
+    const hizb = { type: "collocations" as const, target, options, subCorpus: { hizb: { from: 1, to: 2 } } };
+    const madani = { type: "collocations" as const, target, options, subCorpus: { revelationPlace: "madinah" as const } };
+    expect(queryUsesMushaf(hizb)).toBe(true);
+    expect(queryUsesRevelationPlaces(hizb)).toBe(false);
+    expect(queryUsesRevelationPlaces(madani)).toBe(true);
+  });
+
+  it("computes dispersion once per feature", () => {
+    const state = createCorpusWorkerState(tokens);
+    const roots = runCorpusQuery(state, { type: "dispersion", feature: "root" });
+    expect(roots).toEqual(calculateDispersion(tokens, "root"));
+    expect(runCorpusQuery(state, { type: "dispersion", feature: "root" })).toBe(roots);
+  });
+
+  it("extracts n-grams with the given options", () => {
+    const options = { layer: "lemma" as const, minFrequency: 1 };
+    expect(runCorpusQuery(createCorpusWorkerState(tokens), { type: "ngrams", options })).toEqual(
+      extractNgrams(tokens, options)
+    );
+  });
+
+  it("builds the verse similarity index once", () => {
+    const state = createCorpusWorkerState(tokens);
+    const similar = runCorpusQuery(state, { type: "similarAyahs", surah: 1, ayah: 1 });
+    expect(similar).toEqual(findSimilarAyahs(buildVerseSimilarityIndex(tokens), 1, 1));
+    const index = state.similarity;
+    runCorpusQuery(state, { type: "similarAyahs", surah: 2, ayah: 1, options: { measure: "jaccard" } });
+    expect(state.similarity).toBe(index);
+  });
+});
+
+describe("createCorpusWorkerHandler", () => {
+  const setup = () => {
+    const posted: CorpusWorkerResponse[] = [];
+    const tasks: Array<() => void> = [];
+    const handle = createCorpusWorkerHandler(
+      (response) => posted.push(response),
+      (run) => tasks.push(run)
+    );
+    const flush = () => {
+      while (tasks.length) tasks.shift()!();
+    };
+    handle({ type: "init", tokens });
+    return { posted, handle, flush };
+  };
+
+  it("answers queued queries in order", () => {
+    const { posted, handle, flush } = setup();
+    handle({ type: "query", id: 1, query: { type: "phaseOne", query: { root: "قول" } } });
+    handle({ type: "query", id: 2, query: { type: "phaseOne", query: { lemma: "عَلِيم" } } });
+    flush();
+
+    expect(posted).toEqual([
+      { type: "result", id: 1, result: ["1:2:2"] },
+      { type: "result", id: 2, result: ["2:1:1"] },
+    ]);
+  });
+
+  it("skips queries cancelled before they start", () => {
+    const { posted, handle, flush } = setup();
+    handle({ type: "query", id: 1, query: { type: "search", query: "كتب" } });
+    handle({ type: "query", id: 2, query: { type: "phaseOne", query: { root: "قول" } } });
+    handle({ type: "cancel", id: 1 });
+    flush();
+
+    expect(posted.map((response) => response.id)).toEqual([2]);
+  });
+
+  it("reports failures as error responses", () => {
+    const { posted, handle, flush } = setup();
+    handle({
+      type: "query",
+      id: 3,
+      query: { type: "phaseOne", query: null as unknown as { root: string } },
+    });
+    flush();
+
+    expect(posted).toHaveLength(1);
+    expect(posted[0]).toMatchObject({ type: "error", id: 3 });
+  });
+});
@@ -0,0 +1,291 @@
+import type { CorpusToken } from "@/lib/schema/types";
+import { queryPhaseOne, type PhaseOneQuery } from "@/lib/search/indexes";
+import {
+  buildSearchCatalog,
+  buildSemanticSearchIndex,
+  searchCorpusPage,
+  searchSemantic,
+  type SearchCatalog,
+  type SemanticSearchIndex,
+} from "@/lib/search/searchService";
+import type { SearchResultItem } from "@/lib/search/searchTypes";
+import { createLocalEmbeddingProvider } from "@/lib/search/embeddings";
+import type { SearchResultPage } from "@/lib/search/ranking";
+import {
+  calculateRootFrequencies,
+  getCollocations,
+  getPairCooccurrence,
+  type CollocationOptions,
+  type CollocationResult,
+  type CollocationTerm,
+  type PairCooccurrenceResult,
+  type RootFrequencyData,
+} from "@/lib/search/collocation";
+import { calculateDispersion, type DispersionFeature, type DispersionStats } from "@/lib/search/dispersion";
+import { extractNgrams, type NgramOptions, type NgramResult } from "@/lib/search/ngrams";
+import {
+  buildVerseSimilarityIndex,
+  findSimilarAyahs,
+  type SimilarAyah,
+  type SimilarAyahOptions,
+  type VerseSimilarityIndex,
+} from "@/lib/search/verseSimilarity";
+import { calculateKeyness, splitTargetReference, type KeynessOptions, type KeynessReport } from "@/lib/search/keyness";
+import { parseSearchQuery } from "@/lib/search/queryParser";
+import { ayahInScope, type SearchScope } from "@/lib/search/searchScope";
+import {
+  buildSubCorpus,
+  isFullCorpus,
+  subCorpusKey,
+  type RevelationPlace,
+  type SubCorpus,
+  type SubCorpusDefinition,
+} from "@/lib/search/subCorpus";
+
+/**
+ * Message protocol between the UI and the corpus worker. The worker receives
+ * the token array once (`init`) and answers `query` messages by id; `cancel`
+ * drops a query that has not started yet. Queries run one at a time, so a
+ * cancelled query is skipped rather than interrupted. Collocation queries may
+ * name a sub-corpus, whose filtered tokens and frequencies are cached by key.
+ * `mushaf` supplies the page and hizb of every ayah for `page:` scopes and hizb
+ * sub-corpora, and `chapters` the revelation place of every surah for Makki and
+ * Madani sub-corpora; the client sends each before the first query that needs it.
+ */
+export type CorpusQuery =
+  | { type: "search"; query: string; cursor?: string | null; limit?: number }
+  // Roots related in meaning, from the local embedding provider.
+  | { type: "semantic"; query: string; limit?: number }
+  | { type: "phaseOne"; query: PhaseOneQuery }
+  | { type: "collocations"; target: CollocationTerm; options: CollocationOptions; subCorpus?: SubCorpusDefinition }
+  | {
+      type: "pair";
+      termA: CollocationTerm;
+      termB: CollocationTerm;
+      options: Pick<CollocationOptions, "windowType" | "distance" | "span" | "stopAtAyahBoundary">;
+      subCorpus?: SubCorpusDefinition;
+    }
+  // Keyness of the tokens inside `scope` against the rest of the corpus.
+  | { type: "keyness"; scope: SearchScope; options?: KeynessOptions }
+  | { type: "dispersion"; feature: DispersionFeature }
+  | { type: "ngrams"; options: NgramOptions }
+  | { type: "similarAyahs"; surah: number; ayah: number; options?: SimilarAyahOptions };
+
+export type CorpusQueryType = CorpusQuery["type"];
+
+export type CorpusQueryOf<K extends CorpusQueryType> = Extract<CorpusQuery, { type: K }>;
+
+export interface CorpusQueryResults {
+  search: SearchResultPage;
+  semantic: SearchResultItem[];
+  // Matching token ids; the caller maps them back to its own tokens.
+  phaseOne: string[];
+  collocations: CollocationResult[];
+  pair: PairCooccurrenceResult;
+  keyness: KeynessReport;
+  dispersion: Map<string, DispersionStats>;
+  ngrams: NgramResult[];
+  similarAyahs: SimilarAyah[];
+}
+
+export type CorpusWorkerRequest =
+  | { type: "init"; tokens: CorpusToken[] }
+  | { type: "mushaf"; ayahPages: Map<string, number>; ayahHizbs: Map<string, number> }
+  | { type: "chapters"; revelationPlaces: Map<number, RevelationPlace> }
+  | { type: "query"; id: number; query: CorpusQuery }
+  | { type: "cancel"; id: number };
+
+export type CorpusWorkerResponse =
+  | { type: "result"; id: number; result: CorpusQueryResults[CorpusQueryType] }
+  | { type: "error"; id: number; message: string };
+
+/** Token array plus the indexes built from it on first use. */
+export interface CorpusWorkerState {
+  tokens: CorpusToken[];
+  // Mushaf page per ayah id; filled in place by `applyMushaf`, so a built catalog sees it.
+  ayahPages: Map<string, number>;
+  // Hizb per ayah id and revelation place per surah, for sub-corpora.
+  ayahHizbs: Map<string, number>;
+  revelationPlaces: Map<number, RevelationPlace>;
+  catalog: SearchCatalog | null;
+  semantic: SemanticSearchIndex | null;
+  freqData: RootFrequencyData | null;
+  // Filtered tokens and reference frequencies per sub-corpus key.
+  subCorpora: Map<string, SubCorpus>;
+  dispersion: Partial<Record<DispersionFeature, Map<string, DispersionStats>>>;
+  similarity: VerseSimilarityIndex | null;
+}
+
+export function createCorpusWorkerState(tokens: CorpusToken[] = []): CorpusWorkerState {
+  return {
+    tokens,
+    ayahPages: new Map(),
+    ayahHizbs: new Map(),
+    revelationPlaces: new Map(),
+    catalog: null,
+    semantic: null,
+    freqData: null,
+    subCorpora: new Map(),
+    dispersion: {},
+    similarity: null,
+  };
+}
+
+function replaceEntries<K, V>(target: Map<K, V>, source: Map<K, V>): void {
+  target.clear();
+  for (const [key, value] of source) target.set(key, value);
+}
+
+export function applyMushaf(
+  state: CorpusWorkerState,
+  { ayahPages, ayahHizbs }: { ayahPages: Map<string, number>; ayahHizbs: Map<string, number> }
+): void {
+  replaceEntries(state.ayahPages, ayahPages);
+  replaceEntries(state.ayahHizbs, ayahHizbs);
+  // Sub-corpora built without the hizbs are stale
+  state.subCorpora.clear();
+}
+
+export function applyRevelationPlaces(state: CorpusWorkerState, revelationPlaces: Map<number, RevelationPlace>): void {
+  replaceEntries(state.revelationPlaces, revelationPlaces);
+  state.subCorpora.clear();
+}
+
+function subCorpusOf(query: CorpusQuery): SubCorpusDefinition | undefined {
+  return query.type === "collocations" || query.type === "pair" ? query.subCorpus : undefined;
+}
+
+/** Whether the query has a Makki or Madani sub-corpus, which needs the surahs' revelation places. */
+export function queryUsesRevelationPlaces(query: CorpusQuery): boolean {
+  return Boolean(subCorpusOf(query)?.revelationPlace);
+}
+
+/** Whether the query has a `page:` scope or a hizb sub-corpus, which need mushaf positions. */
+export function queryUsesMushaf(query: CorpusQuery): boolean {
+  if (subCorpusOf(query)?.hizb) return true;
+  const scopes =
+    query.type === "search"
+      ? parseSearchQuery(query.query).scopes
+      : query.type === "phaseOne"
+        ? query.query.scopes
+        : query.type === "keyness"
+          ? [query.scope]
+          : undefined;
+  return (scopes ?? []).some((scope) => scope.kind === "page");
+}
+
+function getCatalog(state: CorpusWorkerState): SearchCatalog {
+  state.catalog ??= buildSearchCatalog(state.tokens, { ayahPages: state.ayahPages });
+  return state.catalog;
+}
+
+function getFreqData(state: CorpusWorkerState): RootFrequencyData {
+  state.freqData ??= calculateRootFrequencies(state.tokens);
+  return state.freqData;
+}
+
+function getSubCorpus(state: CorpusWorkerState, definition: SubCorpusDefinition | undefined): SubCorpus {
+  if (!definition || isFullCorpus(definition)) return { tokens: state.tokens, freqData: getFreqData(state) };
+  const key = subCorpusKey(definition);
+  let subCorpus = state.subCorpora.get(key);
+  if (!subCorpus) {
+    subCorpus = buildSubCorpus(state.tokens, definition, {
+      revelationPlaces: state.revelationPlaces,
+      ayahHizbs: state.ayahHizbs,
+    });
+    state.subCorpora.set(key, subCorpus);
+  }
+  return subCorpus;
+}
+
+export function runCorpusQuery<K extends CorpusQueryType>(
+  state: CorpusWorkerState,
+  query: CorpusQueryOf<K>
+): CorpusQueryResults[K];
+export function runCorpusQuery(state: CorpusWorkerState, query: CorpusQuery): CorpusQueryResults[CorpusQueryType] {
+  switch (query.type) {
+    case "search":
+      return searchCorpusPage(state.tokens, getCatalog(state), query.query, {
+        cursor: query.cursor,
+        limit: query.limit,
+      });
+    case "semantic":
+      state.semantic ??= buildSemanticSearchIndex(createLocalEmbeddingProvider(state.tokens));
+      return searchSemantic(getCatalog(state), state.semantic, query.query, query.limit);
+    case "phaseOne":
+      return [...queryPhaseOne(getCatalog(state).phaseOne, query.query)];
+    case "collocations": {
+      const { tokens, freqData } = getSubCorpus(state, query.subCorpus);
+      return getCollocations(query.target, tokens, freqData, query.options);
+    }
+    case "pair":
+      return getPairCooccurrence(query.termA, query.termB, getSubCorpus(state, query.subCorpus).tokens, query.options);
+    case "keyness": {
+      const { scope } = query;
+      const { target, reference } = splitTargetReference(state.tokens, (token) =>
+        ayahInScope(scope, token.sura, token.ayah, state.ayahPages)
+      );
+      return calculateKeyness(target, reference, query.options);
+    }
+    case "dispersion":
+      return (state.dispersion[query.feature] ??= calculateDispersion(state.tokens, query.feature));
+    case "ngrams":
+      return extractNgrams(state.tokens, query.options);
+    case "similarAyahs":
+      state.similarity ??= buildVerseSimilarityIndex(state.tokens);
+      return findSimilarAyahs(state.similarity, query.surah, query.ayah, query.options);
+  }
+}
+
+/**
+ * Message loop used by the worker entry. Queries are queued and run on a later
+ * task so that `cancel` messages sent meanwhile are seen before the work starts.
+ */
+export function createCorpusWorkerHandler(
+  post: (response: CorpusWorkerResponse) => void,
+  schedule: (run: () => void) => void = (run) => setTimeout(run, 0)
+): (request: CorpusWorkerRequest) => void {
+  let state = createCorpusWorkerState();
+  const queue: Array<{ id: number; query: CorpusQuery }> = [];
+  let scheduled = false;
+
+  const drain = () => {
+    const next = queue.shift();
+    if (!next) {
+      scheduled = false;
+      return;
+    }
+    try {
+      post({ type: "result", id: next.id, result: runCorpusQuery(state, next.query) });
+    } catch (error) {
+      post({ type: "error", id: next.id, message: error instanceof Error ? error.message : String(error) });
+    }
+    schedule(drain);
+  };
+
+  return (request) => {
+    switch (request.type) {
+      case "init":
+        state = createCorpusWorkerState(request.tokens);
+        return;
+      case "mushaf":
+        applyMushaf(state, request);
+        return;
+      case "chapters":
+        applyRevelationPlaces(state, request.revelationPlaces);
+        return;
+      case "cancel": {
+        const idx = queue.findIndex((entry) => entry.id === request.id);
+        if (idx >= 0) queue.splice(idx, 1);
+        return;
+      }
+      case "query":
+        queue.push({ id: request.id, query: request.query });
+        if (!scheduled) {
+          scheduled = true;
+          schedule(drain);
+        }
+        return;
+    }
+  };
+}
@@ -1,9 +1,7 @@
 import fs from "node:fs";
 import path from "node:path";
 import { sampleTokens } from "@/lib/corpus/sampleCorpus";
-import { buildPhaseOneIndexes, queryPhaseOne } from "@/lib/search/indexes";
-import { normalizeArabicForSearch } from "@/lib/search/arabicNormalize";
-import { parseSearchQuery } from "@/lib/search/queryParser";
+import { buildSearchCatalog, rankSearchHits, type SearchCatalog } from "@/lib/search/searchService";
 import type { CorpusToken } from "@/lib/schema/types";
 
 interface BenchmarkCase {
@@ -49,60 +47,13 @@ function loadConfig(filePath: string): BenchmarkConfig {
   return JSON.parse(raw) as BenchmarkConfig;
 }
 
-function runFreeText(tokens: CorpusToken[], query: string): Set<string> {
-  const q = query.trim();
-  const qNorm = normalizeArabicForSearch(q);
-  const qGloss = q.toLowerCase();
-  const ids = new Set<string>();
-
-  for (const token of tokens) {
-    const rootNorm = normalizeArabicForSearch(token.root);
-    const lemmaNorm = normalizeArabicForSearch(token.lemma);
-    const textNorm = normalizeArabicForSearch(token.text);
-    const gloss = token.morphology.gloss?.toLowerCase() ?? "";
-
-    if (
-      token.root.includes(q) ||
-      token.lemma.includes(q) ||
-      token.text.includes(q) ||
-      rootNorm.includes(qNorm) ||
-      lemmaNorm.includes(qNorm) ||
-      textNorm.includes(qNorm) ||
-      (qGloss.length > 1 && gloss.includes(qGloss))
-    ) {
-      ids.add(token.id);
-    }
-  }
-
-  return ids;
-}
-
-function runQuery(tokens: CorpusToken[], query: string): string[] {
-  const parsed = parseSearchQuery(query);
-  const index = buildPhaseOneIndexes(tokens);
-
-  let ids: Set<string>;
-  if (parsed.root || parsed.lemma || parsed.pos || parsed.ayah) {
-    ids = queryPhaseOne(index, {
-      root: parsed.root,
-      lemma: parsed.lemma,
-      pos: parsed.pos,
-      ayah: parsed.ayah,
-    });
-    if (parsed.freeText) {
-      const extra = runFreeText(tokens, parsed.freeText);
-      ids = new Set([...ids].filter((id) => extra.has(id)));
-    }
-  } else {
-    ids = runFreeText(tokens, parsed.raw);
-  }
-
-  // Stable ranking by corpus order
-  return tokens.filter((t) => ids.has(t.id)).map((t) => t.id);
+function runQuery(tokens: CorpusToken[], catalog: SearchCatalog, query: string): string[] {
+  // Same hit set and relevance model as the in-app search (lib/search/ranking.ts).
+  return rankSearchHits(tokens, catalog, query).map((token) => token.id);
 }
 
-function evaluateCase(tokens: CorpusToken[], c: BenchmarkCase, topK: number): CaseMetrics {
-  const ranked = runQuery(tokens, c.query).slice(0, topK);
+function evaluateCase(tokens: CorpusToken[], catalog: SearchCatalog, c: BenchmarkCase, topK: number): CaseMetrics {
+  const ranked = runQuery(tokens, catalog, c.query).slice(0, topK);
   const expected = new Set(c.expectedTokenIds);
 
   let tp = 0;
@@ -135,7 +86,8 @@ function main() {
     process.exit(1);
   }
 
-  const results = config.cases.map((c) => evaluateCase(tokens, c, topK));
+  const catalog = buildSearchCatalog(tokens);
+  const results = config.cases.map((c) => evaluateCase(tokens, catalog, c, topK));
 
   const macroPrecision = results.reduce((sum, r) => sum + r.precision, 0) / results.length;
   const macroRecall = results.reduce((sum, r) => sum + r.recall, 0) / results.length;
@@ -0,0 +1,75 @@
+const https = require("https");
+const fs = require("fs");
+const path = require("path");
+
+// Quranic Arabic Corpus syntax API; each response is one dependency graph with
+// a link to the next annotated graph.
+const SOURCE_URL = "https://qurancorpus.app/api/syntax";
+const FIRST_GRAPH = { location: [1, 1], graphNumber: 1 };
+
+const destDir = path.join(__dirname, "..", "public", "data");
+const destFile = path.join(destDir, "quranic-corpus-treebank-0.4.jsonl");
+const partialFile = `${destFile}.partial`;
+
+if (!fs.existsSync(destDir)) {
+  fs.mkdirSync(destDir, { recursive: true });
+}
+
+if (fs.existsSync(destFile) && fs.statSync(destFile).size > 0) {
+  console.log("Treebank data already present:", destFile);
+  process.exit(0);
+}
+
+function fetchGraph({ location, graphNumber }) {
+  const url = `${SOURCE_URL}?location=${location.join(":")}&graph=${graphNumber}`;
+  return new Promise((resolve, reject) => {
+    https
+      .get(url, (res) => {
+        if (res.statusCode !== 200) {
+          res.resume();
+          reject(new Error(`Download failed for ${url}: ${res.statusCode} ${res.statusMessage}`));
+          return;
+        }
+        let body = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk) => {
+          body += chunk;
+        });
+        res.on("end", () => {
+          try {
+            resolve(JSON.parse(body));
+          } catch (err) {
+            reject(new Error(`Invalid graph JSON for ${url}: ${err.message}`));
+          }
+        });
+      })
+      .on("error", reject);
+  });
+}
+
+async function main() {
+  console.log("Downloading treebank graphs...");
+  const out = fs.createWriteStream(partialFile);
+  let next = FIRST_GRAPH;
+  let count = 0;
+
+  while (next) {
+    const graph = await fetchGraph(next);
+    // One graph per line, as parsed by lib/corpus/treebankLoader.ts
+    out.write(`${JSON.stringify(graph)}\n`);
+    count += 1;
+    if (count % 500 === 0) console.log(`  ${count} graphs (${next.location.join(":")})`);
+    next = graph.next && Array.isArray(graph.next.location) ? graph.next : null;
+  }
+
+  await new Promise((resolve) => out.end(resolve));
+  fs.renameSync(partialFile, destFile);
+  console.log(`Downloaded ${count} treebank graphs to:`, destFile);
+}
+
+main().catch((err) => {
+  fs.unlink(partialFile, () => {
+    console.error("Download error:", err.message);
+    process.exit(1);
+  });
+});
@@ -2,7 +2,9 @@
  * scripts/generate-embeddings.ts
  *
  * Generates root embeddings via OpenAI text-embedding-3-small (768-dim)
- * and upserts them into the `root_embeddings` table.
+ * and upserts them into the `root_embeddings` table. The app itself does not
+ * need these: offline semantic search uses the local provider in
+ * lib/search/embeddings.ts.
  *
  * Usage:
  *   npx dotenv -e .env.local -- tsx scripts/generate-embeddings.ts
@@ -12,6 +14,7 @@
 
 import { createClient } from "@supabase/supabase-js";
 import type { Database } from "@/lib/supabase/types";
+import { createOpenAIEmbeddingProvider } from "@/lib/search/embeddings";
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -26,26 +29,7 @@ const supabase = createClient<Database>(SUPABASE_URL, SERVICE_KEY, {
     auth: { persistSession: false },
 });
 
-async function embedTexts(texts: string[]): Promise<number[][]> {
-    const res = await fetch("https://api.openai.com/v1/embeddings", {
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${OPENAI_KEY}`,
-        },
-        body: JSON.stringify({
-            model: "text-embedding-3-small",
-            input: texts,
-            dimensions: 768,
-        }),
-    });
-    if (!res.ok) {
-        const text = await res.text();
-        throw new Error(`OpenAI error: ${text}`);
-    }
-    const data = await res.json() as { data: Array<{ embedding: number[] }> };
-    return data.data.map((d) => d.embedding);
-}
+const provider = createOpenAIEmbeddingProvider({ apiKey: OPENAI_KEY });
 
 async function main() {
     console.log("🔍 Fetching distinct roots from corpus_tokens…");
@@ -64,12 +48,12 @@ async function main() {
     const CHUNK = 100; // OpenAI allows up to 2048 inputs
     for (let i = 0; i < uniqueRoots.length; i += CHUNK) {
         const batch = uniqueRoots.slice(i, i + CHUNK);
-        const embeddings = await embedTexts(batch);
+        const embeddings = await provider.embed(batch);
 
         const rows = batch.map((root, j) => ({
             root,
             embedding: embeddings[j],
-            model: "text-embedding-3-small",
+            model: provider.id,
         }));
 
         const { error: upsertErr } = await supabase
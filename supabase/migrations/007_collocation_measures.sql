@@ -0,0 +1,100 @@
+-- Migration 007: Window counts for association measures beyond PMI
+--
+-- G², t-score, Dice, logDice, MI³, chi-square and Fisher's exact test need the
+-- full 2×2 contingency table, not just the pair count. These views expose the
+-- marginal window counts; the measures are computed in the API route.
+
+-- ─────────────────────────────────────────────────────────────────
+-- 1. root_window_counts  (materialized view – windows containing each root)
+-- ─────────────────────────────────────────────────────────────────
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS root_window_counts AS
+SELECT
+    root_normalized                     AS root,
+    'ayah'::TEXT                        AS window_type,
+    COUNT(DISTINCT (sura, ayah))        AS window_count
+FROM corpus_tokens
+WHERE root_normalized <> ''
+GROUP BY root_normalized;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_root_window_counts_pk
+    ON root_window_counts (root, window_type);
+
+
+-- ─────────────────────────────────────────────────────────────────
+-- 2. collocation_window_totals  (materialized view – N per window type)
+-- ─────────────────────────────────────────────────────────────────
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS collocation_window_totals AS
+SELECT
+    'ayah'::TEXT                        AS window_type,
+    COUNT(DISTINCT sura || ':' || ayah) AS total_windows
+FROM corpus_tokens;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_collocation_window_totals_pk
+    ON collocation_window_totals (window_type);
+
+
+-- ─────────────────────────────────────────────────────────────────
+-- 3. get_collocate_counts
+--    Contingency counts for every collocate of a root.
+-- ─────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION get_collocate_counts(
+    target_root  TEXT,
+    window_type  TEXT    DEFAULT 'ayah',
+    min_count    INT     DEFAULT 2
+)
+RETURNS TABLE (
+    root            TEXT,
+    co_count        BIGINT,
+    target_count    BIGINT,
+    collocate_count BIGINT,
+    total_windows   BIGINT,
+    surah_count     BIGINT
+)
+LANGUAGE SQL STABLE
+SET search_path = public, pg_catalog
+AS $$
+    SELECT
+        pair.collocate              AS root,
+        c.co_count,
+        tc.window_count             AS target_count,
+        cc.window_count             AS collocate_count,
+        t.total_windows,
+        c.surah_count
+    FROM collocations c
+    CROSS JOIN LATERAL (
+        SELECT CASE WHEN c.root_a = target_root THEN c.root_b ELSE c.root_a END AS collocate
+    ) pair
+    JOIN root_window_counts tc
+        ON tc.root = target_root AND tc.window_type = c.window_type
+    JOIN root_window_counts cc
+        ON cc.root = pair.collocate AND cc.window_type = c.window_type
+    JOIN collocation_window_totals t
+        ON t.window_type = c.window_type
+    WHERE
+        (c.root_a = target_root OR c.root_b = target_root)
+        AND c.window_type = get_collocate_counts.window_type
+        AND c.co_count >= min_count;
+$$;
+
+
+-- ─────────────────────────────────────────────────────────────────
+-- 4. Grants and refresh
+-- ─────────────────────────────────────────────────────────────────
+
+GRANT SELECT ON root_window_counts        TO anon, authenticated;
+GRANT SELECT ON collocation_window_totals TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_collocate_counts(TEXT, TEXT, INT) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_corpus_views()
+RETURNS VOID
+LANGUAGE SQL
+SET search_path = public, pg_catalog
+AS $$
+    REFRESH MATERIALIZED VIEW CONCURRENTLY collocations;
+    REFRESH MATERIALIZED VIEW CONCURRENTLY cross_references;
+    REFRESH MATERIALIZED VIEW CONCURRENTLY root_window_counts;
+    REFRESH MATERIALIZED VIEW CONCURRENTLY collocation_window_totals;
+$$;
@@ -0,0 +1,19 @@
+-- Migration 008: Spaced-repetition schedule on tracked roots
+--
+-- SM-2 style review state (see lib/study/scheduler.ts). `due_at` stays NULL
+-- until the first review, so existing rows count as new cards that are due.
+
+ALTER TABLE tracked_roots
+    ADD COLUMN IF NOT EXISTS ease           REAL        NOT NULL DEFAULT 2.5
+                                            CHECK (ease >= 1.3),
+    ADD COLUMN IF NOT EXISTS interval_days  REAL        NOT NULL DEFAULT 0
+                                            CHECK (interval_days >= 0),
+    ADD COLUMN IF NOT EXISTS due_at         TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS lapses         INTEGER     NOT NULL DEFAULT 0
+                                            CHECK (lapses >= 0),
+    ADD COLUMN IF NOT EXISTS reps           INTEGER     NOT NULL DEFAULT 0
+                                            CHECK (reps >= 0);
+
+-- "Due today" lookups per user; the RLS policy from 003 already covers the new columns
+CREATE INDEX IF NOT EXISTS idx_tracked_roots_user_due
+    ON tracked_roots (user_id, due_at);
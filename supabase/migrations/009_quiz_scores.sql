@@ -0,0 +1,15 @@
+-- Migration 009: Quiz scores on tracked roots
+--
+-- Running totals of the generated root quizzes (see lib/study/quiz.ts).
+-- `last_quiz_at` stays NULL until the root's first quiz answer.
+
+ALTER TABLE tracked_roots
+    ADD COLUMN IF NOT EXISTS quiz_attempts  INTEGER     NOT NULL DEFAULT 0
+                                            CHECK (quiz_attempts >= 0),
+    ADD COLUMN IF NOT EXISTS quiz_correct   INTEGER     NOT NULL DEFAULT 0
+                                            CHECK (quiz_correct >= 0),
+    ADD COLUMN IF NOT EXISTS last_quiz_at   TIMESTAMPTZ;
+
+ALTER TABLE tracked_roots
+    ADD CONSTRAINT tracked_roots_quiz_correct_le_attempts
+    CHECK (quiz_correct <= quiz_attempts);
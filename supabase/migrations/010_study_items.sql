@@ -0,0 +1,47 @@
+-- Migration 010: Study items – lemmas, ayahs, passages and saved searches
+--
+-- Generalizes tracked_roots to any reference a user studies (see
+-- lib/study/studyItems.ts). `item_key` is the client-side item id
+-- ("ayah:2:255", "passage:18:9-26", ...) so re-saving an item updates it.
+
+-- ─────────────────────────────────────────────────────────────────
+-- study_items
+-- ─────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS study_items (
+    id           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id      UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    item_key     TEXT        NOT NULL,
+    kind         TEXT        NOT NULL
+                             CHECK (kind IN ('root', 'lemma', 'ayah', 'passage', 'search')),
+    ref          JSONB       NOT NULL,
+    label        TEXT        NOT NULL DEFAULT '',
+    notes        TEXT        NOT NULL DEFAULT '',
+    collections  TEXT[]      NOT NULL DEFAULT '{}',
+    added_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, item_key),
+    CHECK (ref ->> 'kind' = kind)
+);
+
+-- Row Level Security
+ALTER TABLE study_items ENABLE ROW LEVEL SECURITY;
+
+-- Users can only read/insert/update/delete their own rows
+CREATE POLICY "Users can manage own study items"
+    ON study_items
+    FOR ALL
+    USING      (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-- Same privilege hardening as tracked_roots (005): TRUNCATE bypasses RLS
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON study_items FROM anon;
+REVOKE TRUNCATE ON study_items FROM authenticated;
+REVOKE REFERENCES, TRIGGER ON study_items FROM anon, authenticated;
+
+-- Per-user lookups and collection filters
+CREATE INDEX IF NOT EXISTS idx_study_items_user_id
+    ON study_items (user_id);
+
+CREATE INDEX IF NOT EXISTS idx_study_items_collections
+    ON study_items USING GIN (collections);
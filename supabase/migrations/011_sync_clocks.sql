@@ -0,0 +1,22 @@
+-- Migration 011: Sync clocks and tombstones
+--
+-- Offline-first sync (see lib/sync/lww.ts) merges edits per field by time.
+-- `field_clocks` maps a client field name to the epoch ms it was last
+-- written; fields without an entry fall back to last_reviewed_at/updated_at.
+-- A removed root or item keeps its row with `deleted_at` set, so a device
+-- that was offline can tell a deletion from a row it never saw.
+
+ALTER TABLE tracked_roots
+    ADD COLUMN IF NOT EXISTS field_clocks  JSONB       NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS deleted_at    TIMESTAMPTZ;
+
+ALTER TABLE study_items
+    ADD COLUMN IF NOT EXISTS field_clocks  JSONB       NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS deleted_at    TIMESTAMPTZ;
+
+-- Reads only ever list live rows
+CREATE INDEX IF NOT EXISTS idx_tracked_roots_live
+    ON tracked_roots (user_id) WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_study_items_live
+    ON study_items (user_id) WHERE deleted_at IS NULL;